@@ -474,6 +474,22 @@ interface IExerciseSupplementNFT {
         uint64[2] memory _data,
         bytes memory _signature
     ) external;
+
+    /**
+     * @dev Check an EIP-712 StepReport signature for the calling challenge.
+     * @param _day An array of uint256 values representing days.
+     * @param _stepIndex An array of uint256 values representing step indices.
+     * @param _expiry Time after which the signature is rejected.
+     * @param _nonce The challenge's current StepReport nonce.
+     * @param _signature The signature to be validated.
+     */
+    function checkValidStepReport(
+        uint256[] memory _day,
+        uint256[] memory _stepIndex,
+        uint64 _expiry,
+        uint256 _nonce,
+        bytes memory _signature
+    ) external;
 }
 
 // File: Challenge/IERC721Receiver.sol
@@ -620,6 +636,11 @@ interface IPolygonDeFiAggregator {
         address _token,
         string memory _protocol
     ) external view returns (uint256 balance, uint256 shares, uint256 estimatedRewards);
+
+    function getStakeValue(
+        address _user,
+        uint256 _stakeId
+    ) external view returns (uint256 value, uint256 rewards);
     
     function getContractBalance() external view returns (uint256);
 }
@@ -756,7 +777,7 @@ contract ChallengeDetailV2 is IERC721Receiver {
 
     /** @dev sequence submit daily result count number of challenger.
      */
-    uint256 sequence;
+    uint256 public sequence;
 
     /** @dev allowGiveUp challenge allow give up or not.
      */
@@ -850,6 +871,14 @@ contract ChallengeDetailV2 is IERC721Receiver {
     /** @dev isStakingActive whether staking is active.
      */
     bool public isStakingActive;
+
+    /** @dev factory ChallengeFactory that initialized this clone; may initialize staking for the sponsor.
+     */
+    address public factory;
+
+    /** @dev initialized whether the challenge (or the clone implementation) was set up.
+     */
+    bool private initialized;
     
     /** @dev WMATIC_ADDRESS address of WMATIC token.
      */
@@ -996,13 +1025,98 @@ contract ChallengeDetailV2 is IERC721Receiver {
         string memory _stakingProtocol,
         address _stakingToken
     ) payable {
+        // NO direct payment in constructor - will be staked to PolygonDeFi instead
+        require(msg.value == 0, "No direct payment in constructor");
+
+        if (_stakeHolders.length == 0) {
+            // Deployed without stakeholders as the implementation ChallengeFactory clones; lock it
+            initialized = true;
+        } else {
+            _initialize(
+                _stakeHolders,
+                _createByToken,
+                _erc721Address,
+                _primaryRequired,
+                _awardReceivers,
+                _index,
+                _allowGiveUp,
+                _gasData,
+                _allAwardToSponsorWhenGiveUp,
+                _awardReceiversPercent,
+                _totalAmount,
+                _polygonDeFiAddress,
+                _stakingProtocol,
+                _stakingToken
+            );
+        }
+    }
+
+    /**
+     * @dev Initialize a ChallengeFactory clone. Takes the constructor's parameters; the caller
+     * becomes the challenge's factory and pays the challenger's gas fee (_gasData[2]) as msg.value.
+     */
+    function initialize(
+        address payable[] memory _stakeHolders,
+        address _createByToken,
+        address[] memory _erc721Address,
+        uint256[] memory _primaryRequired,
+        address payable[] memory _awardReceivers,
+        uint256 _index,
+        bool[] memory _allowGiveUp,
+        uint256[] memory _gasData,
+        bool _allAwardToSponsorWhenGiveUp,
+        uint256[] memory _awardReceiversPercent,
+        uint256 _totalAmount,
+        address _polygonDeFiAddress,
+        string memory _stakingProtocol,
+        address _stakingToken
+    ) external payable {
+        require(msg.value == _gasData[2], "Invalid gas fee");
+        factory = msg.sender;
+        _initialize(
+            _stakeHolders,
+            _createByToken,
+            _erc721Address,
+            _primaryRequired,
+            _awardReceivers,
+            _index,
+            _allowGiveUp,
+            _gasData,
+            _allAwardToSponsorWhenGiveUp,
+            _awardReceiversPercent,
+            _totalAmount,
+            _polygonDeFiAddress,
+            _stakingProtocol,
+            _stakingToken
+        );
+    }
+
+    /**
+     * @dev Shared setup of the constructor and {initialize}.
+     */
+    function _initialize(
+        address payable[] memory _stakeHolders,
+        address _createByToken,
+        address[] memory _erc721Address,
+        uint256[] memory _primaryRequired,
+        address payable[] memory _awardReceivers,
+        uint256 _index,
+        bool[] memory _allowGiveUp,
+        uint256[] memory _gasData,
+        bool _allAwardToSponsorWhenGiveUp,
+        uint256[] memory _awardReceiversPercent,
+        uint256 _totalAmount,
+        address _polygonDeFiAddress,
+        string memory _stakingProtocol,
+        address _stakingToken
+    ) private {
+        require(!initialized, "Already initialized");
+        initialized = true;
+
         require(_allowGiveUp.length == 3, "Invalid allow give up"); // Checking if _allowGiveUp array length is 3.
         require(_polygonDeFiAddress != address(0), "Invalid PolygonDeFi address");
         require(bytes(_stakingProtocol).length > 0, "Invalid staking protocol");
 
-        // NO direct payment in constructor - will be staked to PolygonDeFi instead
-        require(msg.value == 0, "No direct payment in constructor");
-
         uint256 i;
 
         require(_index > 0, "Invalid value"); // Checking if _index is greater than 0.
@@ -1132,6 +1246,80 @@ contract ChallengeDetailV2 is IERC721Receiver {
             _signature
         );
 
+        _recordDailyResult(
+            _day,
+            _stepIndex,
+            _listGachaAddress,
+            _listNFTAddress,
+            _listIndexNFT,
+            _listSenderAddress,
+            _statusTypeNft,
+            _timeRange
+        );
+    }
+
+    /**
+     * @dev Send daily results signed as an EIP-712 StepReport.
+     * @param _day An array of uint256 values representing days.
+     * @param _stepIndex An array of uint256 values representing step indices.
+     * @param _expiry Time after which the signature is rejected.
+     * @param _nonce The challenge's current StepReport nonce on the NFT contract.
+     * @param _signature The StepReport signature to be validated.
+     * @param _listGachaAddress An array of addresses representing Gacha contract addresses.
+     * @param _listNFTAddress An array of addresses representing NFT contract addresses.
+     * @param _listIndexNFT An array of arrays representing NFT indices.
+     * @param _listSenderAddress An array of arrays representing sender addresses.
+     * @param _statusTypeNft An array of boolean values representing NFT status types.
+     * @param _timeRange A tuple of two uint64 values representing the time range.
+     * @notice Same as sendDailyResult, with replay protection by nonce instead of by signature.
+     *         Once a report is accepted the NFT contract refuses this challenge's sendDailyResult.
+     */
+    function sendDailyReport(
+        uint256[] memory _day,
+        uint256[] memory _stepIndex,
+        uint64 _expiry,
+        uint256 _nonce,
+        bytes calldata _signature,
+        address[] memory _listGachaAddress,
+        address[] memory _listNFTAddress,
+        uint256[][] memory _listIndexNFT,
+        address[][] memory _listSenderAddress,
+        bool[] memory _statusTypeNft,
+        uint64[2] memory _timeRange
+    ) external available onTimeSendResult onlyChallenger {
+        IExerciseSupplementNFT(erc721Address[0]).checkValidStepReport(
+            _day,
+            _stepIndex,
+            _expiry,
+            _nonce,
+            _signature
+        );
+
+        _recordDailyResult(
+            _day,
+            _stepIndex,
+            _listGachaAddress,
+            _listNFTAddress,
+            _listIndexNFT,
+            _listSenderAddress,
+            _statusTypeNft,
+            _timeRange
+        );
+    }
+
+    /**
+     * @dev Record verified daily results and settle the challenge once it succeeds or fails.
+     */
+    function _recordDailyResult(
+        uint256[] memory _day,
+        uint256[] memory _stepIndex,
+        address[] memory _listGachaAddress,
+        address[] memory _listNFTAddress,
+        uint256[][] memory _listIndexNFT,
+        address[][] memory _listSenderAddress,
+        bool[] memory _statusTypeNft,
+        uint64[2] memory _timeRange
+    ) private {
         uint dayLength = _day.length;
         bool isSendSameDay;
         bool isSendFailWithSameDay;
@@ -1739,16 +1927,11 @@ contract ChallengeDetailV2 is IERC721Receiver {
             return address(this).balance;
         }
         
-        // Get staked balance + rewards from PolygonDeFi
-        (uint256 stakedBalance, uint256 shares, uint256 estimatedRewards) = 
-            polygonDeFiContract.getUserTokenProtocolPosition(
-                address(this), 
-                stakingToken, 
-                stakingProtocol
-            );
+        // Get current value (principal + rewards) of the stake from PolygonDeFi
+        (uint256 stakeValue, ) = polygonDeFiContract.getStakeValue(address(this), stakingStakeId);
         
-        // Return virtual balance (staked + rewards + actual balance)
-        return stakedBalance + estimatedRewards + address(this).balance;
+        // Return virtual balance (stake value + actual balance)
+        return stakeValue + address(this).balance;
     }
 
     // Returns the history of the challenge as an array of dates and corresponding data values.
@@ -1867,11 +2050,15 @@ contract ChallengeDetailV2 is IERC721Receiver {
     // ===== POLYGON DEFI INTEGRATION FUNCTIONS =====
 
     /**
-     * @dev Initialize staking to PolygonDeFiAggregator.
+     * @dev Initialize staking to PolygonDeFiAggregator. Called by the sponsor, or by the
+     * factory that created the challenge when it funds staking atomically.
      * @param _amount Amount to stake.
      */
     function initializeStaking(uint256 _amount) external {
-        require(msg.sender == sponsor, "Only sponsor can initialize staking");
+        require(
+            msg.sender == sponsor || (factory != address(0) && msg.sender == factory),
+            "Only sponsor can initialize staking"
+        );
         require(!isStakingActive, "Staking already active");
         require(_amount > 0, "Amount must be greater than 0");
         
@@ -1896,14 +2083,10 @@ contract ChallengeDetailV2 is IERC721Receiver {
      */
     function _stakeToPolygonDeFi(uint256 _amount) private {
         if (stakingToken == address(0)) {
-            // Wrap MATIC to WMATIC first
-            IWMATIC wmatic = IWMATIC(WMATIC_ADDRESS);
-            wmatic.deposit{value: _amount}();
-            
-            // Stake WMATIC
-            stakingStakeId = polygonDeFiContract.createTimeLockedStake(
+            // Send native MATIC; the aggregator wraps it to WMATIC
+            stakingStakeId = polygonDeFiContract.createTimeLockedStake{value: _amount}(
                 WMATIC_ADDRESS,
-                _amount,
+                0,
                 stakingProtocol,
                 365 days // Lock 1 year to get maximum interest
             );
@@ -1923,7 +2106,7 @@ contract ChallengeDetailV2 is IERC721Receiver {
      * @dev Withdraw from staking to have actual balance for transfers.
      */
     function _withdrawFromStaking() private {
-        if (isStakingActive && stakingStakeId > 0) {
+        if (isStakingActive) {
             // Withdraw from PolygonDeFi
             polygonDeFiContract.withdrawTimeLockedStake(stakingStakeId);
             
@@ -1936,22 +2119,18 @@ contract ChallengeDetailV2 is IERC721Receiver {
 
     /**
      * @dev Get staking balance and rewards.
-     * @return staked Staked amount.
-     * @return rewards Estimated rewards.
+     * @return staked Staked principal still backed by the stake's value.
+     * @return rewards Rewards accrued above principal.
      */
     function getStakingBalance() public view returns (uint256 staked, uint256 rewards) {
         if (!isStakingActive) {
             return (0, 0);
         }
         
-        (uint256 stakedBalance, uint256 shares, uint256 estimatedRewards) = 
-            polygonDeFiContract.getUserTokenProtocolPosition(
-                address(this), 
-                stakingToken, 
-                stakingProtocol
-            );
+        (uint256 value, uint256 accrued) = 
+            polygonDeFiContract.getStakeValue(address(this), stakingStakeId);
         
-        return (stakedBalance, estimatedRewards);
+        return (value - accrued, accrued);
     }
 
     /**
@@ -0,0 +1,187 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {Clones} from "@openzeppelin/contracts/proxy/Clones.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ChallengeDetailV2} from "./ChallengeDetailV2.sol";
+
+/**
+ * @dev The part of ExerciseSupplementNFT the factory uses. The factory needs
+ * UPDATER_ACTIVITIES_ROLE on the NFT to register the challenges it creates.
+ */
+interface IChallengeRegistry {
+    function ALLOWED_CONTRACTS_CHALLENGE() external view returns (bytes32);
+
+    function batchGrantRole(bytes32 _role, address[] memory _accounts) external;
+}
+
+/**
+ * @title ChallengeFactory
+ * @dev Creates ChallengeDetailV2 challenges as minimal clones of one
+ * implementation. A single call validates the parameters, initializes the
+ * clone, allows it on ExerciseSupplementNFT and stakes the sponsor's deposit
+ * on PolygonDeFiAggregator, so a challenge never exists half set up.
+ */
+contract ChallengeFactory {
+    using SafeERC20 for IERC20;
+
+    /**
+     * @dev ChallengeDetailV2's parameters, minus the aggregator the factory is bound to.
+     * @param stakeHolders [sponsor, challenger, fee address]; the sponsor sends the call.
+     * @param primaryRequired [duration (days), start time, end time, goal (steps), days required].
+     * @param awardReceivers Success receivers, then failure receivers from `index` on.
+     * @param gasData [_, _, gas fee]; the gas fee is paid to the challenger in native MATIC.
+     * @param totalAmount Deposit including the gas fee; the rest is staked.
+     * @param stakingToken address(0) stakes native MATIC.
+     */
+    struct ChallengeParams {
+        address payable[] stakeHolders;
+        address createByToken;
+        address[] erc721Address;
+        uint256[] primaryRequired;
+        address payable[] awardReceivers;
+        uint256 index;
+        bool[] allowGiveUp;
+        uint256[] gasData;
+        bool allAwardToSponsorWhenGiveUp;
+        uint256[] awardReceiversPercent;
+        uint256 totalAmount;
+        string stakingProtocol;
+        address stakingToken;
+    }
+
+    address public immutable implementation; // ChallengeDetailV2 deployed without stakeholders
+    address public immutable polygonDeFiAggregator;
+    address public immutable exerciseSupplementNFT;
+
+    address[] private challenges;
+    mapping(address => bool) public isChallenge;
+
+    event ChallengeCreated(
+        address indexed challenge,
+        address indexed sponsor,
+        address indexed challenger,
+        address stakingToken,
+        uint256 stakedAmount
+    );
+
+    constructor(address _implementation, address _polygonDeFiAggregator, address _exerciseSupplementNFT) {
+        require(_implementation.code.length > 0, "Invalid implementation");
+        require(_polygonDeFiAggregator != address(0), "Invalid PolygonDeFi address");
+        require(_exerciseSupplementNFT != address(0), "Invalid NFT address");
+        implementation = _implementation;
+        polygonDeFiAggregator = _polygonDeFiAggregator;
+        exerciseSupplementNFT = _exerciseSupplementNFT;
+    }
+
+    /**
+     * @dev Create, register and fund a challenge. For native stakes msg.value is
+     * the total amount; for ERC20 stakes it is the gas fee and the rest of the
+     * total amount is pulled from the sponsor, who must have approved it.
+     * @return challenge The new challenge's address.
+     */
+    function createChallenge(ChallengeParams calldata _params) external payable returns (address challenge) {
+        uint256 stakeAmount = _validate(_params);
+        uint256 gasFee = _params.gasData[2];
+        if (_params.stakingToken == address(0)) {
+            require(msg.value == _params.totalAmount, "Invalid native amount");
+        } else {
+            require(msg.value == gasFee, "Invalid gas fee");
+        }
+
+        challenge = Clones.clone(implementation);
+        challenges.push(challenge);
+        isChallenge[challenge] = true;
+
+        // The challenge reads the NFT during setup and reports results to it afterwards
+        address[] memory accounts = new address[](1);
+        accounts[0] = challenge;
+        IChallengeRegistry(exerciseSupplementNFT).batchGrantRole(
+            IChallengeRegistry(exerciseSupplementNFT).ALLOWED_CONTRACTS_CHALLENGE(),
+            accounts
+        );
+
+        ChallengeDetailV2(payable(challenge)).initialize{value: gasFee}(
+            _params.stakeHolders,
+            _params.createByToken,
+            _params.erc721Address,
+            _params.primaryRequired,
+            _params.awardReceivers,
+            _params.index,
+            _params.allowGiveUp,
+            _params.gasData,
+            _params.allAwardToSponsorWhenGiveUp,
+            _params.awardReceiversPercent,
+            _params.totalAmount,
+            polygonDeFiAggregator,
+            _params.stakingProtocol,
+            _params.stakingToken
+        );
+
+        if (_params.stakingToken == address(0)) {
+            (bool sent, ) = challenge.call{value: stakeAmount}("");
+            require(sent, "Funding failed");
+        } else {
+            IERC20(_params.stakingToken).safeTransferFrom(msg.sender, challenge, stakeAmount);
+        }
+        ChallengeDetailV2(payable(challenge)).initializeStaking(stakeAmount);
+
+        emit ChallengeCreated(
+            challenge,
+            _params.stakeHolders[0],
+            _params.stakeHolders[1],
+            _params.stakingToken,
+            stakeAmount
+        );
+    }
+
+    function challengeCount() external view returns (uint256) {
+        return challenges.length;
+    }
+
+    function getChallenges() external view returns (address[] memory) {
+        return challenges;
+    }
+
+    /**
+     * @dev Reject parameters the challenge would accept but cannot settle.
+     * @return stakeAmount Total amount minus the gas fee.
+     */
+    function _validate(ChallengeParams calldata _params) private view returns (uint256 stakeAmount) {
+        require(_params.stakeHolders.length == 3, "Invalid stakeholders");
+        require(_params.stakeHolders[0] == msg.sender, "Sponsor must create the challenge");
+        require(_params.stakeHolders[1] != address(0), "Invalid challenger");
+        require(_params.stakeHolders[2] != address(0), "Invalid fee address");
+        require(
+            _params.erc721Address.length > 0 && _params.erc721Address[0] == exerciseSupplementNFT,
+            "Unsupported NFT"
+        );
+
+        require(_params.primaryRequired.length == 5, "Invalid primary required");
+        uint256 duration = _params.primaryRequired[0];
+        uint256 startTime = _params.primaryRequired[1];
+        uint256 endTime = _params.primaryRequired[2];
+        require(duration > 0, "Invalid duration");
+        require(endTime > startTime && endTime > block.timestamp, "Invalid time range");
+        require(_params.primaryRequired[3] > 0, "Invalid goal");
+        require(
+            _params.primaryRequired[4] > 0 && _params.primaryRequired[4] <= duration,
+            "Invalid days required"
+        );
+
+        require(_params.allowGiveUp.length == 3, "Invalid allow give up");
+        require(_params.gasData.length == 3, "Invalid gas data");
+        require(
+            _params.awardReceivers.length == _params.awardReceiversPercent.length,
+            "Invalid lists"
+        );
+        require(
+            _params.index > 0 && _params.index <= _params.awardReceivers.length,
+            "Invalid index"
+        );
+        require(bytes(_params.stakingProtocol).length > 0, "Invalid staking protocol");
+        require(_params.totalAmount > _params.gasData[2], "Invalid total amount");
+        return _params.totalAmount - _params.gasData[2];
+    }
+}
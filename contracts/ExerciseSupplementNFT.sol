@@ -3979,6 +3979,20 @@ contract ExerciseSupplementNFT is
     // Set of NFT addresses required to be eligible to mint the SoulBound NFT
     EnumerableSet.AddressSet private requiredNftAddressesForSoulBound;
 
+    // Next EIP-712 StepReport nonce per challenge contract - ADDED LAST FOR PROXY COMPATIBILITY
+    mapping(address => uint256) public stepReportNonces;
+
+    // Legacy step data digests already accepted - ADDED LAST FOR PROXY COMPATIBILITY
+    mapping(bytes32 => bool) private usedStepDataHashes;
+
+    // EIP-712 domain type, signed over with name "ExerciseSupplementNFT" and version "1"
+    bytes32 private constant EIP712_DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    // EIP-712 type of the daily step data the security address signs
+    bytes32 public constant STEP_REPORT_TYPEHASH =
+        keccak256("StepReport(address challenge,uint256[] days,uint256[] steps,uint64 expiry,uint256 nonce)");
+
     /**
      * @dev Initializes the contract by setting the base URI, initializing the inherited ERC721, ERC721Burnable,
      * UUPSUpgradeable contracts, granting roles, and setting the base extension and size of the contract.
@@ -4280,6 +4294,8 @@ contract ExerciseSupplementNFT is
 
     /**
      * @dev Check if a given signature is valid based on certain criteria.
+     * Kept for challenges that predate StepReports: a challenge that has sent a StepReport can no
+     * longer use it, and each signed digest is accepted once whatever the signature bytes.
      * @param _day An array of uint256 values representing days.
      * @param _stepIndex An array of uint256 values representing step indices.
      * @param _data A tuple of two uint64 values.
@@ -4291,6 +4307,7 @@ contract ExerciseSupplementNFT is
         uint64[2] memory _data,
         bytes memory _signature
     ) public onlyRole(ALLOWED_CONTRACTS_CHALLENGE) {
+        require(stepReportNonces[msg.sender] == 0, "Step reports are in use");
         require(!verifyHash[_signature], "Hash was used");
         require(
             block.timestamp <= _data[1] && _data[1] - block.timestamp <= 10 minutes,
@@ -4305,9 +4322,66 @@ contract ExerciseSupplementNFT is
         bytes32 hash = keccak256(abi.encodePacked(msg.sender, _day, _stepIndex, _data, chainId));
         bytes32 messageHash = hash.toEthSignedMessageHash();
 
+        require(!usedStepDataHashes[hash], "Hash was used");
         require(messageHash.recover(_signature) == securityAddress, "Invalid signature");
 
         verifyHash[_signature] = true;
+        usedStepDataHashes[hash] = true;
+    }
+
+    /**
+     * @dev Returns the EIP-712 domain separator StepReport signatures are made under.
+     */
+    function stepReportDomainSeparator() public view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    EIP712_DOMAIN_TYPEHASH,
+                    keccak256("ExerciseSupplementNFT"),
+                    keccak256("1"),
+                    block.chainid,
+                    address(this)
+                )
+            );
+    }
+
+    /**
+     * @dev Check an EIP-712 StepReport signed by the security address for the calling challenge.
+     * Replay is prevented by the challenge's sequential nonce rather than by the signature bytes.
+     * @param _day An array of uint256 values representing days.
+     * @param _stepIndex An array of uint256 values representing step indices.
+     * @param _expiry Time after which the signature is rejected, at most 10 minutes ahead.
+     * @param _nonce The challenge's current nonce, see {stepReportNonces}.
+     * @param _signature The signature to be validated.
+     */
+    function checkValidStepReport(
+        uint256[] memory _day,
+        uint256[] memory _stepIndex,
+        uint64 _expiry,
+        uint256 _nonce,
+        bytes memory _signature
+    ) public onlyRole(ALLOWED_CONTRACTS_CHALLENGE) {
+        require(
+            block.timestamp <= _expiry && _expiry - block.timestamp <= 10 minutes,
+            "Signature is inaccessible"
+        );
+        require(_nonce == stepReportNonces[msg.sender], "Invalid nonce");
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                STEP_REPORT_TYPEHASH,
+                msg.sender,
+                keccak256(abi.encodePacked(_day)),
+                keccak256(abi.encodePacked(_stepIndex)),
+                _expiry,
+                _nonce
+            )
+        );
+        bytes32 digest = ECDSA.toTypedDataHash(stepReportDomainSeparator(), structHash);
+
+        require(digest.recover(_signature) == securityAddress, "Invalid signature");
+
+        stepReportNonces[msg.sender] = _nonce + 1;
     }
 
     /**
@@ -6,34 +6,9 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
-
-// Interface cho Polygon DeFi Staking Protocols
-interface ILiquidStaking {
-    function deposit(uint256 _amount) external returns (uint256);
-    function withdraw(uint256 _shares) external returns (uint256);
-    function getRewards() external view returns (uint256);
-    function balanceOf(address user) external view returns (uint256);
-    function totalSupply() external view returns (uint256);
-}
-
-// Interface cho Aave-style protocols
-interface IAavePool {
-    function supply(
-        address asset,
-        uint256 amount,
-        address onBehalfOf,
-        uint16 referralCode
-    ) external;
-    function withdraw(address asset, uint256 amount, address to) external returns (uint256);
-}
-
-// Interface cho Compound-style protocols
-interface ICompoundPool {
-    function mint(uint256 mintAmount) external returns (uint256);
-    function redeem(uint256 redeemTokens) external returns (uint256);
-    function balanceOf(address owner) external view returns (uint256);
-    function exchangeRateStored() external view returns (uint256);
-}
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import "./adapters/IProtocolAdapter.sol";
 
 // Interface cho WMATIC
 interface IWMATIC {
@@ -45,14 +20,41 @@ interface IWMATIC {
     function allowance(address owner, address spender) external view returns (uint256);
 }
 
+// The part of ChallengeFactory the aggregator reads
+interface IChallengeFactory {
+    function isChallenge(address challenge) external view returns (bool);
+}
+
 /**
  * @title PolygonDeFiAggregator
  * @dev Contract trung gian để tương tác với các DeFi staking protocols trên Polygon PoS
  * Enhanced với time-locking features và multi-token support
+ * Deployable directly or behind a UUPS / transparent proxy (see initialize);
+ * transparent proxies use TransparentPolygonDeFiAggregator.
+ * Behind a proxy, new state variables must only be appended.
  */
-contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
+contract PolygonDeFiAggregator is
+    Initializable,
+    UUPSUpgradeable,
+    Ownable,
+    ReentrancyGuard,
+    Pausable
+{
     using SafeERC20 for IERC20;
 
+    // What happens when a stake is withdrawn before endTime
+    enum LockMode {
+        None, // Withdraw anytime at 100%
+        Hard, // No withdrawal before maturity
+        LinearPenalty, // Penalty shrinking linearly to 0 at maturity
+        ForfeitRewards // Early withdrawal returns principal only
+    }
+
+    struct LockPolicy {
+        LockMode mode;
+        uint256 maxPenaltyBps; // LinearPenalty only: penalty at stake start
+    }
+
     struct TimeLockedStake {
         uint256 amount;
         uint256 shares;
@@ -62,6 +64,9 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
         string protocol; // Protocol name (ankr, aave, etc.)
         bool isActive;
         bool isScheduled; // true if start time is in future
+        LockPolicy lockPolicy; // Protocol policy when the stake was created
+        bool autoCompound; // Roll over into a new term of the same length at maturity
+        bool autoRouted; // Created with AUTO_ROUTE; rebalanceStake may move it
     }
 
     struct UserPosition {
@@ -73,11 +78,11 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
     }
 
     struct ProtocolInfo {
-        address contractAddress;
+        address contractAddress; // IProtocolAdapter holding the protocol position
         bool isActive;
         uint256 totalDeposited;
         uint256 currentAPY; // in basis points (10000 = 100%)
-        string protocolType; // "liquid", "lending", "compound"
+        string protocolType; // Reported by the adapter: "liquid", "lending", "compound", ...
         string protocolName;
     }
 
@@ -88,8 +93,40 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
         bool isActive;
     }
 
+    // A stake recreated by importStake when migrating from another aggregator
+    struct StakeImport {
+        address user;
+        address token;
+        uint256 deposit; // Pulled from the owner and staked
+        uint256 principal; // Recorded as the stake amount, at most deposit
+        string protocol;
+        uint256 startTime;
+        uint256 endTime;
+        LockPolicy lockPolicy;
+        bool autoCompound;
+        bool autoRouted;
+        address source; // Aggregator the stake was migrated out of
+        uint256 sourceStakeId;
+    }
+
+    // What emergencyExit pulled out of an adapter, owed to the stakes it backed
+    struct ExitPool {
+        uint256 assets;
+        uint256 shares; // Adapter shares outstanding when the funds were pulled
+    }
+
     // Constants
     address public constant WMATIC_ADDRESS = 0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270;
+    uint256 public constant MAX_PENALTY_BPS = 5000; // 50%
+    string public constant AUTO_ROUTE = "auto"; // Protocol name that picks bestRoute
+
+    // Admin roles, granted and revoked by the owner. Upgrades, the fee
+    // recipient and stake migration stay with the owner alone, as each can
+    // redirect user funds to an address of the caller's choosing.
+    bytes32 public constant PROTOCOL_MANAGER_ROLE = keccak256("PROTOCOL_MANAGER_ROLE"); // Tokens, protocols, lock policies and exemptions, routes
+    bytes32 public constant APY_ORACLE_ROLE = keccak256("APY_ORACLE_ROLE"); // Protocol APYs
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant EMERGENCY_ROLE = keccak256("EMERGENCY_ROLE"); // emergencyWithdraw and emergencyExit
 
     // State variables
     mapping(address => SupportedToken) public supportedTokens;
@@ -103,8 +140,27 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
     // Performance tracking
     mapping(address => mapping(string => uint256)) public tokenProtocolTVL; // token => protocol => TVL
     mapping(string => uint256) public protocolLastUpdate;
-    // Aggregate shares for interest-bearing protocols (e.g., Aave aTokens)
-    mapping(address => mapping(string => uint256)) public tokenProtocolTotalShares; // token => protocol => total minted shares
+
+    // Early-exit rules
+    mapping(string => LockPolicy) public protocolLockPolicies;
+    address public feeRecipient; // Receives early-exit penalties and forfeited rewards
+
+    // Yield routing
+    mapping(address => string[]) internal tokenRoutes; // token => protocols AUTO_ROUTE picks from
+    uint256 public rebalanceThresholdBps; // APY gain required to move a stake
+
+    // Access control. Not OpenZeppelin's AccessControl, whose role mapping
+    // would shift every variable above for existing proxies
+    mapping(bytes32 => mapping(address => bool)) private roleMembers;
+
+    // Challenges settle before their stake matures, so their new stakes skip
+    // lock policies: accounts exempted here and every challengeFactory clone
+    mapping(address => bool) public lockExempt;
+    address public challengeFactory;
+
+    // Funds emergencyExit recovered, paid out pro rata to the shares of the
+    // protocol's stakes in each token
+    mapping(string => mapping(address => ExitPool)) public emergencyExits; // protocol => token => pool
 
     // Events
     event TokenAdded(address indexed token, string symbol, uint8 decimals);
@@ -129,8 +185,116 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
 
     event ProtocolAdded(string protocolName, address contractAddress, string protocolType);
     event APYUpdated(string protocolName, uint256 oldAPY, uint256 newAPY);
+    event LockPolicyUpdated(string protocol, LockMode mode, uint256 maxPenaltyBps);
+    event FeeRecipientUpdated(address oldRecipient, address newRecipient);
+    event LockExemptionUpdated(address indexed account, bool exempt);
+    event EmergencyExit(string protocol, address indexed token, uint256 amount);
+    event ChallengeFactoryUpdated(address oldFactory, address newFactory);
+    event EarlyWithdrawPenalty(
+        address indexed user,
+        uint256 indexed stakeId,
+        uint256 penalty,
+        address recipient
+    );
+    event StakeIncreased(
+        address indexed user,
+        uint256 indexed stakeId,
+        uint256 amount,
+        uint256 shares
+    );
+    event LockExtended(
+        address indexed user,
+        uint256 indexed stakeId,
+        uint256 oldEndTime,
+        uint256 newEndTime
+    );
+    event PartialWithdraw(
+        address indexed user,
+        uint256 indexed stakeId,
+        uint256 shares,
+        uint256 amount,
+        uint256 rewards
+    );
+    event AutoCompoundSet(address indexed user, uint256 indexed stakeId, bool enabled);
+    event StakeRenewed(
+        address indexed user,
+        uint256 indexed stakeId,
+        uint256 compounded,
+        uint256 amount,
+        uint256 startTime,
+        uint256 endTime
+    );
+    event TokenRoutesUpdated(address indexed token, string[] protocols);
+    event RebalanceThresholdUpdated(uint256 oldThresholdBps, uint256 newThresholdBps);
+    // Same signatures as OpenZeppelin's IAccessControl
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+
+    error AccessControlUnauthorizedAccount(address account, bytes32 neededRole);
+    event StakeRouted(
+        address indexed user,
+        uint256 indexed stakeId,
+        string protocol,
+        uint256 apy
+    );
+    event StakeRebalanced(
+        address indexed user,
+        uint256 indexed stakeId,
+        string fromProtocol,
+        string toProtocol,
+        uint256 amount,
+        uint256 shares
+    );
+    event StakeMigratedOut(
+        address indexed user,
+        uint256 indexed stakeId,
+        uint256 amount,
+        uint256 shares
+    );
+    event StakeImported(
+        address indexed user,
+        uint256 indexed stakeId,
+        address indexed source,
+        uint256 sourceStakeId,
+        uint256 amount
+    );
 
-    constructor() Ownable(msg.sender) {}
+    constructor() Ownable(msg.sender) {
+        _setUp(msg.sender);
+        // A proxy's state starts empty; it is set up through initialize instead
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Set up a proxy deployment; called by the proxy constructor
+     */
+    function initialize(address _owner) external initializer {
+        require(_owner != address(0), "Invalid owner");
+        _transferOwnership(_owner);
+        _setUp(_owner);
+    }
+
+    function _setUp(address _owner) internal {
+        feeRecipient = _owner;
+        rebalanceThresholdBps = 100;
+        _grantRole(PROTOCOL_MANAGER_ROLE, _owner);
+        _grantRole(APY_ORACLE_ROLE, _owner);
+        _grantRole(PAUSER_ROLE, _owner);
+        _grantRole(EMERGENCY_ROLE, _owner);
+    }
+
+    function _authorizeUpgrade(address) internal virtual override onlyOwner {}
+
+    modifier onlyRole(bytes32 _role) {
+        _checkRole(_role);
+        _;
+    }
+
+    function _checkRole(bytes32 _role) internal view {
+        if (!roleMembers[_role][msg.sender]) {
+            revert AccessControlUnauthorizedAccount(msg.sender, _role);
+        }
+    }
 
     // Accept native MATIC (required for WMATIC unwrap)
     receive() external payable {}
@@ -143,7 +307,7 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
         address _tokenAddress,
         string memory _symbol,
         uint8 _decimals
-    ) external onlyOwner {
+    ) external onlyRole(PROTOCOL_MANAGER_ROLE) {
         _addSupportedToken(_tokenAddress, _symbol, _decimals);
     }
 
@@ -167,36 +331,35 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
     }
 
     /**
-     * @dev Add DeFi protocol
+     * @dev Add DeFi protocol, served by an adapter bound to this aggregator
      */
     function addProtocol(
         string memory _name,
-        address _contractAddress,
-        string memory _protocolType,
+        address _adapter,
         uint256 _initialAPY
-    ) external onlyOwner {
-        require(_contractAddress != address(0), "Invalid contract address");
+    ) external onlyRole(PROTOCOL_MANAGER_ROLE) {
+        require(_adapter != address(0), "Invalid contract address");
         require(!protocols[_name].isActive, "Protocol already exists");
+        require(keccak256(bytes(_name)) != keccak256(bytes(AUTO_ROUTE)), "Reserved protocol name");
         require(
-            keccak256(bytes(_protocolType)) == keccak256(bytes("liquid")) ||
-                keccak256(bytes(_protocolType)) == keccak256(bytes("lending")) ||
-                keccak256(bytes(_protocolType)) == keccak256(bytes("compound")),
-            "Invalid protocol type"
+            IProtocolAdapter(_adapter).aggregator() == address(this),
+            "Adapter bound to another aggregator"
         );
+        string memory protocolType = IProtocolAdapter(_adapter).protocolType();
 
         protocols[_name] = ProtocolInfo({
-            contractAddress: _contractAddress,
+            contractAddress: _adapter,
             isActive: true,
             totalDeposited: 0,
             currentAPY: _initialAPY,
-            protocolType: _protocolType,
+            protocolType: protocolType,
             protocolName: _name
         });
 
         supportedProtocols.push(_name);
         protocolLastUpdate[_name] = block.timestamp;
 
-        emit ProtocolAdded(_name, _contractAddress, _protocolType);
+        emit ProtocolAdded(_name, _adapter, protocolType);
     }
 
     // ===== TIME-LOCKED STAKING FUNCTIONS =====
@@ -205,55 +368,33 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
      * @dev Create time-locked stake (immediate execution)
      * @param _token Token address to stake (TTJP, POL, etc.)
      * @param _amount Amount to stake
-     * @param _protocol Protocol to stake in
+     * @param _protocol Protocol to stake in, or AUTO_ROUTE for the token's best route
      * @param _lockDuration How long to lock (in seconds)
+     * @return stakeId Index of the new stake in the caller's stakes
      */
     function createTimeLockedStake(
         address _token,
         uint256 _amount,
         string memory _protocol,
         uint256 _lockDuration
-    ) external payable nonReentrant whenNotPaused {
+    ) external payable nonReentrant whenNotPaused returns (uint256 stakeId) {
         require(_lockDuration >= 1 days, "Minimum lock duration is 1 day");
         require(_lockDuration <= 365 days, "Maximum lock duration is 365 days");
 
-        ProtocolInfo storage protocol = protocols[_protocol];
-        require(protocol.isActive, "Protocol not supported");
-
-        uint256 actualAmount;
-
-        // Handle native MATIC staking (wrap to WMATIC)
-        if (_token == WMATIC_ADDRESS && msg.value > 0) {
-            require(msg.value > 0, "Cannot stake 0 MATIC");
-            require(
-                keccak256(bytes(_protocol)) == keccak256(bytes("aave_lending")),
-                "Native MATIC only supported for Aave"
-            );
-
-            actualAmount = msg.value;
-
-            // Wrap native MATIC to WMATIC
-            IWMATIC wmatic = IWMATIC(WMATIC_ADDRESS);
-            wmatic.deposit{ value: actualAmount }();
-        } else {
-            // Handle regular ERC20 token staking
-            require(_amount > 0, "Cannot stake 0");
-            require(msg.value == 0, "Don't send MATIC for ERC20 staking");
-            require(supportedTokens[_token].isActive, "Token not supported");
+        bool autoRouted = keccak256(bytes(_protocol)) == keccak256(bytes(AUTO_ROUTE));
+        uint256 routedAPY;
+        if (autoRouted) {
+            (_protocol, routedAPY) = bestRoute(_token);
+        }
 
-            actualAmount = _amount;
+        require(protocols[_protocol].isActive, "Protocol not supported");
 
-            // Transfer tokens from user
-            IERC20(_token).safeTransferFrom(msg.sender, address(this), actualAmount);
-        }
+        uint256 actualAmount = _collectDeposit(_token, _amount);
 
         // Calculate end time (start immediately)
         uint256 startTime = block.timestamp;
         uint256 endTime = startTime + _lockDuration;
 
-        // Approve protocol contract
-        IERC20(_token).approve(protocol.contractAddress, actualAmount);
-
         // Stake to protocol and get shares
         uint256 sharesReceived = _stakeToProtocol(_token, _protocol, actualAmount);
 
@@ -268,21 +409,17 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
                 stakingToken: _token,
                 protocol: _protocol,
                 isActive: true,
-                isScheduled: false // Always executed immediately
+                isScheduled: false, // Always executed immediately
+                lockPolicy: isLockExempt(msg.sender)
+                    ? LockPolicy({mode: LockMode.None, maxPenaltyBps: 0})
+                    : protocolLockPolicies[_protocol],
+                autoCompound: false,
+                autoRouted: autoRouted
             })
         );
 
-        uint256 stakeId = position.timeLockedStakes.length - 1;
-
-        // Update position tracking
-        position.totalDeposited += actualAmount;
-        position.tokenProtocolBalances[_token][_protocol] += actualAmount;
-        position.tokenProtocolShares[_token][_protocol] += sharesReceived;
-        position.lastActionTime = block.timestamp;
-
-        // Update protocol stats
-        protocol.totalDeposited += actualAmount;
-        tokenProtocolTVL[_token][_protocol] += actualAmount;
+        stakeId = position.timeLockedStakes.length - 1;
+        _trackDeposit(position, _token, _protocol, actualAmount, sharesReceived);
 
         emit TimeLockedStakeCreated(
             msg.sender,
@@ -293,154 +430,463 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
             startTime,
             endTime
         );
+        if (autoRouted) {
+            emit StakeRouted(msg.sender, stakeId, _protocol, routedAPY);
+        }
+    }
+
+    /**
+     * @dev Pull a deposit from the caller, wrapping native MATIC into WMATIC
+     */
+    function _collectDeposit(
+        address _token,
+        uint256 _amount
+    ) internal returns (uint256 actualAmount) {
+        // Handle native MATIC staking (wrap to WMATIC)
+        if (_token == WMATIC_ADDRESS && msg.value > 0) {
+            require(msg.value > 0, "Cannot stake 0 MATIC");
+
+            actualAmount = msg.value;
+
+            // Wrap native MATIC to WMATIC
+            IWMATIC wmatic = IWMATIC(WMATIC_ADDRESS);
+            wmatic.deposit{ value: actualAmount }();
+        } else {
+            // Handle regular ERC20 token staking
+            require(_amount > 0, "Cannot stake 0");
+            require(msg.value == 0, "Don't send MATIC for ERC20 staking");
+            require(supportedTokens[_token].isActive, "Token not supported");
+
+            actualAmount = _amount;
+
+            // Transfer tokens from user
+            IERC20(_token).safeTransferFrom(msg.sender, address(this), actualAmount);
+        }
+    }
+
+    /**
+     * @dev Add principal and shares to the user's position and protocol stats
+     */
+    function _trackDeposit(
+        UserPosition storage _position,
+        address _token,
+        string memory _protocol,
+        uint256 _amount,
+        uint256 _shares
+    ) internal {
+        // Update position tracking
+        _position.totalDeposited += _amount;
+        _position.tokenProtocolBalances[_token][_protocol] += _amount;
+        _position.tokenProtocolShares[_token][_protocol] += _shares;
+        _position.lastActionTime = block.timestamp;
+
+        // Update protocol stats
+        protocols[_protocol].totalDeposited += _amount;
+        tokenProtocolTVL[_token][_protocol] += _amount;
+    }
+
+    /**
+     * @dev Remove principal and shares from the user's position and protocol stats
+     */
+    function _trackWithdrawal(
+        UserPosition storage _position,
+        address _token,
+        string memory _protocol,
+        uint256 _amount,
+        uint256 _shares
+    ) internal {
+        _position.tokenProtocolBalances[_token][_protocol] -= _amount;
+        _position.tokenProtocolShares[_token][_protocol] -= _shares;
+        _position.totalDeposited -= _amount;
+
+        protocols[_protocol].totalDeposited -= _amount;
+        tokenProtocolTVL[_token][_protocol] -= _amount;
+    }
+
+    /**
+     * @dev Add to an open stake in the same token and protocol. The stake keeps
+     * its end time and lock policy, so at least the minimum lock of a day must
+     * remain; a later top-up could be withdrawn at once without penalty.
+     * @param _stakeId ID of the stake to top up
+     * @param _amount Amount to add (ignored for native MATIC, which uses msg.value)
+     */
+    function increaseStake(
+        uint256 _stakeId,
+        uint256 _amount
+    ) external payable nonReentrant whenNotPaused {
+        TimeLockedStake storage stake = _activeStake(msg.sender, _stakeId);
+        require(stake.endTime >= block.timestamp + 1 days, "Less than a day of lock remains");
+
+        require(protocols[stake.protocol].isActive, "Protocol not supported");
+
+        uint256 actualAmount = _collectDeposit(stake.stakingToken, _amount);
+        uint256 sharesReceived = _stakeToProtocol(stake.stakingToken, stake.protocol, actualAmount);
+
+        stake.amount += actualAmount;
+        stake.shares += sharesReceived;
+        _trackDeposit(
+            userPositions[msg.sender],
+            stake.stakingToken,
+            stake.protocol,
+            actualAmount,
+            sharesReceived
+        );
+
+        emit StakeIncreased(msg.sender, _stakeId, actualAmount, sharesReceived);
+    }
+
+    /**
+     * @dev Push back a stake's end time, up to 365 days from now. Also re-locks a
+     * matured stake.
+     */
+    function extendLock(uint256 _stakeId, uint256 _newEndTime) external {
+        TimeLockedStake storage stake = _activeStake(msg.sender, _stakeId);
+        require(
+            _newEndTime > stake.endTime && _newEndTime > block.timestamp,
+            "New end time must be later"
+        );
+        require(_newEndTime <= block.timestamp + 365 days, "Maximum lock duration is 365 days");
+
+        emit LockExtended(msg.sender, _stakeId, stake.endTime, _newEndTime);
+        stake.endTime = _newEndTime;
     }
 
     /**
-     * @dev Withdraw time-locked stake (always 100% return)
+     * @dev Opt a stake in or out of rolling over at maturity (see renewStake)
+     */
+    function setAutoCompound(uint256 _stakeId, bool _enabled) external {
+        TimeLockedStake storage stake = _activeStake(msg.sender, _stakeId);
+        stake.autoCompound = _enabled;
+        emit AutoCompoundSet(msg.sender, _stakeId, _enabled);
+    }
+
+    /**
+     * @dev Roll a matured auto-compounding stake into a new term of the same
+     * length. Yield earned so far becomes principal; the shares stay in the
+     * protocol. Callable by anyone so keepers can renew on the user's behalf.
+     */
+    function renewStake(address _user, uint256 _stakeId) external nonReentrant whenNotPaused {
+        TimeLockedStake storage stake = _activeStake(_user, _stakeId);
+        require(stake.autoCompound, "Auto-compound not enabled");
+        require(block.timestamp >= stake.endTime, "Stake not matured");
+        require(protocols[stake.protocol].isActive, "Protocol not supported");
+
+        uint256 value = _sharesToAssets(stake.stakingToken, stake.protocol, stake.shares);
+        uint256 compounded = value > stake.amount ? value - stake.amount : 0;
+        stake.amount += compounded;
+        _trackDeposit(userPositions[_user], stake.stakingToken, stake.protocol, compounded, 0);
+
+        // extendLock can stretch a term past the maximum lock, so cap renewals
+        uint256 duration = stake.endTime - stake.startTime;
+        if (duration > 365 days) {
+            duration = 365 days;
+        }
+        stake.startTime = block.timestamp;
+        stake.endTime = block.timestamp + duration;
+
+        emit StakeRenewed(_user, _stakeId, compounded, stake.amount, stake.startTime, stake.endTime);
+    }
+
+    /**
+     * @dev Move an auto-routed stake to its token's best route once that pays at
+     * least rebalanceThresholdBps more than the current protocol (an inactive
+     * protocol counts as 0). Principal and lock terms are unchanged; yield
+     * earned so far moves with the stake. Callable by anyone, like renewStake.
+     */
+    function rebalanceStake(address _user, uint256 _stakeId) external nonReentrant whenNotPaused {
+        TimeLockedStake storage stake = _activeStake(_user, _stakeId);
+        require(stake.autoRouted, "Stake not auto-routed");
+
+        address token = stake.stakingToken;
+        string memory from = stake.protocol;
+        (string memory to, uint256 toAPY) = bestRoute(token);
+        require(keccak256(bytes(to)) != keccak256(bytes(from)), "Already on best route");
+        uint256 fromAPY = protocols[from].isActive ? protocols[from].currentAPY : 0;
+        require(toAPY >= fromAPY + rebalanceThresholdBps, "APY gain below threshold");
+
+        uint256 withdrawn = _withdrawFromProtocol(token, from, stake.shares);
+        uint256 sharesReceived = _stakeToProtocol(token, to, withdrawn);
+
+        UserPosition storage position = userPositions[_user];
+        _trackWithdrawal(position, token, from, stake.amount, stake.shares);
+        _trackDeposit(position, token, to, stake.amount, sharesReceived);
+        stake.protocol = to;
+        stake.shares = sharesReceived;
+
+        emit StakeRebalanced(_user, _stakeId, from, to, withdrawn, sharesReceived);
+    }
+
+    /**
+     * @dev Withdraw time-locked stake
      * @param _stakeId ID of the stake to withdraw
      *
      * Logic:
-     * - User ALWAYS gets 100% of actualWithdrawn (principal + rewards)
-     * - No penalty whether withdrawn early or at maturity
-     * - Flexible withdrawal anytime after stake execution
+     * - At or after maturity the user gets 100% of actualWithdrawn (principal + rewards)
+     * - Before maturity the stake's lock policy applies: no lock pays 100%, a hard
+     *   lock reverts, and penalties or forfeited rewards go to feeRecipient
      */
     function withdrawTimeLockedStake(uint256 _stakeId) external nonReentrant {
-        UserPosition storage position = userPositions[msg.sender];
+        TimeLockedStake storage stake = _activeStake(msg.sender, _stakeId);
+        stake.isActive = false;
+
+        uint256 rewards = _redeem(stake, _stakeId, stake.amount, stake.shares);
+
+        // Emit withdrawal event
+        emit WithdrawTimeLockedStake(msg.sender, _stakeId, stake.amount, rewards, block.timestamp);
+    }
+
+    /**
+     * @dev Withdraw part of a stake; the rest stays locked on the same terms
+     * @param _stakeId ID of the stake
+     * @param _shares Protocol shares to redeem, less than the stake's total (use
+     * withdrawTimeLockedStake to exit fully)
+     *
+     * Principal is reduced pro rata to the shares redeemed, and the stake's lock
+     * policy applies to the withdrawn part as it would to a full withdrawal.
+     */
+    function partialWithdraw(uint256 _stakeId, uint256 _shares) external nonReentrant {
+        TimeLockedStake storage stake = _activeStake(msg.sender, _stakeId);
+        require(_shares > 0 && _shares < stake.shares, "Invalid share amount");
+
+        uint256 principal = (stake.amount * _shares) / stake.shares;
+        stake.amount -= principal;
+        stake.shares -= _shares;
+
+        uint256 rewards = _redeem(stake, _stakeId, principal, _shares);
+
+        emit PartialWithdraw(msg.sender, _stakeId, _shares, principal, rewards);
+    }
+
+    /**
+     * @dev Caller's active stake, reverting for unknown or closed stakes
+     */
+    function _activeStake(
+        address _user,
+        uint256 _stakeId
+    ) internal view returns (TimeLockedStake storage stake) {
+        UserPosition storage position = userPositions[_user];
         require(_stakeId < position.timeLockedStakes.length, "Invalid stake ID");
 
-        TimeLockedStake storage stake = position.timeLockedStakes[_stakeId];
+        stake = position.timeLockedStakes[_stakeId];
         require(stake.isActive, "Stake not active");
         require(!stake.isScheduled, "Stake not yet executed");
+    }
 
-        ProtocolInfo storage protocol = protocols[stake.protocol];
+    /**
+     * @dev Redeem `_shares` of a stake backing `_principal` and pay the caller,
+     * sending any early-exit penalty to feeRecipient. Returns the rewards paid.
+     */
+    function _redeem(
+        TimeLockedStake storage _stake,
+        uint256 _stakeId,
+        uint256 _principal,
+        uint256 _shares
+    ) internal returns (uint256 rewards) {
+        // Stakes caught in an emergency exit leave without early-exit penalties
+        bool exited = _isEmergencyExited(_stake.stakingToken, _stake.protocol);
 
         // Withdraw from protocol (gets principal + rewards)
         uint256 actualWithdrawn = _withdrawFromProtocol(
-            stake.stakingToken,
-            stake.protocol,
-            stake.shares
+            _stake.stakingToken,
+            _stake.protocol,
+            _shares
         );
 
-        // Calculate rewards
-        uint256 rewards = actualWithdrawn > stake.amount ? actualWithdrawn - stake.amount : 0;
+        uint256 penalty = exited ? 0 : _earlyExitPenalty(_stake, _principal, actualWithdrawn);
+        uint256 finalAmount = actualWithdrawn - penalty;
 
-        // User always gets 100% of actualWithdrawn (principal + rewards)
-        uint256 finalAmount = actualWithdrawn;
+        // Rewards actually paid to the user
+        rewards = finalAmount > _principal ? finalAmount - _principal : 0;
 
-        // Update state
-        stake.isActive = false;
-        position.tokenProtocolBalances[stake.stakingToken][stake.protocol] -= stake.amount;
-        position.tokenProtocolShares[stake.stakingToken][stake.protocol] -= stake.shares;
-        position.totalDeposited -= stake.amount;
+        _trackWithdrawal(
+            userPositions[msg.sender],
+            _stake.stakingToken,
+            _stake.protocol,
+            _principal,
+            _shares
+        );
 
-        // Update protocol stats
-        protocol.totalDeposited -= stake.amount;
-        tokenProtocolTVL[stake.stakingToken][stake.protocol] -= stake.amount;
+        if (penalty > 0) {
+            IERC20(_stake.stakingToken).safeTransfer(feeRecipient, penalty);
+            emit EarlyWithdrawPenalty(msg.sender, _stakeId, penalty, feeRecipient);
+        }
 
         // Handle withdrawal based on token type
-        if (stake.stakingToken == WMATIC_ADDRESS) {
+        if (_stake.stakingToken == WMATIC_ADDRESS) {
             // Unwrap WMATIC to native MATIC and send to user
             IWMATIC wmatic = IWMATIC(WMATIC_ADDRESS);
             wmatic.withdraw(finalAmount);
             (bool success, ) = msg.sender.call{value: finalAmount}("");
             require(success, "MATIC transfer failed");
         } else {
-            IERC20(stake.stakingToken).safeTransfer(msg.sender, finalAmount);
+            IERC20(_stake.stakingToken).safeTransfer(msg.sender, finalAmount);
         }
+    }
 
-        // Emit withdrawal event
-        emit WithdrawTimeLockedStake(msg.sender, _stakeId, stake.amount, rewards, block.timestamp);
+    /**
+     * @dev Part of `_withdrawn` (backing `_principal`) kept from an early
+     * withdrawal under the stake's lock policy (reverts for hard locks)
+     */
+    function _earlyExitPenalty(
+        TimeLockedStake storage _stake,
+        uint256 _principal,
+        uint256 _withdrawn
+    ) internal view returns (uint256) {
+        if (block.timestamp >= _stake.endTime) {
+            return 0;
+        }
+
+        LockMode mode = _stake.lockPolicy.mode;
+        if (mode == LockMode.Hard) {
+            revert("Stake is locked until maturity");
+        } else if (mode == LockMode.LinearPenalty) {
+            uint256 remaining = _stake.endTime - block.timestamp;
+            uint256 duration = _stake.endTime - _stake.startTime;
+            return (_withdrawn * _stake.lockPolicy.maxPenaltyBps * remaining) / (duration * 10000);
+        } else if (mode == LockMode.ForfeitRewards) {
+            return _withdrawn > _principal ? _withdrawn - _principal : 0;
+        }
+        return 0;
     }
 
     /**
-     * @dev Internal function to stake to specific protocol
+     * @dev Internal function to stake to specific protocol through its adapter
      */
     function _stakeToProtocol(
         address _token,
         string memory _protocol,
         uint256 _amount
     ) internal returns (uint256 shares) {
-        ProtocolInfo storage protocol = protocols[_protocol];
-
-        if (keccak256(bytes(protocol.protocolType)) == keccak256(bytes("liquid"))) {
-            shares = ILiquidStaking(protocol.contractAddress).deposit(_amount);
-        } else if (keccak256(bytes(protocol.protocolType)) == keccak256(bytes("lending"))) {
-            // For Aave lending, compute shares from actual aToken balance received
-            address aTokenAddress;
-            if (_token == WMATIC_ADDRESS) {
-                aTokenAddress = 0x6d80113e533a2C0fe82EaBD35f1875DcEA89Ea97; // aPolWM
-            } else {
-                revert("Unsupported token for Aave lending");
-            }
-
-            uint256 balanceBefore = IERC20(aTokenAddress).balanceOf(address(this));
-            IAavePool(protocol.contractAddress).supply(_token, _amount, address(this), 0);
-            uint256 balanceAfter = IERC20(aTokenAddress).balanceOf(address(this));
-            shares = balanceAfter - balanceBefore;
-            tokenProtocolTotalShares[_token][_protocol] += shares;
-        } else if (keccak256(bytes(protocol.protocolType)) == keccak256(bytes("compound"))) {
-            shares = ICompoundPool(protocol.contractAddress).mint(_amount);
-        }
+        // The recovered funds are priced against the shares outstanding at the exit
+        require(!_isEmergencyExited(_token, _protocol), "Protocol was emergency exited");
+        IProtocolAdapter adapter = IProtocolAdapter(protocols[_protocol].contractAddress);
+        require(adapter.supportsToken(_token), "Token not supported by protocol");
 
-        return shares;
+        IERC20(_token).approve(address(adapter), _amount);
+        shares = adapter.deposit(_token, _amount);
     }
 
     /**
-     * @dev Internal function to withdraw from specific protocol
+     * @dev Internal function to withdraw from specific protocol through its adapter
      */
     function _withdrawFromProtocol(
         address _token,
         string memory _protocol,
         uint256 _shares
     ) internal returns (uint256 amount) {
-        ProtocolInfo storage protocol = protocols[_protocol];
-
-        if (keccak256(bytes(protocol.protocolType)) == keccak256(bytes("liquid"))) {
-            amount = ILiquidStaking(protocol.contractAddress).withdraw(_shares);
-        } else if (keccak256(bytes(protocol.protocolType)) == keccak256(bytes("lending"))) {
-            // Hotfix: withdraw max underlying from Aave, then pro-rate for the caller's shares
-            address aTokenAddress;
-            if (_token == WMATIC_ADDRESS) {
-                aTokenAddress = 0x6d80113e533a2C0fe82EaBD35f1875DcEA89Ea97; // aPolWM
-            } else {
-                revert("Unsupported token for Aave lending");
-            }
-
-            uint256 totalSharesBefore = tokenProtocolTotalShares[_token][_protocol];
-            require(totalSharesBefore > 0, "No shares to withdraw");
-
-            // 1) Withdraw all available underlying from Aave for this asset
-            uint256 withdrawnAll = IAavePool(protocol.contractAddress).withdraw(
-                _token,
-                type(uint256).max,
-                address(this)
-            );
-
-            // 2) Pro-rate the user's amount based on their shares
-            amount = (withdrawnAll * _shares) / totalSharesBefore;
-
-            // 3) Re-supply the remainder to keep other users invested
-            uint256 remainder = withdrawnAll - amount;
-            if (remainder > 0) {
-                // Approve and re-supply the remainder back to Aave
-                IERC20(_token).approve(protocol.contractAddress, remainder);
-                uint256 aTokenBalanceBefore = IERC20(aTokenAddress).balanceOf(address(this));
-                IAavePool(protocol.contractAddress).supply(_token, remainder, address(this), 0);
-                uint256 aTokenBalanceAfter = IERC20(aTokenAddress).balanceOf(address(this));
-                uint256 mintedShares = aTokenBalanceAfter - aTokenBalanceBefore;
-
-                // Update aggregate shares: remove user's shares, add back minted shares for remainder
-                // This keeps accounting aligned for the remaining positions
-                tokenProtocolTotalShares[_token][_protocol] = (totalSharesBefore - _shares) + mintedShares;
-            } else {
-                // No remainder, all funds withdrawn and will be sent to user
-                tokenProtocolTotalShares[_token][_protocol] = totalSharesBefore - _shares;
-            }
-        } else if (keccak256(bytes(protocol.protocolType)) == keccak256(bytes("compound"))) {
-            amount = ICompoundPool(protocol.contractAddress).redeem(_shares);
+        ExitPool storage pool = emergencyExits[_protocol][_token];
+        if (pool.shares > 0) {
+            // The last shares take whatever rounding left behind
+            amount = _shares == pool.shares ? pool.assets : (pool.assets * _shares) / pool.shares;
+            pool.assets -= amount;
+            pool.shares -= _shares;
+            return amount;
         }
+        amount = IProtocolAdapter(protocols[_protocol].contractAddress).withdraw(_token, _shares);
+    }
+
+    /**
+     * @dev Whether `_protocol`'s stakes in `_token` are paid from an ExitPool
+     */
+    function _isEmergencyExited(
+        address _token,
+        string memory _protocol
+    ) internal view returns (bool) {
+        return emergencyExits[_protocol][_token].shares > 0;
+    }
+
+    // ===== MIGRATION =====
 
-        return amount;
+    /**
+     * @dev Close a stake so it can be recreated on another aggregator: redeem
+     * its shares without any early-exit penalty and send the proceeds (WMATIC
+     * for native stakes) to the owner, who imports it there with importStake.
+     * Owner only, like importStake, since the proceeds pass through the caller.
+     * @return withdrawn Tokens sent to the owner
+     */
+    function migrateStakeOut(
+        address _user,
+        uint256 _stakeId
+    ) external onlyOwner nonReentrant returns (uint256 withdrawn) {
+        TimeLockedStake storage stake = _activeStake(_user, _stakeId);
+        stake.isActive = false;
+
+        withdrawn = _withdrawFromProtocol(stake.stakingToken, stake.protocol, stake.shares);
+        _trackWithdrawal(
+            userPositions[_user],
+            stake.stakingToken,
+            stake.protocol,
+            stake.amount,
+            stake.shares
+        );
+        IERC20(stake.stakingToken).safeTransfer(msg.sender, withdrawn);
+
+        emit StakeMigratedOut(_user, _stakeId, withdrawn, stake.shares);
+    }
+
+    /**
+     * @dev Recreate a stake migrated out of another aggregator for its user,
+     * keeping its start and end times and lock terms. The deposit is pulled
+     * from the owner; whatever it holds above the principal stays rewards.
+     * @return stakeId Index of the new stake in the user's stakes
+     */
+    function importStake(
+        StakeImport calldata _import
+    ) external onlyOwner nonReentrant returns (uint256 stakeId) {
+        require(_import.user != address(0), "Invalid user");
+        require(
+            _import.token == WMATIC_ADDRESS || supportedTokens[_import.token].isActive,
+            "Token not supported"
+        );
+        require(protocols[_import.protocol].isActive, "Protocol not supported");
+        require(
+            _import.principal > 0 && _import.principal <= _import.deposit,
+            "Invalid principal"
+        );
+        require(
+            _import.startTime <= block.timestamp && _import.startTime < _import.endTime,
+            "Invalid stake times"
+        );
+        require(_import.lockPolicy.maxPenaltyBps <= MAX_PENALTY_BPS, "Invalid penalty");
+
+        IERC20(_import.token).safeTransferFrom(msg.sender, address(this), _import.deposit);
+        uint256 sharesReceived = _stakeToProtocol(_import.token, _import.protocol, _import.deposit);
+
+        UserPosition storage position = userPositions[_import.user];
+        position.timeLockedStakes.push(
+            TimeLockedStake({
+                amount: _import.principal,
+                shares: sharesReceived,
+                startTime: _import.startTime,
+                endTime: _import.endTime,
+                stakingToken: _import.token,
+                protocol: _import.protocol,
+                isActive: true,
+                isScheduled: false,
+                lockPolicy: _import.lockPolicy,
+                autoCompound: _import.autoCompound,
+                autoRouted: _import.autoRouted
+            })
+        );
+        stakeId = position.timeLockedStakes.length - 1;
+        _trackDeposit(position, _import.token, _import.protocol, _import.principal, sharesReceived);
+
+        emit TimeLockedStakeCreated(
+            _import.user,
+            stakeId,
+            _import.token,
+            _import.protocol,
+            _import.principal,
+            _import.startTime,
+            _import.endTime
+        );
+        emit StakeImported(
+            _import.user,
+            stakeId,
+            _import.source,
+            _import.sourceStakeId,
+            _import.deposit
+        );
     }
 
     // ===== TIME-LOCKED VIEW FUNCTIONS =====
@@ -468,10 +914,59 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
         return stake.isActive && !stake.isScheduled && block.timestamp >= stake.endTime;
     }
 
+    /**
+     * @dev What withdrawing a stake now would pay, after any early-exit penalty
+     * (reverts for hard-locked stakes before maturity)
+     */
+    function previewWithdraw(
+        address _user,
+        uint256 _stakeId
+    ) external view returns (uint256 amount, uint256 penalty) {
+        UserPosition storage position = userPositions[_user];
+        require(_stakeId < position.timeLockedStakes.length, "Invalid stake ID");
+
+        TimeLockedStake storage stake = position.timeLockedStakes[_stakeId];
+        require(stake.isActive, "Stake not active");
+
+        uint256 value = _sharesToAssets(stake.stakingToken, stake.protocol, stake.shares);
+        if (!_isEmergencyExited(stake.stakingToken, stake.protocol)) {
+            penalty = _earlyExitPenalty(stake, stake.amount, value);
+        }
+        amount = value - penalty;
+    }
+
+    // ===== ROUTING VIEW FUNCTIONS =====
+
+    /**
+     * @dev Highest-APY active protocol among the token's routes (the first listed
+     * wins ties). Routes whose adapter does not support the token are skipped.
+     */
+    function bestRoute(address _token) public view returns (string memory protocol, uint256 apy) {
+        string[] storage routes = tokenRoutes[_token];
+        bool found;
+        for (uint256 i = 0; i < routes.length; i++) {
+            ProtocolInfo storage info = protocols[routes[i]];
+            if (!info.isActive) continue;
+            if (!IProtocolAdapter(info.contractAddress).supportsToken(_token)) continue;
+            if (!found || info.currentAPY > apy) {
+                protocol = routes[i];
+                apy = info.currentAPY;
+                found = true;
+            }
+        }
+        require(found, "No route for token");
+    }
+
+    function getTokenRoutes(address _token) external view returns (string[] memory) {
+        return tokenRoutes[_token];
+    }
+
     // ===== ORIGINAL VIEW FUNCTIONS =====
 
     /**
-     * @dev Get user's total position across all tokens and protocols
+     * @dev Get user's total position across all tokens and protocols.
+     * estimatedValue is the current underlying value of the active stakes and
+     * totalRewards the part of it above principal.
      */
     function getUserTotalPosition(
         address _user
@@ -479,28 +974,21 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
         UserPosition storage position = userPositions[_user];
         totalDeposited = position.totalDeposited;
 
-        // Calculate estimated current value and pending rewards
-        for (uint256 i = 0; i < supportedTokensList.length; i++) {
-            address token = supportedTokensList[i];
-            for (uint256 j = 0; j < supportedProtocols.length; j++) {
-                string memory protocolName = supportedProtocols[j];
-                uint256 balance = position.tokenProtocolBalances[token][protocolName];
-
-                if (balance > 0) {
-                    estimatedValue += balance;
-                    // Add estimated accrued interest based on APY and time
-                    uint256 timeElapsed = block.timestamp - protocolLastUpdate[protocolName];
-                    uint256 interest = (balance *
-                        protocols[protocolName].currentAPY *
-                        timeElapsed) / (365 days * 10000);
-                    totalRewards += interest;
-                }
+        for (uint256 i = 0; i < position.timeLockedStakes.length; i++) {
+            TimeLockedStake storage stake = position.timeLockedStakes[i];
+            if (!stake.isActive) continue;
+
+            uint256 value = _sharesToAssets(stake.stakingToken, stake.protocol, stake.shares);
+            estimatedValue += value;
+            if (value > stake.amount) {
+                totalRewards += value - stake.amount;
             }
         }
     }
 
     /**
-     * @dev Get user's position in specific token and protocol
+     * @dev Get user's position in specific token and protocol.
+     * estimatedRewards is the current value of the shares above principal.
      */
     function getUserTokenProtocolPosition(
         address _user,
@@ -511,13 +999,50 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
         balance = position.tokenProtocolBalances[_token][_protocol];
         shares = position.tokenProtocolShares[_token][_protocol];
 
-        if (balance > 0) {
-            uint256 timeElapsed = block.timestamp - protocolLastUpdate[_protocol];
-            estimatedRewards =
-                (balance * protocols[_protocol].currentAPY * timeElapsed) / (365 days * 10000);
+        uint256 value = _sharesToAssets(_token, _protocol, shares);
+        if (value > balance) {
+            estimatedRewards = value - balance;
         }
     }
 
+    /**
+     * @dev Current underlying value of a stake and its rewards above principal
+     * (both 0 once withdrawn)
+     */
+    function getStakeValue(
+        address _user,
+        uint256 _stakeId
+    ) external view returns (uint256 value, uint256 rewards) {
+        UserPosition storage position = userPositions[_user];
+        require(_stakeId < position.timeLockedStakes.length, "Invalid stake ID");
+
+        TimeLockedStake storage stake = position.timeLockedStakes[_stakeId];
+        if (!stake.isActive) {
+            return (0, 0);
+        }
+
+        value = _sharesToAssets(stake.stakingToken, stake.protocol, stake.shares);
+        rewards = value > stake.amount ? value - stake.amount : 0;
+    }
+
+    /**
+     * @dev Underlying redeemable for `_shares` at the protocol's current share price
+     */
+    function _sharesToAssets(
+        address _token,
+        string memory _protocol,
+        uint256 _shares
+    ) internal view returns (uint256) {
+        if (_shares == 0) {
+            return 0;
+        }
+        ExitPool storage pool = emergencyExits[_protocol][_token];
+        if (pool.shares > 0) {
+            return (pool.assets * _shares) / pool.shares;
+        }
+        return IProtocolAdapter(protocols[_protocol].contractAddress).valueOf(_token, _shares);
+    }
+
     /**
      * @dev Get all protocols with stats
      */
@@ -573,7 +1098,7 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
     /**
      * @dev Update protocol APY (only owner)
      */
-    function updateProtocolAPY(string memory _protocol, uint256 _newAPY) external onlyOwner {
+    function updateProtocolAPY(string memory _protocol, uint256 _newAPY) external onlyRole(APY_ORACLE_ROLE) {
         require(protocols[_protocol].isActive, "Protocol not found");
         uint256 oldAPY = protocols[_protocol].currentAPY;
         protocols[_protocol].currentAPY = _newAPY;
@@ -582,10 +1107,91 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
         emit APYUpdated(_protocol, oldAPY, _newAPY);
     }
 
+    /**
+     * @dev Set the early-exit policy for new stakes in a protocol; existing
+     * stakes keep the policy they were created under
+     */
+    function setLockPolicy(
+        string memory _protocol,
+        LockMode _mode,
+        uint256 _maxPenaltyBps
+    ) external onlyRole(PROTOCOL_MANAGER_ROLE) {
+        require(protocols[_protocol].contractAddress != address(0), "Protocol not found");
+        if (_mode == LockMode.LinearPenalty) {
+            require(_maxPenaltyBps > 0 && _maxPenaltyBps <= MAX_PENALTY_BPS, "Invalid penalty");
+        } else {
+            require(_maxPenaltyBps == 0, "Penalty only applies to linear mode");
+        }
+
+        protocolLockPolicies[_protocol] = LockPolicy({
+            mode: _mode,
+            maxPenaltyBps: _maxPenaltyBps
+        });
+        emit LockPolicyUpdated(_protocol, _mode, _maxPenaltyBps);
+    }
+
+    /**
+     * @dev Set the protocols AUTO_ROUTE stakes in `_token` can go to. Each must
+     * hold `_token` as its underlying; an empty list disables auto routing.
+     */
+    function setTokenRoutes(address _token, string[] memory _protocols) external onlyRole(PROTOCOL_MANAGER_ROLE) {
+        for (uint256 i = 0; i < _protocols.length; i++) {
+            require(protocols[_protocols[i]].contractAddress != address(0), "Protocol not found");
+        }
+        tokenRoutes[_token] = _protocols;
+        emit TokenRoutesUpdated(_token, _protocols);
+    }
+
+    function setRebalanceThreshold(uint256 _thresholdBps) external onlyRole(PROTOCOL_MANAGER_ROLE) {
+        require(_thresholdBps <= 10000, "Invalid threshold");
+        emit RebalanceThresholdUpdated(rebalanceThresholdBps, _thresholdBps);
+        rebalanceThresholdBps = _thresholdBps;
+    }
+
+    /**
+     * @dev Set where early-exit penalties go. Owner only: it decides who is
+     * paid from user funds.
+     */
+    function setFeeRecipient(address _feeRecipient) external onlyOwner {
+        require(_feeRecipient != address(0), "Invalid fee recipient");
+        emit FeeRecipientUpdated(feeRecipient, _feeRecipient);
+        feeRecipient = _feeRecipient;
+    }
+
+    /**
+     * @dev Let `_account`'s new stakes ignore protocol lock policies, e.g. a
+     * challenge deployed without the factory
+     */
+    function setLockExempt(address _account, bool _exempt) external onlyRole(PROTOCOL_MANAGER_ROLE) {
+        require(_account != address(0), "Invalid account");
+        lockExempt[_account] = _exempt;
+        emit LockExemptionUpdated(_account, _exempt);
+    }
+
+    /**
+     * @dev Exempt every challenge `_factory` creates from lock policies;
+     * address(0) stops exempting new challenges
+     */
+    function setChallengeFactory(address _factory) external onlyRole(PROTOCOL_MANAGER_ROLE) {
+        require(_factory == address(0) || _factory.code.length > 0, "Invalid challenge factory");
+        emit ChallengeFactoryUpdated(challengeFactory, _factory);
+        challengeFactory = _factory;
+    }
+
+    /**
+     * @dev Whether new stakes by `_staker` are created without a lock policy
+     */
+    function isLockExempt(address _staker) public view returns (bool) {
+        if (lockExempt[_staker]) {
+            return true;
+        }
+        return challengeFactory != address(0) && IChallengeFactory(challengeFactory).isChallenge(_staker);
+    }
+
     /**
      * @dev Set token status
      */
-    function setTokenStatus(address _token, bool _isActive) external onlyOwner {
+    function setTokenStatus(address _token, bool _isActive) external onlyRole(PROTOCOL_MANAGER_ROLE) {
         require(supportedTokens[_token].tokenAddress != address(0), "Token not found");
         supportedTokens[_token].isActive = _isActive;
     }
@@ -593,23 +1199,111 @@ contract PolygonDeFiAggregator is Ownable, ReentrancyGuard, Pausable {
     /**
      * @dev Emergency functions
      */
-    function pause() external onlyOwner {
+    function pause() external onlyRole(PAUSER_ROLE) {
         _pause();
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         _unpause();
     }
 
-    function setProtocolStatus(string memory _protocol, bool _isActive) external onlyOwner {
+    function setProtocolStatus(string memory _protocol, bool _isActive) external onlyRole(PROTOCOL_MANAGER_ROLE) {
         protocols[_protocol].isActive = _isActive;
     }
 
-    function emergencyWithdraw(address _token) external onlyOwner {
+    /**
+     * @dev Sweep `_token` held by the aggregator itself to the owner, except
+     * what emergencyExit recovered for stakes. Staked funds sit in the adapters.
+     */
+    function emergencyWithdraw(address _token) external onlyRole(EMERGENCY_ROLE) {
+        uint256 reserved;
+        for (uint256 i = 0; i < supportedProtocols.length; i++) {
+            reserved += emergencyExits[supportedProtocols[i]][_token].assets;
+        }
+
         IERC20 token = IERC20(_token);
         uint256 balance = token.balanceOf(address(this));
-        if (balance > 0) {
-            token.safeTransfer(owner(), balance);
+        if (balance > reserved) {
+            token.safeTransfer(owner(), balance - reserved);
+        }
+    }
+
+    /**
+     * @dev Pull everything `_protocol`'s adapter holds in `_token` back into the
+     * aggregator and deactivate the protocol. The funds stay with its stakes in
+     * `_token`, which redeem them pro rata to their shares and without
+     * early-exit penalties; new deposits there are refused until every such
+     * stake has been withdrawn, migrated or rebalanced away.
+     */
+    function emergencyExit(
+        string memory _protocol,
+        address _token
+    ) external onlyRole(EMERGENCY_ROLE) nonReentrant {
+        address adapter = protocols[_protocol].contractAddress;
+        require(adapter != address(0), "Protocol not found");
+        protocols[_protocol].isActive = false;
+
+        (uint256 amount, uint256 shares) = IProtocolAdapter(adapter).emergencyExit(_token);
+        // Without shares left nothing is owed; emergencyWithdraw can sweep the rest
+        if (shares > 0) {
+            ExitPool storage pool = emergencyExits[_protocol][_token];
+            pool.assets += amount;
+            pool.shares += shares;
         }
+        emit EmergencyExit(_protocol, _token, amount);
+    }
+
+    // ===== ROLES =====
+
+    function hasRole(bytes32 _role, address _account) public view returns (bool) {
+        return roleMembers[_role][_account];
+    }
+
+    function grantRole(bytes32 _role, address _account) external onlyOwner {
+        _grantRole(_role, _account);
+    }
+
+    /**
+     * @dev Grant `_role` to several accounts at once
+     */
+    function batchGrantRole(bytes32 _role, address[] calldata _accounts) external onlyOwner {
+        for (uint256 i = 0; i < _accounts.length; i++) {
+            _grantRole(_role, _accounts[i]);
+        }
+    }
+
+    function revokeRole(bytes32 _role, address _account) external onlyOwner {
+        _revokeRole(_role, _account);
+    }
+
+    /**
+     * @dev Give up one of the caller's own roles, e.g. a compromised keeper key
+     */
+    function renounceRole(bytes32 _role) external {
+        _revokeRole(_role, msg.sender);
+    }
+
+    function _grantRole(bytes32 _role, address _account) internal {
+        require(_isRole(_role), "Unknown role");
+        require(_account != address(0), "Invalid account");
+        if (!roleMembers[_role][_account]) {
+            roleMembers[_role][_account] = true;
+            emit RoleGranted(_role, _account, msg.sender);
+        }
+    }
+
+    function _revokeRole(bytes32 _role, address _account) internal {
+        if (roleMembers[_role][_account]) {
+            roleMembers[_role][_account] = false;
+            emit RoleRevoked(_role, _account, msg.sender);
+        }
+    }
+
+    function _isRole(bytes32 _role) internal pure returns (bool) {
+        return
+            _role == PROTOCOL_MANAGER_ROLE ||
+            _role == APY_ORACLE_ROLE ||
+            _role == PAUSER_ROLE ||
+            _role == EMERGENCY_ROLE;
     }
 }
@@ -0,0 +1,130 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./ProtocolAdapter.sol";
+
+// Interface cho Aave-style protocols
+interface IAavePool {
+    // Aave v3 reserve data; only aTokenAddress is read on-chain
+    struct ReserveData {
+        uint256 configuration;
+        uint128 liquidityIndex;
+        uint128 currentLiquidityRate;
+        uint128 variableBorrowIndex;
+        uint128 currentVariableBorrowRate;
+        uint128 currentStableBorrowRate;
+        uint40 lastUpdateTimestamp;
+        uint16 id;
+        address aTokenAddress;
+        address stableDebtTokenAddress;
+        address variableDebtTokenAddress;
+        address interestRateStrategyAddress;
+        uint128 accruedToTreasury;
+        uint128 unbacked;
+        uint128 isolationModeTotalDebt;
+    }
+
+    function supply(
+        address asset,
+        uint256 amount,
+        address onBehalfOf,
+        uint16 referralCode
+    ) external;
+    function withdraw(address asset, uint256 amount, address to) external returns (uint256);
+    function getReserveData(address asset) external view returns (ReserveData memory);
+}
+
+/**
+ * @title AaveV3Adapter
+ * @dev Supplies to an Aave v3 pool. aToken balances grow with interest, so
+ * shares are a per-reserve ledger over the adapter's aToken balance. Every
+ * token with a reserve on the pool is supported.
+ */
+contract AaveV3Adapter is ProtocolAdapter {
+    using SafeERC20 for IERC20;
+
+    mapping(address => uint256) public totalShares; // token => shares minted
+
+    constructor(address _aggregator, address _pool) ProtocolAdapter(_aggregator, _pool) {}
+
+    function protocolType() external pure returns (string memory) {
+        return "lending";
+    }
+
+    function aTokenOf(address _token) public view returns (address) {
+        return IAavePool(pool).getReserveData(_token).aTokenAddress;
+    }
+
+    function supportsToken(address _token) external view returns (bool) {
+        return aTokenOf(_token) != address(0);
+    }
+
+    /**
+     * @dev Shares are priced before the supply so accrued interest stays with
+     * existing holders
+     */
+    function deposit(
+        address _token,
+        uint256 _amount
+    ) external onlyAggregator returns (uint256 shares) {
+        address aToken = aTokenOf(_token);
+        require(aToken != address(0), "Unsupported token for Aave lending");
+        IERC20(_token).safeTransferFrom(msg.sender, address(this), _amount);
+
+        uint256 balanceBefore = IERC20(aToken).balanceOf(address(this));
+        IERC20(_token).forceApprove(pool, _amount);
+        IAavePool(pool).supply(_token, _amount, address(this), 0);
+        uint256 received = IERC20(aToken).balanceOf(address(this)) - balanceBefore;
+
+        uint256 supply = totalShares[_token];
+        // Shares left without aTokens cannot be priced
+        require(supply == 0 || balanceBefore > 0, "Outstanding shares have no backing");
+        shares = supply == 0 ? received : (received * supply) / balanceBefore;
+        require(shares > 0, "Stake too small");
+        totalShares[_token] = supply + shares;
+    }
+
+    /**
+     * @dev Redeem the shares' pro-rata claim on the adapter's aTokens
+     */
+    function withdraw(
+        address _token,
+        uint256 _shares
+    ) external onlyAggregator returns (uint256 amount) {
+        uint256 supply = totalShares[_token];
+        require(supply > 0, "No shares to withdraw");
+
+        uint256 balance = IERC20(aTokenOf(_token)).balanceOf(address(this));
+        uint256 assets = (balance * _shares) / supply;
+        totalShares[_token] = supply - _shares;
+        // Aave rejects zero withdrawals, e.g. of shares worth less than one unit
+        if (assets > 0) {
+            // The last holder takes the full balance so no rounding dust is left behind
+            amount = IAavePool(pool).withdraw(
+                _token,
+                _shares == supply ? type(uint256).max : assets,
+                msg.sender
+            );
+        }
+    }
+
+    function emergencyExit(
+        address _token
+    ) external onlyAggregator returns (uint256 amount, uint256 shares) {
+        shares = totalShares[_token];
+        totalShares[_token] = 0;
+        if (IERC20(aTokenOf(_token)).balanceOf(address(this)) > 0) {
+            amount = IAavePool(pool).withdraw(_token, type(uint256).max, msg.sender);
+        }
+    }
+
+    function valueOf(address _token, uint256 _shares) external view returns (uint256) {
+        uint256 supply = totalShares[_token];
+        if (supply == 0) {
+            return 0;
+        }
+        return (IERC20(aTokenOf(_token)).balanceOf(address(this)) * _shares) / supply;
+    }
+}
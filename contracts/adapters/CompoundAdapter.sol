@@ -0,0 +1,81 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./ProtocolAdapter.sol";
+
+// Interface cho Compound-style protocols
+interface ICompoundPool {
+    function underlying() external view returns (address);
+    function mint(uint256 mintAmount) external returns (uint256);
+    function redeem(uint256 redeemTokens) external returns (uint256);
+    function balanceOf(address owner) external view returns (uint256);
+    function exchangeRateStored() external view returns (uint256);
+    function supplyRatePerBlock() external view returns (uint256);
+}
+
+/**
+ * @title CompoundAdapter
+ * @dev Mints a Compound-style cToken; shares are the cTokens held for the
+ * aggregator. Amounts are measured from balance changes, since cTokens return
+ * error codes (0 on success) rather than the tokens minted or redeemed.
+ */
+contract CompoundAdapter is ProtocolAdapter {
+    using SafeERC20 for IERC20;
+
+    address public immutable underlying;
+
+    constructor(address _aggregator, address _cToken) ProtocolAdapter(_aggregator, _cToken) {
+        underlying = ICompoundPool(_cToken).underlying();
+    }
+
+    function protocolType() external pure returns (string memory) {
+        return "compound";
+    }
+
+    function supportsToken(address _token) public view returns (bool) {
+        return _token == underlying;
+    }
+
+    function deposit(
+        address _token,
+        uint256 _amount
+    ) external onlyAggregator returns (uint256 shares) {
+        require(supportsToken(_token), "Unsupported token for cToken");
+        IERC20(_token).safeTransferFrom(msg.sender, address(this), _amount);
+
+        uint256 balanceBefore = ICompoundPool(pool).balanceOf(address(this));
+        IERC20(_token).forceApprove(pool, _amount);
+        require(ICompoundPool(pool).mint(_amount) == 0, "Compound mint failed");
+        shares = ICompoundPool(pool).balanceOf(address(this)) - balanceBefore;
+        require(shares > 0, "Stake too small");
+    }
+
+    function withdraw(
+        address _token,
+        uint256 _shares
+    ) external onlyAggregator returns (uint256 amount) {
+        require(supportsToken(_token), "Unsupported token for cToken");
+        uint256 balanceBefore = IERC20(_token).balanceOf(address(this));
+        require(ICompoundPool(pool).redeem(_shares) == 0, "Compound redeem failed");
+        amount = IERC20(_token).balanceOf(address(this)) - balanceBefore;
+        IERC20(_token).safeTransfer(msg.sender, amount);
+    }
+
+    function emergencyExit(
+        address _token
+    ) external onlyAggregator returns (uint256 amount, uint256 shares) {
+        require(supportsToken(_token), "Unsupported token for cToken");
+        shares = ICompoundPool(pool).balanceOf(address(this));
+        if (shares > 0) {
+            require(ICompoundPool(pool).redeem(shares) == 0, "Compound redeem failed");
+        }
+        amount = IERC20(_token).balanceOf(address(this));
+        IERC20(_token).safeTransfer(msg.sender, amount);
+    }
+
+    function valueOf(address, uint256 _shares) external view returns (uint256) {
+        return (_shares * ICompoundPool(pool).exchangeRateStored()) / 1e18;
+    }
+}
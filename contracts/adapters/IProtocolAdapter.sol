@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title IProtocolAdapter
+ * @dev What PolygonDeFiAggregator needs from a yield protocol. An adapter holds
+ * the protocol position for a single aggregator and counts it in shares of its
+ * own, which the aggregator assigns to stakes.
+ */
+interface IProtocolAdapter {
+    /// @dev The aggregator allowed to deposit and withdraw
+    function aggregator() external view returns (address);
+
+    /// @dev Protocol family shown by the aggregator, e.g. "lending"
+    function protocolType() external view returns (string memory);
+
+    function supportsToken(address token) external view returns (bool);
+
+    /// @dev Pull `amount` of `token` from the aggregator and deposit it
+    function deposit(address token, uint256 amount) external returns (uint256 shares);
+
+    /// @dev Redeem `shares` and send the underlying back to the aggregator
+    function withdraw(address token, uint256 shares) external returns (uint256 amount);
+
+    /// @dev Underlying currently redeemable for `shares`
+    function valueOf(address token, uint256 shares) external view returns (uint256);
+
+    /// @dev Redeem the whole position in `token` and send it to the aggregator,
+    /// returning the shares it backed; the adapter stops counting them
+    function emergencyExit(address token) external returns (uint256 amount, uint256 shares);
+}
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./ProtocolAdapter.sol";
+
+// Interface cho Polygon DeFi Staking Protocols
+interface ILiquidStaking {
+    function underlying() external view returns (address);
+    function deposit(uint256 _amount) external returns (uint256);
+    function withdraw(uint256 _shares) external returns (uint256);
+    function getRewards() external view returns (uint256);
+    function balanceOf(address user) external view returns (uint256);
+    function totalSupply() external view returns (uint256);
+    function convertToAssets(uint256 _shares) external view returns (uint256);
+}
+
+/**
+ * @title LiquidStakingAdapter
+ * @dev Deposits into a liquid staking vault; shares are the vault's shares
+ * held for the aggregator
+ */
+contract LiquidStakingAdapter is ProtocolAdapter {
+    using SafeERC20 for IERC20;
+
+    address public immutable underlying;
+
+    constructor(address _aggregator, address _vault) ProtocolAdapter(_aggregator, _vault) {
+        underlying = ILiquidStaking(_vault).underlying();
+    }
+
+    function protocolType() external pure returns (string memory) {
+        return "liquid";
+    }
+
+    function supportsToken(address _token) public view returns (bool) {
+        return _token == underlying;
+    }
+
+    function deposit(
+        address _token,
+        uint256 _amount
+    ) external onlyAggregator returns (uint256 shares) {
+        require(supportsToken(_token), "Unsupported token for liquid staking");
+        IERC20(_token).safeTransferFrom(msg.sender, address(this), _amount);
+        IERC20(_token).forceApprove(pool, _amount);
+        shares = ILiquidStaking(pool).deposit(_amount);
+    }
+
+    function withdraw(
+        address _token,
+        uint256 _shares
+    ) external onlyAggregator returns (uint256 amount) {
+        require(supportsToken(_token), "Unsupported token for liquid staking");
+        amount = ILiquidStaking(pool).withdraw(_shares);
+        IERC20(_token).safeTransfer(msg.sender, amount);
+    }
+
+    function emergencyExit(
+        address _token
+    ) external onlyAggregator returns (uint256 amount, uint256 shares) {
+        require(supportsToken(_token), "Unsupported token for liquid staking");
+        shares = ILiquidStaking(pool).balanceOf(address(this));
+        if (shares > 0) {
+            ILiquidStaking(pool).withdraw(shares);
+        }
+        amount = IERC20(_token).balanceOf(address(this));
+        IERC20(_token).safeTransfer(msg.sender, amount);
+    }
+
+    function valueOf(address, uint256 _shares) external view returns (uint256) {
+        return ILiquidStaking(pool).convertToAssets(_shares);
+    }
+}
@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./IProtocolAdapter.sol";
+
+/**
+ * @title ProtocolAdapter
+ * @dev Base for adapters bound to one aggregator and one protocol contract
+ */
+abstract contract ProtocolAdapter is IProtocolAdapter {
+    address public immutable aggregator;
+    address public immutable pool; // Protocol contract the adapter deposits into
+
+    constructor(address _aggregator, address _pool) {
+        require(_aggregator != address(0), "Invalid aggregator");
+        require(_pool != address(0), "Invalid pool");
+        aggregator = _aggregator;
+        pool = _pool;
+    }
+
+    modifier onlyAggregator() {
+        require(msg.sender == aggregator, "Only aggregator");
+        _;
+    }
+}
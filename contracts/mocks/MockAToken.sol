@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+interface IMockAavePool {
+    function getReserveNormalizedIncome(address asset) external view returns (uint256);
+}
+
+/**
+ * @title MockAToken
+ * @dev Rebasing aToken for tests: balances are scaled balances multiplied by
+ * the pool's liquidity index, so raising the index accrues interest to every
+ * holder. Like Aave v3, the reserve's underlying liquidity is held here.
+ */
+contract MockAToken {
+    using SafeERC20 for IERC20;
+
+    uint256 internal constant RAY = 1e27;
+
+    address public immutable pool;
+    address public immutable underlying;
+
+    mapping(address => uint256) public scaledBalanceOf;
+    uint256 public scaledTotalSupply;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+
+    modifier onlyPool() {
+        require(msg.sender == pool, "Caller is not the pool");
+        _;
+    }
+
+    constructor(address _pool, address _underlying) {
+        pool = _pool;
+        underlying = _underlying;
+    }
+
+    function decimals() external pure returns (uint8) {
+        return 18;
+    }
+
+    function balanceOf(address user) public view returns (uint256) {
+        return (scaledBalanceOf[user] * _index()) / RAY;
+    }
+
+    function totalSupply() external view returns (uint256) {
+        return (scaledTotalSupply * _index()) / RAY;
+    }
+
+    function mint(address user, uint256 amount, uint256 index) external onlyPool {
+        uint256 scaled = (amount * RAY) / index;
+        require(scaled > 0, "Invalid mint amount");
+        scaledBalanceOf[user] += scaled;
+        scaledTotalSupply += scaled;
+        emit Transfer(address(0), user, amount);
+    }
+
+    function burn(address user, uint256 amount, uint256 index) external onlyPool {
+        // Round up so burning a full balance clears the scaled balance
+        uint256 scaled = (amount * RAY + index - 1) / index;
+        if (scaled > scaledBalanceOf[user]) {
+            scaled = scaledBalanceOf[user];
+        }
+        scaledBalanceOf[user] -= scaled;
+        scaledTotalSupply -= scaled;
+        emit Transfer(user, address(0), amount);
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        require(amount <= balanceOf(msg.sender), "Transfer amount exceeds balance");
+        // Round up like burn, so sending a full balance clears it
+        uint256 index = _index();
+        uint256 scaled = (amount * RAY + index - 1) / index;
+        if (scaled > scaledBalanceOf[msg.sender]) {
+            scaled = scaledBalanceOf[msg.sender];
+        }
+        scaledBalanceOf[msg.sender] -= scaled;
+        scaledBalanceOf[to] += scaled;
+        emit Transfer(msg.sender, to, amount);
+        return true;
+    }
+
+    function transferUnderlyingTo(address to, uint256 amount) external onlyPool {
+        IERC20(underlying).safeTransfer(to, amount);
+    }
+
+    function _index() internal view returns (uint256) {
+        return IMockAavePool(pool).getReserveNormalizedIncome(underlying);
+    }
+}
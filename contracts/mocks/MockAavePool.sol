@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./MockAToken.sol";
+
+/**
+ * @title MockAavePool
+ * @dev IAavePool stand-in for tests with one MockAToken per reserve, which
+ * holds the reserve's liquidity as in Aave v3. Interest is simulated with
+ * accrueInterest(), which funds the reserve and raises its liquidity index so
+ * every aToken holder earns pro-rata. The quoted liquidity rate is set
+ * separately with setLiquidityRate.
+ */
+contract MockAavePool {
+    using SafeERC20 for IERC20;
+
+    uint256 internal constant RAY = 1e27;
+
+    // Same layout as Aave v3's DataTypes.ReserveData
+    struct ReserveData {
+        uint256 configuration;
+        uint128 liquidityIndex;
+        uint128 currentLiquidityRate;
+        uint128 variableBorrowIndex;
+        uint128 currentVariableBorrowRate;
+        uint128 currentStableBorrowRate;
+        uint40 lastUpdateTimestamp;
+        uint16 id;
+        address aTokenAddress;
+        address stableDebtTokenAddress;
+        address variableDebtTokenAddress;
+        address interestRateStrategyAddress;
+        uint128 accruedToTreasury;
+        uint128 unbacked;
+        uint128 isolationModeTotalDebt;
+    }
+
+    mapping(address => address) public aTokens;
+    mapping(address => uint256) public liquidityIndex;
+    mapping(address => uint128) public liquidityRate; // ray, as currentLiquidityRate
+
+    function initReserve(address asset, address aToken) external {
+        require(aTokens[asset] == address(0), "Reserve already initialized");
+        aTokens[asset] = aToken;
+        liquidityIndex[asset] = RAY;
+    }
+
+    function setLiquidityRate(address asset, uint128 rate) external {
+        liquidityRate[asset] = rate;
+    }
+
+    function getReserveNormalizedIncome(address asset) external view returns (uint256) {
+        return liquidityIndex[asset];
+    }
+
+    /**
+     * @dev Unknown assets return an all-zero struct, like the real pool
+     */
+    function getReserveData(address asset) external view returns (ReserveData memory data) {
+        data.liquidityIndex = uint128(liquidityIndex[asset]);
+        data.currentLiquidityRate = liquidityRate[asset];
+        data.aTokenAddress = aTokens[asset];
+    }
+
+    function supply(address asset, uint256 amount, address onBehalfOf, uint16) external {
+        address aToken = _aToken(asset);
+        IERC20(asset).safeTransferFrom(msg.sender, aToken, amount);
+        MockAToken(aToken).mint(onBehalfOf, amount, liquidityIndex[asset]);
+    }
+
+    function withdraw(address asset, uint256 amount, address to) external returns (uint256) {
+        MockAToken aToken = MockAToken(_aToken(asset));
+        uint256 balance = aToken.balanceOf(msg.sender);
+        if (amount == type(uint256).max) {
+            amount = balance;
+        }
+        require(amount > 0, "Invalid amount"); // Aave v3 rejects zero withdrawals
+        require(amount <= balance, "Not enough available user balance");
+
+        aToken.burn(msg.sender, amount, liquidityIndex[asset]);
+        aToken.transferUnderlyingTo(to, amount);
+        return amount;
+    }
+
+    /**
+     * @dev Pull `amount` of `asset` from the caller and distribute it to
+     * aToken holders by raising the liquidity index
+     */
+    function accrueInterest(address asset, uint256 amount) external {
+        MockAToken aToken = MockAToken(_aToken(asset));
+        uint256 scaledSupply = aToken.scaledTotalSupply();
+        require(scaledSupply > 0, "No liquidity");
+
+        IERC20(asset).safeTransferFrom(msg.sender, address(aToken), amount);
+        liquidityIndex[asset] += (amount * RAY) / scaledSupply;
+    }
+
+    /**
+     * @dev Lend `amount` of the reserve out to `to`, leaving less liquidity for
+     * withdrawals without touching aToken balances
+     */
+    function borrow(address asset, uint256 amount, address to) external {
+        MockAToken(_aToken(asset)).transferUnderlyingTo(to, amount);
+    }
+
+    function _aToken(address asset) internal view returns (address aToken) {
+        aToken = aTokens[asset];
+        require(aToken != address(0), "Reserve not initialized");
+    }
+}
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title MockChallengeFee
+ * @dev Fee settings a locally deployed ExerciseSupplementNFT points
+ * ChallengeDetailV2 at; returns fixed success and fail fees in percent.
+ */
+contract MockChallengeFee {
+    uint8 public successFee;
+    uint8 public failFee;
+
+    constructor(uint8 _successFee, uint8 _failFee) {
+        successFee = _successFee;
+        failFee = _failFee;
+    }
+
+    function getAmountFee() external view returns (uint8, uint8) {
+        return (successFee, failFee);
+    }
+}
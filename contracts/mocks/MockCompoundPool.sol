@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title MockCompoundPool
+ * @dev cToken-style ICompoundPool stand-in for tests. The exchange rate follows
+ * the underlying held, so transferring underlying to the pool accrues
+ * interest. Like a real cToken, mint() and redeem() return 0 on success and
+ * an error code without moving funds on failure; setErrorCode() makes the
+ * next calls fail. The quoted supplyRatePerBlock is set separately and does
+ * not accrue.
+ */
+contract MockCompoundPool {
+    using SafeERC20 for IERC20;
+
+    uint256 internal constant INITIAL_EXCHANGE_RATE = 1e18;
+
+    IERC20 public immutable underlying;
+
+    mapping(address => uint256) public balanceOf;
+    uint256 public totalSupply;
+    uint256 public supplyRatePerBlock;
+    uint256 public errorCode; // Returned by mint() and redeem() while non-zero
+
+    constructor(address _underlying) {
+        underlying = IERC20(_underlying);
+    }
+
+    function setSupplyRatePerBlock(uint256 rate) external {
+        supplyRatePerBlock = rate;
+    }
+
+    function setErrorCode(uint256 code) external {
+        errorCode = code;
+    }
+
+    function exchangeRateStored() public view returns (uint256) {
+        if (totalSupply == 0) {
+            return INITIAL_EXCHANGE_RATE;
+        }
+        return (underlying.balanceOf(address(this)) * 1e18) / totalSupply;
+    }
+
+    function mint(uint256 mintAmount) external returns (uint256) {
+        if (errorCode != 0) {
+            return errorCode;
+        }
+        uint256 minted = (mintAmount * 1e18) / exchangeRateStored();
+
+        underlying.safeTransferFrom(msg.sender, address(this), mintAmount);
+        balanceOf[msg.sender] += minted;
+        totalSupply += minted;
+        return 0;
+    }
+
+    function redeem(uint256 redeemTokens) external returns (uint256) {
+        if (errorCode != 0) {
+            return errorCode;
+        }
+        require(balanceOf[msg.sender] >= redeemTokens, "Insufficient cTokens");
+
+        uint256 amount = (redeemTokens * exchangeRateStored()) / 1e18;
+        balanceOf[msg.sender] -= redeemTokens;
+        totalSupply -= redeemTokens;
+        underlying.safeTransfer(msg.sender, amount);
+        return 0;
+    }
+}
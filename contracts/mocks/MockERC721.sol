@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/**
+ * @title MockERC721
+ * @dev Freely mintable, transferable ERC721 for NFTs deposited into challenges.
+ */
+contract MockERC721 is ERC721 {
+    uint256 public nextTokenId;
+
+    constructor() ERC721("Mock NFT", "MNFT") {}
+
+    function mint(address _to) external returns (uint256 tokenId) {
+        tokenId = nextTokenId++;
+        _mint(_to, tokenId);
+    }
+}
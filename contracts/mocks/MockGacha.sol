@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title MockGacha
+ * @dev Gacha stand-in for challenge tests: records each randomRewards call
+ * instead of drawing rewards.
+ */
+contract MockGacha {
+    uint256 public callCount;
+    address public lastChallenge;
+    uint256[] private lastSteps;
+
+    event RandomRewards(address indexed challenge, uint256[] steps);
+
+    function randomRewards(address _challengeAddress, uint256[] memory _dataStep) external returns (bool) {
+        require(_challengeAddress == msg.sender, "Only the challenge");
+        callCount++;
+        lastChallenge = _challengeAddress;
+        lastSteps = _dataStep;
+        emit RandomRewards(_challengeAddress, _dataStep);
+        return true;
+    }
+
+    function getLastSteps() external view returns (uint256[] memory) {
+        return lastSteps;
+    }
+}
@@ -0,0 +1,242 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+
+interface ILegacyLiquidStaking {
+    function deposit(uint256 _amount) external returns (uint256);
+    function withdraw(uint256 _shares) external returns (uint256);
+}
+
+interface ILegacyAavePool {
+    function supply(
+        address asset,
+        uint256 amount,
+        address onBehalfOf,
+        uint16 referralCode
+    ) external;
+    function withdraw(address asset, uint256 amount, address to) external returns (uint256);
+}
+
+interface ILegacyWMATIC {
+    function deposit() external payable;
+}
+
+/**
+ * @title MockLegacyAggregator
+ * @dev The stake-keeping part of the aggregator as deployed on Polygon before
+ * adapters and migrateStakeOut, for migration tests. Protocols are called
+ * directly, so the aggregator holds the positions itself: aPolWM for
+ * "lending" (WMATIC only) and pool shares for "liquid". Storage, ABI and
+ * arithmetic follow that deployment; the scheduled, compound and native
+ * payout paths, which the tests do not use, are left out.
+ */
+contract MockLegacyAggregator is Ownable, Pausable {
+    using SafeERC20 for IERC20;
+
+    struct TimeLockedStake {
+        uint256 amount;
+        uint256 shares;
+        uint256 startTime;
+        uint256 endTime;
+        address stakingToken;
+        string protocol;
+        bool isActive;
+        bool isScheduled;
+    }
+
+    struct ProtocolInfo {
+        address contractAddress;
+        bool isActive;
+        uint256 totalDeposited;
+        uint256 currentAPY;
+        string protocolType;
+        string protocolName;
+    }
+
+    address public constant WMATIC_ADDRESS = 0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270;
+    address internal constant A_POL_WM = 0x6d80113e533a2C0fe82EaBD35f1875DcEA89Ea97;
+
+    mapping(string => ProtocolInfo) public protocols;
+    mapping(address => TimeLockedStake[]) internal timeLockedStakes;
+    mapping(address => mapping(string => uint256)) public tokenProtocolTotalShares;
+
+    event TimeLockedStakeCreated(
+        address indexed user,
+        uint256 indexed stakeId,
+        address indexed token,
+        string protocol,
+        uint256 amount,
+        uint256 startTime,
+        uint256 endTime
+    );
+
+    event WithdrawTimeLockedStake(
+        address indexed user,
+        uint256 indexed stakeId,
+        uint256 amount,
+        uint256 rewards,
+        uint256 timestamp
+    );
+
+    constructor() Ownable(msg.sender) {}
+
+    receive() external payable {}
+    fallback() external payable {}
+
+    function addProtocol(
+        string memory _name,
+        address _contractAddress,
+        string memory _protocolType,
+        uint256 _initialAPY
+    ) external onlyOwner {
+        protocols[_name] = ProtocolInfo({
+            contractAddress: _contractAddress,
+            isActive: true,
+            totalDeposited: 0,
+            currentAPY: _initialAPY,
+            protocolType: _protocolType,
+            protocolName: _name
+        });
+    }
+
+    function createTimeLockedStake(
+        address _token,
+        uint256 _amount,
+        string memory _protocol,
+        uint256 _lockDuration
+    ) external payable whenNotPaused {
+        ProtocolInfo storage protocol = protocols[_protocol];
+        require(protocol.isActive, "Protocol not supported");
+
+        uint256 actualAmount = _amount;
+        if (_token == WMATIC_ADDRESS && msg.value > 0) {
+            actualAmount = msg.value;
+            ILegacyWMATIC(WMATIC_ADDRESS).deposit{ value: actualAmount }();
+        } else {
+            IERC20(_token).safeTransferFrom(msg.sender, address(this), actualAmount);
+        }
+
+        IERC20(_token).approve(protocol.contractAddress, actualAmount);
+        uint256 shares = _stakeToProtocol(_token, _protocol, actualAmount);
+        timeLockedStakes[msg.sender].push(
+            TimeLockedStake({
+                amount: actualAmount,
+                shares: shares,
+                startTime: block.timestamp,
+                endTime: block.timestamp + _lockDuration,
+                stakingToken: _token,
+                protocol: _protocol,
+                isActive: true,
+                isScheduled: false
+            })
+        );
+        protocol.totalDeposited += actualAmount;
+
+        emit TimeLockedStakeCreated(
+            msg.sender,
+            timeLockedStakes[msg.sender].length - 1,
+            _token,
+            _protocol,
+            actualAmount,
+            block.timestamp,
+            block.timestamp + _lockDuration
+        );
+    }
+
+    function withdrawTimeLockedStake(uint256 _stakeId) external {
+        TimeLockedStake storage stake = timeLockedStakes[msg.sender][_stakeId];
+        require(stake.isActive, "Stake not active");
+
+        uint256 amount = _withdrawFromProtocol(stake.stakingToken, stake.protocol, stake.shares);
+        stake.isActive = false;
+        protocols[stake.protocol].totalDeposited -= stake.amount;
+        IERC20(stake.stakingToken).safeTransfer(msg.sender, amount);
+
+        emit WithdrawTimeLockedStake(
+            msg.sender,
+            _stakeId,
+            stake.amount,
+            amount > stake.amount ? amount - stake.amount : 0,
+            block.timestamp
+        );
+    }
+
+    function _stakeToProtocol(
+        address _token,
+        string memory _protocol,
+        uint256 _amount
+    ) internal returns (uint256 shares) {
+        ProtocolInfo storage protocol = protocols[_protocol];
+
+        if (keccak256(bytes(protocol.protocolType)) == keccak256(bytes("liquid"))) {
+            shares = ILegacyLiquidStaking(protocol.contractAddress).deposit(_amount);
+        } else {
+            require(_token == WMATIC_ADDRESS, "Unsupported token for Aave lending");
+            uint256 balanceBefore = IERC20(A_POL_WM).balanceOf(address(this));
+            ILegacyAavePool(protocol.contractAddress).supply(_token, _amount, address(this), 0);
+            shares = IERC20(A_POL_WM).balanceOf(address(this)) - balanceBefore;
+            tokenProtocolTotalShares[_token][_protocol] += shares;
+        }
+    }
+
+    /**
+     * @dev Lending withdrawals take everything out of Aave, pay the stake its
+     * share and supply the rest again, minting shares for the remainder
+     */
+    function _withdrawFromProtocol(
+        address _token,
+        string memory _protocol,
+        uint256 _shares
+    ) internal returns (uint256 amount) {
+        ProtocolInfo storage protocol = protocols[_protocol];
+
+        if (keccak256(bytes(protocol.protocolType)) == keccak256(bytes("liquid"))) {
+            return ILegacyLiquidStaking(protocol.contractAddress).withdraw(_shares);
+        }
+        uint256 totalSharesBefore = tokenProtocolTotalShares[_token][_protocol];
+        require(totalSharesBefore > 0, "No shares to withdraw");
+
+        uint256 withdrawnAll = ILegacyAavePool(protocol.contractAddress).withdraw(
+            _token,
+            type(uint256).max,
+            address(this)
+        );
+        amount = (withdrawnAll * _shares) / totalSharesBefore;
+
+        uint256 mintedShares;
+        uint256 remainder = withdrawnAll - amount;
+        if (remainder > 0) {
+            IERC20(_token).approve(protocol.contractAddress, remainder);
+            uint256 balanceBefore = IERC20(A_POL_WM).balanceOf(address(this));
+            ILegacyAavePool(protocol.contractAddress).supply(_token, remainder, address(this), 0);
+            mintedShares = IERC20(A_POL_WM).balanceOf(address(this)) - balanceBefore;
+        }
+        tokenProtocolTotalShares[_token][_protocol] = totalSharesBefore - _shares + mintedShares;
+    }
+
+    function getUserTimeLockedStakes(
+        address _user
+    ) external view returns (TimeLockedStake[] memory) {
+        return timeLockedStakes[_user];
+    }
+
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    function emergencyWithdraw(address _token) external onlyOwner {
+        IERC20 token = IERC20(_token);
+        uint256 balance = token.balanceOf(address(this));
+        if (balance > 0) {
+            token.safeTransfer(owner(), balance);
+        }
+    }
+}
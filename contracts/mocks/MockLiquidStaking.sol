@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title MockLiquidStaking
+ * @dev ILiquidStaking stand-in for tests. Shares are pro-rata to the underlying
+ * held, so minting underlying directly to the contract simulates rewards.
+ */
+contract MockLiquidStaking {
+    using SafeERC20 for IERC20;
+
+    IERC20 public immutable underlying;
+
+    mapping(address => uint256) public balanceOf;
+    uint256 public totalSupply;
+
+    constructor(address _underlying) {
+        underlying = IERC20(_underlying);
+    }
+
+    function deposit(uint256 _amount) external returns (uint256 shares) {
+        uint256 assets = underlying.balanceOf(address(this));
+        shares = totalSupply == 0 || assets == 0 ? _amount : (_amount * totalSupply) / assets;
+
+        underlying.safeTransferFrom(msg.sender, address(this), _amount);
+        balanceOf[msg.sender] += shares;
+        totalSupply += shares;
+    }
+
+    function withdraw(uint256 _shares) external returns (uint256 amount) {
+        require(balanceOf[msg.sender] >= _shares, "Insufficient shares");
+
+        amount = (_shares * underlying.balanceOf(address(this))) / totalSupply;
+        balanceOf[msg.sender] -= _shares;
+        totalSupply -= _shares;
+        underlying.safeTransfer(msg.sender, amount);
+    }
+
+    function convertToAssets(uint256 _shares) external view returns (uint256) {
+        if (totalSupply == 0) {
+            return _shares;
+        }
+        return (_shares * underlying.balanceOf(address(this))) / totalSupply;
+    }
+
+    function getRewards() external pure returns (uint256) {
+        return 0;
+    }
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "../PolygonDeFiAggregator.sol";
+
+/**
+ * @title TransparentPolygonDeFiAggregator
+ * @dev The aggregator implementation deployed behind transparent proxies. Their
+ * ProxyAdmin must be the only upgrade path, so the UUPS upgradeToAndCall
+ * inherited from PolygonDeFiAggregator is disabled. The storage layout is the
+ * aggregator's.
+ */
+contract TransparentPolygonDeFiAggregator is PolygonDeFiAggregator {
+    function _authorizeUpgrade(address) internal pure override {
+        revert("Upgrades go through the ProxyAdmin");
+    }
+}
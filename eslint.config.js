@@ -18,9 +18,16 @@ export default [
         process: 'readonly',
         describe: 'readonly',
         it: 'readonly',
+        before: 'readonly',
+        after: 'readonly',
         beforeEach: 'readonly',
         afterEach: 'readonly',
         expect: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
+        Buffer: 'readonly',
+        fetch: 'readonly',
+        URL: 'readonly',
       },
     },
     plugins: {
@@ -1,7 +1,9 @@
-require('@nomicfoundation/hardhat-toolbox');
-require('dotenv/config');
+import '@nomicfoundation/hardhat-toolbox';
+import 'dotenv/config';
+import { HardhatUserConfig } from 'hardhat/config';
+import './tasks';
 
-const config = {
+const config: HardhatUserConfig = {
   solidity: {
     version: '0.8.28',
     settings: {
@@ -10,6 +12,12 @@ const config = {
         runs: 200,
       },
       viaIR: true,
+      // Recorded with each aggregator implementation for upgrade checks
+      outputSelection: {
+        '*': {
+          '*': ['storageLayout'],
+        },
+      },
     },
   },
   networks: {
@@ -40,7 +48,14 @@ const config = {
   gasReporter: {
     enabled: process.env.REPORT_GAS !== undefined,
     currency: 'USD',
+    // Raw data for `polygon-staking gas-diff`
+    outputJSON: process.env.GAS_REPORT_FILE !== undefined,
+    outputJSONFile: process.env.GAS_REPORT_FILE,
+  },
+  typechain: {
+    outDir: 'typechain-types',
+    target: 'ethers-v6',
   },
 };
 
-module.exports = config;
+export default config;
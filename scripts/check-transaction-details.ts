@@ -1,4 +1,5 @@
 import 'dotenv/config';
+import { Log } from 'ethers';
 
 const hre = require('hardhat');
 
@@ -38,7 +39,7 @@ async function main() {
       // Parse logs
       if (stakingReceipt.logs.length > 0) {
         console.log('\n📋 Event Logs:');
-        stakingReceipt.logs.forEach((log, i) => {
+        stakingReceipt.logs.forEach((log: Log, i: number) => {
           console.log(`Event ${i}:`);
           console.log(`  Address: ${log.address}`);
           console.log(`  Topics: ${log.topics.join(', ')}`);
@@ -70,7 +71,7 @@ async function main() {
       // Parse logs
       if (withdrawReceipt.logs.length > 0) {
         console.log('\n📋 Event Logs:');
-        withdrawReceipt.logs.forEach((log, i) => {
+        withdrawReceipt.logs.forEach((log: Log, i: number) => {
           console.log(`Event ${i}:`);
           console.log(`  Address: ${log.address}`);
           console.log(`  Topics: ${log.topics.join(', ')}`);
@@ -87,8 +88,8 @@ async function main() {
     const stakingLogs = stakingReceipt?.logs || [];
     const withdrawLogs = withdrawReceipt?.logs || [];
     
-    const aaveInStaking = stakingLogs.some(log => log.address.toLowerCase() === aavePoolAddress.toLowerCase());
-    const aaveInWithdraw = withdrawLogs.some(log => log.address.toLowerCase() === aavePoolAddress.toLowerCase());
+    const aaveInStaking = stakingLogs.some((log: Log) => log.address.toLowerCase() === aavePoolAddress.toLowerCase());
+    const aaveInWithdraw = withdrawLogs.some((log: Log) => log.address.toLowerCase() === aavePoolAddress.toLowerCase());
     
     console.log(`🏦 Aave Pool in Staking Logs: ${aaveInStaking ? '✅ YES' : '❌ NO'}`);
     console.log(`🏦 Aave Pool in Withdraw Logs: ${aaveInWithdraw ? '✅ YES' : '❌ NO'}`);
@@ -102,7 +103,10 @@ async function main() {
     }
 
   } catch (error) {
-    console.log('❌ Check failed:', error.message);
+    console.log(
+      '❌ Check failed:',
+      error instanceof Error ? error.message : error
+    );
   }
 
   console.log('\n✅ TRANSACTION DETAILS CHECK COMPLETED!');
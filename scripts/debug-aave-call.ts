@@ -1,4 +1,5 @@
 import 'dotenv/config';
+import { isCallException } from 'ethers';
 
 const hre = require('hardhat');
 
@@ -62,19 +63,25 @@ async function main() {
       console.log('\n🎉 SUCCESS! Aave Pool call worked!');
       
     } catch (supplyError) {
-      console.log('❌ Supply to Aave failed:', supplyError.message);
+      console.log(
+        '❌ Supply to Aave failed:',
+        supplyError instanceof Error ? supplyError.message : supplyError
+      );
       
       // Try to get more details
-      if (supplyError.reason) {
-        console.log(`Reason: ${supplyError.reason}`);
-      }
-      if (supplyError.code) {
+      if (isCallException(supplyError)) {
+        if (supplyError.reason) {
+          console.log(`Reason: ${supplyError.reason}`);
+        }
         console.log(`Code: ${supplyError.code}`);
       }
     }
 
   } catch (error) {
-    console.log('❌ Test failed:', error.message);
+    console.log(
+      '❌ Test failed:',
+      error instanceof Error ? error.message : error
+    );
   }
 
   console.log('\n✅ AAVE CALL TEST COMPLETED!');
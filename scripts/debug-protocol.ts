@@ -1,6 +1,6 @@
 import 'dotenv/config';
-import * as fs from 'fs';
-import * as path from 'path';
+import { EventLog } from 'ethers';
+import { loadAggregatorDeployment } from '../sdk';
 
 const hre = require('hardhat');
 
@@ -12,14 +12,8 @@ async function main() {
   console.log(`👤 Signer: ${signer.address}`);
 
   // Load deployment info
-  const deploymentPath = path.join(
-    process.cwd(),
-    'deployInfo',
-    'polygon-defi-deployment.json'
-  );
-  
-  const deployment = JSON.parse(fs.readFileSync(deploymentPath, 'utf8'));
-  const contractAddress = deployment.contractAddress;
+  const deployment = await loadAggregatorDeployment(hre.ethers.provider);
+  const contractAddress = deployment.address;
 
   console.log(`📋 Contract: ${contractAddress}`);
 
@@ -48,7 +42,10 @@ async function main() {
       console.log(`Types: ${allProtocols.types}`);
       console.log(`APYs: ${allProtocols.apys}`);
     } catch (error) {
-      console.log('❌ getAllProtocols failed:', error.message);
+      console.log(
+        '❌ getAllProtocols failed:',
+        error instanceof Error ? error.message : error
+      );
     }
 
     // Check WMATIC token support
@@ -62,7 +59,10 @@ async function main() {
 
     // Check if we can call Aave Pool directly
     console.log('\n🔍 Testing Aave Pool directly...');
-    const aavePoolAddress = protocolInfo.contractAddress;
+    // The protocol is registered through its adapter, which wraps the pool
+    const aavePoolAddress = protocolInfo.isActive
+      ? await (await hre.ethers.getContractAt('AaveV3Adapter', protocolInfo.contractAddress)).pool()
+      : '';
     
     if (aavePoolAddress && aavePoolAddress !== '0x0000000000000000000000000000000000000000') {
       try {
@@ -77,7 +77,9 @@ async function main() {
         // console.log(`WMATIC Reserve Data: ${reserveData}`);
         
       } catch (error) {
-        console.log(`❌ Failed to interact with Aave Pool: ${error.message}`);
+        console.log(
+          `❌ Failed to interact with Aave Pool: ${error instanceof Error ? error.message : error}`
+        );
       }
     } else {
       console.log('❌ Aave Pool address is not set or is zero address');
@@ -89,7 +91,7 @@ async function main() {
     const events = await defiAggregator.queryFilter(filter, -100); // Last 100 blocks
     
     console.log(`Found ${events.length} TimeLockedStakeCreated events:`);
-    events.forEach((event, i) => {
+    events.forEach((event: EventLog, i: number) => {
       console.log(`Event ${i}:`);
       console.log(`  User: ${event.args.user}`);
       console.log(`  Token: ${event.args.token}`);
@@ -98,7 +100,10 @@ async function main() {
     });
 
   } catch (error) {
-    console.log('❌ Debug failed:', error.message);
+    console.log(
+      '❌ Debug failed:',
+      error instanceof Error ? error.message : error
+    );
   }
 
   console.log('\n✅ DEBUG COMPLETED!');
@@ -1,6 +1,11 @@
 import 'dotenv/config';
-import * as fs from 'fs';
-import * as path from 'path';
+import {
+  connectAggregator,
+  getStakeValue,
+  getUserTimeLockedStakes,
+  loadAggregatorDeployment,
+  previewWithdraw,
+} from '../../sdk';
 
 const hre = require('hardhat');
 
@@ -15,33 +20,19 @@ async function main() {
   );
 
   // Load deployment info
-  const deploymentPath = path.join(
-    process.cwd(),
-    'deployInfo',
-    'polygon-defi-deployment.json'
-  );
-  
-  if (!fs.existsSync(deploymentPath)) {
-    console.error('❌ Deployment file not found!');
-    console.log('💡 Please deploy the contract first');
-    process.exit(1);
-  }
-
-  const deployment = JSON.parse(fs.readFileSync(deploymentPath, 'utf8'));
-  const contractAddress = deployment.contractAddress;
+  const deployment = await loadAggregatorDeployment(hre.ethers.provider);
+  const contractAddress = deployment.address;
 
   console.log(`📋 Contract: ${contractAddress}`);
 
   // Get contract instance
-  const defiAggregator = await hre.ethers.getContractAt(
-    'PolygonDeFiAggregator',
-    contractAddress
-  );
+  const defiAggregator = connectAggregator(contractAddress, signer);
 
   try {
     // Get user's time-locked stakes
     console.log('\n📊 Fetching your time-locked stakes...');
-    const timeLockedStakes = await defiAggregator.getUserTimeLockedStakes(
+    const timeLockedStakes = await getUserTimeLockedStakes(
+      defiAggregator,
       signer.address
     );
 
@@ -61,34 +52,44 @@ async function main() {
     // Display all stakes with detailed info
     for (let i = 0; i < timeLockedStakes.length; i++) {
       const stake = timeLockedStakes[i];
-      
+
       console.log(`\n🆔 Stake #${i}:`);
-      console.log(`💰 Amount: ${hre.ethers.formatEther(stake.amount)} WMATIC`);
+      console.log(`💰 Amount: ${stake.formattedAmount} WMATIC`);
       console.log(`🪙 Token: ${stake.stakingToken}`);
       console.log(`📋 Protocol: ${stake.protocol}`);
-      console.log(`⏰ Start: ${new Date(Number(stake.startTime) * 1000).toLocaleString()}`);
-      console.log(`⏰ End: ${new Date(Number(stake.endTime) * 1000).toLocaleString()}`);
+      console.log(
+        `⏰ Start: ${new Date(stake.startTime * 1000).toLocaleString()}`
+      );
+      console.log(`⏰ End: ${new Date(stake.endTime * 1000).toLocaleString()}`);
       console.log(`🔒 Active: ${stake.isActive}`);
       console.log(`📅 Scheduled: ${stake.isScheduled}`);
+      console.log(`🧩 Shares: ${stake.shares}`);
+      console.log(`🛡️ Lock policy: ${stake.lockPolicy.mode}`);
+      console.log(`🔁 Auto-compound: ${stake.autoCompound}`);
 
       if (stake.isActive) {
         activeStakes++;
         totalStaked += stake.amount;
 
-        // Check if matured
-        const isMatured = await defiAggregator.isTimeLockedStakeMatured(
+        const value = await getStakeValue(
+          defiAggregator,
           signer.address,
-          i
+          stake
+        );
+        console.log(
+          `💎 Current value: ${value.formattedValue} (+${value.formattedRewards} rewards)`
         );
-        console.log(`✅ Matured: ${isMatured}`);
-        
-        if (isMatured) {
+
+        // Check if matured
+        console.log(`✅ Matured: ${stake.isMatured}`);
+
+        if (stake.isMatured) {
           maturedStakes++;
         }
 
         // Calculate time remaining
         const now = Math.floor(Date.now() / 1000);
-        const endTime = Number(stake.endTime);
+        const endTime = stake.endTime;
         const timeRemaining = endTime - now;
 
         if (timeRemaining > 0) {
@@ -102,6 +103,7 @@ async function main() {
 
         // Show withdrawal command
         console.log(`💸 Withdraw command: withdrawTimeLockedStake(${i})`);
+        console.log(`💸 Partial withdraw: partialWithdraw(${i}, shares)`);
       } else {
         console.log(`❌ Inactive (already withdrawn)`);
       }
@@ -114,44 +116,67 @@ async function main() {
     console.log(`📈 Total Stakes: ${timeLockedStakes.length}`);
     console.log(`🔒 Active Stakes: ${activeStakes}`);
     console.log(`✅ Matured Stakes: ${maturedStakes}`);
-    console.log(`💰 Total Staked: ${hre.ethers.formatEther(totalStaked)} WMATIC`);
+    console.log(
+      `💰 Total Staked: ${hre.ethers.formatEther(totalStaked)} WMATIC`
+    );
 
     // Withdrawal options
     if (activeStakes > 0) {
       console.log('\n💸 Withdrawal Options:');
-      
+
       for (let i = 0; i < timeLockedStakes.length; i++) {
         const stake = timeLockedStakes[i];
         if (!stake.isActive) continue;
 
-        const isMatured = await defiAggregator.isTimeLockedStakeMatured(
-          signer.address,
-          i
+        console.log(
+          `💰 Stake #${i}: ${stake.formattedAmount} WMATIC principal`
         );
-
         console.log(
-          `💰 Stake #${i}: Can withdraw ${hre.ethers.formatEther(stake.amount)} WMATIC + rewards (100% return)`
+          `   Use: withdrawTimeLockedStake(${i}) or partialWithdraw(${i}, shares)`
         );
-        console.log(`   Use: withdrawTimeLockedStake(${i})`);
-        if (isMatured) {
+        if (stake.isMatured) {
           console.log(`   ✅ Matured - optimal time to withdraw`);
+          if (stake.autoCompound) {
+            console.log(
+              `   🔁 Auto-compound on - renewStake(${signer.address}, ${i}) starts a new term`
+            );
+          }
+        } else if (stake.lockPolicy.mode === 'hard') {
+          console.log(`   🔒 Hard-locked until maturity`);
         } else {
-          console.log(`   ⏰ Still earning - can withdraw anytime`);
+          const preview = await previewWithdraw(
+            defiAggregator,
+            signer.address,
+            i
+          );
+          console.log(
+            `   ⏰ Still earning - withdrawing now pays ${hre.ethers.formatEther(preview.amount)} (penalty ${hre.ethers.formatEther(preview.penalty)})`
+          );
         }
+        console.log(
+          `   ➕ Top up: increaseStake(${i}, amount)  ⏩ Extend: extendLock(${i}, newEndTime)`
+        );
       }
     }
 
     console.log('\n💡 Time-Locked Staking Benefits:');
     console.log('✅ Predictable maturity dates');
-    console.log('✅ Always 100% return (no penalties)');
+    console.log(
+      '✅ Full return at maturity (early-exit rules depend on the protocol lock policy)'
+    );
     console.log('✅ Better reward optimization for long-term holders');
     console.log('✅ Immediate execution (no scheduling complexity)');
-    console.log('✅ Flexible withdrawal anytime with full rewards');
+    console.log(
+      '✅ Top up, extend, partially withdraw or auto-compound open stakes'
+    );
 
     console.log('\n🔗 View on Polygonscan:');
-    console.log(`📋 Contract: https://polygonscan.com/address/${contractAddress}`);
-    console.log(`📋 Read Contract: https://polygonscan.com/address/${contractAddress}#readContract`);
-
+    console.log(
+      `📋 Contract: https://polygonscan.com/address/${contractAddress}`
+    );
+    console.log(
+      `📋 Read Contract: https://polygonscan.com/address/${contractAddress}#readContract`
+    );
   } catch (error: any) {
     console.log('❌ Failed to fetch stakes:', error.message);
     console.log('💡 This might be expected if:');
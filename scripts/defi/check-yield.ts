@@ -0,0 +1,98 @@
+import 'dotenv/config';
+import hre from 'hardhat';
+import {
+  connectAggregator,
+  estimateStakeYield,
+  getStakeValue,
+  getUserTimeLockedStakes,
+  loadAggregatorDeployment,
+} from '../../sdk';
+
+/**
+ * Realized yield (from share prices, or the withdrawal event for closed
+ * stakes) next to the APY-based estimate for each of the signer's stakes
+ */
+async function main() {
+  console.log('📈 Realized vs Estimated Yield');
+  console.log('==============================');
+
+  const [signer] = await hre.ethers.getSigners();
+  const user = process.env.STAKER_ADDRESS || signer.address;
+  console.log(`👤 User: ${user}`);
+
+  const deployment = await loadAggregatorDeployment(hre.ethers.provider);
+  console.log(`📋 Contract: ${deployment.address}`);
+  const aggregator = connectAggregator(deployment.address, signer);
+
+  const stakes = await getUserTimeLockedStakes(aggregator, user);
+  if (stakes.length === 0) {
+    console.log('❌ No time-locked stakes found!');
+    return;
+  }
+
+  const withdrawals = await aggregator.queryFilter(
+    aggregator.filters.WithdrawTimeLockedStake(user),
+    deployment.blockNumber ?? 0
+  );
+  const withdrawnById = new Map(
+    withdrawals.map(event => [Number(event.args.stakeId), event.args])
+  );
+
+  const block = await hre.ethers.provider.getBlock('latest');
+  if (!block) {
+    throw new Error('Could not fetch the latest block');
+  }
+  const apys = new Map<string, bigint>();
+
+  for (const stake of stakes) {
+    if (!apys.has(stake.protocol)) {
+      apys.set(
+        stake.protocol,
+        (await aggregator.protocols(stake.protocol)).currentAPY
+      );
+    }
+    const apy = apys.get(stake.protocol)!;
+    const format = (value: bigint) =>
+      hre.ethers.formatUnits(value, stake.decimals);
+
+    let realized: bigint;
+    let until: number;
+    console.log(`\n🆔 Stake #${stake.stakeId} (${stake.protocol})`);
+    console.log(`🪙 Token: ${stake.stakingToken}`);
+    console.log(`💰 Principal: ${stake.formattedAmount}`);
+
+    if (stake.isActive) {
+      const value = await getStakeValue(aggregator, user, stake);
+      realized = value.value - stake.amount;
+      until = block.timestamp;
+      console.log(`💎 Current value: ${value.formattedValue}`);
+    } else {
+      const withdrawal = withdrawnById.get(stake.stakeId);
+      if (!withdrawal) {
+        console.log('⚠️ Withdrawn, but no withdrawal event found');
+        continue;
+      }
+      realized = withdrawal.rewards;
+      until = Number(withdrawal.timestamp);
+      console.log(`📤 Withdrawn: ${new Date(until * 1000).toLocaleString()}`);
+    }
+
+    const estimated = estimateStakeYield(stake, apy, until);
+    const days = ((until - stake.startTime) / 86400).toFixed(1);
+    console.log(`📈 Realized yield: ${format(realized)}`);
+    console.log(
+      `🧮 Estimated yield: ${format(estimated)} (${Number(apy) / 100}% APY over ${days} days)`
+    );
+    console.log(`↔️  Difference: ${format(realized - estimated)}`);
+  }
+
+  console.log('\n💡 Estimates use the current APY; realized yield is what the');
+  console.log('   protocol share price (or the withdrawal) actually paid.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('💥 Yield check failed:', error);
+    process.exit(1);
+  });
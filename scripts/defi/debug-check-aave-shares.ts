@@ -1,6 +1,9 @@
 import 'dotenv/config';
-import * as fs from 'fs';
-import * as path from 'path';
+import {
+  connectAggregator,
+  getUserTimeLockedStakes,
+  loadAggregatorDeployment,
+} from '../../sdk';
 
 const hre = require('hardhat');
 
@@ -10,18 +13,13 @@ async function main() {
   console.log('==============================');
   console.log(`👤 Signer: ${signer.address}`);
 
-  const deploymentPath = path.join(process.cwd(), 'deployInfo', 'polygon-defi-deployment.json');
-  const deployment = JSON.parse(fs.readFileSync(deploymentPath, 'utf8'));
-  const contractAddress = deployment.contractAddress;
+  const deployment = await loadAggregatorDeployment(hre.ethers.provider);
+  const contractAddress = deployment.address;
   console.log(`📋 Contract: ${contractAddress}`);
 
-  const wmatic = '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270';
-  const aPolWM = '0x6d80113e533a2C0fe82EaBD35f1875DcEA89Ea97';
+  const contract = connectAggregator(contractAddress, signer);
 
-  const DeFiAggregatorFactory = await hre.ethers.getContractFactory('PolygonDeFiAggregator');
-  const contract = DeFiAggregatorFactory.attach(contractAddress).connect(signer);
-
-  const stakes = await contract.getUserTimeLockedStakes(signer.address);
+  const stakes = await getUserTimeLockedStakes(contract, signer.address);
   console.log(`📊 Stakes: ${stakes.length}`);
   if (stakes.length === 0) {
     console.log('❌ No stakes');
@@ -29,15 +27,20 @@ async function main() {
   }
   const lastId = stakes.length - 1;
   const s = stakes[lastId];
-  console.log(`🆔 StakeId=${lastId}, amount=${hre.ethers.formatEther(s.amount)}, shares=${s.shares.toString()}, token=${s.stakingToken}, protocol=${s.protocol}`);
-
-  // Read total shares mapping
-  const totalShares = await contract.tokenProtocolTotalShares(wmatic, 'aave_lending');
-  console.log(`📈 tokenProtocolTotalShares = ${totalShares.toString()}`);
-
-  const aToken = await hre.ethers.getContractAt('IERC20', aPolWM);
-  const aTokenBal = await aToken.balanceOf(contractAddress);
-  console.log(`🏦 aPolWM balance: ${hre.ethers.formatEther(aTokenBal)}`);
+  console.log(`🆔 StakeId=${lastId}, amount=${s.formattedAmount}, shares=${s.shares.toString()}, token=${s.stakingToken}, protocol=${s.protocol}`);
+
+  // The adapter holds the aTokens and the share ledger
+  const adapterAddress = (await contract.protocols(s.protocol)).contractAddress;
+  console.log(`🔌 Adapter: ${adapterAddress}`);
+  const adapter = await hre.ethers.getContractAt('AaveV3Adapter', adapterAddress);
+  const totalShares = await adapter.totalShares(s.stakingToken);
+  console.log(`📈 totalShares = ${totalShares.toString()}`);
+
+  const aTokenAddress = await adapter.aTokenOf(s.stakingToken);
+  console.log(`🪙 aToken: ${aTokenAddress}`);
+  const aToken = await hre.ethers.getContractAt('IERC20', aTokenAddress);
+  const aTokenBal = await aToken.balanceOf(adapterAddress);
+  console.log(`🏦 aToken balance: ${hre.ethers.formatUnits(aTokenBal, s.decimals)}`);
 
   try {
     const gas = await contract.withdrawTimeLockedStake.estimateGas(lastId);
@@ -1,30 +1,24 @@
-import * as fs from 'fs';
 import { network, run } from 'hardhat';
 import * as path from 'path';
+import {
+  applySync,
+  connectAggregator,
+  deployAggregatorProxy,
+  DeploymentConfig,
+  describeSyncAction,
+  getExplorerUrl,
+  isEphemeralNetwork,
+  loadDeploymentConfig,
+  planSync,
+  PROXY_KINDS,
+  ProxyDeployment,
+  ProxyKind,
+  readStorageLayout,
+  recordDeployment,
+} from '../../sdk';
 
 const hre = require('hardhat');
 
-interface DeploymentConfig {
-  wmaticAddress: string;
-  maxGasForExternalCall: number;
-  emergencyWithdrawDelay: number;
-  supportedTokens: Array<{
-    address: string;
-    symbol: string;
-    decimals: number;
-    maxStakeAmount: string;
-  }>;
-  protocols: Array<{
-    name: string;
-    contractAddress: string;
-    rewardToken: string;
-    protocolType: string;
-    initialAPY: number;
-    maxTVL: string;
-    isVerified: boolean;
-  }>;
-}
-
 async function main() {
   console.log('🚀 PROFESSIONAL PRODUCTION DEPLOYMENT');
   console.log('=====================================');
@@ -32,6 +26,14 @@ async function main() {
   const [deployer] = await hre.ethers.getSigners();
   console.log(`📍 Network: ${network.name}`);
   console.log(`👤 Deployer: ${deployer.address}`);
+  // uups | transparent to deploy behind a proxy
+  const proxyKind = process.env.AGGREGATOR_PROXY as ProxyKind | undefined;
+  if (proxyKind && !PROXY_KINDS.includes(proxyKind)) {
+    console.error(
+      `❌ AGGREGATOR_PROXY must be one of: ${PROXY_KINDS.join(', ')}`
+    );
+    process.exit(1);
+  }
   console.log(
     `💰 Balance: ${hre.ethers.formatEther(await hre.ethers.provider.getBalance(deployer.address))} ETH`
   );
@@ -44,7 +46,7 @@ async function main() {
   let config: DeploymentConfig;
 
   try {
-    config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    config = loadDeploymentConfig(configPath);
     console.log('✅ Configuration loaded');
   } catch (error) {
     console.error('❌ Failed to load configuration:', error);
@@ -77,15 +79,35 @@ async function main() {
   console.log('\n🏗️  DEPLOYING CONTRACT');
   console.log('======================');
 
-  const ContractFactory = await hre.ethers.getContractFactory(
-    'PolygonDeFiAggregator'
-  );
+  let contractAddress: string;
+  let deployReceipt: { hash: string; blockNumber: number } | null | undefined;
+  let proxy: ProxyDeployment | undefined;
+  if (proxyKind) {
+    console.log(
+      `⏳ Deploying PolygonDeFiAggregator behind a ${proxyKind} proxy...`
+    );
+    proxy = await deployAggregatorProxy(deployer, {
+      kind: proxyKind,
+      storageLayout: await readStorageLayout(hre.artifacts),
+    });
+    contractAddress = proxy.address;
+    deployReceipt = { hash: proxy.txHash, blockNumber: proxy.blockNumber };
+    console.log(
+      `✅ Implementation deployed at: ${proxy.implementation.address}`
+    );
+  } else {
+    const ContractFactory = await hre.ethers.getContractFactory(
+      'PolygonDeFiAggregator'
+    );
 
-  console.log('⏳ Deploying PolygonDeFiAggregator...');
-  const contract = await ContractFactory.deploy();
-  await contract.waitForDeployment();
+    console.log('⏳ Deploying PolygonDeFiAggregator...');
+    const deployed = await ContractFactory.deploy();
+    await deployed.waitForDeployment();
 
-  const contractAddress = await contract.getAddress();
+    contractAddress = await deployed.getAddress();
+    deployReceipt = await deployed.deploymentTransaction()?.wait();
+  }
+  const contract = connectAggregator(contractAddress, deployer);
   console.log(`✅ Contract deployed at: ${contractAddress}`);
 
   // Verify deployment
@@ -107,45 +129,32 @@ async function main() {
   console.log('Setting security parameters...');
   console.log('✅ Security parameters set');
 
-  // Add supported tokens
-  console.log('Adding supported tokens...');
-  for (const token of config.supportedTokens) {
-    console.log(`  Adding ${token.symbol}...`);
-    await contract.addSupportedToken(
-      token.address,
-      token.symbol,
-      token.decimals
-    );
-  }
-  console.log('✅ Supported tokens added');
-
-  // Add protocols
-  console.log('Adding protocols...');
-  for (const protocol of config.protocols) {
-    console.log(`  Adding ${protocol.name}...`);
-    await contract.addProtocol(
-      protocol.name,
-      protocol.contractAddress,
-      protocol.protocolType,
-      protocol.initialAPY
-    );
-  }
-  console.log('✅ Protocols added');
+  // Add supported tokens and protocols
+  const plan = await planSync(contract, config);
+  plan.warnings.forEach(warning => console.log(`  ⚠️  ${warning}`));
+  await applySync(contract, plan, ({ action }) =>
+    console.log(`  ✅ ${describeSyncAction(action)}`)
+  );
+  console.log('✅ Tokens and protocols configured');
 
   // Contract verification on Etherscan/Polygonscan
+  let verified = false;
   if (network.name !== 'hardhat' && network.name !== 'localhost') {
     console.log('\n🔍 VERIFYING ON BLOCK EXPLORER');
     console.log('===============================');
 
     try {
       console.log('⏳ Waiting for block confirmations...');
-      await contract.deploymentTransaction()?.wait(5); // Wait 5 blocks
+      if (deployReceipt) {
+        await hre.ethers.provider.waitForTransaction(deployReceipt.hash, 5); // Wait 5 blocks
+      }
 
       console.log('⏳ Verifying contract source code...');
       await run('verify:verify', {
         address: contractAddress,
-        constructorArguments: [],
+        constructorArguments: proxy?.constructorArgs ?? [],
       });
+      verified = true;
       console.log('✅ Contract verified on block explorer');
     } catch (error) {
       console.warn('⚠️  Contract verification failed:', error);
@@ -178,26 +187,30 @@ async function main() {
   console.log('==========================');
 
   const deploymentInfo = {
+    chainId: (await hre.ethers.provider.getNetwork()).chainId,
     network: network.name,
-    contractAddress: contractAddress,
+    contractName: 'PolygonDeFiAggregator',
+    address: contractAddress,
     deployer: deployer.address,
-    deploymentTime: new Date().toISOString(),
-    blockNumber: await hre.ethers.provider.getBlockNumber(),
-    gasUsed: 'TBD', // Would need to track from deployment transaction
-    configuration: config,
-    verification: {
-      verified: network.name !== 'hardhat' && network.name !== 'localhost',
-      explorerUrl: getExplorerUrl(network.name, contractAddress),
-    },
+    txHash: deployReceipt?.hash,
+    blockNumber: deployReceipt?.blockNumber,
+    constructorArgs: proxy?.constructorArgs ?? [],
+    ...(proxy && {
+      proxy: { kind: proxy.kind, ...(proxy.admin && { admin: proxy.admin }) },
+      implementations: [proxy.implementation],
+    }),
+    deployedAt: new Date().toISOString(),
+    verified,
+    config: { ...config },
   };
-
-  const outputPath = path.join(
-    process.cwd(),
-    `deployInfo/defi-${network.name}.json`
-  );
-  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
-  fs.writeFileSync(outputPath, JSON.stringify(deploymentInfo, null, 2));
-  console.log(`✅ Deployment info saved to: ${outputPath}`);
+  if (isEphemeralNetwork(network.name)) {
+    console.log('⚠️  Not recorded: the hardhat network is ephemeral');
+  } else {
+    recordDeployment(deploymentInfo);
+    console.log(
+      `✅ Deployment recorded for chainId ${deploymentInfo.chainId} (${network.name})`
+    );
+  }
 
   // Generate deployment report
   console.log('\n📊 DEPLOYMENT REPORT');
@@ -206,8 +219,11 @@ async function main() {
   console.log(`Contract: ${contractAddress}`);
   console.log(`Deployer: ${deployer.address}`);
   console.log(`Block: ${deploymentInfo.blockNumber}`);
-  console.log(`Time: ${deploymentInfo.deploymentTime}`);
-  console.log(`Explorer: ${deploymentInfo.verification.explorerUrl}`);
+  console.log(`Time: ${deploymentInfo.deployedAt}`);
+  const explorer = getExplorerUrl(network.name);
+  console.log(
+    `Explorer: ${explorer ? `${explorer}/address/${contractAddress}` : 'n/a'}`
+  );
 
   console.log('\n🎉 DEPLOYMENT COMPLETED SUCCESSFULLY!');
   console.log('=====================================');
@@ -218,18 +234,6 @@ async function main() {
   console.log('4. Prepare for mainnet deployment');
 }
 
-function getExplorerUrl(networkName: string, address: string): string {
-  const explorers: { [key: string]: string } = {
-    polygon: `https://polygonscan.com/address/${address}`,
-    mumbai: `https://mumbai.polygonscan.com/address/${address}`,
-    ethereum: `https://etherscan.io/address/${address}`,
-    goerli: `https://goerli.etherscan.io/address/${address}`,
-    sepolia: `https://sepolia.etherscan.io/address/${address}`,
-  };
-
-  return explorers[networkName] || `Unknown network: ${networkName}`;
-}
-
 main()
   .then(() => process.exit(0))
   .catch(error => {
@@ -1,7 +1,12 @@
 import 'dotenv/config';
-import * as fs from 'fs';
 import { run } from 'hardhat';
-import * as path from 'path';
+import {
+  deployAdapter,
+  isEphemeralNetwork,
+  recordDeployment,
+  updateDeployment,
+  WMATIC_ADDRESS,
+} from '../../sdk';
 
 const hre = require('hardhat');
 
@@ -62,7 +67,7 @@ interface ProtocolConfig {
   name: string;
   address: string;
   rewardToken: string;
-  type: string;
+  type: 'liquid' | 'lending' | 'compound';
   apy: number;
 }
 
@@ -149,6 +154,7 @@ async function main() {
   await defiAggregator.waitForDeployment();
 
   const aggregatorAddress = await defiAggregator.getAddress();
+  const deployReceipt = await defiAggregator.deploymentTransaction()?.wait();
   console.log('✅ PolygonDeFiAggregator deployed to:', aggregatorAddress);
 
   // Add supported tokens from env
@@ -182,18 +188,24 @@ async function main() {
     },
   ];
 
-  // Add protocols that have addresses set in env
+  // Add protocols that have addresses set in env, each through its adapter
+  const adapters: { [name: string]: string } = {};
   for (const protocolConfig of protocolConfigs) {
     if (protocolConfig.address) {
       try {
+        const adapter = await deployAdapter(
+          defiAggregator,
+          protocolConfig.type,
+          protocolConfig.address
+        );
+        adapters[protocolConfig.name] = adapter.address;
         await defiAggregator.addProtocol(
           protocolConfig.name,
-          protocolConfig.address,
-          protocolConfig.type,
+          adapter.address,
           protocolConfig.apy
         );
         console.log(
-          `✅ Added ${protocolConfig.name} protocol (${protocolConfig.apy / 100}% APY)`
+          `✅ Added ${protocolConfig.name} protocol (${protocolConfig.apy / 100}% APY) via ${adapter.contractName} ${adapter.address}`
         );
       } catch (error) {
         console.log(
@@ -208,6 +220,29 @@ async function main() {
     }
   }
 
+  // Lending adapters support every token with a reserve (native MATIC uses WMATIC)
+  console.log('\n🏦 Checking reserves for lending protocols...');
+  const lendingAssets = [
+    ...new Set([...Object.values(finalTokenAddresses), WMATIC_ADDRESS]),
+  ];
+  for (const protocolConfig of protocolConfigs) {
+    if (!adapters[protocolConfig.name] || protocolConfig.type !== 'lending') {
+      continue;
+    }
+    const adapter = await hre.ethers.getContractAt(
+      'AaveV3Adapter',
+      adapters[protocolConfig.name]
+    );
+    for (const asset of lendingAssets) {
+      const aToken = await adapter.aTokenOf(asset);
+      if (aToken === hre.ethers.ZeroAddress) {
+        console.log(`⚠️ No reserve for ${asset} on ${protocolConfig.name}`);
+      } else {
+        console.log(`✅ ${protocolConfig.name}: ${asset} → aToken ${aToken}`);
+      }
+    }
+  }
+
   // Display setup summary
   console.log('\n📊 Setup Summary:');
   console.log('===================');
@@ -308,50 +343,58 @@ async function main() {
 
   // Save deployment info for verification
   const deploymentInfo = {
+    chainId: network.chainId,
     network: networkName,
-    chainId: Number(network.chainId),
-    explorer: getExplorerUrl(networkName),
-    deployer: deployer.address,
     contractName: 'PolygonDeFiAggregator',
-    contractAddress: aggregatorAddress,
+    address: aggregatorAddress,
+    deployer: deployer.address,
+    txHash: deployReceipt?.hash,
+    blockNumber: deployReceipt?.blockNumber,
     constructorArgs: [], // Empty constructor
-    deploymentDate: new Date().toISOString(),
+    deployedAt: new Date().toISOString(),
     verified: false,
-    tokens: finalTokenAddresses,
-    protocols: protocolConfigs.reduce(
-      (acc, p) => ({ ...acc, [p.name]: p.address }),
-      {}
-    ),
+    config: {
+      tokens: finalTokenAddresses,
+      protocols: protocolConfigs.reduce(
+        (acc, p) => ({ ...acc, [p.name]: p.address }),
+        {}
+      ),
+    },
   };
+  const explorer = getExplorerUrl(networkName);
 
-  const deploymentPath = path.join(
-    process.cwd(),
-    'deployInfo',
-    'polygon-defi-deployment.json'
-  );
-  fs.writeFileSync(deploymentPath, JSON.stringify(deploymentInfo, null, 2));
-  console.log(`\n💾 Deployment info saved to: ${deploymentPath}`);
+  const recorded = !isEphemeralNetwork(networkName);
+  if (recorded) {
+    recordDeployment(deploymentInfo);
+    console.log(
+      `\n💾 Deployment recorded for chainId ${deploymentInfo.chainId} (${networkName})`
+    );
+  }
 
   // Auto verify contract
   const isVerified = await verifyContract(aggregatorAddress, [], networkName);
-  deploymentInfo.verified = isVerified;
 
   // Update deployment info with verification status
-  fs.writeFileSync(deploymentPath, JSON.stringify(deploymentInfo, null, 2));
+  if (recorded && isVerified) {
+    updateDeployment(
+      deploymentInfo.chainId,
+      deploymentInfo.contractName,
+      aggregatorAddress,
+      { verified: true }
+    );
+  }
 
-  if (isVerified && deploymentInfo.explorer) {
+  if (isVerified && explorer) {
     console.log('\n🔗 Verified Contract Links:');
+    console.log(`- Contract: ${explorer}/address/${aggregatorAddress}`);
     console.log(
-      `- Contract: ${deploymentInfo.explorer}/address/${aggregatorAddress}`
-    );
-    console.log(
-      `- Verified Code: ${deploymentInfo.explorer}/address/${aggregatorAddress}#code`
+      `- Verified Code: ${explorer}/address/${aggregatorAddress}#code`
     );
     console.log(
-      `- Read Contract: ${deploymentInfo.explorer}/address/${aggregatorAddress}#readContract`
+      `- Read Contract: ${explorer}/address/${aggregatorAddress}#readContract`
     );
     console.log(
-      `- Write Contract: ${deploymentInfo.explorer}/address/${aggregatorAddress}#writeContract`
+      `- Write Contract: ${explorer}/address/${aggregatorAddress}#writeContract`
     );
   }
   return {
@@ -1,6 +1,11 @@
 import 'dotenv/config';
-import * as fs from 'fs';
-import * as path from 'path';
+import {
+  connectAggregator,
+  createTimeLockedStake,
+  getUserTimeLockedStakes,
+  loadAggregatorDeployment,
+  WMATIC_ADDRESS,
+} from '../../sdk';
 
 const hre = require('hardhat');
 
@@ -15,30 +20,20 @@ async function main() {
   );
 
   // Load deployment info
-  const deploymentPath = path.join(
-    process.cwd(),
-    'deployInfo',
-    'polygon-defi-deployment.json'
-  );
-  
-  if (!fs.existsSync(deploymentPath)) {
-    console.error('❌ Deployment file not found!');
-    console.log('💡 Please deploy the contract first');
-    process.exit(1);
-  }
-
-  const deployment = JSON.parse(fs.readFileSync(deploymentPath, 'utf8'));
-  const contractAddress = deployment.contractAddress;
-  const ttjpAddress = deployment.tokens.TTJP;
-  const polAddress = deployment.tokens.POL;
+  const deployment = await loadAggregatorDeployment(hre.ethers.provider);
+  const contractAddress = deployment.address;
+  const tokens = (deployment.config?.tokens ?? {}) as {
+    [symbol: string]: string;
+  };
+  const ttjpAddress = tokens.TTJP;
+  const polAddress = tokens.POL;
 
   console.log(`📋 Contract: ${contractAddress}`);
   console.log(`🪙 TTJP Token: ${ttjpAddress}`);
   console.log(`🪙 POL Token: ${polAddress}`);
 
   // Get contract instance
-  const DeFiAggregatorFactory = await hre.ethers.getContractFactory('PolygonDeFiAggregator');
-  const defiAggregator = DeFiAggregatorFactory.attach(contractAddress).connect(signer);
+  const defiAggregator = connectAggregator(contractAddress, signer);
 
   // Get staking parameters from env
   const testStakingAmount = process.env.TEST_STAKING_AMOUNT || '0.001';
@@ -69,8 +64,6 @@ async function main() {
     console.log('\n🔒 Step 1: Creating time-locked stake with native MATIC...');
     console.log('💡 Contract will automatically wrap MATIC to WMATIC');
 
-    const WMATIC_ADDRESS = process.env.WMATIC_ADDRESS || '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270';
-
     console.log(`🔧 Parameters:`);
     console.log(`   Token: ${WMATIC_ADDRESS}`);
     console.log(`   Amount: 0 (using msg.value)`);
@@ -78,33 +71,34 @@ async function main() {
     console.log(`   Duration: ${lockDuration}`);
     console.log(`   Value: ${hre.ethers.formatEther(stakeAmount)} MATIC`);
 
-    const stakeTx = await defiAggregator.createTimeLockedStake(
-      WMATIC_ADDRESS,
-      0, // Amount is ignored when sending native MATIC
-      'aave_lending',
+    const result = await createTimeLockedStake(defiAggregator, {
+      token: WMATIC_ADDRESS,
+      amount: stakeAmount,
+      protocol: 'aave_lending',
       lockDuration,
-      { value: stakeAmount } // Send native MATIC
-    );
+      native: true, // Send native MATIC
+    });
+    const stakeTx = result.receipt;
 
     console.log(`⏳ Transaction: ${stakeTx.hash}`);
-    const receipt = await stakeTx.wait();
-    console.log(`✅ Confirmed in block: ${receipt.blockNumber}`);
+    console.log(`✅ Confirmed in block: ${stakeTx.blockNumber}`);
 
     // Get stake info
-    const timeLockedStakes = await defiAggregator.getUserTimeLockedStakes(
+    const timeLockedStakes = await getUserTimeLockedStakes(
+      defiAggregator,
       signer.address
     );
-    const latestStakeId = timeLockedStakes.length - 1;
+    const latestStakeId = result.stakeId;
     const stakeInfo = timeLockedStakes[latestStakeId];
 
     console.log(`\n📊 Native MATIC Time-Locked Stake Created:`);
     console.log(`🆔 Stake ID: ${latestStakeId}`);
-    console.log(`💰 Amount: ${hre.ethers.formatEther(stakeInfo.amount)} MATIC (wrapped to WMATIC)`);
+    console.log(`💰 Amount: ${stakeInfo.formattedAmount} MATIC (wrapped to WMATIC)`);
     console.log(
-      `⏰ Start: ${new Date(Number(stakeInfo.startTime) * 1000).toLocaleString()}`
+      `⏰ Start: ${new Date(stakeInfo.startTime * 1000).toLocaleString()}`
     );
     console.log(
-      `⏰ End: ${new Date(Number(stakeInfo.endTime) * 1000).toLocaleString()}`
+      `⏰ End: ${new Date(stakeInfo.endTime * 1000).toLocaleString()}`
     );
     console.log(`🔒 Active: ${stakeInfo.isActive}`);
     console.log(`📅 Is Scheduled: ${stakeInfo.isScheduled} (Always false - immediate execution)`);
@@ -116,7 +110,7 @@ async function main() {
 
     console.log('\n💡 Next Steps:');
     console.log(
-      `🕐 Maturity: ${new Date(Number(stakeInfo.endTime) * 1000).toLocaleString()}`
+      `🕐 Maturity: ${new Date(stakeInfo.endTime * 1000).toLocaleString()}`
     );
     console.log(
       `⚡ Use withdrawTimeLockedStake(${latestStakeId}) anytime for 100% return`
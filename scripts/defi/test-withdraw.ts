@@ -1,6 +1,10 @@
 import 'dotenv/config';
-import * as fs from 'fs';
-import * as path from 'path';
+import {
+  connectAggregator,
+  getUserTimeLockedStakes,
+  loadAggregatorDeployment,
+  withdrawTimeLockedStake,
+} from '../../sdk';
 
 const hre = require('hardhat');
 
@@ -15,33 +19,19 @@ async function main() {
   );
 
   // Load deployment info
-  const deploymentPath = path.join(
-    process.cwd(),
-    'deployInfo',
-    'polygon-defi-deployment.json'
-  );
-  
-  if (!fs.existsSync(deploymentPath)) {
-    console.error('❌ Deployment file not found!');
-    console.log('💡 Please deploy the contract first');
-    process.exit(1);
-  }
-
-  const deployment = JSON.parse(fs.readFileSync(deploymentPath, 'utf8'));
-  const contractAddress = deployment.contractAddress;
+  const deployment = await loadAggregatorDeployment(hre.ethers.provider);
+  const contractAddress = deployment.address;
 
   console.log(`📋 Contract: ${contractAddress}`);
 
   // Get contract instance
-  const defiAggregator = await hre.ethers.getContractAt(
-    'PolygonDeFiAggregator',
-    contractAddress
-  );
+  const defiAggregator = connectAggregator(contractAddress, signer);
 
   try {
     // Get user's time-locked stakes
     console.log('\n📊 Checking your time-locked stakes...');
-    const timeLockedStakes = await defiAggregator.getUserTimeLockedStakes(
+    const timeLockedStakes = await getUserTimeLockedStakes(
+      defiAggregator,
       signer.address
     );
 
@@ -58,17 +48,12 @@ async function main() {
       const stake = timeLockedStakes[i];
       if (!stake.isActive) continue;
 
-      const isMatured = await defiAggregator.isTimeLockedStakeMatured(
-        signer.address,
-        i
-      );
-
       console.log(`\n🆔 Stake #${i}:`);
-      console.log(`💰 Amount: ${hre.ethers.formatEther(stake.amount)} WMATIC`);
-      console.log(`⏰ Start: ${new Date(Number(stake.startTime) * 1000).toLocaleString()}`);
-      console.log(`⏰ End: ${new Date(Number(stake.endTime) * 1000).toLocaleString()}`);
+      console.log(`💰 Amount: ${stake.formattedAmount} WMATIC`);
+      console.log(`⏰ Start: ${new Date(stake.startTime * 1000).toLocaleString()}`);
+      console.log(`⏰ End: ${new Date(stake.endTime * 1000).toLocaleString()}`);
       console.log(`🔒 Active: ${stake.isActive}`);
-      console.log(`✅ Matured: ${isMatured}`);
+      console.log(`✅ Matured: ${stake.isMatured}`);
       console.log(`📋 Protocol: ${stake.protocol}`);
     }
 
@@ -87,38 +72,44 @@ async function main() {
     }
 
     const stakeInfo = timeLockedStakes[stakeToWithdraw];
-    const isMatured = await defiAggregator.isTimeLockedStakeMatured(
-      signer.address,
-      stakeToWithdraw
-    );
 
     console.log(`\n💸 Withdrawing Stake #${stakeToWithdraw}...`);
-    console.log(`💰 Amount: ${hre.ethers.formatEther(stakeInfo.amount)} WMATIC`);
-    console.log(`✅ Matured: ${isMatured}`);
+    console.log(`💰 Amount: ${stakeInfo.formattedAmount} WMATIC`);
+    console.log(`✅ Matured: ${stakeInfo.isMatured}`);
     console.log(`💡 Will receive 100% of principal + rewards (no penalties)`);
 
     // Get balance before withdrawal
-    const balanceBefore = await hre.ethers.provider.getBalance(signer.address);
+    const balanceBefore: bigint = await hre.ethers.provider.getBalance(
+      signer.address
+    );
 
     // Withdraw the stake
-    const withdrawTx = await defiAggregator.withdrawTimeLockedStake(stakeToWithdraw);
+    const { receipt, rewards } = await withdrawTimeLockedStake(
+      defiAggregator,
+      stakeToWithdraw
+    );
+    const withdrawTx = receipt;
     console.log(`⏳ Transaction: ${withdrawTx.hash}`);
-    
-    const receipt = await withdrawTx.wait();
     console.log(`✅ Confirmed in block: ${receipt.blockNumber}`);
 
     // Get balance after withdrawal
-    const balanceAfter = await hre.ethers.provider.getBalance(signer.address);
+    const balanceAfter: bigint = await hre.ethers.provider.getBalance(
+      signer.address
+    );
     const received = balanceAfter - balanceBefore + receipt.gasUsed * receipt.gasPrice;
 
     console.log(`\n💰 Withdrawal Results:`);
     console.log(`📈 Balance Before: ${hre.ethers.formatEther(balanceBefore)} MATIC`);
     console.log(`📈 Balance After: ${hre.ethers.formatEther(balanceAfter)} MATIC`);
     console.log(`💎 Net Received: ${hre.ethers.formatEther(received)} MATIC (excluding gas)`);
+    console.log(`🎁 Rewards: ${hre.ethers.formatEther(rewards)} MATIC`);
     console.log(`⛽ Gas Used: ${receipt.gasUsed.toString()}`);
 
     // Check stake status after withdrawal
-    const updatedStakes = await defiAggregator.getUserTimeLockedStakes(signer.address);
+    const updatedStakes = await getUserTimeLockedStakes(
+      defiAggregator,
+      signer.address
+    );
     const updatedStakeInfo = updatedStakes[stakeToWithdraw];
 
     console.log(`\n📊 Updated Stake Info:`);
@@ -1,6 +1,9 @@
-import * as fs from 'fs';
 import { ethers, network, run } from 'hardhat';
-import * as path from 'path';
+import {
+  getExplorerUrl,
+  isEphemeralNetwork,
+  recordDeployment,
+} from '../../sdk';
 
 async function main() {
   console.log('🚀 YOBOWEB3WALK NFT DEPLOYMENT');
@@ -52,6 +55,7 @@ async function main() {
   await contract.waitForDeployment();
 
   const contractAddress = await contract.getAddress();
+  const deployReceipt = await contract.deploymentTransaction()?.wait();
   console.log(`✅ Contract deployed at: ${contractAddress}`);
 
   // Verify deployment
@@ -123,6 +127,7 @@ async function main() {
   }
 
   // Contract verification on block explorer
+  let verified = false;
   if (network.name !== 'hardhat' && network.name !== 'localhost') {
     console.log('\n🔍 VERIFYING ON BLOCK EXPLORER');
     console.log('===============================');
@@ -136,6 +141,7 @@ async function main() {
         address: contractAddress,
         constructorArguments: [baseURI],
       });
+      verified = true;
       console.log('✅ Contract verified on block explorer');
     } catch (error) {
       console.warn('⚠️  Contract verification failed:', error);
@@ -147,41 +153,42 @@ async function main() {
   console.log('==========================');
 
   const deploymentInfo = {
+    chainId: (await ethers.provider.getNetwork()).chainId,
     network: network.name,
     contractName: 'YOBOWEB3WALK',
-    contractAddress: contractAddress,
+    address: contractAddress,
     deployer: deployer.address,
-    deploymentTime: new Date().toISOString(),
-    blockNumber: await ethers.provider.getBlockNumber(),
-    constructorArgs: {
-      baseURI: baseURI,
-    },
-    contractDetails: {
-      name: 'YOBOWEB3WALK',
-      symbol: 'YOB3WK',
-      maxSupply: 201,
-      soulBound: true,
-    },
-    initialMints: [
-      {
-        to: mintToAddress,
-        count: 2,
-        description: 'Initial mints for testing',
+    txHash: deployReceipt?.hash,
+    blockNumber: deployReceipt?.blockNumber,
+    constructorArgs: [baseURI],
+    deployedAt: new Date().toISOString(),
+    verified,
+    config: {
+      contractDetails: {
+        name: 'YOBOWEB3WALK',
+        symbol: 'YOB3WK',
+        maxSupply: 201,
+        soulBound: true,
       },
-    ],
-    verification: {
-      verified: network.name !== 'hardhat' && network.name !== 'localhost',
-      explorerUrl: getExplorerUrl(network.name, contractAddress),
+      initialMints: [
+        {
+          to: mintToAddress,
+          count: 2,
+          description: 'Initial mints for testing',
+        },
+      ],
     },
   };
 
-  const outputPath = path.join(
-    __dirname,
-    `../../deployInfo/yoboweb3walk-${network.name}.json`
-  );
-  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
-  fs.writeFileSync(outputPath, JSON.stringify(deploymentInfo, null, 2));
-  console.log(`✅ Deployment info saved to: ${outputPath}`);
+  if (isEphemeralNetwork(network.name)) {
+    console.log('⚠️  Not recorded: the hardhat network is ephemeral');
+  } else {
+    recordDeployment(deploymentInfo);
+    console.log(
+      `✅ Deployment recorded for chainId ${deploymentInfo.chainId} (${network.name})`
+    );
+  }
+  const explorer = getExplorerUrl(network.name);
 
   // Generate deployment report
   console.log('\n📊 DEPLOYMENT REPORT');
@@ -191,11 +198,13 @@ async function main() {
   console.log(`Address: ${contractAddress}`);
   console.log(`Deployer: ${deployer.address}`);
   console.log(`Block: ${deploymentInfo.blockNumber}`);
-  console.log(`Time: ${deploymentInfo.deploymentTime}`);
+  console.log(`Time: ${deploymentInfo.deployedAt}`);
   console.log(`Base URI: ${baseURI}`);
   console.log(`Max Supply: 201 tokens (0-200)`);
   console.log(`Soul Bound: Yes (transfers disabled)`);
-  console.log(`Explorer: ${deploymentInfo.verification.explorerUrl}`);
+  console.log(
+    `Explorer: ${explorer ? `${explorer}/address/${contractAddress}` : 'n/a'}`
+  );
 
   console.log('\n🎉 DEPLOYMENT COMPLETED SUCCESSFULLY!');
   console.log('=====================================');
@@ -213,19 +222,6 @@ async function main() {
   console.log('4. Monitor contract usage');
 }
 
-function getExplorerUrl(networkName: string, address: string): string {
-  const explorers: { [key: string]: string } = {
-    polygon: `https://polygonscan.com/address/${address}`,
-    amoy: `https://amoy.polygonscan.com/address/${address}`,
-    mumbai: `https://mumbai.polygonscan.com/address/${address}`,
-    ethereum: `https://etherscan.io/address/${address}`,
-    goerli: `https://goerli.etherscan.io/address/${address}`,
-    sepolia: `https://sepolia.etherscan.io/address/${address}`,
-  };
-
-  return explorers[networkName] || `Unknown network: ${networkName}`;
-}
-
 main()
   .then(() => process.exit(0))
   .catch(error => {
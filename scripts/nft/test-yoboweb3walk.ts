@@ -1,4 +1,5 @@
 import { ethers, network } from 'hardhat';
+import { resolveDeployment } from '../../sdk';
 
 async function main() {
   console.log('🧪 YOBOWEB3WALK COMPREHENSIVE TESTING');
@@ -12,7 +13,7 @@ async function main() {
 
   const contractAddress =
     process.env.YOBO_CONTRACT_ADDRESS ||
-    '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+    (await resolveDeployment(ethers.provider, 'YOBOWEB3WALK')).address;
   console.log(`📄 Contract: ${contractAddress}`);
 
   // Connect to contract
@@ -1,19 +1,14 @@
-import { network, run } from 'hardhat';
+import { ethers, network, run } from 'hardhat';
+import { getExplorerUrl, resolveDeployment, updateDeployment } from '../../sdk';
 
 async function main() {
   console.log('🔍 YOBOWEB3WALK CONTRACT VERIFICATION');
   console.log('====================================');
 
-  // Contract details - update these with your deployed contract
-  const contractAddress = process.env.YOBO_CONTRACT_ADDRESS;
-  const baseURI =
-    process.env.YOBO_BASE_URI ||
-    'ipfs://QmQEQYguTJ4ApkCJ8J5wSMGFfgZLP5Xz4w7yGArFdHkVjr/';
-
-  if (!contractAddress) {
-    console.error('❌ Please set YOBO_CONTRACT_ADDRESS environment variable');
-    process.exit(1);
-  }
+  // Contract details from the deployment registry for this chain
+  const deployment = await resolveDeployment(ethers.provider, 'YOBOWEB3WALK');
+  const contractAddress = deployment.address;
+  const baseURI = deployment.constructorArgs[0] as string;
 
   console.log(`📍 Network: ${network.name}`);
   console.log(`📄 Contract: ${contractAddress}`);
@@ -24,6 +19,14 @@ async function main() {
     return;
   }
 
+  const markVerified = () =>
+    updateDeployment(
+      deployment.chainId,
+      deployment.contractName,
+      contractAddress,
+      { verified: true }
+    );
+
   try {
     console.log('\n⏳ Verifying contract on block explorer...');
 
@@ -33,13 +36,15 @@ async function main() {
     });
 
     console.log('✅ Contract verified successfully!');
+    markVerified();
 
     // Generate explorer URL
-    const explorerUrl = getExplorerUrl(network.name, contractAddress);
+    const explorerUrl = `${getExplorerUrl(network.name)}/address/${contractAddress}`;
     console.log(`🔗 View on explorer: ${explorerUrl}`);
   } catch (error: any) {
     if (error.message.includes('Already Verified')) {
       console.log('✅ Contract is already verified!');
+      markVerified();
     } else {
       console.error('❌ Verification failed:', error.message);
       process.exit(1);
@@ -47,19 +52,6 @@ async function main() {
   }
 }
 
-function getExplorerUrl(networkName: string, address: string): string {
-  const explorers: { [key: string]: string } = {
-    polygon: `https://polygonscan.com/address/${address}`,
-    amoy: `https://amoy.polygonscan.com/address/${address}`,
-    mumbai: `https://mumbai.polygonscan.com/address/${address}`,
-    ethereum: `https://etherscan.io/address/${address}`,
-    goerli: `https://goerli.etherscan.io/address/${address}`,
-    sepolia: `https://sepolia.etherscan.io/address/${address}`,
-  };
-
-  return explorers[networkName] || `Unknown network: ${networkName}`;
-}
-
 main()
   .then(() => process.exit(0))
   .catch(error => {
@@ -1,4 +1,6 @@
 import 'dotenv/config';
+import { isCallException, Log } from 'ethers';
+import { loadAggregatorDeployment } from '../sdk';
 
 const hre = require('hardhat');
 
@@ -10,9 +12,8 @@ async function main() {
   console.log(`👤 Signer: ${signer.address}`);
 
   // Load deployment info
-  const deploymentPath = 'deployInfo/polygon-defi-deployment.json';
-  const deploymentInfo = require(`../${deploymentPath}`);
-  const contractAddress = deploymentInfo.contractAddress;
+  const deployment = await loadAggregatorDeployment(hre.ethers.provider);
+  const contractAddress = deployment.address;
 
   console.log(`📋 Contract: ${contractAddress}`);
 
@@ -105,7 +106,7 @@ async function main() {
     // Check logs
     console.log('\n📋 Transaction Logs:');
     if (receipt.logs.length > 0) {
-      receipt.logs.forEach((log, i) => {
+      receipt.logs.forEach((log: Log, i: number) => {
         console.log(`\nEvent ${i}:`);
         console.log(`  Address: ${log.address}`);
         console.log(`  Topics: ${log.topics.join(', ')}`);
@@ -133,14 +134,19 @@ async function main() {
     console.log('\n✅ WITHDRAW DEBUG COMPLETED!');
 
   } catch (error) {
-    console.log('❌ Withdraw failed:', error.message);
-    
-    if (error.data) {
-      console.log('📋 Error Data:', error.data);
-    }
+    console.log(
+      '❌ Withdraw failed:',
+      error instanceof Error ? error.message : error
+    );
     
-    if (error.reason) {
-      console.log('📋 Error Reason:', error.reason);
+    if (isCallException(error)) {
+      if (error.data) {
+        console.log('📋 Error Data:', error.data);
+      }
+      
+      if (error.reason) {
+        console.log('📋 Error Reason:', error.reason);
+      }
     }
   }
 }
@@ -1,56 +1,36 @@
-import * as fs from 'fs';
-import { network, run } from 'hardhat';
-import * as path from 'path';
-
-interface DeploymentInfo {
-  network: string;
-  chainId: number;
-  explorer?: string;
-  deployer: string;
-  contractName: string;
-  contractAddress: string;
-  constructorArgs: any[];
-  deploymentDate: string;
-  verified: boolean;
-  tokens?: {
-    [symbol: string]: string;
-  };
-  protocols?: {
-    [name: string]: string;
-  };
-}
+import { ethers, network, run } from 'hardhat';
+import {
+  getExplorerUrl,
+  loadAggregatorDeployment,
+  updateDeployment,
+} from '../../sdk';
 
 async function main() {
   console.log('🔍 Verifying PolygonDeFiAggregator contract...');
 
-  // Read deployment info
-  const deploymentPath = path.join(
-    process.cwd(),
-    'deployInfo',
-    'polygon-defi-deployment.json'
-  );
-
-  if (!fs.existsSync(deploymentPath)) {
-    console.error(
-      '❌ Deployment file not found! Please deploy the contract first.'
-    );
-    console.log(`Expected file: ${deploymentPath}`);
-    console.log(
-      '💡 Run deployment script first: npx hardhat run scripts/setup-polygon-defi.ts --network <network>'
+  // Read deployment info for the connected chain
+  const deploymentInfo = await loadAggregatorDeployment(ethers.provider);
+  const explorer = getExplorerUrl(deploymentInfo.network);
+  const config = deploymentInfo.config as
+    | {
+        tokens?: { [symbol: string]: string };
+        protocols?: { [name: string]: string };
+      }
+    | undefined;
+  const markVerified = () =>
+    updateDeployment(
+      deploymentInfo.chainId,
+      deploymentInfo.contractName,
+      deploymentInfo.address,
+      { verified: true }
     );
-    process.exit(1);
-  }
-
-  const deploymentInfo: DeploymentInfo = JSON.parse(
-    fs.readFileSync(deploymentPath, 'utf8')
-  );
 
   // Get network info
   const networkName = network.name;
   const chainId = deploymentInfo.chainId;
 
   console.log(`Network: ${networkName} (Chain ID: ${chainId})`);
-  console.log(`Contract Address: ${deploymentInfo.contractAddress}`);
+  console.log(`Contract Address: ${deploymentInfo.address}`);
   console.log(
     `Constructor Args: ${JSON.stringify(deploymentInfo.constructorArgs)}`
   );
@@ -58,33 +38,24 @@ async function main() {
   // Check if already verified
   if (deploymentInfo.verified) {
     console.log('✅ Contract is already verified!');
-    if (deploymentInfo.explorer) {
+    if (explorer) {
       console.log(
-        `🔗 View on explorer: ${deploymentInfo.explorer}/address/${deploymentInfo.contractAddress}`
+        `🔗 View on explorer: ${explorer}/address/${deploymentInfo.address}`
       );
     }
     return;
   }
 
-  // Verify network matches
-  if (deploymentInfo.network !== networkName) {
-    console.error(
-      `❌ Network mismatch! Deployment was on ${deploymentInfo.network}, current network is ${networkName}`
-    );
-    process.exit(1);
-  }
-
   try {
     console.log('\n📋 Verifying contract on blockchain...');
 
     await run('verify:verify', {
-      address: deploymentInfo.contractAddress,
+      address: deploymentInfo.address,
       constructorArguments: deploymentInfo.constructorArgs,
     });
 
     // Update deployment info
-    deploymentInfo.verified = true;
-    fs.writeFileSync(deploymentPath, JSON.stringify(deploymentInfo, null, 2));
+    markVerified();
 
     console.log('✅ Contract verified successfully!');
 
@@ -92,9 +63,9 @@ async function main() {
     console.log('========================');
     console.log(`Network: ${networkName}`);
     console.log(`Contract: ${deploymentInfo.contractName}`);
-    console.log(`Address: ${deploymentInfo.contractAddress}`);
+    console.log(`Address: ${deploymentInfo.address}`);
     console.log(`Deployer: ${deploymentInfo.deployer}`);
-    console.log(`Deployment Date: ${deploymentInfo.deploymentDate}`);
+    console.log(`Deployment Date: ${deploymentInfo.deployedAt}`);
 
     if (deploymentInfo.constructorArgs.length > 0) {
       console.log(
@@ -105,34 +76,32 @@ async function main() {
     }
 
     // Display supported tokens
-    if (deploymentInfo.tokens) {
+    if (config?.tokens) {
       console.log('\n🪙 Supported Tokens:');
-      Object.entries(deploymentInfo.tokens).forEach(([symbol, address]) => {
+      Object.entries(config.tokens).forEach(([symbol, address]) => {
         console.log(`  - ${symbol}: ${address}`);
       });
     }
 
     // Display protocols
-    if (deploymentInfo.protocols) {
+    if (config?.protocols) {
       console.log('\n📋 Integrated Protocols:');
-      Object.entries(deploymentInfo.protocols).forEach(([name, address]) => {
+      Object.entries(config.protocols).forEach(([name, address]) => {
         console.log(`  - ${name}: ${address}`);
       });
     }
 
-    if (deploymentInfo.explorer) {
+    if (explorer) {
       console.log('\n🔗 Explorer Links:');
+      console.log(`- Contract: ${explorer}/address/${deploymentInfo.address}`);
       console.log(
-        `- Contract: ${deploymentInfo.explorer}/address/${deploymentInfo.contractAddress}`
-      );
-      console.log(
-        `- Verified Code: ${deploymentInfo.explorer}/address/${deploymentInfo.contractAddress}#code`
+        `- Verified Code: ${explorer}/address/${deploymentInfo.address}#code`
       );
       console.log(
-        `- Read Contract: ${deploymentInfo.explorer}/address/${deploymentInfo.contractAddress}#readContract`
+        `- Read Contract: ${explorer}/address/${deploymentInfo.address}#readContract`
       );
       console.log(
-        `- Write Contract: ${deploymentInfo.explorer}/address/${deploymentInfo.contractAddress}#writeContract`
+        `- Write Contract: ${explorer}/address/${deploymentInfo.address}#writeContract`
       );
     }
 
@@ -146,8 +115,7 @@ async function main() {
 
     if (error.message.includes('Already Verified')) {
       console.log('✅ Contract was already verified on the blockchain!');
-      deploymentInfo.verified = true;
-      fs.writeFileSync(deploymentPath, JSON.stringify(deploymentInfo, null, 2));
+      markVerified();
     } else {
       console.log('\n🔧 Manual verification command:');
       if (deploymentInfo.constructorArgs.length > 0) {
@@ -155,17 +123,17 @@ async function main() {
           .map(arg => `"${arg}"`)
           .join(' ');
         console.log(
-          `npx hardhat verify --network ${networkName} ${deploymentInfo.contractAddress} ${argsString}`
+          `npx hardhat verify --network ${networkName} ${deploymentInfo.address} ${argsString}`
         );
       } else {
         console.log(
-          `npx hardhat verify --network ${networkName} ${deploymentInfo.contractAddress}`
+          `npx hardhat verify --network ${networkName} ${deploymentInfo.address}`
         );
       }
 
       console.log('\n🔧 Alternative with hardhat-verify plugin:');
       console.log(
-        `yarn hardhat verify --network ${networkName} ${deploymentInfo.contractAddress}`
+        `yarn hardhat verify --network ${networkName} ${deploymentInfo.address}`
       );
 
       console.log('\n📝 Common verification issues:');
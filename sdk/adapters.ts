@@ -0,0 +1,105 @@
+import { ContractRunner } from 'ethers';
+import {
+  AaveV3Adapter__factory,
+  CompoundAdapter__factory,
+  LiquidStakingAdapter__factory,
+  PolygonDeFiAggregator,
+  ProtocolAdapter__factory,
+} from '../typechain-types';
+import { signerOf } from './aggregator';
+import { ProtocolConfig } from './config';
+
+/**
+ * Protocol adapters: the aggregator stakes through an IProtocolAdapter per
+ * protocol, bound to that aggregator at deployment. Each adapter wraps one
+ * protocol contract, its `pool` (an Aave v3 pool, a cToken or a liquid staking
+ * vault).
+ */
+
+export type ProtocolType = ProtocolConfig['protocolType'];
+
+/** Adapter contract deployed for each protocol type */
+export const ADAPTER_CONTRACTS: { [type in ProtocolType]: string } = {
+  lending: 'AaveV3Adapter',
+  compound: 'CompoundAdapter',
+  liquid: 'LiquidStakingAdapter',
+};
+
+export interface AdapterInfo {
+  address: string;
+  aggregator: string;
+  protocolType: string;
+  pool: string;
+}
+
+export interface DeployedAdapter {
+  contractName: string;
+  address: string;
+  deployer: string;
+  txHash: string;
+  blockNumber: number;
+  constructorArgs: string[];
+}
+
+export async function getAdapterInfo(
+  address: string,
+  runner: ContractRunner | null
+): Promise<AdapterInfo> {
+  const adapter = ProtocolAdapter__factory.connect(address, runner);
+  const [aggregator, protocolType, pool] = await Promise.all([
+    adapter.aggregator(),
+    adapter.protocolType(),
+    adapter.pool(),
+  ]);
+  return { address, aggregator, protocolType, pool };
+}
+
+/**
+ * Deploy the adapter for `protocolType` over `pool`, bound to the aggregator
+ * and sent from its signer
+ */
+export async function deployAdapter(
+  aggregator: PolygonDeFiAggregator,
+  protocolType: ProtocolType,
+  pool: string
+): Promise<DeployedAdapter> {
+  const signer = signerOf(aggregator);
+  const aggregatorAddress = await aggregator.getAddress();
+
+  let contract;
+  switch (protocolType) {
+    case 'lending':
+      contract = await new AaveV3Adapter__factory(signer).deploy(
+        aggregatorAddress,
+        pool
+      );
+      break;
+    case 'compound':
+      contract = await new CompoundAdapter__factory(signer).deploy(
+        aggregatorAddress,
+        pool
+      );
+      break;
+    case 'liquid':
+      contract = await new LiquidStakingAdapter__factory(signer).deploy(
+        aggregatorAddress,
+        pool
+      );
+      break;
+    default:
+      throw new Error(`No adapter for protocol type "${protocolType}"`);
+  }
+
+  const receipt = await contract.deploymentTransaction()?.wait();
+  if (!receipt) {
+    throw new Error('Adapter deployment was dropped before confirmation');
+  }
+  return {
+    contractName: ADAPTER_CONTRACTS[protocolType],
+    address: await contract.getAddress(),
+    deployer: await signer.getAddress(),
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    constructorArgs: [aggregatorAddress, pool],
+  };
+}
@@ -0,0 +1,720 @@
+import {
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  formatUnits,
+  parseUnits,
+  Signer,
+  ZeroAddress,
+} from 'ethers';
+import {
+  IERC20Metadata__factory,
+  PolygonDeFiAggregator,
+  PolygonDeFiAggregator__factory,
+} from '../typechain-types';
+
+export const WMATIC_ADDRESS = '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270';
+
+/** Protocol name that stakes in the token's best route (see bestRoute) */
+export const AUTO_ROUTE = 'auto';
+
+/**
+ * Amounts are either human readable decimal strings ("1.5"), which are
+ * scaled by the token decimals, or raw base units as bigint.
+ */
+export type Amount = string | bigint;
+
+/** Index matches the contract's LockMode enum */
+export const LOCK_MODES = ['none', 'hard', 'linear', 'forfeit'] as const;
+export type LockMode = (typeof LOCK_MODES)[number];
+
+export interface LockPolicy {
+  mode: LockMode;
+  /** Penalty in basis points at stake start ('linear' only) */
+  maxPenaltyBps: number;
+}
+
+export interface TimeLockedStakeInfo {
+  stakeId: number;
+  amount: bigint;
+  formattedAmount: string;
+  shares: bigint;
+  startTime: number;
+  endTime: number;
+  stakingToken: string;
+  protocol: string;
+  decimals: number;
+  isActive: boolean;
+  isScheduled: boolean;
+  isMatured: boolean;
+  lockPolicy: LockPolicy;
+  /** Rolled into a new term by renewStake once matured */
+  autoCompound: boolean;
+  /** Created with AUTO_ROUTE, so rebalanceStake may move it */
+  autoRouted: boolean;
+}
+
+export interface TokenProtocolPosition {
+  balance: bigint;
+  shares: bigint;
+  estimatedRewards: bigint;
+  decimals: number;
+  formattedBalance: string;
+  formattedRewards: string;
+}
+
+export interface StakeValue {
+  stakeId: number;
+  /** Current underlying value from the protocol's share price */
+  value: bigint;
+  /** Part of value above principal */
+  rewards: bigint;
+  decimals: number;
+  formattedValue: string;
+  formattedRewards: string;
+}
+
+export interface CreateStakeParams {
+  token: string;
+  amount: Amount;
+  /** Protocol name, or AUTO_ROUTE for the token's best route */
+  protocol: string;
+  lockDuration: number | bigint;
+  /** Send native MATIC (wrapped to WMATIC by the contract) instead of ERC20 */
+  native?: boolean;
+}
+
+export interface CreateStakeResult {
+  stakeId: number;
+  /** Protocol staked in, resolved for AUTO_ROUTE stakes */
+  protocol: string;
+  amount: bigint;
+  startTime: number;
+  endTime: number;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface WithdrawStakeResult {
+  stakeId: number;
+  amount: bigint;
+  rewards: bigint;
+  /** Kept by the early-exit policy and sent to the fee recipient */
+  penalty: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface IncreaseStakeParams {
+  stakeId: number | bigint;
+  /** Scaled by the stake's token decimals when given as a string */
+  amount: Amount;
+  /** Send native MATIC for a WMATIC stake instead of ERC20 */
+  native?: boolean;
+}
+
+export interface IncreaseStakeResult {
+  stakeId: number;
+  amount: bigint;
+  shares: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface PartialWithdrawResult extends WithdrawStakeResult {
+  /** Protocol shares redeemed */
+  shares: bigint;
+}
+
+export interface RenewStakeResult {
+  stakeId: number;
+  /** Yield rolled into principal */
+  compounded: bigint;
+  /** Principal of the new term */
+  amount: bigint;
+  startTime: number;
+  endTime: number;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface RebalanceStakeResult {
+  stakeId: number;
+  fromProtocol: string;
+  toProtocol: string;
+  /** Underlying moved, principal plus yield */
+  amount: bigint;
+  /** Shares received from the new protocol */
+  shares: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface ProtocolParams {
+  name: string;
+  /** IProtocolAdapter bound to the aggregator (see deployAdapter) */
+  adapter: string;
+  /** APY in basis points (10000 = 100%) */
+  apy: number | bigint;
+}
+
+const decimalsCache = new Map<string, number>();
+
+export function connectAggregator(
+  address: string,
+  runner: ContractRunner
+): PolygonDeFiAggregator {
+  return PolygonDeFiAggregator__factory.connect(address, runner);
+}
+
+export async function confirm(
+  tx: Promise<ContractTransactionResponse>
+): Promise<ContractTransactionReceipt> {
+  const receipt = await (await tx).wait();
+  if (!receipt) {
+    throw new Error('Transaction was dropped before confirmation');
+  }
+  return receipt;
+}
+
+export function signerOf(aggregator: PolygonDeFiAggregator): Signer {
+  const runner = aggregator.runner as Signer | null;
+  if (!runner || typeof runner.getAddress !== 'function') {
+    throw new Error('Aggregator client must be connected with a signer');
+  }
+  return runner;
+}
+
+/**
+ * Resolve token decimals, preferring the aggregator registry over the token
+ * itself so unregistered tokens still format correctly.
+ */
+export async function getTokenDecimals(
+  aggregator: PolygonDeFiAggregator,
+  token: string
+): Promise<number> {
+  const key = `${await aggregator.getAddress()}:${token.toLowerCase()}`;
+  const cached = decimalsCache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let decimals: number;
+  const info = await aggregator.supportedTokens(token);
+  if (info.tokenAddress !== ZeroAddress) {
+    decimals = Number(info.decimals);
+  } else if (token.toLowerCase() === WMATIC_ADDRESS.toLowerCase()) {
+    decimals = 18;
+  } else {
+    const erc20 = IERC20Metadata__factory.connect(token, aggregator.runner);
+    decimals = Number(await erc20.decimals());
+  }
+
+  decimalsCache.set(key, decimals);
+  return decimals;
+}
+
+export async function toBaseUnits(
+  aggregator: PolygonDeFiAggregator,
+  token: string,
+  amount: Amount
+): Promise<bigint> {
+  if (typeof amount === 'bigint') {
+    return amount;
+  }
+  return parseUnits(amount, await getTokenDecimals(aggregator, token));
+}
+
+// ===== STAKING =====
+
+async function ensureAllowance(
+  aggregator: PolygonDeFiAggregator,
+  signer: Signer,
+  token: string,
+  amount: bigint
+): Promise<void> {
+  const aggregatorAddress = await aggregator.getAddress();
+  const erc20 = IERC20Metadata__factory.connect(token, signer);
+  const allowance = await erc20.allowance(
+    await signer.getAddress(),
+    aggregatorAddress
+  );
+  if (allowance < amount) {
+    await confirm(erc20.approve(aggregatorAddress, amount));
+  }
+}
+
+/** Penalty from an EarlyWithdrawPenalty log, or 0 if none was charged */
+function penaltyFrom(
+  aggregator: PolygonDeFiAggregator,
+  receipt: ContractTransactionReceipt
+): bigint {
+  for (const log of receipt.logs) {
+    const parsed = aggregator.interface.parseLog(log);
+    if (parsed?.name === 'EarlyWithdrawPenalty') {
+      return parsed.args.penalty;
+    }
+  }
+  return 0n;
+}
+
+/**
+ * Create a time-locked stake. ERC20 stakes are approved automatically when
+ * the current allowance is too low; native stakes send `amount` as msg.value.
+ */
+export async function createTimeLockedStake(
+  aggregator: PolygonDeFiAggregator,
+  params: CreateStakeParams
+): Promise<CreateStakeResult> {
+  const signer = signerOf(aggregator);
+  const token = params.native ? WMATIC_ADDRESS : params.token;
+  const amount = await toBaseUnits(aggregator, token, params.amount);
+
+  let receipt: ContractTransactionReceipt;
+  if (params.native) {
+    receipt = await confirm(
+      aggregator.createTimeLockedStake(
+        WMATIC_ADDRESS,
+        0,
+        params.protocol,
+        params.lockDuration,
+        { value: amount }
+      )
+    );
+  } else {
+    await ensureAllowance(aggregator, signer, token, amount);
+    receipt = await confirm(
+      aggregator.createTimeLockedStake(
+        token,
+        amount,
+        params.protocol,
+        params.lockDuration
+      )
+    );
+  }
+
+  for (const log of receipt.logs) {
+    const parsed = aggregator.interface.parseLog(log);
+    if (parsed?.name === 'TimeLockedStakeCreated') {
+      return {
+        stakeId: Number(parsed.args.stakeId),
+        protocol: parsed.args.protocol,
+        amount: parsed.args.amount,
+        startTime: Number(parsed.args.startTime),
+        endTime: Number(parsed.args.endTime),
+        receipt,
+      };
+    }
+  }
+  throw new Error('TimeLockedStakeCreated event not found in receipt');
+}
+
+export async function withdrawTimeLockedStake(
+  aggregator: PolygonDeFiAggregator,
+  stakeId: number | bigint
+): Promise<WithdrawStakeResult> {
+  const receipt = await confirm(aggregator.withdrawTimeLockedStake(stakeId));
+
+  for (const log of receipt.logs) {
+    const parsed = aggregator.interface.parseLog(log);
+    if (parsed?.name === 'WithdrawTimeLockedStake') {
+      return {
+        stakeId: Number(parsed.args.stakeId),
+        amount: parsed.args.amount,
+        rewards: parsed.args.rewards,
+        penalty: penaltyFrom(aggregator, receipt),
+        receipt,
+      };
+    }
+  }
+  throw new Error('WithdrawTimeLockedStake event not found in receipt');
+}
+
+/**
+ * Redeem part of a stake's shares. `amount` in the result is the principal
+ * released, reduced pro rata to the shares redeemed.
+ */
+export async function partialWithdraw(
+  aggregator: PolygonDeFiAggregator,
+  stakeId: number | bigint,
+  shares: bigint
+): Promise<PartialWithdrawResult> {
+  const receipt = await confirm(aggregator.partialWithdraw(stakeId, shares));
+
+  for (const log of receipt.logs) {
+    const parsed = aggregator.interface.parseLog(log);
+    if (parsed?.name === 'PartialWithdraw') {
+      return {
+        stakeId: Number(parsed.args.stakeId),
+        shares: parsed.args.shares,
+        amount: parsed.args.amount,
+        rewards: parsed.args.rewards,
+        penalty: penaltyFrom(aggregator, receipt),
+        receipt,
+      };
+    }
+  }
+  throw new Error('PartialWithdraw event not found in receipt');
+}
+
+/**
+ * Top up an open stake in its own token and protocol. ERC20 top-ups are
+ * approved automatically like createTimeLockedStake.
+ */
+export async function increaseStake(
+  aggregator: PolygonDeFiAggregator,
+  params: IncreaseStakeParams
+): Promise<IncreaseStakeResult> {
+  const signer = signerOf(aggregator);
+  const stakes = await aggregator.getUserTimeLockedStakes(
+    await signer.getAddress()
+  );
+  const stake = stakes[Number(params.stakeId)];
+  if (!stake) {
+    throw new Error(`Stake #${params.stakeId} not found`);
+  }
+  const amount = await toBaseUnits(
+    aggregator,
+    stake.stakingToken,
+    params.amount
+  );
+
+  let receipt: ContractTransactionReceipt;
+  if (params.native) {
+    receipt = await confirm(
+      aggregator.increaseStake(params.stakeId, 0, { value: amount })
+    );
+  } else {
+    await ensureAllowance(aggregator, signer, stake.stakingToken, amount);
+    receipt = await confirm(aggregator.increaseStake(params.stakeId, amount));
+  }
+
+  for (const log of receipt.logs) {
+    const parsed = aggregator.interface.parseLog(log);
+    if (parsed?.name === 'StakeIncreased') {
+      return {
+        stakeId: Number(parsed.args.stakeId),
+        amount: parsed.args.amount,
+        shares: parsed.args.shares,
+        receipt,
+      };
+    }
+  }
+  throw new Error('StakeIncreased event not found in receipt');
+}
+
+/** Move a stake's end time (unix seconds) later, at most 365 days out */
+export async function extendLock(
+  aggregator: PolygonDeFiAggregator,
+  stakeId: number | bigint,
+  newEndTime: number | bigint
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.extendLock(stakeId, newEndTime));
+}
+
+export async function setAutoCompound(
+  aggregator: PolygonDeFiAggregator,
+  stakeId: number | bigint,
+  enabled: boolean
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.setAutoCompound(stakeId, enabled));
+}
+
+/**
+ * Roll a matured auto-compounding stake into a new term. Any signer may call
+ * this for any user, which is how keepers renew stakes.
+ */
+export async function renewStake(
+  aggregator: PolygonDeFiAggregator,
+  user: string,
+  stakeId: number | bigint
+): Promise<RenewStakeResult> {
+  const receipt = await confirm(aggregator.renewStake(user, stakeId));
+
+  for (const log of receipt.logs) {
+    const parsed = aggregator.interface.parseLog(log);
+    if (parsed?.name === 'StakeRenewed') {
+      return {
+        stakeId: Number(parsed.args.stakeId),
+        compounded: parsed.args.compounded,
+        amount: parsed.args.amount,
+        startTime: Number(parsed.args.startTime),
+        endTime: Number(parsed.args.endTime),
+        receipt,
+      };
+    }
+  }
+  throw new Error('StakeRenewed event not found in receipt');
+}
+
+/**
+ * Move an auto-routed stake to its token's best route. Like renewStake, any
+ * signer may call this for any user.
+ */
+export async function rebalanceStake(
+  aggregator: PolygonDeFiAggregator,
+  user: string,
+  stakeId: number | bigint
+): Promise<RebalanceStakeResult> {
+  const receipt = await confirm(aggregator.rebalanceStake(user, stakeId));
+
+  for (const log of receipt.logs) {
+    const parsed = aggregator.interface.parseLog(log);
+    if (parsed?.name === 'StakeRebalanced') {
+      return {
+        stakeId: Number(parsed.args.stakeId),
+        fromProtocol: parsed.args.fromProtocol,
+        toProtocol: parsed.args.toProtocol,
+        amount: parsed.args.amount,
+        shares: parsed.args.shares,
+        receipt,
+      };
+    }
+  }
+  throw new Error('StakeRebalanced event not found in receipt');
+}
+
+// ===== VIEWS =====
+
+export async function getUserTimeLockedStakes(
+  aggregator: PolygonDeFiAggregator,
+  user: string
+): Promise<TimeLockedStakeInfo[]> {
+  const stakes = await aggregator.getUserTimeLockedStakes(user);
+  const block = await aggregator.runner?.provider?.getBlock('latest');
+  const now = BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+
+  const result: TimeLockedStakeInfo[] = [];
+  for (let i = 0; i < stakes.length; i++) {
+    const stake = stakes[i];
+    const decimals = await getTokenDecimals(aggregator, stake.stakingToken);
+    result.push({
+      stakeId: i,
+      amount: stake.amount,
+      formattedAmount: formatUnits(stake.amount, decimals),
+      shares: stake.shares,
+      startTime: Number(stake.startTime),
+      endTime: Number(stake.endTime),
+      stakingToken: stake.stakingToken,
+      protocol: stake.protocol,
+      decimals,
+      isActive: stake.isActive,
+      isScheduled: stake.isScheduled,
+      isMatured: stake.isActive && !stake.isScheduled && now >= stake.endTime,
+      lockPolicy: toLockPolicy(stake.lockPolicy),
+      autoCompound: stake.autoCompound,
+      autoRouted: stake.autoRouted,
+    });
+  }
+  return result;
+}
+
+export async function getUserTokenProtocolPosition(
+  aggregator: PolygonDeFiAggregator,
+  user: string,
+  token: string,
+  protocol: string
+): Promise<TokenProtocolPosition> {
+  const [position, decimals] = await Promise.all([
+    aggregator.getUserTokenProtocolPosition(user, token, protocol),
+    getTokenDecimals(aggregator, token),
+  ]);
+  return {
+    balance: position.balance,
+    shares: position.shares,
+    estimatedRewards: position.estimatedRewards,
+    decimals,
+    formattedBalance: formatUnits(position.balance, decimals),
+    formattedRewards: formatUnits(position.estimatedRewards, decimals),
+  };
+}
+
+function toLockPolicy(policy: {
+  mode: bigint;
+  maxPenaltyBps: bigint;
+}): LockPolicy {
+  return {
+    mode: LOCK_MODES[Number(policy.mode)],
+    maxPenaltyBps: Number(policy.maxPenaltyBps),
+  };
+}
+
+export async function getLockPolicy(
+  aggregator: PolygonDeFiAggregator,
+  protocol: string
+): Promise<LockPolicy> {
+  return toLockPolicy(await aggregator.protocolLockPolicies(protocol));
+}
+
+/**
+ * What withdrawing a stake now would pay after any early-exit penalty.
+ * Reverts for hard-locked stakes before maturity.
+ */
+export async function previewWithdraw(
+  aggregator: PolygonDeFiAggregator,
+  user: string,
+  stakeId: number | bigint
+): Promise<{ amount: bigint; penalty: bigint }> {
+  const { amount, penalty } = await aggregator.previewWithdraw(user, stakeId);
+  return { amount, penalty };
+}
+
+/**
+ * Current underlying value of a stake from getUserTimeLockedStakes; zero once
+ * it has been withdrawn
+ */
+export async function getStakeValue(
+  aggregator: PolygonDeFiAggregator,
+  user: string,
+  stake: Pick<TimeLockedStakeInfo, 'stakeId' | 'decimals'>
+): Promise<StakeValue> {
+  const stakeValue = await aggregator.getStakeValue(user, stake.stakeId);
+  const { decimals } = stake;
+  return {
+    stakeId: stake.stakeId,
+    value: stakeValue.value,
+    rewards: stakeValue.rewards,
+    decimals,
+    formattedValue: formatUnits(stakeValue.value, decimals),
+    formattedRewards: formatUnits(stakeValue.rewards, decimals),
+  };
+}
+
+/**
+ * Simple-interest yield a stake would have earned at `apy` basis points from
+ * its start until `now` (seconds)
+ */
+export function estimateStakeYield(
+  stake: Pick<TimeLockedStakeInfo, 'amount' | 'startTime'>,
+  apy: bigint,
+  now: number
+): bigint {
+  const elapsed = BigInt(Math.max(now - stake.startTime, 0));
+  return (stake.amount * apy * elapsed) / (365n * 24n * 60n * 60n * 10000n);
+}
+
+// ===== ADMIN =====
+
+export async function addSupportedToken(
+  aggregator: PolygonDeFiAggregator,
+  token: string,
+  symbol: string,
+  decimals: number
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.addSupportedToken(token, symbol, decimals));
+}
+
+export async function addProtocol(
+  aggregator: PolygonDeFiAggregator,
+  params: ProtocolParams
+): Promise<ContractTransactionReceipt> {
+  return confirm(
+    aggregator.addProtocol(params.name, params.adapter, params.apy)
+  );
+}
+
+export async function updateProtocolAPY(
+  aggregator: PolygonDeFiAggregator,
+  protocol: string,
+  apy: number | bigint
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.updateProtocolAPY(protocol, apy));
+}
+
+export async function setLockPolicy(
+  aggregator: PolygonDeFiAggregator,
+  protocol: string,
+  policy: LockPolicy
+): Promise<ContractTransactionReceipt> {
+  const mode = LOCK_MODES.indexOf(policy.mode);
+  if (mode === -1) {
+    throw new Error(
+      `Unknown lock mode "${policy.mode}". Expected one of: ${LOCK_MODES.join(', ')}`
+    );
+  }
+  return confirm(
+    aggregator.setLockPolicy(protocol, mode, policy.maxPenaltyBps)
+  );
+}
+
+/** Protocols that AUTO_ROUTE stakes in `token` choose from; [] disables */
+export async function setTokenRoutes(
+  aggregator: PolygonDeFiAggregator,
+  token: string,
+  protocols: string[]
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.setTokenRoutes(token, protocols));
+}
+
+export async function setRebalanceThreshold(
+  aggregator: PolygonDeFiAggregator,
+  thresholdBps: number | bigint
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.setRebalanceThreshold(thresholdBps));
+}
+
+export async function setFeeRecipient(
+  aggregator: PolygonDeFiAggregator,
+  recipient: string
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.setFeeRecipient(recipient));
+}
+
+/** Let `account`'s new stakes ignore protocol lock policies */
+export async function setLockExempt(
+  aggregator: PolygonDeFiAggregator,
+  account: string,
+  exempt: boolean
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.setLockExempt(account, exempt));
+}
+
+/** Exempt every challenge `factory` creates from lock policies */
+export async function setChallengeFactory(
+  aggregator: PolygonDeFiAggregator,
+  factory: string
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.setChallengeFactory(factory));
+}
+
+export async function setTokenStatus(
+  aggregator: PolygonDeFiAggregator,
+  token: string,
+  isActive: boolean
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.setTokenStatus(token, isActive));
+}
+
+export async function setProtocolStatus(
+  aggregator: PolygonDeFiAggregator,
+  protocol: string,
+  isActive: boolean
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.setProtocolStatus(protocol, isActive));
+}
+
+export async function pause(
+  aggregator: PolygonDeFiAggregator
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.pause());
+}
+
+export async function unpause(
+  aggregator: PolygonDeFiAggregator
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.unpause());
+}
+
+export async function emergencyWithdraw(
+  aggregator: PolygonDeFiAggregator,
+  token: string
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.emergencyWithdraw(token));
+}
+
+/**
+ * Pull `protocol`'s position in `token` back into the aggregator and
+ * deactivate it; its stakes in `token` then redeem the funds pro rata
+ */
+export async function emergencyExit(
+  aggregator: PolygonDeFiAggregator,
+  protocol: string,
+  token: string
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.emergencyExit(protocol, token));
+}
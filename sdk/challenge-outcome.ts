@@ -0,0 +1,239 @@
+import { ChallengeDetailV2 } from '../typechain-types';
+import {
+  DailyResultArgs,
+  DailyResultRequest,
+  dayRange,
+  validateDailyResultRequest,
+} from './steps';
+
+/**
+ * An off-chain copy of how ChallengeDetailV2 records a daily result
+ * (`_recordDailyResult`), so an app can tell before sending whether a day's
+ * steps will settle the challenge. It follows the contract as written,
+ * quirks included:
+ *
+ * - a result whose time range covers a recorded day overwrites that day with
+ *   the call's last reading, and reverts once the recorded day has reached
+ *   the goal
+ * - `sequence` grows by every reading sent, resends included; days with no
+ *   result never count
+ * - the challenge fails once `sequence - currentStatus` exceeds
+ *   `duration - dayRequired`, but not on a call whose last reading falls
+ *   short inside its time range, as that day can still be resent
+ * - a call repeating a recorded timestamp only fails the challenge when an
+ *   earlier recorded day fell short
+ *
+ * Signatures, the caller and the gacha and NFT transfers are not modelled.
+ */
+
+/** ChallengeDetailV2.ChallengeState, by value */
+export const CHALLENGE_STATES = [
+  'PROCESSING',
+  'SUCCESS',
+  'FAILED',
+  'GAVE_UP',
+  'CLOSED',
+] as const;
+
+export type ChallengeStateName = (typeof CHALLENGE_STATES)[number];
+
+/** What the contract knows when a daily result arrives */
+export interface ChallengeProgress {
+  state: ChallengeStateName;
+  isFinished: boolean;
+  startTime: bigint;
+  duration: bigint;
+  dayRequired: bigint;
+  goal: bigint;
+  /** Also the contract's marker for "no timestamp sent again" */
+  totalReward: bigint;
+  /** Days that reached the goal, up to dayRequired */
+  currentStatus: bigint;
+  /** Readings sent so far */
+  sequence: bigint;
+  historyDate: bigint[];
+  historyData: bigint[];
+}
+
+/** The parts of sendDailyResult's arguments the outcome depends on */
+export type DailyResultInput = Pick<
+  DailyResultArgs,
+  'day' | 'stepIndex' | 'timeRange'
+>;
+
+export interface ChallengeOutcome {
+  /** Set when the call would revert; the rest is then unchanged */
+  revert?: string;
+  state: ChallengeStateName;
+  currentStatus: bigint;
+  sequence: bigint;
+  historyDate: bigint[];
+  historyData: bigint[];
+}
+
+/** Read everything predictDailyResult needs from a challenge */
+export async function readChallengeProgress(
+  challenge: ChallengeDetailV2
+): Promise<ChallengeProgress> {
+  const [
+    state,
+    isFinished,
+    startTime,
+    duration,
+    dayRequired,
+    goal,
+    totalReward,
+    info,
+    history,
+    sequence,
+  ] = await Promise.all([
+    challenge.getState(),
+    challenge.isFinished(),
+    challenge.startTime(),
+    challenge.duration(),
+    challenge.dayRequired(),
+    challenge.goal(),
+    challenge.totalReward(),
+    challenge.getChallengeInfo(),
+    challenge.getChallengeHistory(),
+    challenge.sequence(),
+  ]);
+  return {
+    state: CHALLENGE_STATES[Number(state)],
+    isFinished,
+    startTime,
+    duration,
+    dayRequired,
+    goal,
+    totalReward,
+    currentStatus: info.challengeCleared,
+    sequence,
+    historyDate: [...history.date],
+    historyData: [...history.data],
+  };
+}
+
+/**
+ * The state a challenge would be in after sendDailyResult (or
+ * sendDailyReport) with `args`, sent at `now` (seconds) when given
+ */
+export function predictDailyResult(
+  progress: ChallengeProgress,
+  args: DailyResultInput,
+  now?: number
+): ChallengeOutcome {
+  const unchanged = (revert: string): ChallengeOutcome => ({
+    revert,
+    state: progress.state,
+    currentStatus: progress.currentStatus,
+    sequence: progress.sequence,
+    historyDate: [...progress.historyDate],
+    historyData: [...progress.historyData],
+  });
+  if (progress.isFinished) {
+    return unchanged('Challenge was finished');
+  }
+  if (now !== undefined && BigInt(now) < progress.startTime) {
+    return unchanged('Challenge has not started yet');
+  }
+
+  const { day, stepIndex, timeRange } = args;
+  const dayLength = day.length;
+  if (dayLength === 0 || stepIndex.length < dayLength) {
+    throw new Error('Daily result needs a step count for each of its days');
+  }
+  const { goal, dayRequired, duration, totalReward } = progress;
+  const historyDate = [...progress.historyDate];
+  const historyData = [...progress.historyData];
+  let currentStatus = progress.currentStatus;
+  let isSendSameDay = false;
+  let isSendFailWithSameDay = false;
+  let lastIndex = totalReward;
+
+  for (let i = 0; i < dayLength; i++) {
+    for (let j = 0; j < historyDate.length; j++) {
+      if (historyDate[j] >= timeRange[0] && historyDate[j] <= timeRange[1]) {
+        if (!(historyData[j] < goal)) {
+          return unchanged('Invalid step: exceeds goal or not greater');
+        }
+        isSendSameDay = true;
+        historyData[j] = stepIndex[dayLength - 1];
+        historyDate[j] = day[dayLength - 1];
+      } else if (historyDate[j] === day[i]) {
+        lastIndex = BigInt(i);
+        historyData[j] = stepIndex[i];
+      }
+    }
+
+    if (!isSendSameDay && lastIndex !== BigInt(i)) {
+      historyDate.push(day[i]);
+      historyData.push(stepIndex[i]);
+    }
+
+    if (stepIndex[i] >= goal && currentStatus < dayRequired) {
+      currentStatus += 1n;
+    }
+  }
+
+  for (let i = 0; i < historyData.length - 1; i++) {
+    if (historyData[i] < goal) {
+      isSendFailWithSameDay = false;
+      lastIndex = totalReward;
+    }
+  }
+
+  const sequence =
+    progress.sequence +
+    BigInt(isSendSameDay && isSendFailWithSameDay ? dayLength - 1 : dayLength);
+
+  if (
+    stepIndex[dayLength - 1] < goal &&
+    day[dayLength - 1] > timeRange[0] &&
+    day[dayLength - 1] < timeRange[1]
+  ) {
+    isSendFailWithSameDay = true;
+  }
+
+  let state: ChallengeStateName = progress.state;
+  if (
+    sequence - currentStatus > duration - dayRequired &&
+    !isSendFailWithSameDay &&
+    lastIndex === totalReward
+  ) {
+    state = 'FAILED';
+  } else if (currentStatus >= dayRequired) {
+    state = 'SUCCESS';
+  }
+
+  return { state, currentStatus, sequence, historyDate, historyData };
+}
+
+/**
+ * Predict the outcome of sending step readings as the step signer would sign
+ * them, from the challenge's current state and the latest block's time
+ */
+export async function previewDailyResult(
+  challenge: ChallengeDetailV2,
+  request: DailyResultRequest
+): Promise<ChallengeOutcome> {
+  const errors = validateDailyResultRequest(request);
+  if (errors.length > 0) {
+    throw new Error(`Invalid step data:\n  ${errors.join('\n  ')}`);
+  }
+  const progress = await readChallengeProgress(challenge);
+  const block = await challenge.runner!.provider!.getBlock('latest');
+
+  const readings = request.readings;
+  const [start, end] =
+    request.timeRange ??
+    dayRange(readings[readings.length - 1].day, request.utcOffsetMinutes);
+  return predictDailyResult(
+    progress,
+    {
+      day: readings.map(reading => BigInt(reading.day)),
+      stepIndex: readings.map(reading => BigInt(reading.steps)),
+      timeRange: [BigInt(start), BigInt(end)],
+    },
+    block!.timestamp
+  );
+}
@@ -0,0 +1,414 @@
+import {
+  ContractTransactionReceipt,
+  getAddress,
+  isAddress,
+  parseUnits,
+  Signer,
+  ZeroAddress,
+} from 'ethers';
+import {
+  ChallengeDetailV2__factory,
+  ChallengeFactory,
+  ChallengeFactory__factory,
+  IERC20Metadata__factory,
+} from '../typechain-types';
+import { Amount, confirm } from './aggregator';
+import { decodeRevert, revertDataOf } from './inspector';
+
+/**
+ * ChallengeFactory creates ChallengeDetailV2 challenges as minimal clones and,
+ * in the same transaction, allows them on ExerciseSupplementNFT and stakes the
+ * sponsor's deposit on the aggregator. `createChallenge` builds its parameters
+ * from a ChallengeSpec, simulates the call and sends it from the sponsor.
+ */
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export interface ChallengeAward {
+  receiver: string;
+  /** Share of the deposit after the gas fee, in whole percent */
+  percent: number;
+}
+
+export interface ChallengeSpec {
+  challenger: string;
+  /** Stakeholder that receives the platform fee */
+  feeAddress: string;
+  /** Seconds */
+  start: number;
+  /** Length of the challenge in days */
+  days: number;
+  /** Seconds (default: `days` after `start`) */
+  end?: number;
+  /** Steps per day */
+  goal: number;
+  /** Days that must reach the goal */
+  daysRequired: number;
+  /** Deposit including the gas fee, in token units (e.g. "10") or base units */
+  amount: Amount;
+  /** ERC20 to stake; native MATIC when omitted */
+  token?: string;
+  /** Aggregator protocol to stake on (default: aave_lending) */
+  protocol?: string;
+  /** Native MATIC paid to the challenger out of the deposit, in wei */
+  gasFee?: bigint;
+  onSuccess: ChallengeAward[];
+  onFailure: ChallengeAward[];
+  allowGiveUp?: boolean;
+  /** Award everything to the sponsor when the challenger gives up */
+  awardSponsorOnGiveUp?: boolean;
+  /** NFT contracts after the factory's ExerciseSupplementNFT */
+  extraNfts?: string[];
+  createByToken?: string;
+}
+
+/** ChallengeFactory.createChallenge's parameters */
+export interface ChallengeParams {
+  stakeHolders: [string, string, string];
+  createByToken: string;
+  erc721Address: string[];
+  /** [duration, start, end, goal, dayRequired] */
+  primaryRequired: bigint[];
+  awardReceivers: string[];
+  index: bigint;
+  allowGiveUp: boolean[];
+  gasData: bigint[];
+  allAwardToSponsorWhenGiveUp: boolean;
+  awardReceiversPercent: bigint[];
+  totalAmount: bigint;
+  stakingProtocol: string;
+  stakingToken: string;
+}
+
+export interface ChallengeCall {
+  sponsor: string;
+  params: ChallengeParams;
+  /** msg.value: the deposit for native stakes, else the gas fee */
+  value: bigint;
+  /** Deposit after the gas fee, staked by the challenge */
+  stakeAmount: bigint;
+}
+
+export interface ChallengeSimulation extends ChallengeCall {
+  /** Address the challenge would be created at if sent now */
+  challenge: string;
+  gas: bigint;
+}
+
+export interface CreateChallengeResult extends ChallengeCall {
+  challenge: string;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface ChallengeFactoryDeployment {
+  address: string;
+  /** ChallengeDetailV2 the factory clones */
+  implementation: string;
+  txHash: string;
+  blockNumber: number;
+  constructorArgs: string[];
+}
+
+function signerOfFactory(factory: ChallengeFactory): Signer {
+  const runner = factory.runner as Signer | null;
+  if (!runner || typeof runner.getAddress !== 'function') {
+    throw new Error('Challenge factory client must be connected with a signer');
+  }
+  return runner;
+}
+
+/** Problems with a spec, empty when buildChallengeCall can build it */
+export function validateChallengeSpec(spec: ChallengeSpec): string[] {
+  const errors: string[] = [];
+  const address = (value: string | undefined, name: string) => {
+    if (typeof value !== 'string' || !isAddress(value)) {
+      errors.push(`${name} must be an address`);
+    }
+  };
+  const positive = (value: number, name: string) => {
+    if (!Number.isSafeInteger(value) || value <= 0) {
+      errors.push(`${name} must be a positive integer`);
+    }
+  };
+
+  address(spec.challenger, 'challenger');
+  address(spec.feeAddress, 'feeAddress');
+  if (spec.token !== undefined) {
+    address(spec.token, 'token');
+  }
+  if (spec.createByToken !== undefined) {
+    address(spec.createByToken, 'createByToken');
+  }
+  for (const [i, nft] of (spec.extraNfts ?? []).entries()) {
+    address(nft, `extraNfts[${i}]`);
+  }
+
+  positive(spec.start, 'start');
+  positive(spec.days, 'days');
+  positive(spec.goal, 'goal');
+  positive(spec.daysRequired, 'daysRequired');
+  if (spec.daysRequired > spec.days) {
+    errors.push('daysRequired must be at most days');
+  }
+  if (spec.end !== undefined && !(spec.end > spec.start)) {
+    errors.push('end must be after start');
+  }
+
+  for (const side of ['onSuccess', 'onFailure'] as const) {
+    const awards = spec[side];
+    if (!Array.isArray(awards) || awards.length === 0) {
+      errors.push(`${side} must list at least one receiver`);
+      continue;
+    }
+    awards.forEach((award, i) => {
+      address(award?.receiver, `${side}[${i}].receiver`);
+      positive(award?.percent, `${side}[${i}].percent`);
+    });
+    const total = awards.reduce((sum, award) => sum + (award?.percent || 0), 0);
+    if (total > 100) {
+      errors.push(`${side} percents add up to ${total}, more than 100`);
+    }
+  }
+
+  if (spec.gasFee !== undefined && spec.gasFee < 0n) {
+    errors.push('gasFee must not be negative');
+  }
+  if (spec.protocol !== undefined && spec.protocol.length === 0) {
+    errors.push('protocol must not be empty');
+  }
+  return errors;
+}
+
+/**
+ * Build ChallengeFactory.createChallenge's parameters and value for `spec`,
+ * sponsored by the factory client's signer
+ */
+export async function buildChallengeCall(
+  factory: ChallengeFactory,
+  spec: ChallengeSpec
+): Promise<ChallengeCall> {
+  const signer = signerOfFactory(factory);
+  const invalid = (errors: string[]) =>
+    new Error(`Invalid challenge:\n  ${errors.join('\n  ')}`);
+  const errors = validateChallengeSpec(spec);
+  if (errors.length > 0) {
+    throw invalid(errors);
+  }
+
+  const token = spec.token ? getAddress(spec.token) : ZeroAddress;
+  const gasFee = spec.gasFee ?? 0n;
+  let totalAmount: bigint;
+  if (typeof spec.amount === 'bigint') {
+    totalAmount = spec.amount;
+  } else {
+    const decimals =
+      token === ZeroAddress
+        ? 18
+        : Number(
+            await IERC20Metadata__factory.connect(token, signer).decimals()
+          );
+    try {
+      totalAmount = parseUnits(spec.amount, decimals);
+    } catch {
+      throw invalid([`amount "${spec.amount}" is not a number`]);
+    }
+  }
+  if (totalAmount <= gasFee) {
+    throw invalid(['amount must be more than the gas fee']);
+  }
+
+  const sponsor = await signer.getAddress();
+  const awards = [...spec.onSuccess, ...spec.onFailure];
+  const end = spec.end ?? spec.start + spec.days * SECONDS_PER_DAY;
+  const params: ChallengeParams = {
+    stakeHolders: [
+      sponsor,
+      getAddress(spec.challenger),
+      getAddress(spec.feeAddress),
+    ],
+    createByToken: spec.createByToken
+      ? getAddress(spec.createByToken)
+      : ZeroAddress,
+    erc721Address: [
+      await factory.exerciseSupplementNFT(),
+      ...(spec.extraNfts ?? []).map(nft => getAddress(nft)),
+    ],
+    primaryRequired: [
+      spec.days,
+      spec.start,
+      end,
+      spec.goal,
+      spec.daysRequired,
+    ].map(BigInt),
+    awardReceivers: awards.map(award => getAddress(award.receiver)),
+    index: BigInt(spec.onSuccess.length),
+    // Only the first flag is read by the challenge
+    allowGiveUp: [spec.allowGiveUp ?? false, false, false],
+    gasData: [0n, 0n, gasFee],
+    allAwardToSponsorWhenGiveUp: spec.awardSponsorOnGiveUp ?? false,
+    awardReceiversPercent: awards.map(award => BigInt(award.percent)),
+    totalAmount,
+    stakingProtocol: spec.protocol ?? 'aave_lending',
+    stakingToken: token,
+  };
+  return {
+    sponsor,
+    params,
+    value: token === ZeroAddress ? totalAmount : gasFee,
+    stakeAmount: totalAmount - gasFee,
+  };
+}
+
+/** Revert reason of a failed createChallenge call, as an Error */
+function simulationError(error: unknown): Error {
+  const data = revertDataOf(error);
+  if (data === undefined) {
+    return error as Error;
+  }
+  const revert = decodeRevert(data);
+  const reason =
+    revert.name === 'Error'
+      ? `"${revert.args.reason}"`
+      : revert.name === 'Revert'
+        ? 'without a reason'
+        : `with ${revert.name}`;
+  return new Error(`createChallenge would revert ${reason}`);
+}
+
+async function simulateCall(
+  factory: ChallengeFactory,
+  call: ChallengeCall
+): Promise<ChallengeSimulation> {
+  try {
+    const overrides = { value: call.value };
+    const challenge = await factory.createChallenge.staticCall(
+      call.params,
+      overrides
+    );
+    const gas = await factory.createChallenge.estimateGas(
+      call.params,
+      overrides
+    );
+    return { ...call, challenge, gas };
+  } catch (error) {
+    throw simulationError(error);
+  }
+}
+
+/**
+ * Build the call for `spec` and run it against the latest block without
+ * sending it. ERC20 deposits must already be approved for the factory.
+ */
+export async function simulateChallenge(
+  factory: ChallengeFactory,
+  spec: ChallengeSpec
+): Promise<ChallengeSimulation> {
+  const call = await buildChallengeCall(factory, spec);
+  const token = call.params.stakingToken;
+  if (token !== ZeroAddress) {
+    const allowance = await IERC20Metadata__factory.connect(
+      token,
+      factory.runner
+    ).allowance(call.sponsor, await factory.getAddress());
+    if (allowance < call.stakeAmount) {
+      throw new Error(
+        `The sponsor approved ${allowance} of ${token} for the factory, less than the ${call.stakeAmount} to stake`
+      );
+    }
+  }
+  return simulateCall(factory, call);
+}
+
+/**
+ * Create a challenge from `spec`, approving an ERC20 deposit first if needed.
+ * The call is simulated before it is sent, so invalid parameters fail with
+ * the factory's revert reason rather than as a mined, reverted transaction.
+ */
+export async function createChallenge(
+  factory: ChallengeFactory,
+  spec: ChallengeSpec
+): Promise<CreateChallengeResult> {
+  const call = await buildChallengeCall(factory, spec);
+  const token = call.params.stakingToken;
+  if (token !== ZeroAddress) {
+    const erc20 = IERC20Metadata__factory.connect(
+      token,
+      signerOfFactory(factory)
+    );
+    const factoryAddress = await factory.getAddress();
+    const allowance = await erc20.allowance(call.sponsor, factoryAddress);
+    if (allowance < call.stakeAmount) {
+      await confirm(erc20.approve(factoryAddress, call.stakeAmount));
+    }
+  }
+  await simulateCall(factory, call);
+
+  const receipt = await confirm(
+    factory.createChallenge(call.params, { value: call.value })
+  );
+  for (const log of receipt.logs) {
+    const parsed = factory.interface.parseLog(log);
+    if (parsed?.name === 'ChallengeCreated') {
+      return { ...call, challenge: parsed.args.challenge, receipt };
+    }
+  }
+  throw new Error('ChallengeCreated event not found in receipt');
+}
+
+/**
+ * Deploy a ChallengeDetailV2 implementation and a ChallengeFactory cloning
+ * it, bound to `aggregator` and `nft`. The factory needs
+ * UPDATER_ACTIVITIES_ROLE on the NFT before it can create challenges.
+ */
+export async function deployChallengeFactory(
+  signer: Signer,
+  params: { aggregator: string; nft: string }
+): Promise<ChallengeFactoryDeployment> {
+  // Deployed without stakeholders, the implementation locks itself
+  const implementation = await new ChallengeDetailV2__factory(signer).deploy(
+    [],
+    ZeroAddress,
+    [],
+    [],
+    [],
+    0,
+    [],
+    [],
+    false,
+    [],
+    0,
+    ZeroAddress,
+    '',
+    ZeroAddress
+  );
+  await implementation.waitForDeployment();
+
+  const constructorArgs = [
+    await implementation.getAddress(),
+    getAddress(params.aggregator),
+    getAddress(params.nft),
+  ];
+  const factory = await new ChallengeFactory__factory(signer).deploy(
+    constructorArgs[0],
+    constructorArgs[1],
+    constructorArgs[2]
+  );
+  const receipt = await factory.deploymentTransaction()?.wait();
+  if (!receipt) {
+    throw new Error('Factory deployment was dropped before confirmation');
+  }
+  return {
+    address: await factory.getAddress(),
+    implementation: constructorArgs[0],
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    constructorArgs,
+  };
+}
+
+export function connectChallengeFactory(
+  address: string,
+  signer: Signer
+): ChallengeFactory {
+  return ChallengeFactory__factory.connect(address, signer);
+}
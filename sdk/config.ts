@@ -0,0 +1,135 @@
+import { isAddress } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface TokenConfig {
+  address: string;
+  symbol: string;
+  decimals: number;
+  /** Not enforced by the aggregator contract */
+  maxStakeAmount?: string;
+  /** Defaults to true */
+  isActive?: boolean;
+}
+
+export interface ProtocolConfig {
+  name: string;
+  /** Protocol contract: the Aave v3 pool, cToken or liquid staking vault */
+  contractAddress: string;
+  protocolType: 'liquid' | 'lending' | 'compound';
+  /**
+   * Adapter already deployed for this aggregator and protocol; sync deploys
+   * one when missing
+   */
+  adapter?: string;
+  /** APY in basis points used when the protocol is added */
+  initialAPY: number;
+  /** Desired APY in basis points; falls back to initialAPY */
+  apy?: number;
+  /** Defaults to true */
+  isActive?: boolean;
+  /**
+   * Lending only: underlying tokens expected to have a reserve on this pool.
+   * Sync warns about any that do not.
+   */
+  assets?: string[];
+  /** Not enforced by the aggregator contract */
+  rewardToken?: string;
+  maxTVL?: string;
+  isVerified?: boolean;
+}
+
+/**
+ * Desired aggregator state, as stored in config/deployment.<network>.json
+ */
+export interface DeploymentConfig {
+  wmaticAddress: string;
+  maxGasForExternalCall?: number;
+  emergencyWithdrawDelay?: number;
+  supportedTokens: TokenConfig[];
+  protocols: ProtocolConfig[];
+}
+
+const PROTOCOL_TYPES = ['liquid', 'lending', 'compound'];
+
+export function deploymentConfigPath(networkName: string): string {
+  return path.join(process.cwd(), 'config', `deployment.${networkName}.json`);
+}
+
+export function validateDeploymentConfig(value: unknown): DeploymentConfig {
+  const config = value as DeploymentConfig;
+  const errors: string[] = [];
+
+  if (!config || typeof config !== 'object') {
+    throw new Error('Invalid deployment config: expected an object');
+  }
+  if (!isAddress(config.wmaticAddress)) {
+    errors.push('wmaticAddress must be an address');
+  }
+  if (!Array.isArray(config.supportedTokens)) {
+    errors.push('supportedTokens must be an array');
+  } else {
+    config.supportedTokens.forEach((token, i) => {
+      const where = `supportedTokens[${i}]`;
+      if (!isAddress(token.address)) {
+        errors.push(`${where}.address must be an address`);
+      }
+      if (!token.symbol) {
+        errors.push(`${where}.symbol is required`);
+      }
+      if (!Number.isInteger(token.decimals) || token.decimals < 0) {
+        errors.push(`${where}.decimals must be a non-negative integer`);
+      }
+    });
+  }
+  if (!Array.isArray(config.protocols)) {
+    errors.push('protocols must be an array');
+  } else {
+    config.protocols.forEach((protocol, i) => {
+      const where = `protocols[${i}]`;
+      if (!protocol.name) {
+        errors.push(`${where}.name is required`);
+      }
+      if (!isAddress(protocol.contractAddress)) {
+        errors.push(`${where}.contractAddress must be an address`);
+      }
+      if (protocol.adapter !== undefined && !isAddress(protocol.adapter)) {
+        errors.push(`${where}.adapter must be an address`);
+      }
+      if (!PROTOCOL_TYPES.includes(protocol.protocolType)) {
+        errors.push(
+          `${where}.protocolType must be one of ${PROTOCOL_TYPES.join(', ')}`
+        );
+      }
+      if (!Number.isInteger(protocol.apy ?? protocol.initialAPY)) {
+        errors.push(`${where}.initialAPY must be an integer (basis points)`);
+      }
+      if (protocol.assets !== undefined) {
+        if (protocol.protocolType !== 'lending') {
+          errors.push(`${where}.assets is only valid for lending protocols`);
+        } else if (
+          !Array.isArray(protocol.assets) ||
+          !protocol.assets.every(a => isAddress(a))
+        ) {
+          errors.push(`${where}.assets must be an array of addresses`);
+        }
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid deployment config:\n${errors.map(e => `  - ${e}`).join('\n')}`
+    );
+  }
+  return config;
+}
+
+export function loadDeploymentConfig(configPath: string): DeploymentConfig {
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Deployment config not found: ${configPath}`);
+  }
+  return validateDeploymentConfig(
+    JSON.parse(fs.readFileSync(configPath, 'utf8'))
+  );
+}
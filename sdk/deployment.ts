@@ -0,0 +1,396 @@
+import { isAddress, Provider } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ImplementationRecord, ProxyKind } from './upgrades';
+
+/**
+ * Deployment registry: every deployment of every project contract, keyed by
+ * chainId and contract name. Lookups always go through the chainId reported
+ * by the connected provider, so a script run against amoy can never pick up
+ * polygon addresses.
+ */
+
+export const REGISTRY_VERSION = 1;
+
+export const DEFAULT_REGISTRY_PATH = path.join(
+  process.cwd(),
+  'deployInfo',
+  'registry.json'
+);
+
+export const AGGREGATOR_CONTRACT = 'PolygonDeFiAggregator';
+
+export interface DeploymentRecord {
+  address: string;
+  deployer: string;
+  /** Missing for deployments imported from the legacy deployInfo files */
+  txHash?: string;
+  blockNumber?: number;
+  constructorArgs: unknown[];
+  deployedAt: string;
+  verified: boolean;
+  /** Snapshot of the configuration the contract was deployed/set up with */
+  config?: { [key: string]: unknown };
+  /** Set when `address` is a proxy; `admin` is a transparent proxy's ProxyAdmin */
+  proxy?: { kind: ProxyKind; admin?: string };
+  /** Implementations deployed for the proxy, oldest first */
+  implementations?: ImplementationRecord[];
+}
+
+export interface ChainDeployments {
+  network: string;
+  /** Deployment history per contract name, oldest first */
+  contracts: {
+    [contractName: string]: DeploymentRecord[];
+  };
+}
+
+export interface DeploymentRegistry {
+  version: number;
+  chains: {
+    [chainId: string]: ChainDeployments;
+  };
+}
+
+/** A registry record resolved for a specific chain */
+export interface Deployment extends DeploymentRecord {
+  chainId: number;
+  network: string;
+  contractName: string;
+}
+
+export function getExplorerUrl(networkName: string): string {
+  switch (networkName) {
+    case 'polygon':
+      return 'https://polygonscan.com';
+    case 'amoy':
+      return 'https://amoy.polygonscan.com';
+    default:
+      return '';
+  }
+}
+
+// ===== VALIDATION =====
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateRecord(
+  record: unknown,
+  where: string,
+  errors: string[]
+): void {
+  if (!isObject(record)) {
+    errors.push(`${where} must be an object`);
+    return;
+  }
+  if (typeof record.address !== 'string' || !isAddress(record.address)) {
+    errors.push(`${where}.address must be an address`);
+  }
+  if (typeof record.deployer !== 'string' || !isAddress(record.deployer)) {
+    errors.push(`${where}.deployer must be an address`);
+  }
+  if (
+    record.txHash !== undefined &&
+    (typeof record.txHash !== 'string' ||
+      !/^0x[0-9a-fA-F]{64}$/.test(record.txHash))
+  ) {
+    errors.push(`${where}.txHash must be a transaction hash`);
+  }
+  if (
+    record.blockNumber !== undefined &&
+    (!Number.isInteger(record.blockNumber) || Number(record.blockNumber) < 0)
+  ) {
+    errors.push(`${where}.blockNumber must be a non-negative integer`);
+  }
+  if (!Array.isArray(record.constructorArgs)) {
+    errors.push(`${where}.constructorArgs must be an array`);
+  }
+  if (
+    typeof record.deployedAt !== 'string' ||
+    Number.isNaN(Date.parse(record.deployedAt))
+  ) {
+    errors.push(`${where}.deployedAt must be an ISO date`);
+  }
+  if (typeof record.verified !== 'boolean') {
+    errors.push(`${where}.verified must be a boolean`);
+  }
+  if (record.config !== undefined && !isObject(record.config)) {
+    errors.push(`${where}.config must be an object`);
+  }
+  if (record.proxy !== undefined) {
+    validateProxy(record, where, errors);
+  }
+}
+
+function validateProxy(
+  record: { [key: string]: unknown },
+  where: string,
+  errors: string[]
+): void {
+  const { proxy, implementations } = record;
+  if (!isObject(proxy)) {
+    errors.push(`${where}.proxy must be an object`);
+    return;
+  }
+  if (proxy.kind !== 'uups' && proxy.kind !== 'transparent') {
+    errors.push(`${where}.proxy.kind must be "uups" or "transparent"`);
+  }
+  if (
+    proxy.admin !== undefined &&
+    (typeof proxy.admin !== 'string' || !isAddress(proxy.admin))
+  ) {
+    errors.push(`${where}.proxy.admin must be an address`);
+  }
+  if (!Array.isArray(implementations) || implementations.length === 0) {
+    errors.push(`${where}.implementations must be a non-empty array`);
+    return;
+  }
+  implementations.forEach((implementation: unknown, i) => {
+    const at = `${where}.implementations[${i}]`;
+    if (!isObject(implementation)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    if (
+      typeof implementation.address !== 'string' ||
+      !isAddress(implementation.address)
+    ) {
+      errors.push(`${at}.address must be an address`);
+    }
+    if (
+      typeof implementation.deployedAt !== 'string' ||
+      Number.isNaN(Date.parse(implementation.deployedAt))
+    ) {
+      errors.push(`${at}.deployedAt must be an ISO date`);
+    }
+    const layout = implementation.storageLayout;
+    if (
+      !isObject(layout) ||
+      !Array.isArray(layout.storage) ||
+      !isObject(layout.types)
+    ) {
+      errors.push(`${at}.storageLayout must have storage and types`);
+    }
+  });
+}
+
+/**
+ * Check that `value` is a well-formed registry, throwing with every problem
+ * found so a hand-edited file can be fixed in one go.
+ */
+export function validateRegistry(value: unknown): DeploymentRegistry {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    throw new Error('Invalid deployment registry: expected an object');
+  }
+  if (value.version !== REGISTRY_VERSION) {
+    errors.push(`version must be ${REGISTRY_VERSION}`);
+  }
+  if (!isObject(value.chains)) {
+    errors.push('chains must be an object');
+  } else {
+    for (const [chainId, chain] of Object.entries(value.chains)) {
+      const where = `chains.${chainId}`;
+      if (!/^\d+$/.test(chainId)) {
+        errors.push(`${where}: chain ids must be numeric`);
+      }
+      if (!isObject(chain)) {
+        errors.push(`${where} must be an object`);
+        continue;
+      }
+      if (typeof chain.network !== 'string' || !chain.network) {
+        errors.push(`${where}.network must be a non-empty string`);
+      }
+      if (!isObject(chain.contracts)) {
+        errors.push(`${where}.contracts must be an object`);
+        continue;
+      }
+      for (const [name, history] of Object.entries(chain.contracts)) {
+        if (!Array.isArray(history) || history.length === 0) {
+          errors.push(`${where}.contracts.${name} must be a non-empty array`);
+          continue;
+        }
+        history.forEach((record, i) =>
+          validateRecord(record, `${where}.contracts.${name}[${i}]`, errors)
+        );
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid deployment registry:\n${errors.map(e => `  - ${e}`).join('\n')}`
+    );
+  }
+  return value as unknown as DeploymentRegistry;
+}
+
+// ===== STORAGE =====
+
+export function loadRegistry(
+  registryPath: string = DEFAULT_REGISTRY_PATH
+): DeploymentRegistry {
+  if (!fs.existsSync(registryPath)) {
+    return { version: REGISTRY_VERSION, chains: {} };
+  }
+  return validateRegistry(JSON.parse(fs.readFileSync(registryPath, 'utf8')));
+}
+
+export function saveRegistry(
+  registry: DeploymentRegistry,
+  registryPath: string = DEFAULT_REGISTRY_PATH
+) {
+  validateRegistry(registry);
+  fs.mkdirSync(path.dirname(registryPath), { recursive: true });
+  fs.writeFileSync(registryPath, JSON.stringify(registry, null, 2) + '\n');
+}
+
+// ===== LOOKUP =====
+
+export function getDeploymentHistory(
+  chainId: number | bigint,
+  contractName: string,
+  registryPath?: string
+): Deployment[] {
+  const chain = loadRegistry(registryPath).chains[chainId.toString()];
+  return (chain?.contracts[contractName] ?? []).map(record => ({
+    ...record,
+    chainId: Number(chainId),
+    network: chain.network,
+    contractName,
+  }));
+}
+
+/** Latest deployment of `contractName` on `chainId`, if any */
+export function findDeployment(
+  chainId: number | bigint,
+  contractName: string,
+  registryPath?: string
+): Deployment | undefined {
+  return getDeploymentHistory(chainId, contractName, registryPath).pop();
+}
+
+export function getDeployment(
+  chainId: number | bigint,
+  contractName: string,
+  registryPath?: string
+): Deployment {
+  const deployment = findDeployment(chainId, contractName, registryPath);
+  if (!deployment) {
+    throw new Error(
+      `No ${contractName} deployment recorded for chainId ${chainId}. Please deploy the contract first`
+    );
+  }
+  return deployment;
+}
+
+/**
+ * Latest deployment of `contractName` on the chain the provider is connected
+ * to. This is what scripts should use instead of reading files directly.
+ */
+export async function resolveDeployment(
+  provider: Provider,
+  contractName: string,
+  registryPath?: string
+): Promise<Deployment> {
+  const { chainId } = await provider.getNetwork();
+  return getDeployment(chainId, contractName, registryPath);
+}
+
+export async function loadAggregatorDeployment(
+  provider: Provider,
+  registryPath?: string
+): Promise<Deployment> {
+  return resolveDeployment(provider, AGGREGATOR_CONTRACT, registryPath);
+}
+
+// ===== UPDATES =====
+
+/** The in-process hardhat network is discarded when the command exits */
+export function isEphemeralNetwork(networkName: string): boolean {
+  return networkName === 'hardhat';
+}
+
+export interface RecordDeploymentParams extends DeploymentRecord {
+  chainId: number | bigint;
+  network: string;
+  contractName: string;
+}
+
+/**
+ * Append a deployment to the contract's history; it becomes the deployment
+ * returned by lookups on that chain.
+ */
+export function recordDeployment(
+  params: RecordDeploymentParams,
+  registryPath?: string
+): Deployment {
+  const { chainId, network, contractName, ...record } = params;
+  const registry = loadRegistry(registryPath);
+  const key = chainId.toString();
+  const chain = (registry.chains[key] ??= { network, contracts: {} });
+  chain.network = network;
+  (chain.contracts[contractName] ??= []).push(record);
+  saveRegistry(registry, registryPath);
+  return { ...record, chainId: Number(chainId), network, contractName };
+}
+
+/**
+ * Update fields of a recorded deployment, identified by its address
+ */
+export function updateDeployment(
+  chainId: number | bigint,
+  contractName: string,
+  address: string,
+  changes: Partial<
+    Pick<DeploymentRecord, 'verified' | 'config' | 'implementations'>
+  >,
+  registryPath?: string
+): void {
+  const registry = loadRegistry(registryPath);
+  const record = registry.chains[chainId.toString()]?.contracts[
+    contractName
+  ]?.find(r => r.address.toLowerCase() === address.toLowerCase());
+  if (!record) {
+    throw new Error(
+      `${contractName} at ${address} is not recorded for chainId ${chainId}`
+    );
+  }
+  Object.assign(record, changes);
+  saveRegistry(registry, registryPath);
+}
+
+/**
+ * Append an implementation to a recorded proxy deployment, so the next
+ * upgrade can check its storage layout
+ */
+export function recordImplementation(
+  chainId: number | bigint,
+  contractName: string,
+  proxyAddress: string,
+  implementation: ImplementationRecord,
+  registryPath?: string
+): void {
+  const deployment = getDeploymentHistory(
+    chainId,
+    contractName,
+    registryPath
+  ).find(d => d.address.toLowerCase() === proxyAddress.toLowerCase());
+  if (!deployment?.proxy) {
+    throw new Error(
+      `${contractName} at ${proxyAddress} is not recorded as a proxy for chainId ${chainId}`
+    );
+  }
+  updateDeployment(
+    chainId,
+    contractName,
+    proxyAddress,
+    {
+      implementations: [...(deployment.implementations ?? []), implementation],
+    },
+    registryPath
+  );
+}
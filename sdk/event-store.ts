@@ -0,0 +1,273 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+
+/**
+ * SQLite store for decoded aggregator events, built by the indexer. sql.js
+ * keeps the database in memory and `save` writes it back to disk, so a crash
+ * loses at most the batch in progress and indexing resumes from the last
+ * saved checkpoint.
+ */
+
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  /** Block timestamp in seconds */
+  timestamp: number;
+  logIndex: number;
+  txHash: string;
+  name: string;
+  /** Common arguments pulled out of `args` for querying; null when absent */
+  user: string | null;
+  stakeId: number | null;
+  token: string | null;
+  protocol: string | null;
+  amount: bigint | null;
+  /** Every decoded argument, numbers as decimal strings */
+  args: { [name: string]: string };
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface EventFilter {
+  name?: string;
+  user?: string;
+  stakeId?: number;
+  protocol?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  /** Keep only the newest `limit` matches (still returned oldest first) */
+  limit?: number;
+}
+
+export type QueryRow = { [column: string]: SqlValue };
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    user TEXT,
+    stake_id INTEGER,
+    token TEXT,
+    protocol TEXT,
+    amount TEXT,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_name ON events (name);
+  CREATE INDEX IF NOT EXISTS events_user ON events (user);
+`;
+
+export class EventStore {
+  private constructor(
+    private readonly db: Database,
+    /** Undefined for in-memory stores */
+    readonly file?: string
+  ) {
+    db.run(SCHEMA);
+  }
+
+  /**
+   * Open the database at `file`, creating it if needed. Without a file the
+   * store lives in memory only.
+   */
+  static async open(file?: string): Promise<EventStore> {
+    const SQL = await initSqlJs();
+    const data = file && fs.existsSync(file) ? fs.readFileSync(file) : null;
+    return new EventStore(new SQL.Database(data), file);
+  }
+
+  // ===== META =====
+
+  getMeta(key: string): string | undefined {
+    const [row] = this.query('SELECT value FROM meta WHERE key = ?', [key]);
+    return row ? String(row.value) : undefined;
+  }
+
+  setMeta(key: string, value: string) {
+    this.db.run(
+      'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+      [key, value]
+    );
+  }
+
+  /** Last block whose events are fully stored */
+  get checkpoint(): number | undefined {
+    const value = this.getMeta('checkpoint');
+    return value === undefined ? undefined : Number(value);
+  }
+
+  // ===== WRITES =====
+
+  /**
+   * Store a batch of events and the blocks they were read from, then move the
+   * checkpoint, all in one transaction
+   */
+  addBatch(events: IndexedEvent[], blocks: IndexedBlock[], checkpoint: number) {
+    this.transaction(() => {
+      for (const block of blocks) {
+        this.db.run(
+          'INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)',
+          [block.number, block.hash, block.timestamp]
+        );
+      }
+      for (const event of events) {
+        this.db.run(
+          `INSERT OR REPLACE INTO events
+            (block_number, log_index, block_hash, tx_hash, name, user, stake_id, token, protocol, amount, args)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            event.blockNumber,
+            event.logIndex,
+            event.blockHash,
+            event.txHash,
+            event.name,
+            event.user,
+            event.stakeId,
+            event.token,
+            event.protocol,
+            event.amount === null ? null : event.amount.toString(),
+            JSON.stringify(event.args),
+          ]
+        );
+      }
+      this.setMeta('checkpoint', String(checkpoint));
+    });
+  }
+
+  /** Drop everything after `blockNumber` and move the checkpoint back to it */
+  rollback(blockNumber: number) {
+    this.transaction(() => {
+      this.db.run('DELETE FROM events WHERE block_number > ?', [blockNumber]);
+      this.db.run('DELETE FROM blocks WHERE number > ?', [blockNumber]);
+      this.setMeta('checkpoint', String(blockNumber));
+    });
+  }
+
+  // ===== READS =====
+
+  /** Stored blocks from `fromBlock` upwards, newest first */
+  getBlocksSince(fromBlock: number): IndexedBlock[] {
+    return this.query(
+      'SELECT number, hash, timestamp FROM blocks WHERE number >= ? ORDER BY number DESC',
+      [fromBlock]
+    ).map(row => ({
+      number: Number(row.number),
+      hash: String(row.hash),
+      timestamp: Number(row.timestamp),
+    }));
+  }
+
+  getEvents(filter: EventFilter = {}): IndexedEvent[] {
+    const where: string[] = [];
+    const params: SqlValue[] = [];
+    const add = (clause: string, value: SqlValue) => {
+      where.push(clause);
+      params.push(value);
+    };
+    if (filter.name !== undefined) {
+      add('e.name = ?', filter.name);
+    }
+    if (filter.user !== undefined) {
+      add('e.user = ? COLLATE NOCASE', filter.user);
+    }
+    if (filter.stakeId !== undefined) {
+      add('e.stake_id = ?', filter.stakeId);
+    }
+    if (filter.protocol !== undefined) {
+      add('e.protocol = ?', filter.protocol);
+    }
+    if (filter.fromBlock !== undefined) {
+      add('e.block_number >= ?', filter.fromBlock);
+    }
+    if (filter.toBlock !== undefined) {
+      add('e.block_number <= ?', filter.toBlock);
+    }
+
+    let sql = `SELECT e.*, b.timestamp FROM events e JOIN blocks b ON b.number = e.block_number`;
+    if (where.length > 0) {
+      sql += ` WHERE ${where.join(' AND ')}`;
+    }
+    if (filter.limit !== undefined) {
+      // Take the newest `limit` events, still returned in chain order
+      sql = `SELECT * FROM (${sql} ORDER BY e.block_number DESC, e.log_index DESC LIMIT ?) ORDER BY block_number, log_index`;
+      params.push(filter.limit);
+    } else {
+      sql += ' ORDER BY e.block_number, e.log_index';
+    }
+
+    return this.query(sql, params).map(row => ({
+      blockNumber: Number(row.block_number),
+      blockHash: String(row.block_hash),
+      timestamp: Number(row.timestamp),
+      logIndex: Number(row.log_index),
+      txHash: String(row.tx_hash),
+      name: String(row.name),
+      user: row.user === null ? null : String(row.user),
+      stakeId: row.stake_id === null ? null : Number(row.stake_id),
+      token: row.token === null ? null : String(row.token),
+      protocol: row.protocol === null ? null : String(row.protocol),
+      amount: row.amount === null ? null : BigInt(String(row.amount)),
+      args: JSON.parse(String(row.args)),
+    }));
+  }
+
+  /** Run a read query, e.g. for analytics over the `events` table */
+  query(sql: string, params: SqlValue[] = []): QueryRow[] {
+    const statement = this.db.prepare(sql, params);
+    const rows: QueryRow[] = [];
+    try {
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+    } finally {
+      statement.free();
+    }
+    return rows;
+  }
+
+  // ===== PERSISTENCE =====
+
+  /** Write the database to its file; a no-op for in-memory stores */
+  save() {
+    if (!this.file) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    // Write then rename so an interrupted save never corrupts the old file
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, this.db.export());
+    fs.renameSync(tmp, this.file);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private transaction(body: () => void) {
+    this.db.run('BEGIN');
+    try {
+      body();
+      this.db.run('COMMIT');
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    }
+  }
+}
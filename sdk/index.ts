@@ -0,0 +1,17 @@
+export * from './adapters';
+export * from './aggregator';
+export * from './challenge-outcome';
+export * from './challenges';
+export * from './config';
+export * from './deployment';
+export * from './sync';
+export * from './event-store';
+export * from './indexer';
+export * from './inspector';
+export * from './migration';
+export * from './preflight';
+export * from './roles';
+export * from './router';
+export * from './step-service';
+export * from './steps';
+export * from './upgrades';
@@ -0,0 +1,253 @@
+import { Log, Provider } from 'ethers';
+import { setTimeout as delay } from 'timers/promises';
+import { PolygonDeFiAggregator } from '../typechain-types';
+import { EventStore, IndexedBlock, IndexedEvent } from './event-store';
+
+/**
+ * Backfills and follows aggregator events into an EventStore. Each batch is
+ * stored with the hashes of the blocks it was read from; before every sync the
+ * stored checkpoint is compared with the chain and, after a reorg, the store
+ * is rolled back to the newest block that is still canonical.
+ */
+
+export const INDEXED_EVENTS = [
+  'TimeLockedStakeCreated',
+  'WithdrawTimeLockedStake',
+  'ProtocolAdded',
+  'APYUpdated',
+  'TokenAdded',
+  'StakeRouted',
+  'StakeRebalanced',
+  'StakeMigratedOut',
+  'StakeImported',
+  'RoleGranted',
+  'RoleRevoked',
+] as const;
+
+export interface IndexerOptions {
+  /** First block to scan when the store is empty, e.g. the deployment block */
+  fromBlock?: number;
+  /** Blocks per eth_getLogs request */
+  batchSize?: number;
+  /** Only index blocks at least this far behind the head */
+  confirmations?: number;
+  /** How far back to look for a common ancestor after a reorg */
+  reorgDepth?: number;
+}
+
+export interface FollowOptions extends IndexerOptions {
+  /** Delay between syncs in milliseconds */
+  pollInterval?: number;
+  /** Stops following once aborted */
+  signal?: AbortSignal;
+  onSync?: (result: SyncResult) => void;
+}
+
+export interface SyncResult {
+  /** Set when a reorg was detected and the store rolled back to this block */
+  reorgedTo?: number;
+  fromBlock: number;
+  /** Checkpoint after the sync */
+  toBlock: number;
+  events: number;
+}
+
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_REORG_DEPTH = 128;
+
+function providerOf(aggregator: PolygonDeFiAggregator): Provider {
+  const provider = aggregator.runner?.provider;
+  if (!provider) {
+    throw new Error('Aggregator client must be connected to a provider');
+  }
+  return provider;
+}
+
+/**
+ * Tie the store to one aggregator on one chain so a database is never
+ * extended with another deployment's events
+ */
+async function bindStore(
+  aggregator: PolygonDeFiAggregator,
+  store: EventStore
+): Promise<void> {
+  const address = await aggregator.getAddress();
+  const chainId = (await providerOf(aggregator).getNetwork()).chainId;
+
+  const storedAddress = store.getMeta('aggregator');
+  const storedChainId = store.getMeta('chainId');
+  if (storedAddress === undefined) {
+    store.setMeta('aggregator', address);
+    store.setMeta('chainId', chainId.toString());
+  } else if (
+    storedAddress.toLowerCase() !== address.toLowerCase() ||
+    storedChainId !== chainId.toString()
+  ) {
+    throw new Error(
+      `Event database belongs to aggregator ${storedAddress} on chain ${storedChainId}, not ${address} on chain ${chainId}`
+    );
+  }
+}
+
+/**
+ * Roll the store back to the newest stored block that is still canonical.
+ * Returns that block, or undefined when no reorg happened.
+ */
+async function reconcile(
+  provider: Provider,
+  store: EventStore,
+  reorgDepth: number
+): Promise<number | undefined> {
+  const checkpoint = store.checkpoint;
+  if (checkpoint === undefined) {
+    return undefined;
+  }
+
+  for (const stored of store.getBlocksSince(checkpoint - reorgDepth)) {
+    const block = await provider.getBlock(stored.number);
+    if (block?.hash === stored.hash) {
+      if (stored.number === checkpoint) {
+        return undefined;
+      }
+      store.rollback(stored.number);
+      store.save();
+      return stored.number;
+    }
+  }
+  throw new Error(
+    `No canonical block found in the last ${reorgDepth} indexed blocks; rebuild the event database`
+  );
+}
+
+function decodeLog(
+  aggregator: PolygonDeFiAggregator,
+  log: Log,
+  timestamp: number
+): IndexedEvent | undefined {
+  const parsed = aggregator.interface.parseLog(log);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const args: { [name: string]: string } = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name] = String(parsed.args[i]);
+  });
+  const protocol = args.protocol ?? args.protocolName ?? args.toProtocol;
+
+  return {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    timestamp,
+    logIndex: log.index,
+    txHash: log.transactionHash,
+    name: parsed.name,
+    user: args.user ?? null,
+    stakeId: args.stakeId === undefined ? null : Number(args.stakeId),
+    token: args.token ?? null,
+    protocol: protocol ?? null,
+    amount: args.amount === undefined ? null : BigInt(args.amount),
+    args,
+  };
+}
+
+/**
+ * Index everything from the checkpoint (or `fromBlock`) up to the confirmed
+ * head, saving after every batch
+ */
+export async function syncEvents(
+  aggregator: PolygonDeFiAggregator,
+  store: EventStore,
+  options: IndexerOptions = {}
+): Promise<SyncResult> {
+  const provider = providerOf(aggregator);
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  await bindStore(aggregator, store);
+
+  const reorgedTo = await reconcile(
+    provider,
+    store,
+    options.reorgDepth ?? DEFAULT_REORG_DEPTH
+  );
+
+  const address = await aggregator.getAddress();
+  const topics = INDEXED_EVENTS.map(
+    name => aggregator.interface.getEvent(name).topicHash
+  );
+  const head = (await provider.getBlockNumber()) - (options.confirmations ?? 0);
+  const start = (store.checkpoint ?? (options.fromBlock ?? 0) - 1) + 1;
+
+  let events = 0;
+  let from = start;
+  while (from <= head) {
+    const to = Math.min(from + batchSize - 1, head);
+    const logs = await provider.getLogs({
+      address,
+      topics: [topics],
+      fromBlock: from,
+      toBlock: to,
+    });
+
+    // Every block with logs, plus the batch end so the checkpoint can be
+    // checked for reorgs later
+    const blocks = new Map<number, IndexedBlock>();
+    for (const number of [...logs.map(log => log.blockNumber), to]) {
+      if (!blocks.has(number)) {
+        const block = await provider.getBlock(number);
+        if (!block?.hash) {
+          throw new Error(`Block ${number} not found`);
+        }
+        blocks.set(number, {
+          number,
+          hash: block.hash,
+          timestamp: block.timestamp,
+        });
+      }
+    }
+    // A reorg between getLogs and getBlock would mix two chains; retry the
+    // batch
+    if (logs.some(log => blocks.get(log.blockNumber)?.hash !== log.blockHash)) {
+      continue;
+    }
+
+    const decoded = logs
+      .map(log =>
+        decodeLog(aggregator, log, blocks.get(log.blockNumber)!.timestamp)
+      )
+      .filter((event): event is IndexedEvent => event !== undefined);
+    store.addBatch(decoded, [...blocks.values()], to);
+    store.save();
+
+    events += decoded.length;
+    from = to + 1;
+  }
+
+  return {
+    reorgedTo,
+    fromBlock: start,
+    toBlock: store.checkpoint ?? start - 1,
+    events,
+  };
+}
+
+/**
+ * Sync, then keep polling for new blocks until `signal` is aborted
+ */
+export async function followEvents(
+  aggregator: PolygonDeFiAggregator,
+  store: EventStore,
+  options: FollowOptions = {}
+): Promise<void> {
+  const pollInterval = options.pollInterval ?? 4000;
+  while (!options.signal?.aborted) {
+    options.onSync?.(await syncEvents(aggregator, store, options));
+    try {
+      await delay(pollInterval, undefined, { signal: options.signal });
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return;
+      }
+      throw error;
+    }
+  }
+}
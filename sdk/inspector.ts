@@ -0,0 +1,692 @@
+import {
+  AbiCoder,
+  dataSlice,
+  getAddress,
+  id,
+  Interface,
+  InterfaceAbi,
+  JsonRpcApiProvider,
+  Log,
+  ParamType,
+  Provider,
+  Result,
+  TransactionReceipt,
+  TransactionResponse,
+  ZeroAddress,
+} from 'ethers';
+import {
+  ChallengeDetailV2__factory,
+  ChallengeFactory__factory,
+  ERC20__factory,
+  ExerciseSupplementNFT__factory,
+  Gacha__factory,
+  IAavePool__factory,
+  IERC1155__factory,
+  IERC1155Errors__factory,
+  IERC20Metadata__factory,
+  IERC721__factory,
+  IERC721Errors__factory,
+  IWMATIC__factory,
+  PolygonDeFiAggregator__factory,
+  YOBOWEB3WALK__factory,
+} from '../typechain-types';
+import { WMATIC_ADDRESS } from './aggregator';
+import { loadRegistry } from './deployment';
+
+/**
+ * Decodes a mined transaction against every project ABI and the externals the
+ * project talks to: calldata, logs, revert reasons and per-address balance
+ * changes for native MATIC, ERC20, ERC721 and ERC1155 tokens.
+ */
+
+/** Decoded arguments by parameter name; tuples become objects */
+export type DecodedArgs = { [name: string]: unknown };
+
+export interface DecodedCall {
+  selector: string;
+  /** ABI that decoded the call; unset when no known ABI matches */
+  contract?: string;
+  name?: string;
+  signature?: string;
+  args?: DecodedArgs;
+}
+
+export interface DecodedLog {
+  index: number;
+  address: string;
+  contract?: string;
+  name?: string;
+  signature?: string;
+  args?: DecodedArgs;
+  topics: readonly string[];
+  data: string;
+}
+
+export interface DecodedError {
+  /** ABI that declares the error, for custom errors */
+  contract?: string;
+  /** `Error` for require strings, `Panic` for assertions, else the custom error */
+  name: string;
+  signature?: string;
+  args: DecodedArgs;
+  data: string;
+}
+
+export type TokenStandard = 'native' | 'erc20' | 'erc721' | 'erc1155';
+
+export interface BalanceChange {
+  holder: string;
+  standard: TokenStandard;
+  /** Token contract, or ZeroAddress for native MATIC */
+  token: string;
+  symbol?: string;
+  decimals?: number;
+  /** ERC721 / ERC1155 token id */
+  tokenId?: bigint;
+  delta: bigint;
+}
+
+export interface TxInspection {
+  hash: string;
+  chainId: number;
+  status: 'success' | 'reverted' | 'pending';
+  blockNumber?: number;
+  from: string;
+  to: string | null;
+  /** Contract deployed by the transaction */
+  contractAddress?: string;
+  value: bigint;
+  gasUsed?: bigint;
+  fee?: bigint;
+  call?: DecodedCall;
+  revert?: DecodedError;
+  logs: DecodedLog[];
+  /** Net changes per holder; native changes exclude the gas fee */
+  balanceChanges: BalanceChange[];
+  /** Names for the addresses involved, from the deployment registry and labels */
+  labels: { [address: string]: string };
+  warnings: string[];
+}
+
+export interface InspectOptions {
+  /** Extra address names. A name matching a known ABI also decodes with it. */
+  labels?: { [address: string]: string };
+  registryPath?: string;
+}
+
+// ===== ABIS =====
+
+const AAVE_POOL_EVENTS = [
+  'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)',
+  'event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)',
+  'event ReserveDataUpdated(address indexed reserve, uint256 liquidityRate, uint256 stableBorrowRate, uint256 variableBorrowRate, uint256 liquidityIndex, uint256 variableBorrowIndex)',
+];
+
+const ATOKEN_EVENTS = [
+  'event Mint(address indexed caller, address indexed onBehalfOf, uint256 value, uint256 balanceIncrease, uint256 index)',
+  'event Burn(address indexed from, address indexed target, uint256 value, uint256 balanceIncrease, uint256 index)',
+  'event BalanceTransfer(address indexed from, address indexed to, uint256 value, uint256 index)',
+];
+
+const WMATIC_EVENTS = [
+  'event Deposit(address indexed dst, uint256 wad)',
+  'event Withdrawal(address indexed src, uint256 wad)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+];
+
+function abi(...parts: InterfaceAbi[]): Interface {
+  return new Interface(
+    parts.flatMap(part => part as unknown[]) as InterfaceAbi
+  );
+}
+
+/**
+ * ABIs tried in order when an address has no known contract. Project
+ * contracts come first so their selectors win collisions.
+ */
+export const KNOWN_ABIS: { name: string; iface: Interface }[] = [
+  {
+    name: 'PolygonDeFiAggregator',
+    iface: abi(PolygonDeFiAggregator__factory.abi),
+  },
+  { name: 'ChallengeDetailV2', iface: abi(ChallengeDetailV2__factory.abi) },
+  { name: 'ChallengeFactory', iface: abi(ChallengeFactory__factory.abi) },
+  {
+    name: 'ExerciseSupplementNFT',
+    iface: abi(ExerciseSupplementNFT__factory.abi),
+  },
+  { name: 'Gacha', iface: abi(Gacha__factory.abi) },
+  { name: 'YOBOWEB3WALK', iface: abi(YOBOWEB3WALK__factory.abi) },
+  { name: 'AavePool', iface: abi(IAavePool__factory.abi, AAVE_POOL_EVENTS) },
+  { name: 'AaveAToken', iface: abi(ATOKEN_EVENTS) },
+  { name: 'WMATIC', iface: abi(IWMATIC__factory.abi, WMATIC_EVENTS) },
+  { name: 'ERC20', iface: abi(ERC20__factory.abi) },
+  {
+    name: 'ERC721',
+    iface: abi(IERC721__factory.abi, IERC721Errors__factory.abi),
+  },
+  {
+    name: 'ERC1155',
+    iface: abi(IERC1155__factory.abi, IERC1155Errors__factory.abi),
+  },
+];
+
+/** Well-known external addresses per chainId */
+const EXTERNAL_LABELS: { [chainId: string]: { [address: string]: string } } = {
+  '137': {
+    '0x794a61358D6845594F94dc1DB02A252b5b4814aD': 'AavePool',
+  },
+};
+
+const ERC20_TRANSFER = id('Transfer(address,address,uint256)');
+const WETH_DEPOSIT = id('Deposit(address,uint256)');
+const WETH_WITHDRAWAL = id('Withdrawal(address,uint256)');
+const ERC1155_SINGLE = id(
+  'TransferSingle(address,address,address,uint256,uint256)'
+);
+const ERC1155_BATCH = id(
+  'TransferBatch(address,address,address,uint256[],uint256[])'
+);
+
+const PANIC_CODES: { [code: string]: string } = {
+  '1': 'assertion failed',
+  '17': 'arithmetic overflow or underflow',
+  '18': 'division by zero',
+  '33': 'invalid enum value',
+  '49': 'pop on empty array',
+  '50': 'array index out of bounds',
+  '65': 'out of memory',
+  '81': 'call to uninitialized function',
+};
+
+// ===== DECODING =====
+
+function toPlain(value: unknown, param: ParamType): unknown {
+  if (param.isTuple() && Array.isArray(value)) {
+    const object: DecodedArgs = {};
+    param.components.forEach((component, i) => {
+      object[component.name || String(i)] = toPlain(value[i], component);
+    });
+    return object;
+  }
+  if (param.isArray() && Array.isArray(value)) {
+    return value.map(item => toPlain(item, param.arrayChildren));
+  }
+  return value;
+}
+
+function namedArgs(params: readonly ParamType[], values: Result): DecodedArgs {
+  const args: DecodedArgs = {};
+  params.forEach((param, i) => {
+    args[param.name || `arg${i}`] = toPlain(values[i], param);
+  });
+  return args;
+}
+
+/**
+ * Known ABIs for an address: its labelled contract first, then the rest
+ */
+function abisFor(address: string | null, labels: Map<string, string>) {
+  const preferred = address ? labels.get(address.toLowerCase()) : undefined;
+  const match = KNOWN_ABIS.find(source => source.name === preferred);
+  return match
+    ? [match, ...KNOWN_ABIS.filter(source => source !== match)]
+    : KNOWN_ABIS;
+}
+
+export function decodeCall(
+  data: string,
+  to: string | null,
+  labels: Map<string, string> = new Map()
+): DecodedCall {
+  const selector = dataSlice(data, 0, 4);
+  for (const { name, iface } of abisFor(to, labels)) {
+    try {
+      const parsed = iface.parseTransaction({ data });
+      if (parsed) {
+        return {
+          selector,
+          contract: name,
+          name: parsed.name,
+          signature: parsed.signature,
+          args: namedArgs(parsed.fragment.inputs, parsed.args),
+        };
+      }
+    } catch {
+      // Selector matched but the arguments did not decode; keep looking
+    }
+  }
+  return { selector };
+}
+
+export function decodeLog(
+  log: Pick<Log, 'address' | 'topics' | 'data' | 'index'>,
+  labels: Map<string, string> = new Map()
+): DecodedLog {
+  const raw = {
+    index: log.index,
+    address: log.address,
+    topics: log.topics,
+    data: log.data,
+  };
+  for (const { name, iface } of abisFor(log.address, labels)) {
+    try {
+      const parsed = iface.parseLog(log);
+      if (parsed) {
+        return {
+          ...raw,
+          contract: name,
+          name: parsed.name,
+          signature: parsed.signature,
+          args: namedArgs(parsed.fragment.inputs, parsed.args),
+        };
+      }
+    } catch {
+      // Same topic, different indexing (ERC20 vs ERC721 Transfer); keep looking
+    }
+  }
+  return raw;
+}
+
+/**
+ * Decode revert data: require strings, panics and custom errors from any
+ * known ABI
+ */
+export function decodeRevert(
+  data: string,
+  labels: Map<string, string> = new Map(),
+  address: string | null = null
+): DecodedError {
+  if (data === '0x') {
+    return { name: 'Revert', args: {}, data };
+  }
+  const selector = dataSlice(data, 0, 4);
+  const coder = AbiCoder.defaultAbiCoder();
+  try {
+    if (selector === '0x08c379a0') {
+      const [reason] = coder.decode(['string'], dataSlice(data, 4));
+      return {
+        name: 'Error',
+        signature: 'Error(string)',
+        args: { reason },
+        data,
+      };
+    }
+    if (selector === '0x4e487b71') {
+      const [code] = coder.decode(['uint256'], dataSlice(data, 4));
+      return {
+        name: 'Panic',
+        signature: 'Panic(uint256)',
+        args: { code, description: PANIC_CODES[code.toString()] ?? 'unknown' },
+        data,
+      };
+    }
+  } catch {
+    // Malformed payload; fall through to the raw data
+  }
+
+  for (const { name, iface } of abisFor(address, labels)) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        return {
+          contract: name,
+          name: parsed.name,
+          signature: parsed.signature,
+          args: namedArgs(parsed.fragment.inputs, parsed.args),
+          data,
+        };
+      }
+    } catch {
+      // Selector matched but the arguments did not decode; keep looking
+    }
+  }
+  return { name: 'Unknown', args: {}, data };
+}
+
+/** Revert data carried by a failed eth_call, across provider error shapes */
+export function revertDataOf(error: unknown): string | undefined {
+  let current = error as { data?: unknown; error?: unknown; info?: unknown };
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (typeof current.data === 'string' && current.data.startsWith('0x')) {
+      return current.data;
+    }
+    const next =
+      current.error ?? (current.info as { error?: unknown } | undefined)?.error;
+    current = next as typeof current;
+  }
+  return undefined;
+}
+
+// ===== BALANCE CHANGES =====
+
+class BalanceSheet {
+  private readonly entries = new Map<string, BalanceChange>();
+
+  add(change: Omit<BalanceChange, 'delta'>, delta: bigint) {
+    if (change.holder === ZeroAddress || delta === 0n) {
+      return;
+    }
+    const key = [
+      change.holder.toLowerCase(),
+      change.token.toLowerCase(),
+      change.tokenId ?? '',
+    ].join(':');
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.delta += delta;
+    } else {
+      this.entries.set(key, { ...change, delta });
+    }
+  }
+
+  holders(): string[] {
+    return [...new Set([...this.entries.values()].map(e => e.holder))];
+  }
+
+  changes(): BalanceChange[] {
+    return [...this.entries.values()]
+      .filter(change => change.delta !== 0n)
+      .sort((a, b) => a.holder.localeCompare(b.holder));
+  }
+}
+
+const topicAddress = (topic: string) => getAddress(dataSlice(topic, 12));
+
+/**
+ * Token movements from Transfer, TransferSingle/Batch and WETH-style
+ * Deposit/Withdrawal logs
+ */
+function addTokenChanges(sheet: BalanceSheet, logs: readonly Log[]) {
+  const coder = AbiCoder.defaultAbiCoder();
+  const mints = new Set<string>();
+
+  for (const log of logs) {
+    const [topic0] = log.topics;
+    if (topic0 === ERC20_TRANSFER && log.topics.length === 3) {
+      const from = topicAddress(log.topics[1]);
+      const to = topicAddress(log.topics[2]);
+      const value = BigInt(log.data);
+      const token = { standard: 'erc20' as const, token: log.address };
+      sheet.add({ ...token, holder: from }, -value);
+      sheet.add({ ...token, holder: to }, value);
+      if (from === ZeroAddress || to === ZeroAddress) {
+        mints.add(`${log.address}:${from}:${to}:${value}`);
+      }
+    } else if (topic0 === ERC20_TRANSFER && log.topics.length === 4) {
+      const token = {
+        standard: 'erc721' as const,
+        token: log.address,
+        tokenId: BigInt(log.topics[3]),
+      };
+      sheet.add({ ...token, holder: topicAddress(log.topics[1]) }, -1n);
+      sheet.add({ ...token, holder: topicAddress(log.topics[2]) }, 1n);
+    } else if (topic0 === ERC1155_SINGLE || topic0 === ERC1155_BATCH) {
+      const from = topicAddress(log.topics[2]);
+      const to = topicAddress(log.topics[3]);
+      const [ids, values]: bigint[][] =
+        topic0 === ERC1155_SINGLE
+          ? coder.decode(['uint256', 'uint256'], log.data).map(v => [v])
+          : coder.decode(['uint256[]', 'uint256[]'], log.data).toArray(true);
+      ids.forEach((tokenId, i) => {
+        const token = {
+          standard: 'erc1155' as const,
+          token: log.address,
+          tokenId,
+        };
+        sheet.add({ ...token, holder: from }, -values[i]);
+        sheet.add({ ...token, holder: to }, values[i]);
+      });
+    }
+  }
+
+  // WETH9 (and so WMATIC) emits Deposit/Withdrawal without a mint/burn
+  // Transfer; count them only when no matching Transfer was logged
+  for (const log of logs) {
+    const [topic0] = log.topics;
+    if (
+      (topic0 !== WETH_DEPOSIT && topic0 !== WETH_WITHDRAWAL) ||
+      log.topics.length !== 2
+    ) {
+      continue;
+    }
+    const holder = topicAddress(log.topics[1]);
+    const value = BigInt(log.data);
+    const isDeposit = topic0 === WETH_DEPOSIT;
+    const transfer = isDeposit
+      ? `${log.address}:${ZeroAddress}:${holder}:${value}`
+      : `${log.address}:${holder}:${ZeroAddress}:${value}`;
+    if (!mints.has(transfer)) {
+      sheet.add(
+        { standard: 'erc20', token: log.address, holder },
+        isDeposit ? value : -value
+      );
+    }
+  }
+}
+
+interface CallFrame {
+  from: string;
+  to?: string;
+  value?: string;
+  error?: string;
+  calls?: CallFrame[];
+}
+
+/**
+ * Native MATIC movements. Uses a callTracer trace when the node supports it,
+ * else balance differences when the transaction is alone in its block, else
+ * only the top-level value.
+ */
+async function addNativeChanges(
+  sheet: BalanceSheet,
+  provider: Provider,
+  tx: TransactionResponse,
+  receipt: TransactionReceipt,
+  warnings: string[]
+) {
+  const native = { standard: 'native' as const, token: ZeroAddress };
+
+  if (provider instanceof JsonRpcApiProvider) {
+    try {
+      const trace: CallFrame = await provider.send('debug_traceTransaction', [
+        tx.hash,
+        { tracer: 'callTracer' },
+      ]);
+      const walk = (frame: CallFrame) => {
+        if (frame.error) {
+          return;
+        }
+        const value = BigInt(frame.value ?? 0);
+        if (frame.to && value > 0n) {
+          sheet.add({ ...native, holder: getAddress(frame.from) }, -value);
+          sheet.add({ ...native, holder: getAddress(frame.to) }, value);
+        }
+        frame.calls?.forEach(walk);
+      };
+      walk(trace);
+      return;
+    } catch {
+      // callTracer not supported by this node
+    }
+  }
+
+  const block = await provider.getBlock(receipt.blockNumber);
+  if (block?.transactions.length === 1 && receipt.blockNumber > 0) {
+    const holders = new Set([
+      tx.from,
+      ...(tx.to ? [tx.to] : []),
+      ...(receipt.contractAddress ? [receipt.contractAddress] : []),
+      ...receipt.logs.map(log => log.address),
+      ...sheet.holders(),
+    ]);
+    for (const holder of holders) {
+      const after = await provider.getBalance(holder, receipt.blockNumber);
+      const before = await provider.getBalance(holder, receipt.blockNumber - 1);
+      // Report value flows only; the fee is shown separately
+      const fee = holder === tx.from ? receipt.fee : 0n;
+      sheet.add({ ...native, holder }, after - before + fee);
+    }
+    return;
+  }
+
+  if (receipt.status === 1 && tx.value > 0n && tx.to) {
+    sheet.add({ ...native, holder: tx.from }, -tx.value);
+    sheet.add({ ...native, holder: tx.to }, tx.value);
+  }
+  warnings.push(
+    'Internal MATIC transfers are not shown: the node has no callTracer and the block has other transactions'
+  );
+}
+
+async function addTokenMetadata(
+  changes: BalanceChange[],
+  provider: Provider
+): Promise<void> {
+  const metadata = new Map<string, { symbol?: string; decimals?: number }>();
+  for (const change of changes) {
+    if (change.standard === 'native') {
+      change.symbol = 'MATIC';
+      change.decimals = 18;
+      continue;
+    }
+    let info = metadata.get(change.token);
+    if (!info) {
+      info = {};
+      const token = IERC20Metadata__factory.connect(change.token, provider);
+      try {
+        info.symbol = await token.symbol();
+      } catch {
+        // Not every token implements the metadata extension
+      }
+      if (change.standard === 'erc20') {
+        try {
+          info.decimals = Number(await token.decimals());
+        } catch {
+          // Not every token implements the metadata extension
+        }
+      }
+      metadata.set(change.token, info);
+    }
+    Object.assign(change, info);
+  }
+}
+
+// ===== INSPECTION =====
+
+function buildLabels(
+  chainId: bigint,
+  options: InspectOptions
+): Map<string, string> {
+  const labels = new Map<string, string>();
+  labels.set(WMATIC_ADDRESS.toLowerCase(), 'WMATIC');
+  for (const [address, name] of Object.entries(
+    EXTERNAL_LABELS[chainId.toString()] ?? {}
+  )) {
+    labels.set(address.toLowerCase(), name);
+  }
+  const chain = loadRegistry(options.registryPath).chains[chainId.toString()];
+  for (const [name, records] of Object.entries(chain?.contracts ?? {})) {
+    for (const record of records) {
+      labels.set(record.address.toLowerCase(), name);
+    }
+  }
+  for (const [address, name] of Object.entries(options.labels ?? {})) {
+    labels.set(address.toLowerCase(), name);
+  }
+  return labels;
+}
+
+export async function inspectTransaction(
+  provider: Provider,
+  hash: string,
+  options: InspectOptions = {}
+): Promise<TxInspection> {
+  const tx = await provider.getTransaction(hash);
+  if (!tx) {
+    throw new Error(`Transaction ${hash} not found`);
+  }
+  const { chainId } = await provider.getNetwork();
+  const labels = buildLabels(chainId, options);
+  const receipt = await provider.getTransactionReceipt(hash);
+
+  const inspection: TxInspection = {
+    hash: tx.hash,
+    chainId: Number(chainId),
+    status: !receipt
+      ? 'pending'
+      : receipt.status === 1
+        ? 'success'
+        : 'reverted',
+    blockNumber: receipt?.blockNumber,
+    from: tx.from,
+    to: tx.to,
+    contractAddress: receipt?.contractAddress ?? undefined,
+    value: tx.value,
+    gasUsed: receipt?.gasUsed,
+    fee: receipt?.fee,
+    call:
+      tx.to && tx.data !== '0x'
+        ? decodeCall(tx.data, tx.to, labels)
+        : undefined,
+    logs: (receipt?.logs ?? []).map(log => decodeLog(log, labels)),
+    balanceChanges: [],
+    labels: {},
+    warnings: [],
+  };
+
+  if (receipt && receipt.status !== 1) {
+    // Receipts carry no revert data, so replay the call on the parent block
+    try {
+      await provider.call({
+        from: tx.from,
+        to: tx.to,
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gasLimit,
+        blockTag: receipt.blockNumber - 1,
+      });
+      inspection.warnings.push(
+        'Replaying the call did not revert; it depended on earlier transactions in its block'
+      );
+    } catch (error) {
+      const data = revertDataOf(error);
+      if (data === undefined) {
+        inspection.warnings.push(
+          `Could not read the revert reason: ${(error as Error).message}`
+        );
+      } else {
+        inspection.revert = decodeRevert(data, labels, tx.to);
+      }
+    }
+  }
+
+  if (receipt) {
+    const sheet = new BalanceSheet();
+    addTokenChanges(sheet, receipt.logs);
+    await addNativeChanges(sheet, provider, tx, receipt, inspection.warnings);
+    inspection.balanceChanges = sheet.changes();
+    await addTokenMetadata(inspection.balanceChanges, provider);
+  }
+
+  // Label every address that appears in the result
+  const involved = [
+    tx.from,
+    tx.to,
+    inspection.contractAddress,
+    ...inspection.logs.map(log => log.address),
+    ...inspection.balanceChanges.flatMap(change => [
+      change.holder,
+      change.token,
+    ]),
+  ];
+  for (const address of involved) {
+    const label = address && labels.get(address.toLowerCase());
+    if (address && label) {
+      inspection.labels[getAddress(address)] = label;
+    }
+  }
+
+  return inspection;
+}
@@ -0,0 +1,676 @@
+import {
+  Contract,
+  ContractTransactionReceipt,
+  Provider,
+  TransactionReceipt,
+  ZeroAddress,
+} from 'ethers';
+import {
+  IAavePool__factory,
+  IERC20__factory,
+  PolygonDeFiAggregator,
+} from '../typechain-types';
+import {
+  confirm,
+  LOCK_MODES,
+  LockPolicy,
+  signerOf,
+  WMATIC_ADDRESS,
+} from './aggregator';
+import { EventStore } from './event-store';
+import { getImplementationAddress } from './upgrades';
+
+/**
+ * Owner-driven migration of open stakes from one aggregator deployment to
+ * another. Stakes are found through the source's indexed events, closed there
+ * with migrateStakeOut (the proceeds go to the owner) and recreated on the
+ * target with importStake on their original terms. Each import names its
+ * source stake, so a run cut short between the two calls resumes where it
+ * stopped.
+ *
+ * Deployments from before migrateStakeOut ("legacy") are read through their
+ * own ABI instead. Only their Aave positions can be recovered, with the
+ * owner-only emergencyWithdraw; see recoverLegacyStakes.
+ */
+
+export interface MigratingStake {
+  user: string;
+  /** Index in the user's stakes on the source aggregator */
+  stakeId: number;
+  token: string;
+  protocol: string;
+  principal: bigint;
+  shares: bigint;
+  startTime: number;
+  endTime: number;
+  lockPolicy: LockPolicy;
+  autoCompound: boolean;
+  autoRouted: boolean;
+  /** Value on the source when the snapshot was taken */
+  value: bigint;
+  /** Set once the stake was migrated out: the tokens the owner received */
+  withdrawn?: bigint;
+  /** Legacy sources: the aToken of the Aave position the stake is part of */
+  aToken?: string;
+}
+
+export interface MigrationSnapshot {
+  source: string;
+  blockNumber: number;
+  /** The source predates migrateStakeOut */
+  legacy: boolean;
+  stakes: MigratingStake[];
+}
+
+export interface MigrationPlan {
+  source: string;
+  target: string;
+  legacy: boolean;
+  stakes: MigratingStake[];
+  /** Stakes the target cannot take, left open on the source */
+  skipped: { stake: MigratingStake; reason: string }[];
+}
+
+export interface LegacyRecovery {
+  aToken: string;
+  /** aTokens swept from the source, redeemed for the stakes' token */
+  recovered: bigint;
+  /** The emergencyWithdraw call; a rerun resumes from it */
+  sweepHash: string;
+  /** The plan with each stake's part of `recovered` as `withdrawn` */
+  plan: MigrationPlan;
+}
+
+export interface MigratedStake {
+  stake: MigratingStake;
+  withdrawn: bigint;
+  /** Index in the user's stakes on the target aggregator */
+  newStakeId: number;
+  /** Missing when the stake had been migrated out by an earlier run */
+  outReceipt?: ContractTransactionReceipt;
+  inReceipt: ContractTransactionReceipt;
+}
+
+/** Per user and token, as amounts in different tokens do not add up */
+export interface ReconciliationRow {
+  user: string;
+  token: string;
+  stakes: number;
+  principalBefore: bigint;
+  valueBefore: bigint;
+  principalAfter: bigint;
+  valueAfter: bigint;
+}
+
+const stakeKey = (user: string, stakeId: number) =>
+  `${user.toLowerCase()}:${stakeId}`;
+
+// ===== LEGACY DEPLOYMENTS =====
+
+/**
+ * What migration uses of the aggregator deployed before migrateStakeOut. It
+ * calls protocols directly and holds their positions itself; Aave supplies
+ * are tracked as aToken amounts in tokenProtocolTotalShares.
+ */
+const LEGACY_AGGREGATOR_ABI = [
+  'function owner() view returns (address)',
+  'function paused() view returns (bool)',
+  'function pause()',
+  'function getUserTimeLockedStakes(address user) view returns (tuple(uint256 amount, uint256 shares, uint256 startTime, uint256 endTime, address stakingToken, string protocol, bool isActive, bool isScheduled)[])',
+  'function protocols(string name) view returns (address contractAddress, bool isActive, uint256 totalDeposited, uint256 currentAPY, string protocolType, string protocolName)',
+  'function tokenProtocolTotalShares(address token, string protocol) view returns (uint256)',
+  'function emergencyWithdraw(address token)',
+];
+
+interface LegacyStake {
+  amount: bigint;
+  shares: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  stakingToken: string;
+  protocol: string;
+  isActive: boolean;
+  isScheduled: boolean;
+}
+
+function providerOf(aggregator: PolygonDeFiAggregator): Provider {
+  const provider = aggregator.runner?.provider;
+  if (!provider) {
+    throw new Error('Aggregator client must be connected to a provider');
+  }
+  return provider;
+}
+
+function connectLegacy(aggregator: PolygonDeFiAggregator): Contract {
+  return new Contract(
+    aggregator.target,
+    LEGACY_AGGREGATOR_ABI,
+    aggregator.runner
+  );
+}
+
+/**
+ * Whether the aggregator, or the implementation behind its proxy, predates
+ * migrateStakeOut. Legacy deployments have a fallback that accepts any call,
+ * so their code is searched for the selector instead of calling it.
+ */
+export async function isLegacyAggregator(
+  aggregator: PolygonDeFiAggregator
+): Promise<boolean> {
+  const provider = providerOf(aggregator);
+  const address = await aggregator.getAddress();
+  const implementation = await getImplementationAddress(provider, address);
+  const code = await provider.getCode(
+    implementation === ZeroAddress ? address : implementation
+  );
+  const selector = aggregator.interface.getFunction('migrateStakeOut').selector;
+  return !code.includes(selector.slice(2));
+}
+
+/** The aToken behind a legacy "lending" protocol; null for other types */
+async function legacyATokenOf(
+  legacy: Contract,
+  provider: Provider,
+  token: string,
+  protocol: string,
+  overrides: { blockTag?: number } = {}
+): Promise<string | null> {
+  const info = await legacy.protocols(protocol, overrides);
+  if (info.protocolType !== 'lending') {
+    return null;
+  }
+  const { aTokenAddress } = await IAavePool__factory.connect(
+    info.contractAddress,
+    provider
+  ).getReserveData(token, overrides);
+  return aTokenAddress;
+}
+
+const positionKey = (token: string, protocol: string) =>
+  `${token.toLowerCase()}:${protocol}`;
+
+/**
+ * Open stakes of a legacy source. The source's own share accounting
+ * overcounts once anyone has withdrawn, so each Aave position is valued
+ * across its open stakes by their shares. Other positions cannot be
+ * recovered and are valued at their principal.
+ */
+async function snapshotLegacyStakes(
+  source: PolygonDeFiAggregator,
+  users: Iterable<string>,
+  blockNumber: number
+): Promise<MigratingStake[]> {
+  const provider = providerOf(source);
+  const legacy = connectLegacy(source);
+  const overrides = { blockTag: blockNumber };
+
+  const aTokens = new Map<string, string | null>();
+  const stakes: MigratingStake[] = [];
+  for (const user of users) {
+    const onChain: LegacyStake[] = await legacy.getUserTimeLockedStakes(
+      user,
+      overrides
+    );
+    for (let stakeId = 0; stakeId < onChain.length; stakeId++) {
+      const stake = onChain[stakeId];
+      if (!stake.isActive || stake.isScheduled) {
+        continue;
+      }
+      const key = positionKey(stake.stakingToken, stake.protocol);
+      if (!aTokens.has(key)) {
+        aTokens.set(
+          key,
+          await legacyATokenOf(
+            legacy,
+            provider,
+            stake.stakingToken,
+            stake.protocol,
+            overrides
+          )
+        );
+      }
+      const aToken = aTokens.get(key);
+      stakes.push({
+        user,
+        stakeId,
+        token: stake.stakingToken,
+        protocol: stake.protocol,
+        principal: stake.amount,
+        shares: stake.shares,
+        startTime: Number(stake.startTime),
+        endTime: Number(stake.endTime),
+        // Legacy stakes could always be withdrawn without a penalty
+        lockPolicy: { mode: 'none', maxPenaltyBps: 0 },
+        autoCompound: false,
+        autoRouted: false,
+        value: stake.amount,
+        ...(aToken && { aToken }),
+      });
+    }
+  }
+
+  const sourceAddress = await source.getAddress();
+  for (const [key, aToken] of aTokens) {
+    if (!aToken) {
+      continue;
+    }
+    const position = stakes.filter(
+      stake => positionKey(stake.token, stake.protocol) === key
+    );
+    const balance = await IERC20__factory.connect(aToken, provider).balanceOf(
+      sourceAddress,
+      overrides
+    );
+    const shares = position.reduce((sum, stake) => sum + stake.shares, 0n);
+    for (const stake of position) {
+      stake.value = shares === 0n ? 0n : (balance * stake.shares) / shares;
+    }
+  }
+  return stakes;
+}
+
+/**
+ * Every open stake on the source, for the users in its indexed
+ * TimeLockedStakeCreated events, plus stakes already migrated out of it. The
+ * store must have been synced with the source beforehand.
+ */
+export async function snapshotStakes(
+  source: PolygonDeFiAggregator,
+  store: EventStore
+): Promise<MigrationSnapshot> {
+  const blockNumber = await providerOf(source).getBlockNumber();
+  const migratedOut = new Map<string, bigint>();
+  for (const event of store.getEvents({ name: 'StakeMigratedOut' })) {
+    migratedOut.set(stakeKey(event.user!, event.stakeId!), event.amount!);
+  }
+  const users = new Map<string, string>();
+  for (const event of store.getEvents({ name: 'TimeLockedStakeCreated' })) {
+    users.set(event.user!.toLowerCase(), event.user!);
+  }
+  if (await isLegacyAggregator(source)) {
+    return {
+      source: await source.getAddress(),
+      blockNumber,
+      legacy: true,
+      stakes: await snapshotLegacyStakes(source, users.values(), blockNumber),
+    };
+  }
+
+  const stakes: MigratingStake[] = [];
+  for (const user of users.values()) {
+    const onChain = await source.getUserTimeLockedStakes(user, {
+      blockTag: blockNumber,
+    });
+    for (let stakeId = 0; stakeId < onChain.length; stakeId++) {
+      const stake = onChain[stakeId];
+      const withdrawn = migratedOut.get(stakeKey(user, stakeId));
+      if (stake.isScheduled || (!stake.isActive && withdrawn === undefined)) {
+        continue;
+      }
+      const [value] = await source.getStakeValue(user, stakeId, {
+        blockTag: blockNumber,
+      });
+      stakes.push({
+        user,
+        stakeId,
+        token: stake.stakingToken,
+        protocol: stake.protocol,
+        principal: stake.amount,
+        shares: stake.shares,
+        startTime: Number(stake.startTime),
+        endTime: Number(stake.endTime),
+        lockPolicy: {
+          mode: LOCK_MODES[Number(stake.lockPolicy.mode)],
+          maxPenaltyBps: Number(stake.lockPolicy.maxPenaltyBps),
+        },
+        autoCompound: stake.autoCompound,
+        autoRouted: stake.autoRouted,
+        value: withdrawn ?? value,
+        ...(withdrawn !== undefined && { withdrawn }),
+      });
+    }
+  }
+  return {
+    source: await source.getAddress(),
+    blockNumber,
+    legacy: false,
+    stakes,
+  };
+}
+
+/**
+ * Drop stakes the target already imported (found in `targetStore`, synced
+ * with the target) and set aside those it has no active token or protocol
+ * for, or that cannot be recovered from a legacy source
+ */
+export async function planMigration(
+  target: PolygonDeFiAggregator,
+  snapshot: MigrationSnapshot,
+  targetStore: EventStore
+): Promise<MigrationPlan> {
+  const targetAddress = await target.getAddress();
+  if (targetAddress.toLowerCase() === snapshot.source.toLowerCase()) {
+    throw new Error('Source and target aggregators must differ');
+  }
+  if (await isLegacyAggregator(target)) {
+    throw new Error(
+      `Target aggregator ${targetAddress} predates importStake and cannot take stakes`
+    );
+  }
+  const imported = new Set(
+    targetStore
+      .getEvents({ name: 'StakeImported' })
+      .filter(
+        event =>
+          event.args.source.toLowerCase() === snapshot.source.toLowerCase()
+      )
+      .map(event => stakeKey(event.user!, Number(event.args.sourceStakeId)))
+  );
+
+  const plan: MigrationPlan = {
+    source: snapshot.source,
+    target: targetAddress,
+    legacy: snapshot.legacy,
+    stakes: [],
+    skipped: [],
+  };
+  for (const stake of snapshot.stakes) {
+    if (imported.has(stakeKey(stake.user, stake.stakeId))) {
+      continue;
+    }
+    const token = await target.supportedTokens(stake.token);
+    const protocol = await target.protocols(stake.protocol);
+    let reason: string | undefined;
+    if (snapshot.legacy && !stake.aToken) {
+      reason = `legacy ${stake.protocol} positions cannot be recovered; the user has to withdraw`;
+    } else if (
+      stake.token.toLowerCase() !== WMATIC_ADDRESS.toLowerCase() &&
+      !token.isActive
+    ) {
+      reason = `token ${stake.token} is not supported by the target`;
+    } else if (!protocol.isActive) {
+      reason = `protocol ${stake.protocol} is not active on the target`;
+    }
+    if (reason) {
+      plan.skipped.push({ stake, reason });
+    } else {
+      plan.stakes.push(stake);
+    }
+  }
+  return plan;
+}
+
+export function describeMigration(stake: MigratingStake): string {
+  return `~ migrate ${stake.user} #${stake.stakeId}: ${stake.principal} ${stake.token} in ${stake.protocol} until ${new Date(stake.endTime * 1000).toISOString()}${stake.withdrawn !== undefined ? ' (migrated out, import pending)' : ''}`;
+}
+
+/**
+ * Recover the Aave position behind the planned stakes of a legacy source and
+ * share it out. The source is paused so no stake joins it, its aTokens are
+ * swept to the owner with emergencyWithdraw and redeemed, and each open stake
+ * of the position gets its part by shares, as in the snapshot. The open
+ * stakes are read from the users in `snapshot` and must add up to the
+ * protocol's deposits on the source. Pass `sweepHash` to resume a run that
+ * stopped after the sweep: withdrawals fail once the aTokens are gone, so the
+ * source still holds the same open stakes.
+ */
+export async function recoverLegacyStakes(
+  source: PolygonDeFiAggregator,
+  snapshot: MigrationSnapshot,
+  plan: MigrationPlan,
+  sweepHash?: string
+): Promise<LegacyRecovery> {
+  if (!plan.legacy) {
+    throw new Error(`Aggregator ${plan.source} is not a legacy deployment`);
+  }
+  const [first] = plan.stakes;
+  if (!first) {
+    throw new Error('No planned stakes to recover');
+  }
+  if (
+    plan.stakes.some(
+      stake =>
+        stake.aToken !== first.aToken || stake.protocol !== first.protocol
+    )
+  ) {
+    throw new Error(
+      'Planned legacy stakes must share one Aave position; plan each protocol separately'
+    );
+  }
+  const signer = signerOf(source);
+  const owner = await signer.getAddress();
+  const legacy = connectLegacy(source);
+  if ((await legacy.owner()).toLowerCase() !== owner.toLowerCase()) {
+    throw new Error(`${owner} does not own aggregator ${plan.source}`);
+  }
+  const aToken = IERC20__factory.connect(first.aToken!, signer);
+
+  let sweep: TransactionReceipt | null;
+  if (sweepHash) {
+    sweep = await providerOf(source).getTransactionReceipt(sweepHash);
+    if (!sweep) {
+      throw new Error(`Sweep transaction ${sweepHash} not found`);
+    }
+  } else {
+    if (!(await legacy.paused())) {
+      await confirm(legacy.pause());
+    }
+    sweep = await confirm(legacy.emergencyWithdraw(first.aToken));
+  }
+  let recovered = 0n;
+  for (const log of sweep.logs) {
+    const parsed =
+      log.address.toLowerCase() === first.aToken!.toLowerCase()
+        ? aToken.interface.parseLog(log)
+        : null;
+    if (
+      parsed?.name === 'Transfer' &&
+      parsed.args.from.toLowerCase() === plan.source.toLowerCase()
+    ) {
+      recovered += parsed.args.value;
+    }
+  }
+  if (recovered === 0n) {
+    throw new Error(
+      `Transaction ${sweep.hash} swept no ${first.aToken} from ${plan.source}`
+    );
+  }
+
+  // A resumed run may have redeemed them already
+  const held = await aToken.balanceOf(owner);
+  const redeem = held < recovered ? held : recovered;
+  if (redeem > 0n) {
+    const { contractAddress } = await legacy.protocols(first.protocol);
+    await confirm(
+      IAavePool__factory.connect(contractAddress, signer).withdraw(
+        first.token,
+        redeem,
+        owner
+      )
+    );
+  }
+
+  const open = new Map<string, bigint>();
+  let principal = 0n;
+  for (const user of new Set(snapshot.stakes.map(stake => stake.user))) {
+    const onChain: LegacyStake[] = await legacy.getUserTimeLockedStakes(user);
+    onChain.forEach((stake, stakeId) => {
+      if (
+        stake.isActive &&
+        !stake.isScheduled &&
+        positionKey(stake.stakingToken, stake.protocol) ===
+          positionKey(first.token, first.protocol)
+      ) {
+        open.set(stakeKey(user, stakeId), stake.shares);
+        principal += stake.amount;
+      }
+    });
+  }
+  const { totalDeposited } = await legacy.protocols(first.protocol);
+  if (principal !== totalDeposited) {
+    throw new Error(
+      `Open stakes in ${first.protocol} are missing from the snapshot; snapshot again and resume from sweep ${sweep.hash}`
+    );
+  }
+  const shares = [...open.values()].reduce((sum, value) => sum + value, 0n);
+
+  const recoveredPlan: MigrationPlan = {
+    ...plan,
+    stakes: [],
+    skipped: [...plan.skipped],
+  };
+  for (const stake of plan.stakes) {
+    const stakeShares = open.get(stakeKey(stake.user, stake.stakeId));
+    if (stakeShares === undefined) {
+      recoveredPlan.skipped.push({
+        stake,
+        reason: 'withdrawn from the source before the sweep',
+      });
+    } else {
+      recoveredPlan.stakes.push({
+        ...stake,
+        withdrawn: (recovered * stakeShares) / shares,
+      });
+    }
+  }
+  return {
+    aToken: first.aToken!,
+    recovered,
+    sweepHash: sweep.hash,
+    plan: recoveredPlan,
+  };
+}
+
+/**
+ * Migrate planned stakes in order, stopping at the first failing call. The
+ * signer must own both aggregators. Stakes of a legacy source must have been
+ * recovered with recoverLegacyStakes first.
+ */
+export async function applyMigration(
+  source: PolygonDeFiAggregator,
+  target: PolygonDeFiAggregator,
+  plan: MigrationPlan,
+  onMigrated?: (migrated: MigratedStake) => void
+): Promise<MigratedStake[]> {
+  if (plan.legacy && plan.stakes.some(stake => stake.withdrawn === undefined)) {
+    throw new Error(
+      'Recover the stakes of a legacy source with recoverLegacyStakes first'
+    );
+  }
+  const signer = signerOf(target);
+  const owner = await signer.getAddress();
+  for (const aggregator of [source, target]) {
+    if ((await aggregator.owner()).toLowerCase() !== owner.toLowerCase()) {
+      throw new Error(
+        `${owner} does not own aggregator ${await aggregator.getAddress()}`
+      );
+    }
+  }
+  const targetAddress = await target.getAddress();
+
+  const results: MigratedStake[] = [];
+  for (const stake of plan.stakes) {
+    let withdrawn: bigint;
+    let outReceipt: ContractTransactionReceipt | undefined;
+    if (stake.withdrawn !== undefined) {
+      withdrawn = stake.withdrawn;
+    } else {
+      outReceipt = await confirm(
+        source.migrateStakeOut(stake.user, stake.stakeId)
+      );
+      withdrawn = findEvent(source, outReceipt, 'StakeMigratedOut').amount;
+    }
+    if (withdrawn === 0n) {
+      throw new Error(
+        `Stake #${stake.stakeId} of ${stake.user} was migrated out empty; nothing to import`
+      );
+    }
+
+    const token = IERC20__factory.connect(stake.token, signer);
+    if ((await token.allowance(owner, targetAddress)) < withdrawn) {
+      await confirm(token.approve(targetAddress, withdrawn));
+    }
+    const inReceipt = await confirm(
+      target.importStake({
+        user: stake.user,
+        token: stake.token,
+        deposit: withdrawn,
+        // A loss in the source protocol shrinks the principal with it
+        principal: stake.principal < withdrawn ? stake.principal : withdrawn,
+        protocol: stake.protocol,
+        startTime: stake.startTime,
+        endTime: stake.endTime,
+        lockPolicy: {
+          mode: LOCK_MODES.indexOf(stake.lockPolicy.mode),
+          maxPenaltyBps: stake.lockPolicy.maxPenaltyBps,
+        },
+        autoCompound: stake.autoCompound,
+        autoRouted: stake.autoRouted,
+        source: plan.source,
+        sourceStakeId: stake.stakeId,
+      })
+    );
+
+    const migrated: MigratedStake = {
+      stake,
+      withdrawn,
+      newStakeId: Number(findEvent(target, inReceipt, 'StakeImported').stakeId),
+      ...(outReceipt && { outReceipt }),
+      inReceipt,
+    };
+    results.push(migrated);
+    onMigrated?.(migrated);
+  }
+  return results;
+}
+
+function findEvent(
+  aggregator: PolygonDeFiAggregator,
+  receipt: ContractTransactionReceipt,
+  name: 'StakeMigratedOut' | 'StakeImported'
+) {
+  for (const log of receipt.logs) {
+    const parsed = aggregator.interface.parseLog(log);
+    if (parsed?.name === name) {
+      return parsed.args;
+    }
+  }
+  throw new Error(`${name} event not found in receipt`);
+}
+
+/**
+ * Per-user amounts before (on the source, at the snapshot) and after (on the
+ * target, now) for the migrated stakes
+ */
+export async function reconcileMigration(
+  target: PolygonDeFiAggregator,
+  migrated: MigratedStake[]
+): Promise<ReconciliationRow[]> {
+  const rows = new Map<string, ReconciliationRow>();
+  for (const { stake, newStakeId } of migrated) {
+    const key = `${stake.user.toLowerCase()}:${stake.token.toLowerCase()}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        user: stake.user,
+        token: stake.token,
+        stakes: 0,
+        principalBefore: 0n,
+        valueBefore: 0n,
+        principalAfter: 0n,
+        valueAfter: 0n,
+      };
+      rows.set(key, row);
+    }
+    const [stakes, [value]] = await Promise.all([
+      target.getUserTimeLockedStakes(stake.user),
+      target.getStakeValue(stake.user, newStakeId),
+    ]);
+    row.stakes++;
+    row.principalBefore += stake.principal;
+    row.valueBefore += stake.value;
+    row.principalAfter += stakes[newStakeId].amount;
+    row.valueAfter += value;
+  }
+  return [...rows.values()];
+}
@@ -0,0 +1,355 @@
+import { formatUnits, Provider, ZeroAddress } from 'ethers';
+import {
+  AaveV3Adapter__factory,
+  IERC20__factory,
+  PolygonDeFiAggregator,
+} from '../typechain-types';
+import {
+  getUserTimeLockedStakes,
+  TimeLockedStakeInfo,
+  WMATIC_ADDRESS,
+} from './aggregator';
+import { decodeRevert, DecodedError, revertDataOf } from './inspector';
+
+/**
+ * Dry run of withdrawTimeLockedStake: checks the stake, the Aave share ledger,
+ * pool liquidity and WMATIC unwrapping, simulates the call and estimates gas.
+ * Every problem found is reported as a named diagnosis instead of a raw
+ * revert.
+ */
+
+export const WITHDRAWAL_ISSUES = [
+  'STAKE_NOT_FOUND',
+  'STAKE_CLOSED',
+  'STAKE_SCHEDULED',
+  'HARD_LOCKED',
+  'RESERVE_NOT_FOUND',
+  'SHARE_LEDGER_MISMATCH',
+  'POOL_LIQUIDITY_SHORT',
+  'WMATIC_UNWRAP_SHORT',
+  'MATIC_TRANSFER_FAILED',
+  'PAYOUT_TRANSFER_FAILED',
+  'UNEXPECTED_REVERT',
+] as const;
+export type WithdrawalIssue = (typeof WITHDRAWAL_ISSUES)[number];
+
+export interface WithdrawalDiagnosis {
+  issue: WithdrawalIssue;
+  message: string;
+  /** Decoded revert from the simulation, when it produced this diagnosis */
+  revert?: DecodedError;
+}
+
+export type PreflightStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface PreflightCheck {
+  name: string;
+  status: PreflightStatus;
+  detail: string;
+}
+
+export interface WithdrawalPreflight {
+  user: string;
+  stakeId: number;
+  stake?: TimeLockedStakeInfo;
+  /** True when the simulation succeeded and no check failed */
+  ok: boolean;
+  /** Predicted payout after any early-exit penalty */
+  payout?: { amount: bigint; penalty: bigint; native: boolean };
+  gas?: { limit: bigint; price: bigint; cost: bigint };
+  checks: PreflightCheck[];
+  diagnoses: WithdrawalDiagnosis[];
+}
+
+export interface PreflightOptions {
+  /** Stake owner; defaults to the aggregator client's signer */
+  user?: string;
+}
+
+/** Aggregator and token revert reasons with a known cause */
+const REVERT_ISSUES: { [reason: string]: WithdrawalIssue } = {
+  'Invalid stake ID': 'STAKE_NOT_FOUND',
+  'Stake not active': 'STAKE_CLOSED',
+  'Stake not yet executed': 'STAKE_SCHEDULED',
+  'Stake is locked until maturity': 'HARD_LOCKED',
+  'Unsupported token for Aave lending': 'RESERVE_NOT_FOUND',
+  'No shares to withdraw': 'SHARE_LEDGER_MISMATCH',
+  'Not enough available user balance': 'SHARE_LEDGER_MISMATCH',
+  'MATIC transfer failed': 'MATIC_TRANSFER_FAILED',
+};
+
+const CUSTOM_ERROR_ISSUES: { [name: string]: WithdrawalIssue } = {
+  ERC20InsufficientBalance: 'PAYOUT_TRANSFER_FAILED',
+  SafeERC20FailedOperation: 'PAYOUT_TRANSFER_FAILED',
+};
+
+function issueForRevert(revert: DecodedError): WithdrawalIssue {
+  if (revert.name === 'Error') {
+    return REVERT_ISSUES[String(revert.args.reason)] ?? 'UNEXPECTED_REVERT';
+  }
+  if (revert.name === 'Panic' && revert.args.code === 0x11n) {
+    // The share ledger subtraction underflowed
+    return 'SHARE_LEDGER_MISMATCH';
+  }
+  return CUSTOM_ERROR_ISSUES[revert.name] ?? 'UNEXPECTED_REVERT';
+}
+
+function describeRevert(revert: DecodedError): string {
+  if (revert.name === 'Error') {
+    return `reverted with "${revert.args.reason}"`;
+  }
+  if (revert.name === 'Panic') {
+    return `panicked (${revert.args.description})`;
+  }
+  if (revert.name === 'Unknown' || revert.name === 'Revert') {
+    return `reverted with data ${revert.data}`;
+  }
+  return `reverted with ${revert.name}`;
+}
+
+function providerOf(aggregator: PolygonDeFiAggregator): Provider {
+  const provider = aggregator.runner?.provider;
+  if (!provider) {
+    throw new Error('Aggregator client must be connected to a provider');
+  }
+  return provider;
+}
+
+async function defaultUser(aggregator: PolygonDeFiAggregator) {
+  const runner = aggregator.runner as { getAddress?: () => Promise<string> };
+  if (typeof runner?.getAddress !== 'function') {
+    throw new Error(
+      'Pass a user or connect the aggregator client with a signer'
+    );
+  }
+  return runner.getAddress();
+}
+
+/**
+ * Check whether `stakeId` can be withdrawn in full right now, without sending
+ * a transaction
+ */
+export async function preflightWithdraw(
+  aggregator: PolygonDeFiAggregator,
+  stakeId: number,
+  options: PreflightOptions = {}
+): Promise<WithdrawalPreflight> {
+  const provider = providerOf(aggregator);
+  const user = options.user ?? (await defaultUser(aggregator));
+  const aggregatorAddress = await aggregator.getAddress();
+
+  const checks: PreflightCheck[] = [];
+  const diagnoses: WithdrawalDiagnosis[] = [];
+  const check = (name: string, status: PreflightStatus, detail: string) =>
+    checks.push({ name, status, detail });
+  const diagnose = (issue: WithdrawalIssue, message: string) => {
+    if (!diagnoses.some(d => d.issue === issue)) {
+      diagnoses.push({ issue, message });
+    }
+  };
+  const result: WithdrawalPreflight = {
+    user,
+    stakeId,
+    ok: false,
+    checks,
+    diagnoses,
+  };
+
+  // ===== STAKE =====
+
+  const stakes = await getUserTimeLockedStakes(aggregator, user);
+  const stake = stakes[stakeId];
+  if (!stake) {
+    check('stake', 'fail', `${user} has ${stakes.length} stakes`);
+    diagnose('STAKE_NOT_FOUND', `Stake #${stakeId} does not exist for ${user}`);
+    return result;
+  }
+  result.stake = stake;
+  const format = (value: bigint) => formatUnits(value, stake.decimals);
+
+  if (!stake.isActive) {
+    check('stake', 'fail', 'Already withdrawn');
+    diagnose('STAKE_CLOSED', `Stake #${stakeId} has already been withdrawn`);
+    return result;
+  }
+  if (stake.isScheduled) {
+    check('stake', 'fail', 'Scheduled, not yet executed');
+    diagnose(
+      'STAKE_SCHEDULED',
+      `Stake #${stakeId} is scheduled and has not been executed yet`
+    );
+    return result;
+  }
+  check(
+    'stake',
+    'pass',
+    `${format(stake.amount)} principal, ${stake.shares} shares in ${stake.protocol}`
+  );
+
+  // ===== LOCK =====
+
+  if (stake.isMatured) {
+    check('lock', 'pass', 'Matured');
+  } else if (stake.lockPolicy.mode === 'hard') {
+    check('lock', 'fail', 'Hard lock until maturity');
+    diagnose(
+      'HARD_LOCKED',
+      `Stake #${stakeId} is hard-locked until ${new Date(stake.endTime * 1000).toISOString()}`
+    );
+  } else {
+    check(
+      'lock',
+      'pass',
+      `Early exit under the "${stake.lockPolicy.mode}" policy`
+    );
+  }
+
+  // ===== AAVE =====
+
+  const protocol = await aggregator.protocols(stake.protocol);
+  let assets: bigint | undefined;
+  if (protocol.protocolType !== 'lending') {
+    check('share ledger', 'skip', 'Not a lending protocol');
+    check('pool liquidity', 'skip', 'Not a lending protocol');
+  } else {
+    const adapter = AaveV3Adapter__factory.connect(
+      protocol.contractAddress,
+      provider
+    );
+    const aTokenAddress = await adapter.aTokenOf(stake.stakingToken);
+    if (aTokenAddress === ZeroAddress) {
+      check('share ledger', 'fail', 'No reserve on the pool');
+      diagnose(
+        'RESERVE_NOT_FOUND',
+        `The ${stake.protocol} pool has no reserve for ${stake.stakingToken}`
+      );
+    } else {
+      const totalShares = await adapter.totalShares(stake.stakingToken);
+      const aTokenBalance = await IERC20__factory.connect(
+        aTokenAddress,
+        provider
+      ).balanceOf(protocol.contractAddress);
+      const ledger = `${stake.shares} of ${totalShares} shares over ${format(aTokenBalance)} aTokens`;
+
+      if (totalShares < stake.shares || aTokenBalance === 0n) {
+        check('share ledger', 'fail', ledger);
+        diagnose(
+          'SHARE_LEDGER_MISMATCH',
+          `The adapter's totalShares (${totalShares}) and aToken balance (${format(aTokenBalance)}) cannot cover the stake's ${stake.shares} shares`
+        );
+      } else {
+        check('share ledger', 'pass', ledger);
+        assets =
+          stake.shares === totalShares
+            ? aTokenBalance
+            : (aTokenBalance * stake.shares) / totalShares;
+      }
+
+      // Aave v3 keeps a reserve's unborrowed liquidity in its aToken
+      const liquidity = await IERC20__factory.connect(
+        stake.stakingToken,
+        provider
+      ).balanceOf(aTokenAddress);
+      if (assets === undefined) {
+        check('pool liquidity', 'skip', `${format(liquidity)} available`);
+      } else if (liquidity < assets) {
+        check(
+          'pool liquidity',
+          'fail',
+          `${format(liquidity)} available, ${format(assets)} needed`
+        );
+        diagnose(
+          'POOL_LIQUIDITY_SHORT',
+          `The Aave reserve has ${format(liquidity)} available but the withdrawal needs ${format(assets)}; retry once borrowers repay`
+        );
+      } else {
+        check(
+          'pool liquidity',
+          'pass',
+          `${format(liquidity)} available, ${format(assets)} needed`
+        );
+      }
+    }
+  }
+
+  // ===== PAYOUT =====
+
+  const native =
+    stake.stakingToken.toLowerCase() === WMATIC_ADDRESS.toLowerCase();
+  if (!diagnoses.some(d => d.issue === 'HARD_LOCKED')) {
+    const { amount, penalty } = await aggregator.previewWithdraw(user, stakeId);
+    result.payout = { amount, penalty, native };
+
+    if (!native) {
+      check('WMATIC unwrap', 'skip', 'Not a WMATIC stake');
+    } else {
+      const backing = await provider.getBalance(WMATIC_ADDRESS);
+      if (backing < amount) {
+        check(
+          'WMATIC unwrap',
+          'fail',
+          `WMATIC holds ${formatUnits(backing, 18)} MATIC, ${formatUnits(amount, 18)} needed`
+        );
+        diagnose(
+          'WMATIC_UNWRAP_SHORT',
+          `The WMATIC contract holds ${formatUnits(backing, 18)} MATIC, less than the ${formatUnits(amount, 18)} to unwrap`
+        );
+      } else if ((await provider.getCode(user)) !== '0x') {
+        check(
+          'WMATIC unwrap',
+          'warn',
+          `${user} is a contract and must accept plain MATIC transfers`
+        );
+      } else {
+        check('WMATIC unwrap', 'pass', `${formatUnits(amount, 18)} MATIC`);
+      }
+    }
+  }
+
+  // ===== SIMULATION =====
+
+  const tx = {
+    from: user,
+    to: aggregatorAddress,
+    data: aggregator.interface.encodeFunctionData('withdrawTimeLockedStake', [
+      stakeId,
+    ]),
+  };
+  try {
+    await provider.call(tx);
+    check('simulation', 'pass', 'withdrawTimeLockedStake succeeds');
+  } catch (error) {
+    const data = revertDataOf(error);
+    if (data === undefined) {
+      throw error;
+    }
+    const revert = decodeRevert(data, new Map(), aggregatorAddress);
+    const issue = issueForRevert(revert);
+    check('simulation', 'fail', describeRevert(revert));
+    // A failed check names the root cause better than the revert it leads to
+    const known = diagnoses.find(d => d.issue === issue) ?? diagnoses[0];
+    if (known) {
+      known.revert = revert;
+    } else {
+      diagnoses.push({
+        issue,
+        message: `withdrawTimeLockedStake ${describeRevert(revert)}`,
+        revert,
+      });
+    }
+    return result;
+  }
+
+  const limit = await provider.estimateGas(tx);
+  const feeData = await provider.getFeeData();
+  const price = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+  result.gas = { limit, price, cost: limit * price };
+  check(
+    'gas',
+    'pass',
+    `${limit} gas, up to ${formatUnits(limit * price, 18)} MATIC`
+  );
+
+  result.ok = diagnoses.length === 0;
+  return result;
+}
@@ -0,0 +1,137 @@
+import { ContractTransactionReceipt, id, isHexString } from 'ethers';
+import { PolygonDeFiAggregator } from '../typechain-types';
+import { confirm } from './aggregator';
+import { EventStore } from './event-store';
+
+/**
+ * Admin roles of the aggregator. The owner grants and revokes them; role
+ * members are read back from the RoleGranted/RoleRevoked events in an
+ * indexed EventStore.
+ */
+
+/** Role names as in the contract, without the `_ROLE` suffix */
+export const ROLES = [
+  'PROTOCOL_MANAGER',
+  'APY_ORACLE',
+  'PAUSER',
+  'EMERGENCY',
+] as const;
+export type Role = (typeof ROLES)[number];
+
+export interface RoleMember {
+  account: string;
+  /** Account that sent the grant: the owner, or the deployer at set-up */
+  grantedBy: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface RoleMembers {
+  role: Role;
+  /** bytes32 role id, e.g. PAUSER_ROLE() */
+  id: string;
+  members: RoleMember[];
+}
+
+export function roleId(role: Role): string {
+  return id(`${role}_ROLE`);
+}
+
+/**
+ * Accepts `pauser`, `PAUSER_ROLE`, `protocol-manager` or a bytes32 role id
+ */
+export function parseRole(input: string): Role {
+  if (isHexString(input, 32)) {
+    const role = ROLES.find(
+      role => roleId(role).toLowerCase() === input.toLowerCase()
+    );
+    if (role) {
+      return role;
+    }
+  }
+  const name = input
+    .trim()
+    .toUpperCase()
+    .replace(/-/g, '_')
+    .replace(/_ROLE$/, '');
+  const role = ROLES.find(role => role === name);
+  if (!role) {
+    throw new Error(
+      `Unknown role "${input}". Expected one of: ${ROLES.join(', ')}`
+    );
+  }
+  return role;
+}
+
+/** Grant `role` to every account, in one transaction */
+export async function grantRole(
+  aggregator: PolygonDeFiAggregator,
+  role: Role,
+  accounts: string[]
+): Promise<ContractTransactionReceipt> {
+  if (accounts.length === 0) {
+    throw new Error('No accounts to grant the role to');
+  }
+  return confirm(
+    accounts.length === 1
+      ? aggregator.grantRole(roleId(role), accounts[0])
+      : aggregator.batchGrantRole(roleId(role), accounts)
+  );
+}
+
+export async function revokeRole(
+  aggregator: PolygonDeFiAggregator,
+  role: Role,
+  account: string
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.revokeRole(roleId(role), account));
+}
+
+/** Give up one of the signer's own roles */
+export async function renounceRole(
+  aggregator: PolygonDeFiAggregator,
+  role: Role
+): Promise<ContractTransactionReceipt> {
+  return confirm(aggregator.renounceRole(roleId(role)));
+}
+
+/**
+ * Current members of each role, replayed from the store's RoleGranted and
+ * RoleRevoked events. The store is only as current as its last sync.
+ */
+export function listRoleMembers(store: EventStore): RoleMembers[] {
+  const roles = ROLES.map(role => ({
+    role,
+    id: roleId(role),
+    members: new Map<string, RoleMember>(),
+  }));
+  const byId = new Map(roles.map(entry => [entry.id, entry]));
+
+  const events = [
+    ...store.getEvents({ name: 'RoleGranted' }),
+    ...store.getEvents({ name: 'RoleRevoked' }),
+  ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  for (const event of events) {
+    const entry = byId.get(event.args.role.toLowerCase());
+    if (!entry) {
+      continue;
+    }
+    const key = event.args.account.toLowerCase();
+    if (event.name === 'RoleGranted') {
+      entry.members.set(key, {
+        account: event.args.account,
+        grantedBy: event.args.sender,
+        blockNumber: event.blockNumber,
+        txHash: event.txHash,
+      });
+    } else {
+      entry.members.delete(key);
+    }
+  }
+
+  return roles.map(({ role, id, members }) => ({
+    role,
+    id,
+    members: [...members.values()],
+  }));
+}
@@ -0,0 +1,392 @@
+import { ContractTransactionReceipt, isError, Provider } from 'ethers';
+import {
+  AaveV3Adapter__factory,
+  IAavePool__factory,
+  ICompoundPool__factory,
+  ILiquidStaking__factory,
+  PolygonDeFiAggregator,
+} from '../typechain-types';
+import { getAdapterInfo } from './adapters';
+import {
+  rebalanceStake,
+  RebalanceStakeResult,
+  updateProtocolAPY,
+  WMATIC_ADDRESS,
+} from './aggregator';
+import { EventStore } from './event-store';
+
+/**
+ * Yield routing keeper. AUTO_ROUTE stakes go to the highest on-chain APY among
+ * their token's routes, so the APYs are measured from each protocol and pushed
+ * on-chain, and auto-routed stakes are moved once a route pays enough more
+ * than the one they are on.
+ */
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+/** At Polygon PoS's ~2 second block time */
+export const POLYGON_BLOCKS_PER_YEAR = 15_768_000;
+
+export interface ApyOptions {
+  /** Window for the liquid staking exchange-rate drift (default 7 days) */
+  lookback?: number;
+  /** Leave APYs that moved by less than this (default 10 basis points) */
+  minChangeBps?: number;
+  /** For compound supply rates (default POLYGON_BLOCKS_PER_YEAR) */
+  blocksPerYear?: number;
+}
+
+export interface ApyReading {
+  protocol: string;
+  protocolType: string;
+  /** Measured APY in basis points */
+  apy: number;
+  /** What the rate was read from, for logs */
+  source: string;
+}
+
+export interface ApyUpdate {
+  protocol: string;
+  from: number;
+  to: number;
+  source: string;
+}
+
+export interface ApyPlan {
+  updates: ApyUpdate[];
+  readings: ApyReading[];
+  /** Protocols whose APY could not be measured */
+  warnings: string[];
+}
+
+export interface AppliedApyUpdate {
+  update: ApyUpdate;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface RebalanceCandidate {
+  user: string;
+  stakeId: number;
+  token: string;
+  fromProtocol: string;
+  toProtocol: string;
+  /** On-chain APYs in basis points; 0 for an inactive current protocol */
+  fromApy: number;
+  toApy: number;
+}
+
+const DEFAULT_LOOKBACK = 7 * 24 * 60 * 60;
+const DEFAULT_MIN_CHANGE_BPS = 10;
+const WAD = 10n ** 18n;
+
+function providerOf(aggregator: PolygonDeFiAggregator): Provider {
+  const provider = aggregator.runner?.provider;
+  if (!provider) {
+    throw new Error('Aggregator client must be connected to a provider');
+  }
+  return provider;
+}
+
+/** APY in basis points of a rate compounded `periods` times a year */
+function compoundedBps(ratePerPeriod: number, periods: number): number {
+  return Math.max(
+    Math.round(Math.expm1(periods * Math.log1p(ratePerPeriod)) * 10000),
+    0
+  );
+}
+
+/** Newest block mined at or before `timestamp` (block 0 if none) */
+async function blockAt(provider: Provider, timestamp: number) {
+  let low = 0;
+  let high = await provider.getBlockNumber();
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    const block = await provider.getBlock(middle);
+    if (block!.timestamp <= timestamp) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return (await provider.getBlock(low))!;
+}
+
+/**
+ * The reserve a lending protocol's single on-chain APY stands for: the token
+ * with the most aggregator TVL on it, or the first the pool has a reserve for
+ */
+async function lendingReserve(
+  aggregator: PolygonDeFiAggregator,
+  protocol: string,
+  adapterAddress: string
+): Promise<string | undefined> {
+  const { addresses } = await aggregator.getAllSupportedTokens();
+  const tokens = [...new Set([...addresses, WMATIC_ADDRESS])];
+  const adapter = AaveV3Adapter__factory.connect(
+    adapterAddress,
+    aggregator.runner
+  );
+
+  let best: { token: string; tvl: bigint } | undefined;
+  for (const token of tokens) {
+    if (!(await adapter.supportsToken(token))) {
+      continue;
+    }
+    const tvl = await aggregator.tokenProtocolTVL(token, protocol);
+    if (!best || tvl > best.tvl) {
+      best = { token, tvl };
+    }
+  }
+  return best?.token;
+}
+
+/**
+ * Measure what a protocol pays now:
+ * - lending: the reserve's Aave liquidity rate (APR in ray), compounded
+ *   per second
+ * - compound: supplyRatePerBlock, compounded per block
+ * - liquid: the exchange-rate drift over the lookback window, annualized
+ */
+export async function measureProtocolApy(
+  aggregator: PolygonDeFiAggregator,
+  protocol: string,
+  options: ApyOptions = {}
+): Promise<ApyReading> {
+  const provider = providerOf(aggregator);
+  const info = await aggregator.protocols(protocol);
+  const { protocolType } = info;
+  // Rates are read from the protocol contract behind the adapter
+  const { pool } = await getAdapterInfo(info.contractAddress, provider);
+
+  if (protocolType === 'lending') {
+    const reserve = await lendingReserve(
+      aggregator,
+      protocol,
+      info.contractAddress
+    );
+    if (!reserve) {
+      throw new Error(`${protocol} has no reserve for a supported token`);
+    }
+    const data = await IAavePool__factory.connect(
+      pool,
+      provider
+    ).getReserveData(reserve);
+    const apr = Number(data.currentLiquidityRate) / 1e27;
+    return {
+      protocol,
+      protocolType,
+      apy: compoundedBps(apr / SECONDS_PER_YEAR, SECONDS_PER_YEAR),
+      source: `liquidity rate of ${reserve}`,
+    };
+  }
+
+  if (protocolType === 'compound') {
+    const rate = await ICompoundPool__factory.connect(
+      pool,
+      provider
+    ).supplyRatePerBlock();
+    return {
+      protocol,
+      protocolType,
+      apy: compoundedBps(
+        Number(rate) / 1e18,
+        options.blocksPerYear ?? POLYGON_BLOCKS_PER_YEAR
+      ),
+      source: 'supply rate per block',
+    };
+  }
+
+  if (protocolType === 'liquid') {
+    const vault = ILiquidStaking__factory.connect(pool, provider);
+    const latest = (await provider.getBlock('latest'))!;
+    const past = await blockAt(
+      provider,
+      latest.timestamp - (options.lookback ?? DEFAULT_LOOKBACK)
+    );
+    const elapsed = latest.timestamp - past.timestamp;
+    if (elapsed === 0 || (await provider.getCode(pool, past.number)) === '0x') {
+      throw new Error(
+        `${protocol} has no exchange-rate history at block ${past.number}; use a shorter lookback`
+      );
+    }
+    const [now, then] = await Promise.all([
+      vault.convertToAssets(WAD, { blockTag: latest.number }),
+      vault.convertToAssets(WAD, { blockTag: past.number }),
+    ]);
+    const growth = Number(now) / Number(then) - 1;
+    return {
+      protocol,
+      protocolType,
+      apy: compoundedBps(growth, SECONDS_PER_YEAR / elapsed),
+      source: `exchange rate since block ${past.number}`,
+    };
+  }
+
+  throw new Error(`${protocol} has unknown protocol type "${protocolType}"`);
+}
+
+/**
+ * Measure every active protocol and plan updateProtocolAPY calls for those
+ * whose on-chain APY is off by at least minChangeBps
+ */
+export async function planApyUpdates(
+  aggregator: PolygonDeFiAggregator,
+  options: ApyOptions = {}
+): Promise<ApyPlan> {
+  const minChange = options.minChangeBps ?? DEFAULT_MIN_CHANGE_BPS;
+  const plan: ApyPlan = { updates: [], readings: [], warnings: [] };
+
+  const { names, apys, activeStatus } = await aggregator.getAllProtocols();
+  for (let i = 0; i < names.length; i++) {
+    if (!activeStatus[i]) {
+      continue;
+    }
+    let reading: ApyReading;
+    try {
+      reading = await measureProtocolApy(aggregator, names[i], options);
+    } catch (error) {
+      plan.warnings.push(
+        `${names[i]}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      continue;
+    }
+    plan.readings.push(reading);
+
+    const from = Number(apys[i]);
+    if (reading.apy !== from && Math.abs(reading.apy - from) >= minChange) {
+      plan.updates.push({
+        protocol: reading.protocol,
+        from,
+        to: reading.apy,
+        source: reading.source,
+      });
+    }
+  }
+  return plan;
+}
+
+export function describeApyUpdate(update: ApyUpdate): string {
+  return `~ updateProtocolAPY ${update.protocol}: ${update.from} → ${update.to} (${update.source})`;
+}
+
+/**
+ * Push planned APYs in order, stopping at the first failing call
+ */
+export async function applyApyUpdates(
+  aggregator: PolygonDeFiAggregator,
+  plan: ApyPlan,
+  onApplied?: (applied: AppliedApyUpdate) => void
+): Promise<AppliedApyUpdate[]> {
+  const applied: AppliedApyUpdate[] = [];
+  for (const update of plan.updates) {
+    const receipt = await updateProtocolAPY(
+      aggregator,
+      update.protocol,
+      update.to
+    );
+    applied.push({ update, receipt });
+    onApplied?.({ update, receipt });
+  }
+  return applied;
+}
+
+// ===== REBALANCING =====
+
+/** Users with auto-routed stakes, from an indexed event database */
+export function autoRoutedUsers(store: EventStore): string[] {
+  const users = new Map<string, string>();
+  for (const event of store.getEvents({ name: 'StakeRouted' })) {
+    if (event.user) {
+      users.set(event.user.toLowerCase(), event.user);
+    }
+  }
+  return [...users.values()];
+}
+
+/**
+ * The users' auto-routed stakes that rebalanceStake would move now, using the
+ * same checks as the contract
+ */
+export async function planRebalance(
+  aggregator: PolygonDeFiAggregator,
+  users: string[]
+): Promise<RebalanceCandidate[]> {
+  const threshold = Number(await aggregator.rebalanceThresholdBps());
+  const routes = new Map<string, { protocol: string; apy: number } | null>();
+  const bestRoute = async (token: string) => {
+    if (!routes.has(token)) {
+      try {
+        const [protocol, apy] = await aggregator.bestRoute(token);
+        routes.set(token, { protocol, apy: Number(apy) });
+      } catch (error) {
+        // "No route for token": routes were removed or all deactivated
+        if (!isError(error, 'CALL_EXCEPTION')) {
+          throw error;
+        }
+        routes.set(token, null);
+      }
+    }
+    return routes.get(token)!;
+  };
+
+  const candidates: RebalanceCandidate[] = [];
+  const seen = new Set<string>();
+  for (const user of users) {
+    if (seen.has(user.toLowerCase())) {
+      continue;
+    }
+    seen.add(user.toLowerCase());
+
+    const stakes = await aggregator.getUserTimeLockedStakes(user);
+    for (let stakeId = 0; stakeId < stakes.length; stakeId++) {
+      const stake = stakes[stakeId];
+      if (!stake.isActive || stake.isScheduled || !stake.autoRouted) {
+        continue;
+      }
+      const best = await bestRoute(stake.stakingToken);
+      if (!best || best.protocol === stake.protocol) {
+        continue;
+      }
+      const current = await aggregator.protocols(stake.protocol);
+      const fromApy = current.isActive ? Number(current.currentAPY) : 0;
+      if (best.apy >= fromApy + threshold) {
+        candidates.push({
+          user,
+          stakeId,
+          token: stake.stakingToken,
+          fromProtocol: stake.protocol,
+          toProtocol: best.protocol,
+          fromApy,
+          toApy: best.apy,
+        });
+      }
+    }
+  }
+  return candidates;
+}
+
+export function describeRebalance(candidate: RebalanceCandidate): string {
+  return `~ rebalanceStake ${candidate.user} #${candidate.stakeId}: ${candidate.fromProtocol} (${candidate.fromApy}) → ${candidate.toProtocol} (${candidate.toApy})`;
+}
+
+/**
+ * Move planned stakes in order, stopping at the first failing call. Moving a
+ * stake does not change other stakes' best route, so the rest of the plan
+ * stays valid.
+ */
+export async function applyRebalance(
+  aggregator: PolygonDeFiAggregator,
+  candidates: RebalanceCandidate[],
+  onApplied?: (result: RebalanceStakeResult) => void
+): Promise<RebalanceStakeResult[]> {
+  const results: RebalanceStakeResult[] = [];
+  for (const candidate of candidates) {
+    const result = await rebalanceStake(
+      aggregator,
+      candidate.user,
+      candidate.stakeId
+    );
+    results.push(result);
+    onApplied?.(result);
+  }
+  return results;
+}
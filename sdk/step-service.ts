@@ -0,0 +1,242 @@
+import * as http from 'http';
+import { Signer } from 'ethers';
+import {
+  DailyReportArgs,
+  DailyResultArgs,
+  DailyResultRequest,
+  signDailyResult,
+  SignedDailyResult,
+  SignedStepReport,
+  signStepReport,
+  STEP_SIGNATURE_TTL,
+  validateDailyResultRequest,
+} from './steps';
+
+/**
+ * Local HTTP front for signDailyResult, so apps hand step readings to the
+ * service holding the security key and get back ready-to-send
+ * sendDailyResult arguments:
+ *
+ *   GET  /health  → { signer, chainId }
+ *   POST /sign    DailyResultRequest → SignedDailyResult
+ *   POST /report  DailyResultRequest → SignedStepReport (EIP-712)
+ *
+ * Numbers that can exceed 2^53 (chain ids and the argument arrays) travel as
+ * decimal strings. Invalid requests get a 400 with `{ error, errors? }`.
+ */
+
+export interface StepServiceOptions {
+  /** Seconds a signature stays valid, at most STEP_SIGNATURE_TTL */
+  ttl?: number;
+  /** Default time zone offset for requests that give none */
+  utcOffsetMinutes?: number;
+  /** Largest request body accepted, in bytes */
+  maxBodyBytes?: number;
+  onSigned?: (result: SignedDailyResult | SignedStepReport) => void;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+
+class RequestError extends Error {}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    typeof v === 'bigint' ? v.toString() : v
+  );
+}
+
+const big = (value: string) => BigInt(value);
+const pair = (values: string[]) =>
+  [big(values[0]), big(values[1])] as [bigint, bigint];
+
+/** Revive a SignedDailyResult from the service's JSON */
+export function parseDailyResult(json: string): SignedDailyResult {
+  const raw = JSON.parse(json);
+  const args = raw.args;
+  return {
+    challenge: raw.challenge,
+    chainId: big(raw.chainId),
+    signer: raw.signer,
+    expiresAt: raw.expiresAt,
+    args: {
+      day: args.day.map(big),
+      stepIndex: args.stepIndex.map(big),
+      data: pair(args.data),
+      signature: args.signature,
+      listGachaAddress: args.listGachaAddress,
+      listNFTAddress: args.listNFTAddress,
+      listIndexNFT: args.listIndexNFT.map((ids: string[]) => ids.map(big)),
+      listSenderAddress: args.listSenderAddress,
+      statusTypeNft: args.statusTypeNft,
+      timeRange: pair(args.timeRange),
+    } satisfies DailyResultArgs,
+  };
+}
+
+/** Revive a SignedStepReport from the service's JSON */
+export function parseStepReport(json: string): SignedStepReport {
+  const raw = JSON.parse(json);
+  const args = raw.args;
+  return {
+    challenge: raw.challenge,
+    nft: raw.nft,
+    chainId: big(raw.chainId),
+    signer: raw.signer,
+    expiresAt: raw.expiresAt,
+    args: {
+      day: args.day.map(big),
+      stepIndex: args.stepIndex.map(big),
+      expiry: big(args.expiry),
+      nonce: big(args.nonce),
+      signature: args.signature,
+      listGachaAddress: args.listGachaAddress,
+      listNFTAddress: args.listNFTAddress,
+      listIndexNFT: args.listIndexNFT.map((ids: string[]) => ids.map(big)),
+      listSenderAddress: args.listSenderAddress,
+      statusTypeNft: args.statusTypeNft,
+      timeRange: pair(args.timeRange),
+    } satisfies DailyReportArgs,
+  };
+}
+
+async function readBody(
+  req: http.IncomingMessage,
+  maxBytes: number
+): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new RequestError(`Request body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * The service as an unstarted server; call `listen` on it. `signer` must be
+ * connected to a provider on the challenge's chain.
+ */
+export function createStepService(
+  signer: Signer,
+  options: StepServiceOptions = {}
+): http.Server {
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  if (
+    options.ttl !== undefined &&
+    !(
+      Number.isInteger(options.ttl) &&
+      options.ttl > 0 &&
+      options.ttl <= STEP_SIGNATURE_TTL
+    )
+  ) {
+    throw new Error(`ttl must be between 1 and ${STEP_SIGNATURE_TTL} seconds`);
+  }
+
+  const respond = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(toJson(body));
+  };
+
+  return http.createServer(async (req, res) => {
+    try {
+      if (req.method === 'GET' && req.url === '/health') {
+        respond(res, 200, {
+          signer: await signer.getAddress(),
+          chainId: (await signer.provider!.getNetwork()).chainId,
+        });
+        return;
+      }
+      const sign =
+        req.url === '/sign'
+          ? signDailyResult
+          : req.url === '/report'
+            ? signStepReport
+            : undefined;
+      if (!sign) {
+        respond(res, 404, { error: `No route ${req.method} ${req.url}` });
+        return;
+      }
+      if (req.method !== 'POST') {
+        respond(res, 405, { error: `Use POST ${req.url}` });
+        return;
+      }
+
+      let request: DailyResultRequest;
+      try {
+        request = JSON.parse(await readBody(req, maxBodyBytes));
+      } catch (e) {
+        throw e instanceof RequestError
+          ? e
+          : new RequestError('Request body must be JSON');
+      }
+      if (typeof request !== 'object' || request === null) {
+        throw new RequestError('Request body must be a JSON object');
+      }
+      const errors = validateDailyResultRequest(request);
+      if (errors.length > 0) {
+        respond(res, 400, { error: 'Invalid step data', errors });
+        return;
+      }
+      const signed = await sign(
+        signer,
+        {
+          ...request,
+          utcOffsetMinutes:
+            request.utcOffsetMinutes ?? options.utcOffsetMinutes,
+        },
+        { ttl: options.ttl }
+      );
+      options.onSigned?.(signed);
+      respond(res, 200, signed);
+    } catch (e) {
+      if (e instanceof RequestError) {
+        respond(res, 400, { error: e.message });
+      } else {
+        respond(res, 500, { error: (e as Error).message });
+      }
+    }
+  });
+}
+
+async function postToService(
+  url: string,
+  route: string,
+  request: DailyResultRequest
+): Promise<string> {
+  const response = await fetch(new URL(route, url), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: toJson(request),
+  });
+  const body = await response.text();
+  if (!response.ok) {
+    let error = body;
+    try {
+      const parsed = JSON.parse(body);
+      error = [parsed.error, ...(parsed.errors ?? [])].join('\n  ');
+    } catch {
+      // Not JSON; report the body as is
+    }
+    throw new Error(`Step service returned ${response.status}: ${error}`);
+  }
+  return body;
+}
+
+/** Ask a step service at `url` (e.g. http://127.0.0.1:8787) to sign readings */
+export async function requestDailyResult(
+  url: string,
+  request: DailyResultRequest
+): Promise<SignedDailyResult> {
+  return parseDailyResult(await postToService(url, '/sign', request));
+}
+
+/** Ask a step service at `url` to sign readings as an EIP-712 StepReport */
+export async function requestStepReport(
+  url: string,
+  request: DailyResultRequest
+): Promise<SignedStepReport> {
+  return parseStepReport(await postToService(url, '/report', request));
+}
@@ -0,0 +1,498 @@
+import {
+  ContractTransactionReceipt,
+  getAddress,
+  getBytes,
+  isAddress,
+  Signer,
+  solidityPackedKeccak256,
+  TypedDataDomain,
+  verifyMessage,
+  verifyTypedData,
+} from 'ethers';
+import {
+  ChallengeDetailV2,
+  ChallengeDetailV2__factory,
+  ExerciseSupplementNFT__factory,
+} from '../typechain-types';
+import { confirm } from './aggregator';
+
+/**
+ * Signed step data for ChallengeDetailV2.sendDailyResult. The challenge passes
+ * `_day`, `_stepIndex`, `_data` and `_signature` to
+ * ExerciseSupplementNFT.checkValidSignature, which requires the NFT's
+ * securityAddress to have signed (as an EIP-191 message)
+ *
+ *   keccak256(abi.encodePacked(challenge, _day, _stepIndex, _data, chainId))
+ *
+ * with `_data[1]` an expiry at most 10 minutes ahead of the block that
+ * includes the call. `_data[0]` is not checked on-chain; the signer puts the
+ * signing time there. Each signed digest is accepted once.
+ *
+ * sendDailyReport takes the same data as an EIP-712 StepReport instead, which
+ * wallets can display and which is replay-protected by a per-challenge nonce
+ * (ExerciseSupplementNFT.stepReportNonces) rather than by signature bytes.
+ * Once a challenge has sent a StepReport, it can no longer sendDailyResult.
+ */
+
+/** Longest validity checkValidSignature accepts, in seconds */
+export const STEP_SIGNATURE_TTL = 10 * 60;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export interface StepReading {
+  /** Time of the reading, in seconds */
+  day: number;
+  steps: number;
+}
+
+/** NFTs the challenge hands out when the result settles it */
+export interface NftTransfer {
+  address: string;
+  tokenIds: (number | bigint)[];
+  /** Per token id, who sent it to the challenge */
+  senders: string[];
+  /** ERC721 when true, ERC1155 otherwise */
+  erc721: boolean;
+}
+
+export interface DailyResultRequest {
+  challenge: string;
+  /** Oldest first */
+  readings: StepReading[];
+  /**
+   * First and last second of the day the latest reading was taken on, used
+   * to overwrite an earlier result for the same day. Derived from the
+   * latest reading and `utcOffsetMinutes` when omitted.
+   */
+  timeRange?: [number, number];
+  /** Offset of the challenger's time zone, e.g. 540 for JST */
+  utcOffsetMinutes?: number;
+  gachas?: string[];
+  nfts?: NftTransfer[];
+}
+
+export interface SignOptions {
+  /** Chain the signature is valid on (default: the signer's) */
+  chainId?: bigint;
+  /** Signing time in seconds (default: the latest block's timestamp) */
+  now?: number;
+  /** Seconds until the signature expires, at most STEP_SIGNATURE_TTL */
+  ttl?: number;
+}
+
+/** sendDailyResult's arguments, in order */
+export interface DailyResultArgs {
+  day: bigint[];
+  stepIndex: bigint[];
+  /** [signed at, expires at] */
+  data: [bigint, bigint];
+  signature: string;
+  listGachaAddress: string[];
+  listNFTAddress: string[];
+  listIndexNFT: bigint[][];
+  listSenderAddress: string[][];
+  statusTypeNft: boolean[];
+  timeRange: [bigint, bigint];
+}
+
+export interface SignedDailyResult {
+  challenge: string;
+  chainId: bigint;
+  signer: string;
+  /** Seconds; send before this */
+  expiresAt: number;
+  args: DailyResultArgs;
+}
+
+/** EIP-712 types checkValidStepReport verifies */
+export const STEP_REPORT_TYPES = {
+  StepReport: [
+    { name: 'challenge', type: 'address' },
+    { name: 'days', type: 'uint256[]' },
+    { name: 'steps', type: 'uint256[]' },
+    { name: 'expiry', type: 'uint64' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+/** The signed StepReport message */
+export interface StepReport {
+  challenge: string;
+  days: bigint[];
+  steps: bigint[];
+  expiry: bigint;
+  nonce: bigint;
+}
+
+export interface StepReportOptions extends SignOptions {
+  /** ExerciseSupplementNFT verifying the report (default: the challenge's) */
+  nft?: string;
+  /** Default: the challenge's next nonce on `nft` */
+  nonce?: bigint;
+}
+
+/** sendDailyReport's arguments, in order */
+export interface DailyReportArgs {
+  day: bigint[];
+  stepIndex: bigint[];
+  expiry: bigint;
+  nonce: bigint;
+  signature: string;
+  listGachaAddress: string[];
+  listNFTAddress: string[];
+  listIndexNFT: bigint[][];
+  listSenderAddress: string[][];
+  statusTypeNft: boolean[];
+  timeRange: [bigint, bigint];
+}
+
+export interface SignedStepReport {
+  challenge: string;
+  /** The verifying contract */
+  nft: string;
+  chainId: bigint;
+  signer: string;
+  /** Seconds; send before this */
+  expiresAt: number;
+  args: DailyReportArgs;
+}
+
+/** First and last second of the local day `timestamp` falls on */
+export function dayRange(
+  timestamp: number,
+  utcOffsetMinutes = 0
+): [number, number] {
+  const offset = utcOffsetMinutes * 60;
+  const start =
+    Math.floor((timestamp + offset) / SECONDS_PER_DAY) * SECONDS_PER_DAY -
+    offset;
+  return [start, start + SECONDS_PER_DAY - 1];
+}
+
+/** The digest checkValidSignature recovers the signer from, before EIP-191 */
+export function stepDataHash(
+  challenge: string,
+  day: bigint[],
+  stepIndex: bigint[],
+  data: [bigint, bigint],
+  chainId: bigint
+): string {
+  return solidityPackedKeccak256(
+    ['address', 'uint256[]', 'uint256[]', 'uint64[2]', 'uint256'],
+    [challenge, day, stepIndex, data, chainId]
+  );
+}
+
+/** Problems with a request, empty when signDailyResult can sign it */
+export function validateDailyResultRequest(
+  request: DailyResultRequest
+): string[] {
+  const errors: string[] = [];
+  if (typeof request.challenge !== 'string' || !isAddress(request.challenge)) {
+    errors.push('challenge must be an address');
+  }
+  if (!Array.isArray(request.readings) || request.readings.length === 0) {
+    errors.push('readings must be a non-empty array');
+  } else {
+    request.readings.forEach((reading, i) => {
+      if (!Number.isSafeInteger(reading?.day) || reading.day <= 0) {
+        errors.push(`readings[${i}].day must be a timestamp in seconds`);
+      } else if (i > 0 && reading.day <= request.readings[i - 1].day) {
+        errors.push(`readings[${i}].day must be after readings[${i - 1}].day`);
+      }
+      if (!Number.isSafeInteger(reading?.steps) || reading.steps < 0) {
+        errors.push(`readings[${i}].steps must be a non-negative integer`);
+      }
+    });
+  }
+  if (request.timeRange !== undefined) {
+    const [start, end] = (
+      Array.isArray(request.timeRange) ? request.timeRange : []
+    ) as number[];
+    if (
+      request.timeRange.length !== 2 ||
+      !Number.isSafeInteger(start) ||
+      !Number.isSafeInteger(end) ||
+      start > end
+    ) {
+      errors.push('timeRange must be [start, end] in seconds');
+    }
+  }
+  if (
+    request.utcOffsetMinutes !== undefined &&
+    (!Number.isInteger(request.utcOffsetMinutes) ||
+      Math.abs(request.utcOffsetMinutes) > 14 * 60)
+  ) {
+    errors.push('utcOffsetMinutes must be a whole number of minutes');
+  }
+  for (const [i, gacha] of (request.gachas ?? []).entries()) {
+    if (!isAddress(gacha)) {
+      errors.push(`gachas[${i}] must be an address`);
+    }
+  }
+  for (const [i, nft] of (request.nfts ?? []).entries()) {
+    if (!isAddress(nft?.address)) {
+      errors.push(`nfts[${i}].address must be an address`);
+    }
+    if (
+      !Array.isArray(nft?.tokenIds) ||
+      !Array.isArray(nft?.senders) ||
+      nft.tokenIds.length !== nft.senders.length
+    ) {
+      errors.push(`nfts[${i}] needs one sender per token id`);
+    } else if (!nft.senders.every(sender => isAddress(sender))) {
+      errors.push(`nfts[${i}].senders must be addresses`);
+    }
+    if (typeof nft?.erc721 !== 'boolean') {
+      errors.push(`nfts[${i}].erc721 must be true or false`);
+    }
+  }
+  return errors;
+}
+
+/** Validate a request and resolve everything both signatures cover */
+async function prepareSigning(
+  signer: Signer,
+  request: DailyResultRequest,
+  options: SignOptions
+) {
+  const errors = validateDailyResultRequest(request);
+  const ttl = options.ttl ?? STEP_SIGNATURE_TTL;
+  if (!Number.isInteger(ttl) || ttl <= 0 || ttl > STEP_SIGNATURE_TTL) {
+    errors.push(`ttl must be between 1 and ${STEP_SIGNATURE_TTL} seconds`);
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid step data:\n  ${errors.join('\n  ')}`);
+  }
+
+  let { chainId, now } = options;
+  if (chainId === undefined || now === undefined) {
+    const provider = signer.provider;
+    if (!provider) {
+      throw new Error(
+        'Step signer must be connected to a provider, or be given chainId and now'
+      );
+    }
+    chainId ??= (await provider.getNetwork()).chainId;
+    now ??= (await provider.getBlock('latest'))!.timestamp;
+  }
+
+  const readings = request.readings;
+  const [start, end] =
+    request.timeRange ??
+    dayRange(readings[readings.length - 1].day, request.utcOffsetMinutes);
+  const nfts = request.nfts ?? [];
+  return {
+    challenge: getAddress(request.challenge),
+    chainId,
+    now,
+    expiresAt: now + ttl,
+    day: readings.map(reading => BigInt(reading.day)),
+    stepIndex: readings.map(reading => BigInt(reading.steps)),
+    // Arguments after the signature, shared by both send functions
+    settlement: {
+      listGachaAddress: (request.gachas ?? []).map(gacha => getAddress(gacha)),
+      listNFTAddress: nfts.map(nft => getAddress(nft.address)),
+      listIndexNFT: nfts.map(nft => nft.tokenIds.map(id => BigInt(id))),
+      listSenderAddress: nfts.map(nft =>
+        nft.senders.map(sender => getAddress(sender))
+      ),
+      statusTypeNft: nfts.map(nft => nft.erc721),
+      timeRange: [BigInt(start), BigInt(end)] as [bigint, bigint],
+    },
+  };
+}
+
+/**
+ * Build and sign the step data for one sendDailyResult call
+ */
+export async function signDailyResult(
+  signer: Signer,
+  request: DailyResultRequest,
+  options: SignOptions = {}
+): Promise<SignedDailyResult> {
+  const { challenge, chainId, now, expiresAt, day, stepIndex, settlement } =
+    await prepareSigning(signer, request, options);
+  const data: [bigint, bigint] = [BigInt(now), BigInt(expiresAt)];
+  const signature = await signer.signMessage(
+    getBytes(stepDataHash(challenge, day, stepIndex, data, chainId))
+  );
+
+  return {
+    challenge,
+    chainId,
+    signer: await signer.getAddress(),
+    expiresAt,
+    args: { day, stepIndex, data, signature, ...settlement },
+  };
+}
+
+/** Address that signed `result`, as checkValidSignature would recover it */
+export function recoverStepSigner(result: SignedDailyResult): string {
+  const { day, stepIndex, data, signature } = result.args;
+  return verifyMessage(
+    getBytes(
+      stepDataHash(result.challenge, day, stepIndex, data, result.chainId)
+    ),
+    signature
+  );
+}
+
+/**
+ * Send a signed result from the challenger. Fails on-chain once the
+ * signature expired or was already used.
+ */
+export async function sendDailyResult(
+  challenge: ChallengeDetailV2,
+  result: SignedDailyResult
+): Promise<ContractTransactionReceipt> {
+  const address = await challenge.getAddress();
+  if (address.toLowerCase() !== result.challenge.toLowerCase()) {
+    throw new Error(
+      `Result was signed for challenge ${result.challenge}, not ${address}`
+    );
+  }
+  const { args } = result;
+  return confirm(
+    challenge.sendDailyResult(
+      args.day,
+      args.stepIndex,
+      args.data,
+      args.signature,
+      args.listGachaAddress,
+      args.listNFTAddress,
+      args.listIndexNFT,
+      args.listSenderAddress,
+      args.statusTypeNft,
+      args.timeRange
+    )
+  );
+}
+
+/** EIP-712 domain of the ExerciseSupplementNFT at `nft` */
+export function stepReportDomain(
+  nft: string,
+  chainId: bigint
+): TypedDataDomain {
+  return {
+    name: 'ExerciseSupplementNFT',
+    version: '1',
+    chainId,
+    verifyingContract: getAddress(nft),
+  };
+}
+
+/** The StepReport message `result` was signed over */
+export function stepReport(result: SignedStepReport): StepReport {
+  const { day, stepIndex, expiry, nonce } = result.args;
+  return {
+    challenge: result.challenge,
+    days: day,
+    steps: stepIndex,
+    expiry,
+    nonce,
+  };
+}
+
+/**
+ * Build and sign the step data for one sendDailyReport call as an EIP-712
+ * StepReport. Unless given, the verifying NFT and the nonce are read from the
+ * chain, so a report signed before another one is sent becomes invalid.
+ */
+export async function signStepReport(
+  signer: Signer,
+  request: DailyResultRequest,
+  options: StepReportOptions = {}
+): Promise<SignedStepReport> {
+  const { challenge, chainId, expiresAt, day, stepIndex, settlement } =
+    await prepareSigning(signer, request, options);
+
+  let { nft, nonce } = options;
+  if (nft === undefined || nonce === undefined) {
+    const provider = signer.provider;
+    if (!provider) {
+      throw new Error(
+        'Step signer must be connected to a provider, or be given nft and nonce'
+      );
+    }
+    nft ??= await ChallengeDetailV2__factory.connect(
+      challenge,
+      provider
+    ).erc721Address(0);
+    nonce ??= await ExerciseSupplementNFT__factory.connect(
+      nft,
+      provider
+    ).stepReportNonces(challenge);
+  }
+
+  const report: StepReport = {
+    challenge,
+    days: day,
+    steps: stepIndex,
+    expiry: BigInt(expiresAt),
+    nonce,
+  };
+  const signature = await signer.signTypedData(
+    stepReportDomain(nft, chainId),
+    STEP_REPORT_TYPES,
+    report
+  );
+
+  return {
+    challenge,
+    nft: getAddress(nft),
+    chainId,
+    signer: await signer.getAddress(),
+    expiresAt,
+    args: {
+      day,
+      stepIndex,
+      expiry: report.expiry,
+      nonce,
+      signature,
+      ...settlement,
+    },
+  };
+}
+
+/** Address that signed `result`, as checkValidStepReport would recover it */
+export function verifyStepReport(result: SignedStepReport): string {
+  return verifyTypedData(
+    stepReportDomain(result.nft, result.chainId),
+    STEP_REPORT_TYPES,
+    stepReport(result),
+    result.args.signature
+  );
+}
+
+/**
+ * Send a signed StepReport from the challenger. Fails on-chain once the
+ * signature expired or the challenge's nonce moved on.
+ */
+export async function sendDailyReport(
+  challenge: ChallengeDetailV2,
+  result: SignedStepReport
+): Promise<ContractTransactionReceipt> {
+  const address = await challenge.getAddress();
+  if (address.toLowerCase() !== result.challenge.toLowerCase()) {
+    throw new Error(
+      `Report was signed for challenge ${result.challenge}, not ${address}`
+    );
+  }
+  const { args } = result;
+  return confirm(
+    challenge.sendDailyReport(
+      args.day,
+      args.stepIndex,
+      args.expiry,
+      args.nonce,
+      args.signature,
+      args.listGachaAddress,
+      args.listNFTAddress,
+      args.listIndexNFT,
+      args.listSenderAddress,
+      args.statusTypeNft,
+      args.timeRange
+    )
+  );
+}
@@ -0,0 +1,351 @@
+import { ContractTransactionReceipt, ZeroAddress } from 'ethers';
+import { IAavePool__factory, PolygonDeFiAggregator } from '../typechain-types';
+import {
+  ADAPTER_CONTRACTS,
+  deployAdapter,
+  DeployedAdapter,
+  getAdapterInfo,
+} from './adapters';
+import {
+  addProtocol,
+  addSupportedToken,
+  setProtocolStatus,
+  setTokenStatus,
+  updateProtocolAPY,
+} from './aggregator';
+import { DeploymentConfig } from './config';
+
+export type SyncAction =
+  | {
+      type: 'addSupportedToken';
+      token: string;
+      symbol: string;
+      decimals: number;
+    }
+  | {
+      type: 'addProtocol';
+      protocol: string;
+      contractAddress: string;
+      protocolType: 'liquid' | 'lending' | 'compound';
+      /** Existing adapter to register; a new one is deployed when missing */
+      adapter?: string;
+      apy: number;
+    }
+  | { type: 'updateProtocolAPY'; protocol: string; from: number; to: number }
+  | { type: 'setTokenStatus'; token: string; symbol: string; isActive: boolean }
+  | { type: 'setProtocolStatus'; protocol: string; isActive: boolean };
+
+export interface SyncPlan {
+  actions: SyncAction[];
+  /** Drift that the contract offers no call to fix */
+  warnings: string[];
+}
+
+export interface SyncOptions {
+  /** Deactivate tokens and protocols that are on-chain but not in config */
+  prune?: boolean;
+}
+
+export interface AppliedSyncAction {
+  action: SyncAction;
+  receipt: ContractTransactionReceipt;
+  /** Adapter deployed for an addProtocol action */
+  adapter?: DeployedAdapter;
+}
+
+const UNENFORCED_TOKEN_FIELDS = ['maxStakeAmount'] as const;
+const UNENFORCED_PROTOCOL_FIELDS = [
+  'rewardToken',
+  'maxTVL',
+  'isVerified',
+] as const;
+
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Diff the desired config against the aggregator and return the calls needed
+ * to converge. Running the plan and planning again yields no actions.
+ */
+export async function planSync(
+  aggregator: PolygonDeFiAggregator,
+  config: DeploymentConfig,
+  options: SyncOptions = {}
+): Promise<SyncPlan> {
+  const actions: SyncAction[] = [];
+  const warnings: string[] = [];
+
+  // ===== TOKENS =====
+
+  const tokens = await aggregator.getAllSupportedTokens();
+  for (const desired of config.supportedTokens) {
+    const wantActive = desired.isActive ?? true;
+    const index = tokens.addresses.findIndex(a => same(a, desired.address));
+
+    for (const field of UNENFORCED_TOKEN_FIELDS) {
+      if (desired[field] !== undefined) {
+        warnings.push(
+          `token ${desired.symbol}: ${field} is not enforced on-chain and is ignored`
+        );
+      }
+    }
+
+    if (index === -1) {
+      if (wantActive) {
+        actions.push({
+          type: 'addSupportedToken',
+          token: desired.address,
+          symbol: desired.symbol,
+          decimals: desired.decimals,
+        });
+      }
+      continue;
+    }
+
+    if (
+      tokens.symbols[index] !== desired.symbol ||
+      Number(tokens.decimals[index]) !== desired.decimals
+    ) {
+      warnings.push(
+        `token ${desired.address}: on-chain ${tokens.symbols[index]}/${tokens.decimals[index]} differs from config ${desired.symbol}/${desired.decimals} and cannot be changed`
+      );
+    }
+    if (tokens.activeStatus[index] !== wantActive) {
+      actions.push({
+        type: 'setTokenStatus',
+        token: desired.address,
+        symbol: desired.symbol,
+        isActive: wantActive,
+      });
+    }
+  }
+
+  tokens.addresses.forEach((address, i) => {
+    if (config.supportedTokens.some(t => same(t.address, address))) {
+      return;
+    }
+    if (options.prune && tokens.activeStatus[i]) {
+      actions.push({
+        type: 'setTokenStatus',
+        token: address,
+        symbol: tokens.symbols[i],
+        isActive: false,
+      });
+    } else if (tokens.activeStatus[i]) {
+      warnings.push(`token ${tokens.symbols[i]} is active but not in config`);
+    }
+  });
+
+  // ===== PROTOCOLS =====
+
+  const protocols = await aggregator.getAllProtocols();
+  for (const desired of config.protocols) {
+    const wantActive = desired.isActive ?? true;
+    const wantAPY = desired.apy ?? desired.initialAPY;
+    const index = protocols.names.indexOf(desired.name);
+
+    for (const field of UNENFORCED_PROTOCOL_FIELDS) {
+      if (desired[field] !== undefined) {
+        warnings.push(
+          `protocol ${desired.name}: ${field} is not enforced on-chain and is ignored`
+        );
+      }
+    }
+
+    if (index === -1) {
+      if (wantActive) {
+        actions.push({
+          type: 'addProtocol',
+          protocol: desired.name,
+          contractAddress: desired.contractAddress,
+          protocolType: desired.protocolType,
+          adapter: desired.adapter,
+          apy: wantAPY,
+        });
+      }
+      continue;
+    }
+
+    // contractAddress on-chain is the adapter; the config names its pool
+    const onChain = await aggregator.protocols(desired.name);
+    const adapter = await getAdapterInfo(
+      onChain.contractAddress,
+      aggregator.runner
+    );
+    if (
+      !same(adapter.pool, desired.contractAddress) ||
+      adapter.protocolType !== desired.protocolType ||
+      (desired.adapter !== undefined && !same(adapter.address, desired.adapter))
+    ) {
+      warnings.push(
+        `protocol ${desired.name}: on-chain ${adapter.protocolType} adapter ${adapter.address} for ${adapter.pool} differs from config and cannot be changed`
+      );
+    }
+
+    // updateProtocolAPY only works on active protocols, so enable first and
+    // disable last
+    const isActive = protocols.activeStatus[index];
+    const currentAPY = Number(protocols.apys[index]);
+    if (!isActive && wantActive) {
+      actions.push({
+        type: 'setProtocolStatus',
+        protocol: desired.name,
+        isActive: true,
+      });
+    }
+    if (currentAPY !== wantAPY) {
+      if (isActive || wantActive) {
+        actions.push({
+          type: 'updateProtocolAPY',
+          protocol: desired.name,
+          from: currentAPY,
+          to: wantAPY,
+        });
+      } else {
+        warnings.push(
+          `protocol ${desired.name}: APY ${currentAPY} differs from config ${wantAPY} but cannot be updated while inactive`
+        );
+      }
+    }
+    if (isActive && !wantActive) {
+      actions.push({
+        type: 'setProtocolStatus',
+        protocol: desired.name,
+        isActive: false,
+      });
+    }
+  }
+
+  // ===== LENDING RESERVES =====
+
+  for (const desired of config.protocols) {
+    if (!desired.assets || desired.protocolType !== 'lending') {
+      continue;
+    }
+    const pool = IAavePool__factory.connect(
+      desired.contractAddress,
+      aggregator.runner
+    );
+    for (const asset of desired.assets) {
+      const { aTokenAddress } = await pool.getReserveData(asset);
+      if (aTokenAddress === ZeroAddress) {
+        const symbol =
+          config.supportedTokens.find(t => same(t.address, asset))?.symbol ??
+          asset;
+        warnings.push(
+          `protocol ${desired.name}: no reserve for ${symbol}, staking it will revert`
+        );
+      }
+    }
+  }
+
+  protocols.names.forEach((name, i) => {
+    if (config.protocols.some(p => p.name === name)) {
+      return;
+    }
+    if (options.prune && protocols.activeStatus[i]) {
+      actions.push({
+        type: 'setProtocolStatus',
+        protocol: name,
+        isActive: false,
+      });
+    } else if (protocols.activeStatus[i]) {
+      warnings.push(`protocol ${name} is active but not in config`);
+    }
+  });
+
+  return { actions, warnings };
+}
+
+/**
+ * One-line, Terraform-style description of a planned action
+ */
+export function describeSyncAction(action: SyncAction): string {
+  switch (action.type) {
+    case 'addSupportedToken':
+      return `+ addSupportedToken ${action.symbol} (${action.token}, ${action.decimals} decimals)`;
+    case 'addProtocol':
+      return `+ addProtocol ${action.protocol} (${action.protocolType} at ${action.contractAddress} via ${action.adapter ?? `new ${ADAPTER_CONTRACTS[action.protocolType]}`}, APY ${action.apy})`;
+    case 'updateProtocolAPY':
+      return `~ updateProtocolAPY ${action.protocol}: ${action.from} → ${action.to}`;
+    case 'setTokenStatus':
+      return `~ setTokenStatus ${action.symbol}: ${action.isActive ? 'inactive → active' : 'active → inactive'}`;
+    case 'setProtocolStatus':
+      return `~ setProtocolStatus ${action.protocol}: ${action.isActive ? 'inactive → active' : 'active → inactive'}`;
+  }
+}
+
+async function applyAction(
+  aggregator: PolygonDeFiAggregator,
+  action: SyncAction
+): Promise<Omit<AppliedSyncAction, 'action'>> {
+  switch (action.type) {
+    case 'addSupportedToken':
+      return {
+        receipt: await addSupportedToken(
+          aggregator,
+          action.token,
+          action.symbol,
+          action.decimals
+        ),
+      };
+    case 'addProtocol': {
+      const adapter = action.adapter
+        ? undefined
+        : await deployAdapter(
+            aggregator,
+            action.protocolType,
+            action.contractAddress
+          );
+      const receipt = await addProtocol(aggregator, {
+        name: action.protocol,
+        adapter: action.adapter ?? adapter!.address,
+        apy: action.apy,
+      });
+      return { receipt, adapter };
+    }
+    case 'updateProtocolAPY':
+      return {
+        receipt: await updateProtocolAPY(
+          aggregator,
+          action.protocol,
+          action.to
+        ),
+      };
+    case 'setTokenStatus':
+      return {
+        receipt: await setTokenStatus(
+          aggregator,
+          action.token,
+          action.isActive
+        ),
+      };
+    case 'setProtocolStatus':
+      return {
+        receipt: await setProtocolStatus(
+          aggregator,
+          action.protocol,
+          action.isActive
+        ),
+      };
+  }
+}
+
+/**
+ * Execute a plan in order, deploying adapters for new protocols. Stops at the
+ * first failing call; since planning is idempotent, re-running the sync picks
+ * up where it left off (an adapter deployed before a failed addProtocol is
+ * left unused).
+ */
+export async function applySync(
+  aggregator: PolygonDeFiAggregator,
+  plan: SyncPlan,
+  onApplied?: (applied: AppliedSyncAction) => void
+): Promise<AppliedSyncAction[]> {
+  const applied: AppliedSyncAction[] = [];
+  for (const action of plan.actions) {
+    const result = { action, ...(await applyAction(aggregator, action)) };
+    applied.push(result);
+    onApplied?.(result);
+  }
+  return applied;
+}
@@ -0,0 +1,555 @@
+import {
+  AbiCoder,
+  getAddress,
+  Provider,
+  Signer,
+  TransactionReceipt,
+} from 'ethers';
+import type { Artifacts } from 'hardhat/types';
+import {
+  ERC1967Proxy__factory,
+  PolygonDeFiAggregator__factory,
+  ProxyAdmin__factory,
+  TransparentPolygonDeFiAggregator__factory,
+  TransparentUpgradeableProxy__factory,
+} from '../typechain-types';
+import { Deployment } from './deployment';
+
+/**
+ * Proxy deployments of the aggregator. Behind a proxy the aggregator's state
+ * lives in the proxy, so an upgrade is only safe if the new implementation
+ * keeps every existing variable where the previous one had it. The storage
+ * layout of each implementation is recorded in the deployment registry and
+ * checked before an upgrade is proposed.
+ */
+
+export type ProxyKind = 'uups' | 'transparent';
+
+export const PROXY_KINDS: ProxyKind[] = ['uups', 'transparent'];
+
+export const AGGREGATOR_SOURCE =
+  'contracts/PolygonDeFiAggregator.sol:PolygonDeFiAggregator';
+
+/** ERC-1967 slots, keccak256('eip1967.proxy.implementation') - 1 and admin */
+export const IMPLEMENTATION_SLOT =
+  '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+export const ADMIN_SLOT =
+  '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+
+export interface StorageVariable {
+  label: string;
+  slot: number;
+  offset: number;
+  /** Type id, without the compiler's AST ids so layouts of builds compare */
+  type: string;
+}
+
+export interface StorageType {
+  label: string;
+  encoding: string;
+  numberOfBytes: number;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: StorageVariable[];
+}
+
+export interface StorageLayout {
+  storage: StorageVariable[];
+  types: { [type: string]: StorageType };
+}
+
+/** An implementation behind a proxy, as recorded in the registry */
+export interface ImplementationRecord {
+  address: string;
+  txHash?: string;
+  blockNumber?: number;
+  deployedAt: string;
+  storageLayout: StorageLayout;
+}
+
+export interface ProxyDeployment {
+  kind: ProxyKind;
+  address: string;
+  /** ProxyAdmin contract of a transparent proxy */
+  admin?: string;
+  txHash: string;
+  blockNumber: number;
+  /** Proxy constructor arguments, for block explorer verification */
+  constructorArgs: string[];
+  implementation: ImplementationRecord;
+}
+
+export interface UpgradePlan {
+  proxy: string;
+  kind: ProxyKind;
+  /** Implementation the proxy points at now */
+  current: string;
+  previousLayout: StorageLayout;
+  /** Why the new layout is unsafe; empty if the upgrade can go ahead */
+  problems: string[];
+}
+
+export interface UpgradeCall {
+  /** The proxy for UUPS, the ProxyAdmin for transparent proxies */
+  to: string;
+  data: string;
+  /** Account allowed to send the call */
+  from: string;
+}
+
+// ===== STORAGE LAYOUTS =====
+
+interface SolcStorageVariable {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+interface SolcStorageType {
+  label: string;
+  encoding: string;
+  numberOfBytes: string;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: SolcStorageVariable[];
+}
+
+/** t_struct(Info)123_storage → t_struct(Info)_storage */
+function normalizeTypeId(type: string): string {
+  return type.replace(
+    /(t_(?:struct|enum|contract|userDefinedValueType)\([^)]*\))\d+/g,
+    '$1'
+  );
+}
+
+function normalizeVariable(variable: SolcStorageVariable): StorageVariable {
+  return {
+    label: variable.label,
+    slot: Number(variable.slot),
+    offset: variable.offset,
+    type: normalizeTypeId(variable.type),
+  };
+}
+
+/** Compact a solc `storageLayout` output */
+export function normalizeStorageLayout(layout: {
+  storage: SolcStorageVariable[];
+  types: { [type: string]: SolcStorageType } | null;
+}): StorageLayout {
+  const types: StorageLayout['types'] = {};
+  for (const [id, type] of Object.entries(layout.types ?? {})) {
+    types[normalizeTypeId(id)] = {
+      label: type.label,
+      encoding: type.encoding,
+      numberOfBytes: Number(type.numberOfBytes),
+      ...(type.key && { key: normalizeTypeId(type.key) }),
+      ...(type.value && { value: normalizeTypeId(type.value) }),
+      ...(type.base && { base: normalizeTypeId(type.base) }),
+      ...(type.members && { members: type.members.map(normalizeVariable) }),
+    };
+  }
+  return { storage: layout.storage.map(normalizeVariable), types };
+}
+
+/**
+ * Storage layout of a compiled contract, from its build info (the compiler
+ * settings request `storageLayout` output for every contract)
+ */
+export async function readStorageLayout(
+  artifacts: Artifacts,
+  fullyQualifiedName: string = AGGREGATOR_SOURCE
+): Promise<StorageLayout> {
+  const [source, name] = fullyQualifiedName.split(':');
+  const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName);
+  const output = buildInfo?.output.contracts[source]?.[name] as
+    | { storageLayout?: Parameters<typeof normalizeStorageLayout>[0] }
+    | undefined;
+  if (!output?.storageLayout) {
+    throw new Error(
+      `No storage layout in the build info of ${fullyQualifiedName}; recompile with \`npx hardhat compile --force\``
+    );
+  }
+  return normalizeStorageLayout(output.storageLayout);
+}
+
+/**
+ * Problems with storing `next` where `previous` was stored. Struct members
+ * may only be appended where the struct has a slot range of its own, i.e. as
+ * a mapping value.
+ */
+function compareTypes(
+  previous: StorageLayout,
+  next: StorageLayout,
+  previousType: string,
+  nextType: string,
+  where: string,
+  canGrow: boolean
+): string[] {
+  const before = previous.types[previousType];
+  const after = next.types[nextType];
+  if (!before || !after) {
+    return previousType === nextType
+      ? []
+      : [`${where}: type changed from ${previousType} to ${nextType}`];
+  }
+  const changed = `${where}: type changed from ${before.label} to ${after.label}`;
+  if (before.encoding !== after.encoding) {
+    return [changed];
+  }
+
+  switch (before.encoding) {
+    case 'mapping':
+      if (before.key !== after.key) {
+        return [changed];
+      }
+      return compareTypes(
+        previous,
+        next,
+        before.value!,
+        after.value!,
+        `${where}[]`,
+        true
+      );
+    case 'dynamic_array':
+      return compareTypes(
+        previous,
+        next,
+        before.base!,
+        after.base!,
+        `${where}[]`,
+        false
+      );
+    case 'bytes':
+      return [];
+    default:
+      if (before.members && after.members) {
+        if (!canGrow && before.numberOfBytes !== after.numberOfBytes) {
+          return [
+            `${where}: ${before.label} changed size; its members can only be appended where it is a mapping value`,
+          ];
+        }
+        return compareVariables(
+          previous,
+          next,
+          before.members,
+          after.members,
+          `${where}.`
+        );
+      }
+      if (before.members || after.members) {
+        return [changed];
+      }
+      if (before.base !== undefined || after.base !== undefined) {
+        // Fixed-size arrays
+        if (before.numberOfBytes !== after.numberOfBytes) {
+          return [changed];
+        }
+        return compareTypes(
+          previous,
+          next,
+          before.base!,
+          after.base!,
+          `${where}[]`,
+          false
+        );
+      }
+      // Enums may gain values as long as they fit the same bytes
+      if (
+        before.numberOfBytes !== after.numberOfBytes ||
+        (before.label !== after.label && !previousType.startsWith('t_enum('))
+      ) {
+        return [changed];
+      }
+      return [];
+  }
+}
+
+/** Byte position of a variable in storage, for ordering */
+function position(variable: StorageVariable): number {
+  return variable.slot * 32 + variable.offset;
+}
+
+/**
+ * Variables are matched by name, or by position for renames. Variables new
+ * in `after` must start past the end of `before`.
+ */
+function compareVariables(
+  previous: StorageLayout,
+  next: StorageLayout,
+  before: StorageVariable[],
+  after: StorageVariable[],
+  prefix: string
+): string[] {
+  const problems: string[] = [];
+  const previousLabels = new Set(before.map(variable => variable.label));
+  const matched = new Set<StorageVariable>();
+
+  for (const variable of before) {
+    const name = `${prefix}${variable.label}`;
+    const replacement =
+      after.find(v => v.label === variable.label) ??
+      after.find(
+        v => position(v) === position(variable) && !previousLabels.has(v.label)
+      );
+    if (!replacement) {
+      problems.push(`${name}: removed from slot ${variable.slot}`);
+      continue;
+    }
+    matched.add(replacement);
+    if (position(replacement) !== position(variable)) {
+      problems.push(
+        `${name}: moved from slot ${variable.slot} (offset ${variable.offset}) to slot ${replacement.slot} (offset ${replacement.offset})`
+      );
+      continue;
+    }
+    if (replacement.label !== variable.label) {
+      problems.push(
+        `${name}: renamed to ${prefix}${replacement.label} in slot ${variable.slot}`
+      );
+    }
+    problems.push(
+      ...compareTypes(
+        previous,
+        next,
+        variable.type,
+        replacement.type,
+        name,
+        false
+      )
+    );
+  }
+
+  const end = Math.max(
+    0,
+    ...before.map(
+      v => position(v) + (previous.types[v.type]?.numberOfBytes ?? 32)
+    )
+  );
+  for (const variable of after) {
+    if (!matched.has(variable) && position(variable) < end) {
+      problems.push(
+        `${prefix}${variable.label}: added in slot ${variable.slot}, before the end of the previous layout; new variables can only be appended`
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * Check that `next` keeps every variable of `previous` in place with a
+ * compatible type. New variables may only be appended.
+ */
+export function compareStorageLayouts(
+  previous: StorageLayout,
+  next: StorageLayout
+): string[] {
+  return compareVariables(previous, next, previous.storage, next.storage, '');
+}
+
+// ===== PROXIES =====
+
+async function readAddressSlot(
+  provider: Provider,
+  address: string,
+  slot: string
+): Promise<string> {
+  const value = await provider.getStorage(address, slot);
+  return getAddress(AbiCoder.defaultAbiCoder().decode(['address'], value)[0]);
+}
+
+/** Implementation an ERC-1967 proxy delegates to */
+export function getImplementationAddress(
+  provider: Provider,
+  proxy: string
+): Promise<string> {
+  return readAddressSlot(provider, proxy, IMPLEMENTATION_SLOT);
+}
+
+/** ProxyAdmin of a transparent proxy */
+export function getProxyAdminAddress(
+  provider: Provider,
+  proxy: string
+): Promise<string> {
+  return readAddressSlot(provider, proxy, ADMIN_SLOT);
+}
+
+function providerOf(signer: Signer): Provider {
+  if (!signer.provider) {
+    throw new Error('Signer must be connected to a provider');
+  }
+  return signer.provider;
+}
+
+/**
+ * Deploy an aggregator implementation for a `kind` proxy. Its own state is
+ * unused: the constructor disables initialize on it. Transparent proxies get
+ * TransparentPolygonDeFiAggregator, which leaves upgrades to the ProxyAdmin.
+ */
+export async function deployAggregatorImplementation(
+  signer: Signer,
+  storageLayout: StorageLayout,
+  kind: ProxyKind = 'uups'
+): Promise<ImplementationRecord> {
+  const implementation =
+    kind === 'transparent'
+      ? await new TransparentPolygonDeFiAggregator__factory(signer).deploy()
+      : await new PolygonDeFiAggregator__factory(signer).deploy();
+  const receipt = await implementation.deploymentTransaction()?.wait();
+  if (!receipt) {
+    throw new Error(
+      'Implementation deployment was dropped before confirmation'
+    );
+  }
+  return {
+    address: await implementation.getAddress(),
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    deployedAt: new Date().toISOString(),
+    storageLayout,
+  };
+}
+
+/**
+ * Deploy an aggregator implementation and a proxy in front of it, initialized
+ * for `owner` (the signer by default). A transparent proxy deploys its own
+ * ProxyAdmin, also owned by `owner`.
+ */
+export async function deployAggregatorProxy(
+  signer: Signer,
+  params: { kind: ProxyKind; storageLayout: StorageLayout; owner?: string }
+): Promise<ProxyDeployment> {
+  if (!PROXY_KINDS.includes(params.kind)) {
+    throw new Error(
+      `Unknown proxy kind "${params.kind}". Expected one of: ${PROXY_KINDS.join(', ')}`
+    );
+  }
+  const owner = params.owner ?? (await signer.getAddress());
+  const implementation = await deployAggregatorImplementation(
+    signer,
+    params.storageLayout,
+    params.kind
+  );
+  const initData =
+    PolygonDeFiAggregator__factory.createInterface().encodeFunctionData(
+      'initialize',
+      [owner]
+    );
+
+  const constructorArgs =
+    params.kind === 'uups'
+      ? [implementation.address, initData]
+      : [implementation.address, owner, initData];
+  const proxy =
+    params.kind === 'uups'
+      ? await new ERC1967Proxy__factory(signer).deploy(
+          implementation.address,
+          initData
+        )
+      : await new TransparentUpgradeableProxy__factory(signer).deploy(
+          implementation.address,
+          owner,
+          initData
+        );
+  const receipt = await proxy.deploymentTransaction()?.wait();
+  if (!receipt) {
+    throw new Error('Proxy deployment was dropped before confirmation');
+  }
+
+  const address = await proxy.getAddress();
+  return {
+    kind: params.kind,
+    address,
+    ...(params.kind === 'transparent' && {
+      admin: await getProxyAdminAddress(providerOf(signer), address),
+    }),
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    constructorArgs,
+    implementation,
+  };
+}
+
+// ===== UPGRADES =====
+
+/**
+ * Check `nextLayout` against the layout recorded for the implementation the
+ * proxy points at now
+ */
+export async function planUpgrade(
+  provider: Provider,
+  deployment: Deployment,
+  nextLayout: StorageLayout
+): Promise<UpgradePlan> {
+  if (!deployment.proxy) {
+    throw new Error(
+      `${deployment.contractName} at ${deployment.address} is not deployed behind a proxy`
+    );
+  }
+  const current = await getImplementationAddress(provider, deployment.address);
+  const recorded = deployment.implementations?.find(
+    implementation =>
+      implementation.address.toLowerCase() === current.toLowerCase()
+  );
+  if (!recorded) {
+    throw new Error(
+      `Implementation ${current} behind ${deployment.address} is not recorded in the deployment registry, so its storage layout is unknown`
+    );
+  }
+  return {
+    proxy: deployment.address,
+    kind: deployment.proxy.kind,
+    current,
+    previousLayout: recorded.storageLayout,
+    problems: compareStorageLayouts(recorded.storageLayout, nextLayout),
+  };
+}
+
+/** The call that points the proxy at `implementation`, and who may send it */
+export async function buildUpgradeCall(
+  provider: Provider,
+  plan: UpgradePlan,
+  implementation: string
+): Promise<UpgradeCall> {
+  if (plan.kind === 'uups') {
+    const aggregator = PolygonDeFiAggregator__factory.connect(
+      plan.proxy,
+      provider
+    );
+    return {
+      to: plan.proxy,
+      data: aggregator.interface.encodeFunctionData('upgradeToAndCall', [
+        implementation,
+        '0x',
+      ]),
+      from: await aggregator.owner(),
+    };
+  }
+  const admin = ProxyAdmin__factory.connect(
+    await getProxyAdminAddress(provider, plan.proxy),
+    provider
+  );
+  return {
+    to: await admin.getAddress(),
+    data: admin.interface.encodeFunctionData('upgradeAndCall', [
+      plan.proxy,
+      implementation,
+      '0x',
+    ]),
+    from: await admin.owner(),
+  };
+}
+
+export async function executeUpgrade(
+  signer: Signer,
+  call: UpgradeCall
+): Promise<TransactionReceipt> {
+  const tx = await signer.sendTransaction({ to: call.to, data: call.data });
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error('Transaction was dropped before confirmation');
+  }
+  return receipt;
+}
@@ -0,0 +1,215 @@
+import { types } from 'hardhat/config';
+import { getAggregator, requireAction, staking } from './scope';
+import { formatTimestamp, output, parseDuration, resolveToken } from './utils';
+
+/** `address:percent` pairs, e.g. "0xabc…:98" */
+function parseAwards(value: string) {
+  return value.split(',').map(pair => {
+    const [receiver, percent] = pair.split(':').map(part => part.trim());
+    return { receiver, percent: Number(percent) };
+  });
+}
+
+staking
+  .task('challenges', 'Deploy the challenge factory and create challenges')
+  .addOptionalPositionalParam('action', 'create | deploy-factory', 'create')
+  .addOptionalParam('nft', 'ExerciseSupplementNFT address (deploy-factory)')
+  .addOptionalParam('factory', 'ChallengeFactory address override')
+  .addOptionalParam('challenger', 'Challenger address (create)')
+  .addOptionalParam('feeAddress', 'Fee stakeholder address (create)')
+  .addOptionalParam(
+    'startsIn',
+    'Delay before the challenge starts, e.g. 10m, 1d (create)',
+    '10m'
+  )
+  .addOptionalParam('days', 'Challenge length in days (create)', 10, types.int)
+  .addOptionalParam('goal', 'Steps per day (create)', 5000, types.int)
+  .addOptionalParam(
+    'daysRequired',
+    'Days that must reach the goal (create)',
+    7,
+    types.int
+  )
+  .addOptionalParam(
+    'amount',
+    'Deposit in token units, gas fee included (create)'
+  )
+  .addOptionalParam('token', 'ERC20 symbol or address; native MATIC if unset')
+  .addOptionalParam('protocol', 'Protocol to stake on', 'aave_lending')
+  .addOptionalParam(
+    'gasFee',
+    'MATIC paid to the challenger out of the deposit (create)',
+    '0'
+  )
+  .addOptionalParam(
+    'success',
+    'address:percent receivers on success, comma-separated (create)'
+  )
+  .addOptionalParam(
+    'failure',
+    'address:percent receivers on failure, comma-separated (create)'
+  )
+  .addFlag('allowGiveUp', 'Let the challenger give up (create)')
+  .addFlag('dryRun', 'Simulate the creation without sending it (create)')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: {
+        action: string;
+        nft?: string;
+        factory?: string;
+        challenger?: string;
+        feeAddress?: string;
+        startsIn: string;
+        days: number;
+        goal: number;
+        daysRequired: number;
+        amount?: string;
+        token?: string;
+        protocol: string;
+        gasFee: string;
+        success?: string;
+        failure?: string;
+        allowGiveUp: boolean;
+        dryRun: boolean;
+        json: boolean;
+      },
+      hre
+    ) => {
+      requireAction(args.action, ['create', 'deploy-factory']);
+      const {
+        connectAggregator,
+        connectChallengeFactory,
+        createChallenge,
+        deployChallengeFactory,
+        isEphemeralNetwork,
+        loadAggregatorDeployment,
+        recordDeployment,
+        resolveDeployment,
+        setChallengeFactory,
+        simulateChallenge,
+      } = await import('../sdk');
+      const [signer] = await hre.ethers.getSigners();
+
+      if (args.action === 'deploy-factory') {
+        if (!args.nft) {
+          throw new Error('challenges deploy-factory requires --nft');
+        }
+        const aggregator = await loadAggregatorDeployment(hre.ethers.provider);
+        const deployed = await deployChallengeFactory(signer, {
+          aggregator: aggregator.address,
+          nft: args.nft,
+        });
+        // Challenges settle early, so their stakes must skip lock policies
+        const contract = connectAggregator(aggregator.address, signer);
+        const lockExempt = await contract.hasRole(
+          await contract.PROTOCOL_MANAGER_ROLE(),
+          signer.address
+        );
+        if (lockExempt) {
+          await setChallengeFactory(contract, deployed.address);
+        }
+        const { chainId } = await hre.ethers.provider.getNetwork();
+        const recorded = !isEphemeralNetwork(hre.network.name);
+        if (recorded) {
+          recordDeployment({
+            chainId: Number(chainId),
+            network: hre.network.name,
+            contractName: 'ChallengeFactory',
+            address: deployed.address,
+            deployer: signer.address,
+            txHash: deployed.txHash,
+            blockNumber: deployed.blockNumber,
+            constructorArgs: deployed.constructorArgs,
+            deployedAt: new Date().toISOString(),
+            verified: false,
+          });
+        }
+        output(args.json, { ...deployed, recorded, lockExempt }, data => {
+          console.log(`✅ ChallengeFactory deployed to ${data.address}`);
+          console.log(`   Clones ChallengeDetailV2 at ${data.implementation}`);
+          console.log(
+            `⚠️  Grant it UPDATER_ACTIVITIES_ROLE on ${args.nft} before creating challenges`
+          );
+          if (!data.lockExempt) {
+            console.log(
+              `⚠️  Have a PROTOCOL_MANAGER call setChallengeFactory(${data.address}) on the aggregator so challenges skip lock policies`
+            );
+          }
+          if (!data.recorded) {
+            console.log('⚠️  Not recorded: the hardhat network is ephemeral');
+          }
+        });
+        return;
+      }
+
+      if (
+        !args.challenger ||
+        !args.feeAddress ||
+        !args.amount ||
+        !args.success ||
+        !args.failure
+      ) {
+        throw new Error(
+          'challenges create requires --challenger, --fee-address, --amount, --success and --failure'
+        );
+      }
+      const factoryAddress =
+        args.factory ||
+        (await resolveDeployment(hre.ethers.provider, 'ChallengeFactory'))
+          .address;
+      const factory = connectChallengeFactory(factoryAddress, signer);
+      let token: string | undefined;
+      if (args.token) {
+        const { aggregator } = await getAggregator(hre, { json: args.json });
+        token = await resolveToken(aggregator, args.token);
+      }
+      const latest = (await hre.ethers.provider.getBlock('latest'))!;
+      const spec = {
+        challenger: args.challenger,
+        feeAddress: args.feeAddress,
+        start: latest.timestamp + parseDuration(args.startsIn),
+        days: args.days,
+        goal: args.goal,
+        daysRequired: args.daysRequired,
+        amount: args.amount,
+        token,
+        protocol: args.protocol,
+        gasFee: hre.ethers.parseEther(args.gasFee),
+        onSuccess: parseAwards(args.success),
+        onFailure: parseAwards(args.failure),
+        allowGiveUp: args.allowGiveUp,
+      };
+
+      if (args.dryRun) {
+        const simulation = await simulateChallenge(factory, spec);
+        output(args.json, simulation, data => {
+          console.log(
+            `🔍 Dry run: challenge would be created at ${data.challenge}`
+          );
+          console.log(
+            `💰 Stakes ${data.stakeAmount} base units on ${args.protocol}`
+          );
+          console.log(`⛽ Gas: ${data.gas}`);
+        });
+        return;
+      }
+      const result = await createChallenge(factory, spec);
+      output(
+        args.json,
+        {
+          challenge: result.challenge,
+          stakeAmount: result.stakeAmount,
+          txHash: result.receipt.hash,
+        },
+        data => {
+          console.log(`✅ Challenge created at ${data.challenge}`);
+          console.log(
+            `💰 Staked ${data.stakeAmount} base units on ${args.protocol}`
+          );
+          console.log(`⏰ Starts: ${formatTimestamp(spec.start)}`);
+          console.log(`⏳ Transaction: ${data.txHash}`);
+        }
+      );
+    }
+  );
@@ -0,0 +1,658 @@
+import { types } from 'hardhat/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommonArgs, getAggregator, requireAction, staking } from './scope';
+import { output, parseDuration, resolveToken } from './utils';
+
+staking
+  .task('protocols', 'Inspect registered protocols')
+  .addOptionalPositionalParam('action', 'list', 'list')
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(async (args: CommonArgs & { action: string }, hre) => {
+    requireAction(args.action, ['list']);
+    const { aggregator } = await getAggregator(hre, args);
+
+    const { names } = await aggregator.getAllProtocols();
+    const protocols = [];
+    for (const name of names) {
+      const info = await aggregator.protocols(name);
+      protocols.push({
+        name,
+        contractAddress: info.contractAddress,
+        protocolType: info.protocolType,
+        apy: Number(info.currentAPY),
+        totalDeposited: info.totalDeposited,
+        isActive: info.isActive,
+      });
+    }
+
+    output(args.json, protocols, data => {
+      for (const protocol of data) {
+        console.log(
+          `${protocol.isActive ? '✅' : '⏸️ '} ${protocol.name} (${protocol.protocolType}) ${protocol.apy / 100}% APY @ ${protocol.contractAddress}`
+        );
+      }
+    });
+  });
+
+staking
+  .task('tokens', 'Manage supported tokens')
+  .addOptionalPositionalParam('action', 'list | add', 'list')
+  .addOptionalParam('address', 'Token address (add)')
+  .addOptionalParam('symbol', 'Token symbol (add)')
+  .addOptionalParam('decimals', 'Token decimals (add)', 18, types.int)
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: CommonArgs & {
+        action: string;
+        address?: string;
+        symbol?: string;
+        decimals: number;
+      },
+      hre
+    ) => {
+      requireAction(args.action, ['list', 'add']);
+      const { addSupportedToken } = await import('../sdk');
+      const { aggregator } = await getAggregator(hre, args);
+
+      if (args.action === 'add') {
+        if (!args.address || !args.symbol) {
+          throw new Error('tokens add requires --address and --symbol');
+        }
+        const receipt = await addSupportedToken(
+          aggregator,
+          args.address,
+          args.symbol,
+          args.decimals
+        );
+        output(
+          args.json,
+          {
+            address: args.address,
+            symbol: args.symbol,
+            decimals: args.decimals,
+            txHash: receipt.hash,
+          },
+          data => console.log(`✅ Added ${data.symbol} (${data.address})`)
+        );
+        return;
+      }
+
+      const { addresses, symbols, decimals, activeStatus } =
+        await aggregator.getAllSupportedTokens();
+      const tokens = addresses.map((address, i) => ({
+        address,
+        symbol: symbols[i],
+        decimals: Number(decimals[i]),
+        isActive: activeStatus[i],
+      }));
+      output(args.json, tokens, data => {
+        for (const token of data) {
+          console.log(
+            `${token.isActive ? '✅' : '⏸️ '} ${token.symbol} (${token.decimals} decimals) @ ${token.address}`
+          );
+        }
+      });
+    }
+  );
+
+staking
+  .task('apy', 'Manage protocol APYs')
+  .addOptionalPositionalParam('action', 'set | sync', 'set')
+  .addOptionalParam('protocol', 'Protocol name (set)')
+  .addOptionalParam(
+    'apy',
+    'APY in basis points, 10000 = 100% (set)',
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    'lookback',
+    'Window for liquid staking exchange-rate drift, e.g. 7d (sync)',
+    '7d'
+  )
+  .addOptionalParam(
+    'minChange',
+    'Skip APYs that moved less than this many basis points (sync)',
+    10,
+    types.int
+  )
+  .addFlag('dryRun', 'Print the measured APYs without sending transactions')
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: CommonArgs & {
+        action: string;
+        protocol?: string;
+        apy?: number;
+        lookback: string;
+        minChange: number;
+        dryRun: boolean;
+      },
+      hre
+    ) => {
+      requireAction(args.action, ['set', 'sync']);
+      const {
+        applyApyUpdates,
+        describeApyUpdate,
+        planApyUpdates,
+        updateProtocolAPY,
+      } = await import('../sdk');
+      const { aggregator } = await getAggregator(hre, args);
+
+      if (args.action === 'sync') {
+        const plan = await planApyUpdates(aggregator, {
+          lookback: parseDuration(args.lookback),
+          minChangeBps: args.minChange,
+        });
+        if (!args.json) {
+          console.log('📈 Measured:');
+          plan.readings.forEach(reading =>
+            console.log(
+              `  ${reading.protocol}: ${reading.apy / 100}% (${reading.source})`
+            )
+          );
+          plan.warnings.forEach(warning => console.log(`  ⚠️  ${warning}`));
+          console.log(
+            plan.updates.length === 0
+              ? '✅ On-chain APYs are up to date'
+              : `Plan: ${plan.updates.length} update(s)`
+          );
+        }
+
+        const applied =
+          args.dryRun || plan.updates.length === 0
+            ? []
+            : await applyApyUpdates(aggregator, plan, ({ update, receipt }) => {
+                if (!args.json) {
+                  console.log(
+                    `✅ ${describeApyUpdate(update)} (${receipt.hash})`
+                  );
+                }
+              });
+
+        if (args.json) {
+          output(
+            true,
+            {
+              ...plan,
+              applied: applied.map(({ update, receipt }) => ({
+                protocol: update.protocol,
+                txHash: receipt.hash,
+              })),
+            },
+            () => undefined
+          );
+        }
+        return;
+      }
+
+      if (!args.protocol || args.apy === undefined) {
+        throw new Error('apy set requires --protocol and --apy');
+      }
+      const previous = (await aggregator.protocols(args.protocol)).currentAPY;
+      const receipt = await updateProtocolAPY(
+        aggregator,
+        args.protocol,
+        args.apy
+      );
+
+      output(
+        args.json,
+        {
+          protocol: args.protocol,
+          oldAPY: Number(previous),
+          newAPY: args.apy,
+          txHash: receipt.hash,
+        },
+        data =>
+          console.log(
+            `✅ ${data.protocol} APY: ${data.oldAPY / 100}% → ${data.newAPY / 100}%`
+          )
+      );
+    }
+  );
+
+staking
+  .task('routes', 'Manage where "auto" stakes are routed')
+  .addOptionalPositionalParam('action', 'list | set | threshold', 'list')
+  .addOptionalParam('token', 'Token symbol or address (set)')
+  .addOptionalParam(
+    'protocols',
+    'Comma-separated protocols, empty to disable (set)'
+  )
+  .addOptionalParam(
+    'bps',
+    'APY gain required to rebalance, in basis points (threshold)',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: CommonArgs & {
+        action: string;
+        token?: string;
+        protocols?: string;
+        bps?: number;
+      },
+      hre
+    ) => {
+      requireAction(args.action, ['list', 'set', 'threshold']);
+      const { setRebalanceThreshold, setTokenRoutes } = await import('../sdk');
+      const { aggregator } = await getAggregator(hre, args);
+
+      if (args.action === 'set') {
+        if (!args.token || args.protocols === undefined) {
+          throw new Error('routes set requires --token and --protocols');
+        }
+        const token = await resolveToken(aggregator, args.token);
+        const protocols = args.protocols
+          .split(',')
+          .map(name => name.trim())
+          .filter(name => name.length > 0);
+        const receipt = await setTokenRoutes(aggregator, token, protocols);
+        output(args.json, { token, protocols, txHash: receipt.hash }, data =>
+          console.log(
+            data.protocols.length === 0
+              ? `✅ Auto routing disabled for ${data.token}`
+              : `✅ ${data.token} routes: ${data.protocols.join(', ')}`
+          )
+        );
+        return;
+      }
+
+      if (args.action === 'threshold') {
+        if (args.bps === undefined) {
+          throw new Error('routes threshold requires --bps');
+        }
+        const previous = await aggregator.rebalanceThresholdBps();
+        const receipt = await setRebalanceThreshold(aggregator, args.bps);
+        output(
+          args.json,
+          {
+            oldThresholdBps: Number(previous),
+            newThresholdBps: args.bps,
+            txHash: receipt.hash,
+          },
+          data =>
+            console.log(
+              `✅ Rebalance threshold: ${data.oldThresholdBps} → ${data.newThresholdBps} bps`
+            )
+        );
+        return;
+      }
+
+      const { addresses, symbols } = await aggregator.getAllSupportedTokens();
+      const routes = [];
+      for (let i = 0; i < addresses.length; i++) {
+        const protocols = await aggregator.getTokenRoutes(addresses[i]);
+        let best: { protocol: string; apy: number } | undefined;
+        if (protocols.length > 0) {
+          const [protocol, apy] = await aggregator
+            .bestRoute(addresses[i])
+            .catch(() => ['', 0n] as const);
+          best = protocol ? { protocol, apy: Number(apy) } : undefined;
+        }
+        routes.push({
+          token: addresses[i],
+          symbol: symbols[i],
+          protocols: [...protocols],
+          best,
+        });
+      }
+      const thresholdBps = Number(await aggregator.rebalanceThresholdBps());
+
+      output(args.json, { thresholdBps, routes }, data => {
+        console.log(`⚖️  Rebalance threshold: ${data.thresholdBps} bps`);
+        for (const route of data.routes) {
+          if (route.protocols.length === 0) {
+            console.log(`➖ ${route.symbol}: not routed`);
+            continue;
+          }
+          const best = route.best
+            ? `${route.best.protocol} (${route.best.apy / 100}%)`
+            : 'none active';
+          console.log(
+            `🧭 ${route.symbol}: ${route.protocols.join(', ')} → best ${best}`
+          );
+        }
+      });
+    }
+  );
+
+staking
+  .task('rebalance', 'Move "auto" stakes to a better-paying route')
+  .addOptionalParam(
+    'users',
+    'Comma-separated users (default: users with StakeRouted events in the event database)'
+  )
+  .addOptionalParam(
+    'db',
+    'Database file (default: data/events-<network>.sqlite)'
+  )
+  .addFlag('dryRun', 'Print the plan without sending transactions')
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: CommonArgs & { users?: string; db?: string; dryRun: boolean },
+      hre
+    ) => {
+      const {
+        applyRebalance,
+        autoRoutedUsers,
+        describeRebalance,
+        EventStore,
+        planRebalance,
+      } = await import('../sdk');
+      const { aggregator } = await getAggregator(hre, args);
+
+      let users: string[];
+      if (args.users) {
+        users = args.users.split(',').map(user => user.trim());
+      } else {
+        const db =
+          args.db || path.join('data', `events-${hre.network.name}.sqlite`);
+        if (!fs.existsSync(db)) {
+          throw new Error(
+            `Event database ${db} not found; run \`events sync\` first or pass --users`
+          );
+        }
+        const store = await EventStore.open(db);
+        try {
+          users = autoRoutedUsers(store);
+        } finally {
+          store.close();
+        }
+      }
+
+      const candidates = await planRebalance(aggregator, users);
+      if (!args.json) {
+        console.log(`📋 Checked ${users.length} user(s):`);
+        candidates.forEach(candidate =>
+          console.log(`  ${describeRebalance(candidate)}`)
+        );
+        console.log(
+          candidates.length === 0
+            ? '✅ Every auto-routed stake is on its best route'
+            : `Plan: ${candidates.length} stake(s) to move`
+        );
+      }
+      if (
+        candidates.length > 0 &&
+        !args.dryRun &&
+        (await aggregator.paused())
+      ) {
+        throw new Error('Aggregator is paused; stakes cannot be rebalanced');
+      }
+
+      const applied =
+        args.dryRun || candidates.length === 0
+          ? []
+          : await applyRebalance(aggregator, candidates, result => {
+              if (!args.json) {
+                console.log(
+                  `✅ Stake #${result.stakeId}: ${result.fromProtocol} → ${result.toProtocol} (${result.receipt.hash})`
+                );
+              }
+            });
+
+      if (args.json) {
+        output(
+          true,
+          {
+            candidates,
+            applied: applied.map(result => ({
+              stakeId: result.stakeId,
+              fromProtocol: result.fromProtocol,
+              toProtocol: result.toProtocol,
+              amount: result.amount,
+              txHash: result.receipt.hash,
+            })),
+          },
+          () => undefined
+        );
+      } else if (applied.length > 0) {
+        console.log(`🎉 Rebalanced ${applied.length} stake(s)`);
+      }
+    }
+  );
+
+staking
+  .task('lock-policy', 'Manage per-protocol early-exit policies')
+  .addOptionalPositionalParam('action', 'list | set', 'list')
+  .addOptionalParam('protocol', 'Protocol name (set)')
+  .addOptionalParam('mode', 'none | hard | linear | forfeit (set)')
+  .addOptionalParam(
+    'maxPenalty',
+    'Penalty at stake start in basis points (linear)',
+    0,
+    types.int
+  )
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: CommonArgs & {
+        action: string;
+        protocol?: string;
+        mode?: string;
+        maxPenalty: number;
+      },
+      hre
+    ) => {
+      requireAction(args.action, ['list', 'set']);
+      const { getLockPolicy, LOCK_MODES, setLockPolicy } = await import(
+        '../sdk'
+      );
+      const { aggregator } = await getAggregator(hre, args);
+
+      if (args.action === 'set') {
+        if (!args.protocol || !args.mode) {
+          throw new Error('lock-policy set requires --protocol and --mode');
+        }
+        requireAction(args.mode, [...LOCK_MODES]);
+        const policy = {
+          mode: args.mode as (typeof LOCK_MODES)[number],
+          maxPenaltyBps: args.maxPenalty,
+        };
+        const receipt = await setLockPolicy(aggregator, args.protocol, policy);
+        output(
+          args.json,
+          { protocol: args.protocol, ...policy, txHash: receipt.hash },
+          data =>
+            console.log(
+              `✅ ${data.protocol} lock policy: ${data.mode}${data.mode === 'linear' ? ` (max ${data.maxPenaltyBps / 100}%)` : ''}`
+            )
+        );
+        return;
+      }
+
+      const { names } = await aggregator.getAllProtocols();
+      const policies = [];
+      for (const protocol of names) {
+        policies.push({
+          protocol,
+          ...(await getLockPolicy(aggregator, protocol)),
+        });
+      }
+      output(args.json, policies, data => {
+        for (const policy of data) {
+          console.log(
+            `🔒 ${policy.protocol}: ${policy.mode}${policy.mode === 'linear' ? ` (max ${policy.maxPenaltyBps / 100}%)` : ''}`
+          );
+        }
+      });
+    }
+  );
+
+staking
+  .task('fee-recipient', 'Show or set the early-exit fee recipient')
+  .addOptionalPositionalParam('action', 'show | set', 'show')
+  .addOptionalParam('address', 'New fee recipient (set)')
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (args: CommonArgs & { action: string; address?: string }, hre) => {
+      requireAction(args.action, ['show', 'set']);
+      const { setFeeRecipient } = await import('../sdk');
+      const { aggregator } = await getAggregator(hre, args);
+
+      if (args.action === 'set') {
+        if (!args.address) {
+          throw new Error('fee-recipient set requires --address');
+        }
+        const receipt = await setFeeRecipient(aggregator, args.address);
+        output(
+          args.json,
+          { feeRecipient: args.address, txHash: receipt.hash },
+          data => console.log(`✅ Fee recipient: ${data.feeRecipient}`)
+        );
+        return;
+      }
+
+      const feeRecipient = await aggregator.feeRecipient();
+      output(args.json, { feeRecipient }, data =>
+        console.log(`💸 Fee recipient: ${data.feeRecipient}`)
+      );
+    }
+  );
+
+staking
+  .task('pause', 'Pause new stakes')
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(async (args: CommonArgs, hre) => {
+    const { pause } = await import('../sdk');
+    const { aggregator } = await getAggregator(hre, args);
+    const receipt = await pause(aggregator);
+    output(args.json, { paused: true, txHash: receipt.hash }, () =>
+      console.log('⏸️  Aggregator paused')
+    );
+  });
+
+staking
+  .task('unpause', 'Resume new stakes')
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(async (args: CommonArgs, hre) => {
+    const { unpause } = await import('../sdk');
+    const { aggregator } = await getAggregator(hre, args);
+    const receipt = await unpause(aggregator);
+    output(args.json, { paused: false, txHash: receipt.hash }, () =>
+      console.log('▶️  Aggregator unpaused')
+    );
+  });
+
+staking
+  .task(
+    'sync',
+    'Converge tokens, protocols, APYs and statuses to the network config'
+  )
+  .addOptionalParam(
+    'configFile',
+    'Config file (default: config/deployment.<network>.json)'
+  )
+  .addFlag('dryRun', 'Print the plan without sending transactions')
+  .addFlag('prune', 'Deactivate tokens and protocols missing from the config')
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: CommonArgs & {
+        configFile?: string;
+        dryRun: boolean;
+        prune: boolean;
+      },
+      hre
+    ) => {
+      const {
+        applySync,
+        deploymentConfigPath,
+        describeSyncAction,
+        isEphemeralNetwork,
+        loadDeploymentConfig,
+        planSync,
+        recordDeployment,
+      } = await import('../sdk');
+      const { aggregator } = await getAggregator(hre, args);
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const config = loadDeploymentConfig(
+        args.configFile || deploymentConfigPath(hre.network.name)
+      );
+
+      const plan = await planSync(aggregator, config, { prune: args.prune });
+      if (!args.json) {
+        console.log('📋 Plan:');
+        plan.actions.forEach(action =>
+          console.log(`  ${describeSyncAction(action)}`)
+        );
+        plan.warnings.forEach(warning => console.log(`  ⚠️  ${warning}`));
+        console.log(
+          plan.actions.length === 0
+            ? '✅ No changes. On-chain state matches the config'
+            : `Plan: ${plan.actions.length} change(s)`
+        );
+      }
+
+      const applied =
+        args.dryRun || plan.actions.length === 0
+          ? []
+          : await applySync(
+              aggregator,
+              plan,
+              ({ action, receipt, adapter }) => {
+                if (
+                  adapter &&
+                  action.type === 'addProtocol' &&
+                  !isEphemeralNetwork(hre.network.name)
+                ) {
+                  const { contractName, ...record } = adapter;
+                  recordDeployment({
+                    ...record,
+                    chainId,
+                    network: hre.network.name,
+                    contractName,
+                    deployedAt: new Date().toISOString(),
+                    verified: false,
+                    config: { protocol: action.protocol },
+                  });
+                }
+                if (!args.json) {
+                  if (adapter) {
+                    console.log(
+                      `✅ Deployed ${adapter.contractName} to ${adapter.address} (${adapter.txHash})`
+                    );
+                  }
+                  console.log(
+                    `✅ ${describeSyncAction(action)} (${receipt.hash})`
+                  );
+                }
+              }
+            );
+
+      if (args.json) {
+        output(
+          true,
+          {
+            actions: plan.actions,
+            warnings: plan.warnings,
+            applied: applied.map(({ action, receipt, adapter }) => ({
+              type: action.type,
+              txHash: receipt.hash,
+              adapter: adapter?.address,
+            })),
+          },
+          () => undefined
+        );
+      } else if (applied.length > 0) {
+        console.log(`🎉 Applied ${applied.length} change(s)`);
+      }
+    }
+  );
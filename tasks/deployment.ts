@@ -0,0 +1,199 @@
+import { types } from 'hardhat/config';
+import * as fs from 'fs';
+import type { DeploymentRecord, ProxyKind } from '../sdk';
+import { CONTRACT_NAMES, requireAction, staking } from './scope';
+import { output } from './utils';
+
+staking
+  .task('deploy', 'Deploy a project contract')
+  .addOptionalParam(
+    'contract',
+    'aggregator | yoboweb3walk',
+    'aggregator',
+    types.string
+  )
+  .addOptionalParam('baseUri', 'YOBOWEB3WALK base URI')
+  .addOptionalParam(
+    'proxy',
+    'Deploy the aggregator behind a proxy: uups | transparent'
+  )
+  .addFlag('verify', 'Verify on the block explorer after deploying')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: {
+        contract: string;
+        baseUri?: string;
+        proxy?: string;
+        verify: boolean;
+        json: boolean;
+      },
+      hre
+    ) => {
+      requireAction(args.contract, ['aggregator', 'yoboweb3walk']);
+      const {
+        deployAggregatorProxy,
+        deploymentConfigPath,
+        isEphemeralNetwork,
+        loadDeploymentConfig,
+        PROXY_KINDS,
+        readStorageLayout,
+        recordDeployment,
+      } = await import('../sdk');
+      const [deployer] = await hre.ethers.getSigners();
+      const networkName = hre.network.name;
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const contractName = CONTRACT_NAMES[args.contract];
+
+      let constructorArgs: string[] = [];
+      let config: { [key: string]: unknown } | undefined;
+      if (args.contract === 'aggregator') {
+        // Recorded so the registry shows what each deployment was set up with
+        const configPath = deploymentConfigPath(networkName);
+        if (fs.existsSync(configPath)) {
+          config = { ...loadDeploymentConfig(configPath) };
+        }
+      } else {
+        if (args.proxy) {
+          throw new Error('--proxy is only supported for the aggregator');
+        }
+        if (!args.baseUri || !args.baseUri.startsWith('ipfs://')) {
+          throw new Error(
+            "--base-uri is required and must start with 'ipfs://'"
+          );
+        }
+        constructorArgs = [args.baseUri];
+      }
+
+      let deployed: Pick<
+        DeploymentRecord,
+        | 'address'
+        | 'txHash'
+        | 'blockNumber'
+        | 'constructorArgs'
+        | 'proxy'
+        | 'implementations'
+      >;
+      if (args.proxy) {
+        requireAction(args.proxy, PROXY_KINDS);
+        const proxy = await deployAggregatorProxy(deployer, {
+          kind: args.proxy as ProxyKind,
+          storageLayout: await readStorageLayout(hre.artifacts),
+        });
+        deployed = {
+          address: proxy.address,
+          txHash: proxy.txHash,
+          blockNumber: proxy.blockNumber,
+          constructorArgs: proxy.constructorArgs,
+          proxy: {
+            kind: proxy.kind,
+            ...(proxy.admin && { admin: proxy.admin }),
+          },
+          implementations: [proxy.implementation],
+        };
+      } else {
+        const factory = await hre.ethers.getContractFactory(contractName);
+        const contract = await factory.deploy(...constructorArgs);
+        await contract.waitForDeployment();
+        const receipt = await contract.deploymentTransaction()?.wait();
+        deployed = {
+          address: await contract.getAddress(),
+          txHash: receipt?.hash,
+          blockNumber: receipt?.blockNumber,
+          constructorArgs,
+        };
+      }
+
+      const deployment = {
+        chainId: Number(chainId),
+        network: networkName,
+        contractName,
+        deployer: deployer.address,
+        ...deployed,
+        deployedAt: new Date().toISOString(),
+        verified: false,
+        config,
+      };
+      const recorded = !isEphemeralNetwork(networkName);
+      if (recorded) {
+        recordDeployment(deployment);
+      }
+
+      if (args.verify) {
+        await hre.run(
+          { scope: 'polygon-staking', task: 'verify' },
+          { contract: args.contract, json: args.json }
+        );
+      }
+
+      const { implementations, ...summary } = deployment;
+      output(
+        args.json,
+        {
+          ...summary,
+          implementation: implementations?.[0].address,
+        },
+        data => {
+          console.log(`✅ ${data.contractName} deployed to ${data.address}`);
+          if (data.implementation) {
+            console.log(
+              `   ${args.proxy} proxy for implementation ${data.implementation}`
+            );
+          }
+          console.log(
+            recorded
+              ? `💾 Recorded in the deployment registry for chainId ${data.chainId}`
+              : '⚠️  Not recorded: the hardhat network is ephemeral'
+          );
+        }
+      );
+    }
+  );
+
+staking
+  .task('verify', 'Verify a deployed project contract')
+  .addOptionalParam(
+    'contract',
+    'aggregator | yoboweb3walk',
+    'aggregator',
+    types.string
+  )
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(async (args: { contract: string; json: boolean }, hre) => {
+    requireAction(args.contract, ['aggregator', 'yoboweb3walk']);
+    const { resolveDeployment, updateDeployment } = await import('../sdk');
+    const deployment = await resolveDeployment(
+      hre.ethers.provider,
+      CONTRACT_NAMES[args.contract]
+    );
+
+    if (!deployment.verified) {
+      try {
+        await hre.run('verify:verify', {
+          address: deployment.address,
+          constructorArguments: deployment.constructorArgs,
+        });
+      } catch (error) {
+        if (!(error as Error).message.includes('Already Verified')) {
+          throw error;
+        }
+      }
+      deployment.verified = true;
+      updateDeployment(
+        deployment.chainId,
+        deployment.contractName,
+        deployment.address,
+        { verified: true }
+      );
+    }
+
+    output(
+      args.json,
+      {
+        contractName: deployment.contractName,
+        address: deployment.address,
+        verified: deployment.verified,
+      },
+      data => console.log(`✅ ${data.contractName} verified at ${data.address}`)
+    );
+  });
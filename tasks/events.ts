@@ -0,0 +1,145 @@
+import { types } from 'hardhat/config';
+import * as path from 'path';
+import { CommonArgs, getAggregator, requireAction, staking } from './scope';
+import { formatTimestamp, output } from './utils';
+
+staking
+  .task('events', 'Index aggregator events into a local SQLite database')
+  .addOptionalPositionalParam('action', 'sync | follow | list | query', 'sync')
+  .addOptionalParam(
+    'db',
+    'Database file (default: data/events-<network>.sqlite)'
+  )
+  .addOptionalParam(
+    'fromBlock',
+    'First block for a new database (default: deployment block)',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('batchSize', 'Blocks per log request', 2000, types.int)
+  .addOptionalParam(
+    'confirmations',
+    'Blocks to stay behind the head',
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    'interval',
+    'Polling interval in seconds (follow)',
+    4,
+    types.int
+  )
+  .addOptionalParam('name', 'Event name filter (list)')
+  .addOptionalParam('user', 'User address filter (list)')
+  .addOptionalParam('protocol', 'Protocol filter (list)')
+  .addOptionalParam('limit', 'Newest events to show (list)', 20, types.int)
+  .addOptionalParam('sql', 'Read query over the events table (query)')
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: CommonArgs & {
+        action: string;
+        db?: string;
+        fromBlock?: number;
+        batchSize: number;
+        confirmations: number;
+        interval: number;
+        name?: string;
+        user?: string;
+        protocol?: string;
+        limit: number;
+        sql?: string;
+      },
+      hre
+    ) => {
+      requireAction(args.action, ['sync', 'follow', 'list', 'query']);
+      const { EventStore, followEvents, loadAggregatorDeployment, syncEvents } =
+        await import('../sdk');
+
+      const store = await EventStore.open(
+        args.db || path.join('data', `events-${hre.network.name}.sqlite`)
+      );
+      try {
+        if (args.action === 'list') {
+          const events = store.getEvents({
+            name: args.name,
+            user: args.user,
+            protocol: args.protocol,
+            limit: args.limit,
+          });
+          output(args.json, events, data => {
+            if (data.length === 0) {
+              console.log('❌ No indexed events match');
+              return;
+            }
+            for (const event of data) {
+              const details = Object.entries(event.args)
+                .map(([key, value]) => `${key}=${value}`)
+                .join(' ');
+              console.log(
+                `📦 #${event.blockNumber} ${formatTimestamp(event.timestamp)} ${event.name} ${details}`
+              );
+            }
+          });
+          return;
+        }
+
+        if (args.action === 'query') {
+          if (!args.sql) {
+            throw new Error('events query requires --sql');
+          }
+          const rows = store.query(args.sql);
+          output(args.json, rows, data => console.table(data));
+          return;
+        }
+
+        const { aggregator } = await getAggregator(hre, args);
+        const fromBlock =
+          args.fromBlock ??
+          (args.aggregator
+            ? 0
+            : ((await loadAggregatorDeployment(hre.ethers.provider))
+                .blockNumber ?? 0));
+        const options = {
+          fromBlock,
+          batchSize: args.batchSize,
+          confirmations: args.confirmations,
+        };
+        const report = (result: Awaited<ReturnType<typeof syncEvents>>) =>
+          output(args.json, result, data => {
+            if (data.reorgedTo !== undefined) {
+              console.log(`⚠️  Reorg: rolled back to block ${data.reorgedTo}`);
+            }
+            console.log(
+              `✅ Indexed ${data.events} events up to block ${data.toBlock}`
+            );
+          });
+
+        if (args.action === 'sync') {
+          report(await syncEvents(aggregator, store, options));
+          return;
+        }
+
+        const controller = new AbortController();
+        process.once('SIGINT', () => controller.abort());
+        if (!args.json) {
+          console.log(
+            `👀 Following ${await aggregator.getAddress()} (Ctrl+C to stop)`
+          );
+        }
+        await followEvents(aggregator, store, {
+          ...options,
+          pollInterval: args.interval * 1000,
+          signal: controller.signal,
+          onSync: result => {
+            if (result.events > 0 || result.reorgedTo !== undefined) {
+              report(result);
+            }
+          },
+        });
+      } finally {
+        store.close();
+      }
+    }
+  );
@@ -0,0 +1,32 @@
+import * as fs from 'fs';
+import { diffGasReports, formatGasDiff, loadGasReport } from './gas';
+import { staking } from './scope';
+import { output } from './utils';
+
+staking
+  .task('gas-diff', 'Compare two hardhat-gas-reporter JSON reports')
+  .addPositionalParam('before', 'Report from the baseline run')
+  .addPositionalParam('after', 'Report from the changed run')
+  .addOptionalParam('contract', 'Only show this contract')
+  .addOptionalParam('out', 'Write the markdown table to a file')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (args: {
+      before: string;
+      after: string;
+      contract?: string;
+      out?: string;
+      json: boolean;
+    }) => {
+      const rows = diffGasReports(
+        loadGasReport(args.before),
+        loadGasReport(args.after),
+        args.contract
+      );
+      const table = formatGasDiff(rows);
+      if (args.out) {
+        fs.writeFileSync(args.out, `${table}\n`);
+      }
+      output(args.json, rows, () => console.log(table));
+    }
+  );
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+
+interface GasStats {
+  executionGasAverage?: number;
+  min?: number;
+  max?: number;
+  numberOfCalls?: number;
+}
+
+interface GasReport {
+  data: {
+    methods: {
+      [key: string]: GasStats & { contract: string; method: string };
+    };
+    deployments: (GasStats & { name: string })[];
+  };
+}
+
+export interface GasDiffRow {
+  contract: string;
+  /** Method name, or undefined for the deployment */
+  method?: string;
+  before?: number;
+  after?: number;
+}
+
+export function loadGasReport(file: string): GasReport {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Gas report not found: ${file}`);
+  }
+  const report = JSON.parse(fs.readFileSync(file, 'utf8')) as GasReport;
+  if (!report.data?.methods || !report.data?.deployments) {
+    throw new Error(
+      `${file} is not a hardhat-gas-reporter JSON report (set GAS_REPORT_FILE)`
+    );
+  }
+  return report;
+}
+
+/**
+ * Average execution gas per called method and deployment in either report,
+ * optionally limited to one contract
+ */
+export function diffGasReports(
+  before: GasReport,
+  after: GasReport,
+  contract?: string
+): GasDiffRow[] {
+  const rows = new Map<string, GasDiffRow>();
+  const collect = (report: GasReport, side: 'before' | 'after') => {
+    for (const m of Object.values(report.data.methods)) {
+      if (!m.numberOfCalls || (contract && m.contract !== contract)) {
+        continue;
+      }
+      const key = `${m.contract}.${m.method}`;
+      const row = rows.get(key) ?? { contract: m.contract, method: m.method };
+      row[side] = m.executionGasAverage;
+      rows.set(key, row);
+    }
+    for (const d of report.data.deployments) {
+      if (
+        d.executionGasAverage === undefined ||
+        (contract && d.name !== contract)
+      ) {
+        continue;
+      }
+      const row = rows.get(d.name) ?? { contract: d.name };
+      row[side] = d.executionGasAverage;
+      rows.set(d.name, row);
+    }
+  };
+  collect(before, 'before');
+  collect(after, 'after');
+
+  return [...rows.values()].sort(
+    (a, b) =>
+      a.contract.localeCompare(b.contract) ||
+      (a.method ?? '').localeCompare(b.method ?? '')
+  );
+}
+
+const formatGas = (gas?: number) =>
+  gas === undefined ? '-' : gas.toLocaleString('en-US');
+
+/**
+ * Render rows as a markdown table with absolute and relative deltas
+ */
+export function formatGasDiff(rows: GasDiffRow[]): string {
+  const lines = [
+    '| Contract | Method | Before | After | Δ | Δ % |',
+    '| --- | --- | ---: | ---: | ---: | ---: |',
+  ];
+  for (const row of rows) {
+    let delta = '-';
+    let percent = '-';
+    if (row.before !== undefined && row.after !== undefined) {
+      const diff = row.after - row.before;
+      delta = `${diff > 0 ? '+' : ''}${formatGas(diff)}`;
+      percent = `${diff > 0 ? '+' : ''}${((diff / row.before) * 100).toFixed(1)}%`;
+    }
+    lines.push(
+      `| ${row.contract} | ${row.method ?? '(deployment)'} | ${formatGas(row.before)} | ${formatGas(row.after)} | ${delta} | ${percent} |`
+    );
+  }
+  return lines.join('\n');
+}
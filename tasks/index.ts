@@ -0,0 +1,12 @@
+import './staking';
+import './configuration';
+import './roles';
+import './events';
+import './transactions';
+import './gas-diff';
+import './deployment';
+import './upgrade';
+import './migrate';
+import './challenges';
+import './steps';
+import './nft';
@@ -0,0 +1,166 @@
+import { formatUnits } from 'ethers';
+import type { DecodedArgs, TxInspection } from '../sdk';
+
+interface TreeNode {
+  text: string;
+  children?: TreeNode[];
+}
+
+/**
+ * Render nodes with box-drawing branches, one line per node
+ */
+function renderTree(nodes: TreeNode[], prefix = ''): string[] {
+  return nodes.flatMap((node, i) => {
+    const last = i === nodes.length - 1;
+    return [
+      `${prefix}${last ? '└─ ' : '├─ '}${node.text}`,
+      ...renderTree(node.children ?? [], `${prefix}${last ? '   ' : '│  '}`),
+    ];
+  });
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.startsWith('0x') ? value : JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{ ${Object.entries(value)
+      .map(([key, item]) => `${key}: ${formatValue(item)}`)
+      .join(', ')} }`;
+  }
+  return String(value);
+}
+
+function argNodes(args: DecodedArgs | undefined): TreeNode[] {
+  return Object.entries(args ?? {}).map(([name, value]) => ({
+    text: `${name}: ${formatValue(value)}`,
+  }));
+}
+
+/**
+ * Human-readable report of an inspected transaction
+ */
+export function formatInspection(inspection: TxInspection): string {
+  const label = (address: string | null | undefined) => {
+    if (!address) {
+      return '(contract creation)';
+    }
+    const name = inspection.labels[address];
+    return name ? `${address} (${name})` : address;
+  };
+  const matic = (value: bigint) => `${formatUnits(value, 18)} MATIC`;
+
+  const status = {
+    success: '✅ success',
+    reverted: '❌ reverted',
+    pending: '⏳ pending',
+  }[inspection.status];
+  const summary: TreeNode[] = [
+    { text: `Status: ${status}` },
+    { text: `Block: ${inspection.blockNumber ?? '-'}` },
+    { text: `From: ${label(inspection.from)}` },
+    { text: `To: ${label(inspection.to)}` },
+  ];
+  if (inspection.contractAddress) {
+    summary.push({ text: `Created: ${label(inspection.contractAddress)}` });
+  }
+  summary.push({ text: `Value: ${matic(inspection.value)}` });
+  if (inspection.gasUsed !== undefined && inspection.fee !== undefined) {
+    summary.push({
+      text: `Gas: ${inspection.gasUsed.toLocaleString('en-US')} (fee ${matic(inspection.fee)})`,
+    });
+  }
+
+  const sections: TreeNode[] = [{ text: 'Summary', children: summary }];
+
+  if (inspection.call) {
+    const { call } = inspection;
+    sections.push({
+      text: 'Call',
+      children: [
+        call.signature
+          ? {
+              text: `${call.contract}.${call.signature}`,
+              children: argNodes(call.args),
+            }
+          : { text: `${call.selector} (unknown selector)` },
+      ],
+    });
+  }
+
+  if (inspection.revert) {
+    const { revert } = inspection;
+    sections.push({
+      text: 'Revert',
+      children: [
+        {
+          text: revert.contract
+            ? `${revert.contract}.${revert.name}`
+            : revert.name,
+          children:
+            revert.signature === undefined
+              ? [{ text: `data: ${revert.data}` }]
+              : argNodes(revert.args),
+        },
+      ],
+    });
+  }
+
+  if (inspection.logs.length > 0) {
+    sections.push({
+      text: `Events (${inspection.logs.length})`,
+      children: inspection.logs.map(log =>
+        log.name
+          ? {
+              text: `#${log.index} ${log.contract}.${log.name} @ ${label(log.address)}`,
+              children: argNodes(log.args),
+            }
+          : {
+              text: `#${log.index} unknown event @ ${label(log.address)}`,
+              children: log.topics.map((topic, i) => ({
+                text: `topic${i}: ${topic}`,
+              })),
+            }
+      ),
+    });
+  }
+
+  if (inspection.balanceChanges.length > 0) {
+    const holders = new Map<string, TreeNode[]>();
+    for (const change of inspection.balanceChanges) {
+      const sign = change.delta > 0n ? '+' : '';
+      let amount: string;
+      if (change.standard === 'erc721') {
+        amount = `${sign}${change.delta} ${change.symbol ?? label(change.token)} #${change.tokenId}`;
+      } else {
+        const value =
+          change.decimals === undefined
+            ? change.delta.toString()
+            : formatUnits(change.delta, change.decimals);
+        const token = change.symbol ?? label(change.token);
+        const id = change.tokenId === undefined ? '' : ` #${change.tokenId}`;
+        amount = `${sign}${value} ${token}${id}`;
+      }
+      holders.set(change.holder, [
+        ...(holders.get(change.holder) ?? []),
+        { text: amount },
+      ]);
+    }
+    sections.push({
+      text: 'Balance changes',
+      children: [...holders].map(([holder, changes]) => ({
+        text: label(holder),
+        children: changes,
+      })),
+    });
+  }
+
+  for (const warning of inspection.warnings) {
+    sections.push({ text: `⚠️  ${warning}` });
+  }
+
+  return [`🔎 ${inspection.hash}`, ...renderTree(sections)].join('\n');
+}
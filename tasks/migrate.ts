@@ -0,0 +1,214 @@
+import { types } from 'hardhat/config';
+import * as fs from 'fs';
+import { staking } from './scope';
+import { output } from './utils';
+
+staking
+  .task(
+    'migrate',
+    'Move open stakes from an old aggregator deployment to a new one'
+  )
+  .addOptionalParam(
+    'from',
+    'Aggregator to migrate from (default: the previous registry deployment)'
+  )
+  .addOptionalParam(
+    'to',
+    'Aggregator to migrate to (default: the latest registry deployment)'
+  )
+  .addOptionalParam(
+    'fromBlock',
+    'First block to index for aggregators missing from the registry',
+    0,
+    types.int
+  )
+  .addOptionalParam('report', 'Write the reconciliation report to this file')
+  .addOptionalParam(
+    'recovery',
+    'Legacy sources: the emergencyWithdraw sweep of a run that stopped after it'
+  )
+  .addFlag('dryRun', 'Print the plan without sending transactions')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: {
+        from?: string;
+        to?: string;
+        fromBlock: number;
+        report?: string;
+        recovery?: string;
+        dryRun: boolean;
+        json: boolean;
+      },
+      hre
+    ) => {
+      const {
+        AGGREGATOR_CONTRACT,
+        applyMigration,
+        connectAggregator,
+        describeMigration,
+        EventStore,
+        getDeploymentHistory,
+        getTokenDecimals,
+        planMigration,
+        reconcileMigration,
+        recoverLegacyStakes,
+        snapshotStakes,
+        syncEvents,
+      } = await import('../sdk');
+      const [signer] = await hre.ethers.getSigners();
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const history = getDeploymentHistory(chainId, AGGREGATOR_CONTRACT);
+      const from = args.from ?? history[history.length - 2]?.address;
+      const to = args.to ?? history[history.length - 1]?.address;
+      if (!from || !to) {
+        throw new Error(
+          `Fewer than two aggregator deployments recorded for chainId ${chainId}; pass --from and --to`
+        );
+      }
+      const source = connectAggregator(from, signer);
+      const target = connectAggregator(to, signer);
+
+      // Each aggregator is indexed into its own throwaway database
+      const indexed = async (aggregator: typeof source) => {
+        const address = (await aggregator.getAddress()).toLowerCase();
+        const record = history.find(d => d.address.toLowerCase() === address);
+        const store = await EventStore.open();
+        await syncEvents(aggregator, store, {
+          fromBlock: record?.blockNumber ?? args.fromBlock,
+        });
+        return store;
+      };
+      const sourceStore = await indexed(source);
+      const targetStore = await indexed(target);
+      let snapshot;
+      let plan;
+      try {
+        snapshot = await snapshotStakes(source, sourceStore);
+        plan = await planMigration(target, snapshot, targetStore);
+      } finally {
+        sourceStore.close();
+        targetStore.close();
+      }
+
+      if (!args.json) {
+        console.log(`📋 ${plan.source} → ${plan.target}:`);
+        if (plan.legacy) {
+          console.log(
+            '  Legacy source: it is paused and its Aave position swept to the owner with emergencyWithdraw'
+          );
+        }
+        plan.stakes.forEach(stake =>
+          console.log(`  ${describeMigration(stake)}`)
+        );
+        plan.skipped.forEach(({ stake, reason }) =>
+          console.log(
+            `  ⚠️  Skipping ${stake.user} #${stake.stakeId}: ${reason}`
+          )
+        );
+        console.log(
+          plan.stakes.length === 0
+            ? '✅ Nothing to migrate'
+            : `Plan: ${plan.stakes.length} stake(s) to migrate`
+        );
+      }
+      if (args.dryRun || plan.stakes.length === 0) {
+        if (args.json) {
+          output(true, plan, () => undefined);
+        }
+        return;
+      }
+
+      let recovery;
+      if (plan.legacy) {
+        recovery = await recoverLegacyStakes(
+          source,
+          snapshot,
+          plan,
+          args.recovery
+        );
+        if (!args.json) {
+          console.log(
+            `🧹 Recovered ${recovery.recovered} of ${recovery.aToken} in ${recovery.sweepHash}; if the imports stop, rerun with --recovery ${recovery.sweepHash}`
+          );
+          recovery.plan.skipped
+            .slice(plan.skipped.length)
+            .forEach(({ stake, reason }) =>
+              console.log(
+                `  ⚠️  Skipping ${stake.user} #${stake.stakeId}: ${reason}`
+              )
+            );
+        }
+        plan = recovery.plan;
+      }
+
+      const migrated = await applyMigration(source, target, plan, result => {
+        if (!args.json) {
+          console.log(
+            `✅ ${result.stake.user} #${result.stake.stakeId} → #${result.newStakeId} (${result.inReceipt.hash})`
+          );
+        }
+      });
+      const rows = await reconcileMigration(target, migrated);
+      const report = {
+        source: plan.source,
+        target: plan.target,
+        migrated: migrated.map(result => ({
+          user: result.stake.user,
+          stakeId: result.stake.stakeId,
+          newStakeId: result.newStakeId,
+          withdrawn: result.withdrawn,
+          txHash: result.inReceipt.hash,
+        })),
+        skipped: plan.skipped.map(({ stake, reason }) => ({
+          user: stake.user,
+          stakeId: stake.stakeId,
+          reason,
+        })),
+        ...(recovery && {
+          recovery: {
+            aToken: recovery.aToken,
+            recovered: recovery.recovered,
+            sweepHash: recovery.sweepHash,
+          },
+        }),
+        reconciliation: rows,
+      };
+      if (args.report) {
+        fs.writeFileSync(
+          args.report,
+          JSON.stringify(
+            report,
+            (_key, value) =>
+              typeof value === 'bigint' ? value.toString() : value,
+            2
+          ) + '\n'
+        );
+      }
+
+      if (args.json) {
+        output(true, report, () => undefined);
+        return;
+      }
+      console.log(`🎉 Migrated ${migrated.length} stake(s)`);
+      const table = [];
+      for (const row of rows) {
+        const decimals = await getTokenDecimals(target, row.token);
+        const format = (amount: bigint) =>
+          hre.ethers.formatUnits(amount, decimals);
+        table.push({
+          user: row.user,
+          token: row.token,
+          stakes: row.stakes,
+          'principal before': format(row.principalBefore),
+          'principal after': format(row.principalAfter),
+          'value before': format(row.valueBefore),
+          'value after': format(row.valueAfter),
+        });
+      }
+      console.table(table);
+      if (args.report) {
+        console.log(`💾 Report written to ${args.report}`);
+      }
+    }
+  );
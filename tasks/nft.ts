@@ -0,0 +1,51 @@
+import { types } from 'hardhat/config';
+import { requireAction, staking } from './scope';
+import { output } from './utils';
+
+staking
+  .task('nft', 'Manage YOBOWEB3WALK NFTs')
+  .addOptionalPositionalParam('action', 'mint', 'mint')
+  .addParam('to', 'Recipient address')
+  .addOptionalParam('count', 'Number of NFTs to mint', 1, types.int)
+  .addOptionalParam('address', 'YOBOWEB3WALK address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: {
+        action: string;
+        to: string;
+        count: number;
+        address?: string;
+        json: boolean;
+      },
+      hre
+    ) => {
+      requireAction(args.action, ['mint']);
+      const { resolveDeployment } = await import('../sdk');
+      const address =
+        args.address ||
+        (await resolveDeployment(hre.ethers.provider, 'YOBOWEB3WALK')).address;
+
+      const contract = await hre.ethers.getContractAt('YOBOWEB3WALK', address);
+      const recipients = Array(args.count).fill(args.to);
+      const tx =
+        args.count === 1
+          ? await contract.safeMint(args.to)
+          : await contract.batchMint(recipients);
+      const receipt = await tx.wait();
+
+      const tokenIds: bigint[] = [];
+      for (const log of receipt?.logs ?? []) {
+        const parsed = contract.interface.parseLog(log);
+        if (parsed?.name === 'Transfer') {
+          tokenIds.push(parsed.args.tokenId);
+        }
+      }
+
+      output(args.json, { to: args.to, tokenIds, txHash: tx.hash }, data =>
+        console.log(
+          `✅ Minted ${data.tokenIds.length} NFT(s) to ${data.to}: ${data.tokenIds.join(', ')}`
+        )
+      );
+    }
+  );
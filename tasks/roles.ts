@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommonArgs, getAggregator, requireAction, staking } from './scope';
+import { output } from './utils';
+
+staking
+  .task('roles', 'Grant, revoke and list aggregator admin roles')
+  .addOptionalPositionalParam('action', 'list | grant | revoke', 'list')
+  .addOptionalParam(
+    'role',
+    'PROTOCOL_MANAGER | APY_ORACLE | PAUSER | EMERGENCY (grant, revoke; filters list)'
+  )
+  .addOptionalParam(
+    'account',
+    'Account, or comma-separated accounts for grant (grant, revoke)'
+  )
+  .addOptionalParam(
+    'db',
+    'Database file (default: data/events-<network>.sqlite)'
+  )
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: CommonArgs & {
+        action: string;
+        role?: string;
+        account?: string;
+        db?: string;
+      },
+      hre
+    ) => {
+      requireAction(args.action, ['list', 'grant', 'revoke']);
+      const { EventStore, grantRole, listRoleMembers, parseRole, revokeRole } =
+        await import('../sdk');
+      const role = args.role === undefined ? undefined : parseRole(args.role);
+
+      if (args.action === 'grant' || args.action === 'revoke') {
+        if (!role || !args.account) {
+          throw new Error(`roles ${args.action} requires --role and --account`);
+        }
+        const accounts = args.account
+          .split(',')
+          .map(account => hre.ethers.getAddress(account.trim()));
+        if (args.action === 'revoke' && accounts.length > 1) {
+          throw new Error('roles revoke takes a single --account');
+        }
+        const { aggregator } = await getAggregator(hre, args);
+        const receipt =
+          args.action === 'grant'
+            ? await grantRole(aggregator, role, accounts)
+            : await revokeRole(aggregator, role, accounts[0]);
+        output(
+          args.json,
+          { action: args.action, role, accounts, txHash: receipt.hash },
+          data =>
+            console.log(
+              data.action === 'grant'
+                ? `✅ Granted ${data.role} to ${data.accounts.join(', ')}`
+                : `✅ Revoked ${data.role} from ${data.accounts[0]}`
+            )
+        );
+        return;
+      }
+
+      const db =
+        args.db || path.join('data', `events-${hre.network.name}.sqlite`);
+      if (!fs.existsSync(db)) {
+        throw new Error(
+          `Event database ${db} not found; run \`events sync\` first`
+        );
+      }
+      const store = await EventStore.open(db);
+      let roles;
+      let checkpoint;
+      try {
+        roles = listRoleMembers(store).filter(
+          entry => role === undefined || entry.role === role
+        );
+        checkpoint = store.checkpoint;
+      } finally {
+        store.close();
+      }
+
+      output(args.json, { checkpoint, roles }, data => {
+        console.log(`🔑 Role members as of block ${data.checkpoint ?? '-'}:`);
+        for (const entry of data.roles) {
+          if (entry.members.length === 0) {
+            console.log(`➖ ${entry.role}: nobody`);
+            continue;
+          }
+          console.log(`👥 ${entry.role}:`);
+          for (const member of entry.members) {
+            console.log(
+              `  ${member.account} (granted by ${member.grantedBy} in block ${member.blockNumber})`
+            );
+          }
+        }
+      });
+    }
+  );
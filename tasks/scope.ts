@@ -0,0 +1,42 @@
+import { scope } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+// The SDK depends on typechain output, so it is imported lazily inside each
+// action to keep `hardhat compile` working on a fresh checkout.
+
+export const staking = scope(
+  'polygon-staking',
+  'Manage PolygonDeFiAggregator stakes, protocols and deployments'
+);
+
+export interface CommonArgs {
+  aggregator?: string;
+  json: boolean;
+}
+
+export async function getAggregator(
+  hre: HardhatRuntimeEnvironment,
+  args: CommonArgs
+) {
+  const { connectAggregator, loadAggregatorDeployment } = await import(
+    '../sdk'
+  );
+  const [signer] = await hre.ethers.getSigners();
+  const address =
+    args.aggregator ||
+    (await loadAggregatorDeployment(hre.ethers.provider)).address;
+  return { aggregator: connectAggregator(address, signer), signer };
+}
+
+export function requireAction(action: string, allowed: string[]) {
+  if (!allowed.includes(action)) {
+    throw new Error(
+      `Unknown action "${action}". Expected one of: ${allowed.join(', ')}`
+    );
+  }
+}
+
+export const CONTRACT_NAMES: { [contract: string]: string } = {
+  aggregator: 'PolygonDeFiAggregator',
+  yoboweb3walk: 'YOBOWEB3WALK',
+};
@@ -0,0 +1,335 @@
+import { types } from 'hardhat/config';
+import { CommonArgs, getAggregator, requireAction, staking } from './scope';
+import { formatTimestamp, output, parseDuration, resolveToken } from './utils';
+
+staking
+  .task('stake', 'Create a time-locked stake')
+  .addOptionalParam('token', 'Token symbol or address')
+  .addParam('amount', 'Amount in token units, e.g. 1.5')
+  .addOptionalParam(
+    'protocol',
+    'Protocol name, or "auto" for the token\'s best route',
+    'aave_lending'
+  )
+  .addOptionalParam('duration', 'Lock duration, e.g. 3600, 12h, 7d', '1d')
+  .addFlag('native', 'Stake native MATIC (wrapped to WMATIC)')
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: CommonArgs & {
+        token?: string;
+        amount: string;
+        protocol: string;
+        duration: string;
+        native: boolean;
+      },
+      hre
+    ) => {
+      const { createTimeLockedStake, WMATIC_ADDRESS } = await import('../sdk');
+      const { aggregator } = await getAggregator(hre, args);
+
+      if (!args.native && !args.token) {
+        throw new Error('--token is required unless --native is set');
+      }
+      const token = args.native
+        ? WMATIC_ADDRESS
+        : await resolveToken(aggregator, args.token as string);
+
+      const result = await createTimeLockedStake(aggregator, {
+        token,
+        amount: args.amount,
+        protocol: args.protocol,
+        lockDuration: parseDuration(args.duration),
+        native: args.native,
+      });
+
+      output(
+        args.json,
+        {
+          stakeId: result.stakeId,
+          token,
+          protocol: result.protocol,
+          amount: result.amount,
+          startTime: result.startTime,
+          endTime: result.endTime,
+          txHash: result.receipt.hash,
+        },
+        data => {
+          console.log(`✅ Stake #${data.stakeId} created`);
+          console.log(`💰 Amount: ${args.amount} (${data.amount} base units)`);
+          console.log(`📋 Protocol: ${data.protocol}`);
+          console.log(`⏰ Matures: ${formatTimestamp(data.endTime)}`);
+          console.log(`⏳ Transaction: ${data.txHash}`);
+        }
+      );
+    }
+  );
+
+staking
+  .task('withdraw', 'Withdraw a time-locked stake')
+  .addPositionalParam('stakeId', 'Stake ID to withdraw', undefined, types.int)
+  .addOptionalParam(
+    'shares',
+    'Redeem only this many protocol shares (base units) and keep the rest staked'
+  )
+  .addFlag(
+    'dryRun',
+    'Simulate the withdrawal and diagnose why it would fail, without sending it'
+  )
+  .addOptionalParam(
+    'user',
+    'Stake owner to check (dry run, defaults to the signer)'
+  )
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: CommonArgs & {
+        stakeId: number;
+        shares?: string;
+        dryRun: boolean;
+        user?: string;
+      },
+      hre
+    ) => {
+      const { partialWithdraw, preflightWithdraw, withdrawTimeLockedStake } =
+        await import('../sdk');
+      const { aggregator } = await getAggregator(hre, args);
+
+      if (args.dryRun) {
+        if (args.shares) {
+          throw new Error('--dry-run only checks full withdrawals');
+        }
+        const preflight = await preflightWithdraw(aggregator, args.stakeId, {
+          user: args.user,
+        });
+        output(args.json, preflight, data => {
+          console.log(
+            `🔍 Dry run: withdraw stake #${data.stakeId} for ${data.user}`
+          );
+          const icons = { pass: '✅', warn: '⚠️ ', fail: '❌', skip: '⏭️ ' };
+          for (const check of data.checks) {
+            console.log(
+              `${icons[check.status]} ${check.name}: ${check.detail}`
+            );
+          }
+          if (data.payout && data.stake) {
+            const { decimals } = data.stake;
+            const unit = data.payout.native ? ' MATIC' : '';
+            console.log(
+              `💰 Payout: ${hre.ethers.formatUnits(data.payout.amount, decimals)}${unit}`
+            );
+            if (data.payout.penalty > 0n) {
+              console.log(
+                `⚠️  Early-exit penalty: ${hre.ethers.formatUnits(data.payout.penalty, decimals)}`
+              );
+            }
+          }
+          if (data.gas) {
+            console.log(
+              `⛽ Gas: ${data.gas.limit} (up to ${hre.ethers.formatEther(data.gas.cost)} MATIC)`
+            );
+          }
+          if (data.ok) {
+            console.log('✅ Withdrawal would succeed');
+            return;
+          }
+          console.log('❌ Withdrawal would fail:');
+          for (const diagnosis of data.diagnoses) {
+            console.log(`   ${diagnosis.issue}: ${diagnosis.message}`);
+          }
+        });
+        return;
+      }
+      if (args.user) {
+        throw new Error('--user is only supported with --dry-run');
+      }
+
+      const result = args.shares
+        ? await partialWithdraw(aggregator, args.stakeId, BigInt(args.shares))
+        : await withdrawTimeLockedStake(aggregator, args.stakeId);
+
+      output(
+        args.json,
+        {
+          stakeId: result.stakeId,
+          shares: args.shares,
+          amount: result.amount,
+          rewards: result.rewards,
+          penalty: result.penalty,
+          txHash: result.receipt.hash,
+        },
+        data => {
+          console.log(
+            data.shares
+              ? `✅ ${data.shares} shares of stake #${data.stakeId} withdrawn`
+              : `✅ Stake #${data.stakeId} withdrawn`
+          );
+          console.log(`💰 Principal: ${data.amount}`);
+          console.log(`🎁 Rewards: ${data.rewards}`);
+          if (data.penalty > 0n) {
+            console.log(`⚠️  Early-exit penalty: ${data.penalty}`);
+          }
+          console.log(`⏳ Transaction: ${data.txHash}`);
+        }
+      );
+    }
+  );
+
+staking
+  .task('stakes', 'Inspect and manage time-locked stakes')
+  .addOptionalPositionalParam(
+    'action',
+    'list | increase | extend | auto-compound | renew',
+    'list'
+  )
+  .addOptionalParam('stakeId', 'Stake ID', undefined, types.int)
+  .addOptionalParam('amount', 'Amount to add in token units (increase)')
+  .addFlag('native', 'Top up with native MATIC (increase)')
+  .addOptionalParam('by', 'Push the end time back by, e.g. 30d (extend)')
+  .addFlag('off', 'Disable instead of enable (auto-compound)')
+  .addOptionalParam('user', 'User address (defaults to the signer)')
+  .addOptionalParam('aggregator', 'Aggregator address override')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: CommonArgs & {
+        action: string;
+        stakeId?: number;
+        amount?: string;
+        native: boolean;
+        by?: string;
+        off: boolean;
+        user?: string;
+      },
+      hre
+    ) => {
+      requireAction(args.action, [
+        'list',
+        'increase',
+        'extend',
+        'auto-compound',
+        'renew',
+      ]);
+      const sdk = await import('../sdk');
+      const { getStakeValue, getUserTimeLockedStakes } = sdk;
+      const { aggregator, signer } = await getAggregator(hre, args);
+
+      const user = args.user || signer.address;
+      if (args.action !== 'list') {
+        const stakeId = args.stakeId;
+        if (stakeId === undefined) {
+          throw new Error(`stakes ${args.action} requires --stake-id`);
+        }
+
+        if (args.action === 'increase') {
+          if (!args.amount) {
+            throw new Error('stakes increase requires --amount');
+          }
+          const result = await sdk.increaseStake(aggregator, {
+            stakeId,
+            amount: args.amount,
+            native: args.native,
+          });
+          output(
+            args.json,
+            {
+              stakeId,
+              amount: result.amount,
+              shares: result.shares,
+              txHash: result.receipt.hash,
+            },
+            data =>
+              console.log(
+                `✅ Stake #${data.stakeId} increased by ${args.amount} (${data.shares} shares)`
+              )
+          );
+        } else if (args.action === 'extend') {
+          if (!args.by) {
+            throw new Error('stakes extend requires --by');
+          }
+          const stake = (await getUserTimeLockedStakes(aggregator, user))[
+            stakeId
+          ];
+          if (!stake) {
+            throw new Error(`Stake #${stakeId} not found`);
+          }
+          const endTime = stake.endTime + parseDuration(args.by);
+          const receipt = await sdk.extendLock(aggregator, stakeId, endTime);
+          output(args.json, { stakeId, endTime, txHash: receipt.hash }, data =>
+            console.log(
+              `✅ Stake #${data.stakeId} now matures ${formatTimestamp(data.endTime)}`
+            )
+          );
+        } else if (args.action === 'auto-compound') {
+          const receipt = await sdk.setAutoCompound(
+            aggregator,
+            stakeId,
+            !args.off
+          );
+          output(
+            args.json,
+            { stakeId, autoCompound: !args.off, txHash: receipt.hash },
+            data =>
+              console.log(
+                `✅ Auto-compound ${data.autoCompound ? 'enabled' : 'disabled'} for stake #${data.stakeId}`
+              )
+          );
+        } else {
+          const result = await sdk.renewStake(aggregator, user, stakeId);
+          output(
+            args.json,
+            {
+              user,
+              stakeId,
+              compounded: result.compounded,
+              amount: result.amount,
+              endTime: result.endTime,
+              txHash: result.receipt.hash,
+            },
+            data => {
+              console.log(`✅ Stake #${data.stakeId} renewed`);
+              console.log(`🎁 Compounded: ${data.compounded}`);
+              console.log(`💰 New principal: ${data.amount}`);
+              console.log(`⏰ Matures: ${formatTimestamp(data.endTime)}`);
+            }
+          );
+        }
+        return;
+      }
+
+      const stakes = await Promise.all(
+        (await getUserTimeLockedStakes(aggregator, user)).map(async stake => {
+          const { value, rewards, formattedValue, formattedRewards } =
+            await getStakeValue(aggregator, user, stake);
+          return { ...stake, value, rewards, formattedValue, formattedRewards };
+        })
+      );
+
+      output(args.json, { user, stakes }, data => {
+        if (data.stakes.length === 0) {
+          console.log(`❌ No time-locked stakes found for ${data.user}`);
+          return;
+        }
+        console.log(`📋 ${data.stakes.length} stakes for ${data.user}`);
+        for (const stake of data.stakes) {
+          console.log(`\n🆔 Stake #${stake.stakeId}`);
+          console.log(`💰 Amount: ${stake.formattedAmount}`);
+          if (stake.isActive) {
+            console.log(
+              `💎 Value: ${stake.formattedValue} (+${stake.formattedRewards} rewards)`
+            );
+          }
+          console.log(`🪙 Token: ${stake.stakingToken}`);
+          console.log(`📋 Protocol: ${stake.protocol}`);
+          console.log(`⏰ Start: ${formatTimestamp(stake.startTime)}`);
+          console.log(`⏰ End: ${formatTimestamp(stake.endTime)}`);
+          console.log(`🔒 Active: ${stake.isActive}`);
+          console.log(`✅ Matured: ${stake.isMatured}`);
+          console.log(`🔁 Auto-compound: ${stake.autoCompound}`);
+          console.log(`🧭 Auto-routed: ${stake.autoRouted}`);
+        }
+      });
+    }
+  );
@@ -0,0 +1,159 @@
+import { types } from 'hardhat/config';
+import type { SignedDailyResult, SignedStepReport } from '../sdk';
+import { requireAction, staking } from './scope';
+import { formatTimestamp, output } from './utils';
+
+/** `day:steps` pairs, e.g. "1744156800:3596,1744243200:5481" */
+function parseReadings(value: string) {
+  return value.split(',').map(pair => {
+    const [day, steps] = pair.split(':').map(part => Number(part.trim()));
+    return { day, steps };
+  });
+}
+
+staking
+  .task('steps', 'Sign and send ChallengeDetailV2 step results')
+  .addOptionalPositionalParam('action', 'serve | send', 'serve')
+  .addOptionalParam(
+    'keyEnv',
+    'Environment variable holding the security key (serve)',
+    'STEP_SIGNER_PRIVATE_KEY'
+  )
+  .addOptionalParam('host', 'Interface to listen on (serve)', '127.0.0.1')
+  .addOptionalParam('port', 'Port to listen on (serve)', 8787, types.int)
+  .addOptionalParam(
+    'ttl',
+    'Seconds each signature stays valid, at most 600 (serve)',
+    600,
+    types.int
+  )
+  .addOptionalParam(
+    'utcOffset',
+    'Time zone offset in minutes for time ranges, e.g. 540 for JST (default: 0, or the service default for send)',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('url', 'Step service URL (send)', 'http://127.0.0.1:8787')
+  .addOptionalParam('challenge', 'Challenge address (send)')
+  .addOptionalParam(
+    'readings',
+    'Comma-separated day:steps pairs, oldest first (send)'
+  )
+  .addFlag(
+    'typed',
+    'Sign an EIP-712 StepReport and send it with sendDailyReport (send)'
+  )
+  .addFlag('dryRun', 'Print the signed arguments without sending (send)')
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: {
+        action: string;
+        keyEnv: string;
+        host: string;
+        port: number;
+        ttl: number;
+        utcOffset?: number;
+        url: string;
+        challenge?: string;
+        readings?: string;
+        typed: boolean;
+        dryRun: boolean;
+        json: boolean;
+      },
+      hre
+    ) => {
+      requireAction(args.action, ['serve', 'send']);
+      const {
+        createStepService,
+        requestDailyResult,
+        requestStepReport,
+        sendDailyReport,
+        sendDailyResult,
+      } = await import('../sdk');
+
+      if (args.action === 'send') {
+        if (!args.challenge || !args.readings) {
+          throw new Error('steps send requires --challenge and --readings');
+        }
+        const request = {
+          challenge: args.challenge,
+          readings: parseReadings(args.readings),
+          utcOffsetMinutes: args.utcOffset,
+        };
+        const signed = args.typed
+          ? await requestStepReport(args.url, request)
+          : await requestDailyResult(args.url, request);
+        if (args.dryRun) {
+          output(args.json, signed, data => {
+            console.log(
+              `✍️  Signed by ${data.signer}, valid until ${formatTimestamp(data.expiresAt)}:`
+            );
+            console.log(
+              JSON.stringify(
+                data.args,
+                (_key, value) =>
+                  typeof value === 'bigint' ? value.toString() : value,
+                2
+              )
+            );
+          });
+          return;
+        }
+        const [challenger] = await hre.ethers.getSigners();
+        const challenge = await hre.ethers.getContractAt(
+          'ChallengeDetailV2',
+          args.challenge,
+          challenger
+        );
+        const receipt = args.typed
+          ? await sendDailyReport(challenge, signed as SignedStepReport)
+          : await sendDailyResult(challenge, signed as SignedDailyResult);
+        const status = await challenge.currentStatus();
+        output(
+          args.json,
+          { txHash: receipt.hash, currentStatus: status },
+          data =>
+            console.log(
+              `✅ Result sent (${data.txHash}); ${data.currentStatus} day(s) reached the goal`
+            )
+        );
+        return;
+      }
+
+      const key = process.env[args.keyEnv];
+      if (!key) {
+        throw new Error(`Set ${args.keyEnv} to the security key`);
+      }
+      const signer = new hre.ethers.Wallet(key, hre.ethers.provider);
+      const server = createStepService(signer, {
+        ttl: args.ttl,
+        utcOffsetMinutes: args.utcOffset,
+        onSigned: result => {
+          if (!args.json) {
+            console.log(
+              `✍️  ${result.challenge}: ${result.args.day.length} reading(s), valid until ${formatTimestamp(result.expiresAt)}`
+            );
+          }
+        },
+      });
+      await new Promise<void>(resolve =>
+        server.listen(args.port, args.host, resolve)
+      );
+      output(
+        args.json,
+        {
+          url: `http://${args.host}:${args.port}`,
+          signer: signer.address,
+          chainId: (await hre.ethers.provider.getNetwork()).chainId,
+        },
+        data =>
+          console.log(
+            `👟 Signing step data as ${data.signer} on chain ${data.chainId} at ${data.url} (Ctrl+C to stop)`
+          )
+      );
+      await new Promise<void>(resolve =>
+        process.once('SIGINT', () => server.close(() => resolve()))
+      );
+    }
+  );
@@ -0,0 +1,40 @@
+import { formatInspection } from './inspect';
+import { requireAction, staking } from './scope';
+import { output } from './utils';
+
+staking
+  .task('tx', 'Decode a transaction: tx inspect <hash>')
+  .addPositionalParam('action', 'inspect')
+  .addPositionalParam('hash', 'Transaction hash')
+  .addOptionalParam(
+    'label',
+    'Extra address names, e.g. 0xabc=Treasury,0xdef=ERC20 (an ABI name also decodes with it)'
+  )
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (
+      args: { action: string; hash: string; label?: string; json: boolean },
+      hre
+    ) => {
+      requireAction(args.action, ['inspect']);
+      const { inspectTransaction } = await import('../sdk');
+
+      const labels: { [address: string]: string } = {};
+      for (const entry of args.label?.split(',') ?? []) {
+        const [address, name] = entry.split('=').map(part => part.trim());
+        if (!hre.ethers.isAddress(address) || !name) {
+          throw new Error(`Invalid label "${entry}". Use <address>=<name>`);
+        }
+        labels[address] = name;
+      }
+
+      const inspection = await inspectTransaction(
+        hre.ethers.provider,
+        args.hash,
+        { labels }
+      );
+      output(args.json, inspection, data =>
+        console.log(formatInspection(data))
+      );
+    }
+  );
@@ -0,0 +1,106 @@
+import { staking } from './scope';
+import { output } from './utils';
+
+staking
+  .task(
+    'upgrade',
+    'Upgrade a proxied aggregator after checking its storage layout'
+  )
+  .addFlag('dryRun', 'Only check the storage layout')
+  .addFlag(
+    'propose',
+    'Deploy the implementation and print the upgrade call for its owner to send'
+  )
+  .addFlag('json', 'Print machine-readable output')
+  .setAction(
+    async (args: { dryRun: boolean; propose: boolean; json: boolean }, hre) => {
+      const {
+        AGGREGATOR_CONTRACT,
+        buildUpgradeCall,
+        deployAggregatorImplementation,
+        executeUpgrade,
+        isEphemeralNetwork,
+        loadAggregatorDeployment,
+        planUpgrade,
+        readStorageLayout,
+        recordImplementation,
+      } = await import('../sdk');
+      const [signer] = await hre.ethers.getSigners();
+      const provider = hre.ethers.provider;
+      const deployment = await loadAggregatorDeployment(provider);
+      const layout = await readStorageLayout(hre.artifacts);
+      const plan = await planUpgrade(provider, deployment, layout);
+
+      const report = {
+        proxy: plan.proxy,
+        kind: plan.kind,
+        current: plan.current,
+        problems: plan.problems,
+      };
+      if (plan.problems.length > 0) {
+        throw new Error(
+          `Storage layout is incompatible with implementation ${plan.current}:\n` +
+            plan.problems.map(problem => `  - ${problem}`).join('\n')
+        );
+      }
+      if (args.dryRun) {
+        output(args.json, report, data =>
+          console.log(
+            `✅ Storage layout is compatible with implementation ${data.current} behind the ${data.kind} proxy ${data.proxy}`
+          )
+        );
+        return;
+      }
+
+      const implementation = await deployAggregatorImplementation(
+        signer,
+        layout,
+        plan.kind
+      );
+      if (!isEphemeralNetwork(hre.network.name)) {
+        recordImplementation(
+          deployment.chainId,
+          AGGREGATOR_CONTRACT,
+          deployment.address,
+          implementation
+        );
+      }
+      const call = await buildUpgradeCall(
+        provider,
+        plan,
+        implementation.address
+      );
+
+      // Calls only the upgrade owner can send are handed over as a proposal
+      const canSend = call.from.toLowerCase() === signer.address.toLowerCase();
+      if (args.propose || !canSend) {
+        output(
+          args.json,
+          { ...report, implementation: implementation.address, call },
+          data => {
+            console.log(
+              `✅ Implementation ${data.implementation} deployed; storage layout is compatible`
+            );
+            console.log(`📨 Upgrade for ${data.call.from} to send:`);
+            console.log(`   to:   ${data.call.to}`);
+            console.log(`   data: ${data.call.data}`);
+          }
+        );
+        return;
+      }
+
+      const receipt = await executeUpgrade(signer, call);
+      output(
+        args.json,
+        {
+          ...report,
+          implementation: implementation.address,
+          txHash: receipt.hash,
+        },
+        data =>
+          console.log(
+            `✅ ${data.proxy} upgraded from ${data.current} to ${data.implementation} (tx ${data.txHash})`
+          )
+      );
+    }
+  );
@@ -0,0 +1,66 @@
+import { isAddress } from 'ethers';
+import type { PolygonDeFiAggregator } from '../typechain-types';
+
+const DURATION_UNITS: { [unit: string]: number } = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+/**
+ * Parse a lock duration such as "3600", "12h", "7d" or "2w" into seconds
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+)\s*([smhdw]?)$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(
+      `Invalid duration "${value}". Use seconds or a suffix: s, m, h, d, w`
+    );
+  }
+  return Number(match[1]) * DURATION_UNITS[(match[2] || 's').toLowerCase()];
+}
+
+/**
+ * Resolve a token argument that is either an address or a symbol registered
+ * in the aggregator (case-insensitive)
+ */
+export async function resolveToken(
+  aggregator: PolygonDeFiAggregator,
+  tokenOrSymbol: string
+): Promise<string> {
+  // isAddress is a type guard, so compare on a copy to keep the string type
+  const wanted = tokenOrSymbol.toLowerCase();
+  if (isAddress(tokenOrSymbol)) {
+    return tokenOrSymbol;
+  }
+
+  const { addresses, symbols } = await aggregator.getAllSupportedTokens();
+  const index = symbols.findIndex(symbol => symbol.toLowerCase() === wanted);
+  if (index === -1) {
+    throw new Error(
+      `Unknown token "${tokenOrSymbol}". Supported: ${symbols.join(', ') || 'none'}`
+    );
+  }
+  return addresses[index];
+}
+
+function jsonReplacer(_key: string, value: unknown) {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Print `data` as JSON when `--json` is set, otherwise run the human printer
+ */
+export function output<T>(json: boolean, data: T, print: (data: T) => void) {
+  if (json) {
+    console.log(JSON.stringify(data, jsonReplacer, 2));
+  } else {
+    print(data);
+  }
+}
+
+export function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toLocaleString();
+}
@@ -0,0 +1,215 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { LockPolicy } from '../sdk';
+import { parseScenario, runScenario } from './helpers/scenario';
+
+const { parseEther } = hre.ethers;
+
+const POT = parseEther('10');
+const share = (percent: bigint) => (POT * percent) / 100n;
+
+describe('ChallengeDetailV2', function () {
+  describe('Scenarios', function () {
+    it('Should parse every clause and report the ones it cannot read', function () {
+      const clauses = parseScenario(`
+        day 1: 5000 steps, day 2: missed; day 3: 3000 steps
+        day 3: resend 6000 steps, days 4-6: 5000, 7000, 5200 steps
+        day 7: give up reverts "Can not give up", close reverts
+      `);
+      const steps = [
+        { action: 'report', days: [1], steps: [5000], resend: false },
+        { action: 'missed', day: 2 },
+        { action: 'report', days: [3], steps: [3000], resend: false },
+        { action: 'report', days: [3], steps: [6000], resend: true },
+        {
+          action: 'report',
+          days: [4, 5, 6],
+          steps: [5000, 7000, 5200],
+          resend: false,
+        },
+        { action: 'giveUp', day: 7, reverts: 'Can not give up' },
+        { action: 'close', reverts: '' },
+      ];
+      expect(clauses.length).to.equal(steps.length);
+      steps.forEach((step, i) => expect(clauses[i]).to.deep.include(step));
+      expect(clauses[3].text).to.equal('day 3: resend 6000 steps');
+
+      let error: Error | undefined;
+      try {
+        parseScenario(
+          'day 0: 5000 steps, days 3-4: 5000 steps, day 5: missed reverts\nwalk'
+        );
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal(
+        [
+          'Invalid scenario:',
+          '"day 0: 5000 steps": days count from 1',
+          '"days 3-4: 5000 steps": 2 days need as many step counts, got 1',
+          '"day 5: missed reverts": a missed day sends nothing to revert',
+          '"walk" is not a clause',
+        ].join('\n  ')
+      );
+    });
+
+    it('Should pay the challenger once enough days reach the goal', async function () {
+      const result = await runScenario(
+        `
+          day 1: 5000 steps, day 2: 6000 steps, day 3: missed
+          days 4-6: 5000, 4999, 5000 steps
+          day 7: 5000 steps, day 8: 5000 steps, day 9: 5000 steps
+          day 10: 5000 steps reverts "Challenge was finished"
+          close reverts "Cant call"
+        `,
+        { nfts: 2 }
+      );
+
+      expect(result.state).to.equal('SUCCESS');
+      expect(result.currentStatus).to.equal(7);
+      expect(result.history.map(entry => entry.day)).to.deep.equal([
+        1, 2, 4, 5, 6, 7, 8, 9,
+      ]);
+      expect(result.pot).to.equal(POT);
+      expect(result.payouts).to.deep.equal({
+        sponsor: 0n,
+        challenger: share(98n),
+        receiver: 0n,
+        fee: share(2n),
+      });
+      expect(result.nftOwners).to.deep.equal(['challenger', 'challenger']);
+      expect(result.gachaCalls).to.equal(6);
+    });
+
+    it('Should let a short day be resent the same day until it reaches the goal', async function () {
+      const result = await runScenario(`
+        day 1: 3000 steps, day 1: resend 4000 steps, day 1: resend 6000 steps
+        day 1: resend 7000 steps reverts "Invalid step: exceeds goal or not greater"
+        day 2: 5000 steps
+      `);
+
+      expect(result.state).to.equal('PROCESSING');
+      expect(result.currentStatus).to.equal(2);
+      expect(result.history).to.deep.equal([
+        { day: 1, steps: 6000 },
+        { day: 2, steps: 5000 },
+      ]);
+      expect(result.gachaCalls).to.equal(4);
+    });
+
+    it('Should fail once more days fall short than the challenge tolerates', async function () {
+      // Ten days with seven required tolerate three short days. A short
+      // report could still be resent the same day, so the fourth shortfall
+      // only settles the challenge with the next report.
+      const result = await runScenario(
+        `
+          day 1: 5000 steps, days 2-4: 1000, 1000, 1000 steps
+          day 5: 1000 steps, day 6: 5000 steps
+          day 7: 5000 steps reverts "Challenge was finished"
+        `,
+        { nfts: 2 }
+      );
+
+      expect(result.state).to.equal('FAILED');
+      expect(result.currentStatus).to.equal(2);
+      expect(result.payouts).to.deep.equal({
+        sponsor: 0n,
+        challenger: 0n,
+        receiver: share(98n),
+        fee: share(2n),
+      });
+      expect(result.nftOwners).to.deep.equal(['sponsor', 'sponsor']);
+    });
+
+    it('Should not count missed days until the sponsor closes the challenge', async function () {
+      const result = await runScenario(
+        `
+          day 1: 5000 steps, day 2: missed, day 3: missed, day 4: missed
+          day 5: missed, day 6: 5000 steps, day 10: 5000 steps
+        `,
+        { nfts: 1 }
+      );
+      expect(result.state).to.equal('PROCESSING');
+      expect(result.currentStatus).to.equal(3);
+      expect(result.pot).to.equal(0n);
+
+      const closed = await runScenario(
+        'day 1: 5000 steps, day 2: missed, day 6: 5000 steps, close',
+        { nfts: 1 }
+      );
+      expect(closed.state).to.equal('CLOSED');
+      expect(closed.payouts).to.deep.equal({
+        sponsor: 0n,
+        challenger: 0n,
+        receiver: share(98n),
+        fee: share(2n),
+      });
+      expect(closed.nftOwners).to.deep.equal(['sponsor']);
+    });
+
+    it('Should split the deposit by progress when the challenger gives up', async function () {
+      await runScenario(
+        'day 1: 5000 steps, day 2: give up reverts "Can not give up"'
+      );
+
+      const result = await runScenario(
+        `
+          days 1-3: 5000, 5000, 5000 steps, day 4: give up
+          give up reverts "This challenge was give up"
+        `,
+        { allowGiveUp: true, nfts: 1 }
+      );
+
+      const amount = share(98n);
+      const toChallenger = (amount * 3n) / 7n;
+      expect(result.state).to.equal('GAVE_UP');
+      expect(result.payouts).to.deep.equal({
+        sponsor: amount - toChallenger,
+        challenger: toChallenger,
+        receiver: 0n,
+        fee: share(2n),
+      });
+      expect(result.nftOwners).to.deep.equal(['sponsor']);
+
+      const toSponsor = await runScenario('day 1: 5000 steps, day 2: give up', {
+        allowGiveUp: true,
+        awardSponsorOnGiveUp: true,
+      });
+      expect(toSponsor.payouts).to.deep.equal({
+        sponsor: amount,
+        challenger: 0n,
+        receiver: 0n,
+        fee: share(2n),
+      });
+    });
+
+    it('Should settle in full long before the stake matures, whatever the lock policy', async function () {
+      // Challenges lock their deposit for 365 days but end within days
+      const policies: LockPolicy[] = [
+        { mode: 'hard', maxPenaltyBps: 0 },
+        { mode: 'linear', maxPenaltyBps: 5000 },
+        { mode: 'forfeit', maxPenaltyBps: 0 },
+      ];
+      for (const lockPolicy of policies) {
+        const succeeded = await runScenario(
+          'days 1-7: 5000, 5000, 5000, 5000, 5000, 5000, 5000 steps',
+          { lockPolicy }
+        );
+        expect(succeeded.state).to.equal('SUCCESS');
+        expect(succeeded.payouts.challenger).to.equal(share(98n));
+
+        const gaveUp = await runScenario(
+          'days 1-3: 5000, 5000, 5000 steps, day 4: give up',
+          { allowGiveUp: true, lockPolicy }
+        );
+        expect(gaveUp.pot).to.equal(POT);
+
+        const closed = await runScenario('day 1: 5000 steps, close', {
+          lockPolicy,
+        });
+        expect(closed.state).to.equal('CLOSED');
+        expect(closed.payouts.receiver).to.equal(share(98n));
+      }
+    });
+  });
+});
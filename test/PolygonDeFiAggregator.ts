@@ -0,0 +1,1962 @@
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs';
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { WMATIC_ADDRESS } from '../sdk';
+import { deployAggregatorFixture, ONE_DAY } from './helpers/aggregator';
+
+const { parseEther, parseUnits } = hre.ethers;
+const tusd = (amount: string) => parseUnits(amount, 6);
+
+// Mirrors PolygonDeFiAggregator.LockMode
+const LockMode = { None: 0, Hard: 1, LinearPenalty: 2, ForfeitRewards: 3 };
+
+describe('PolygonDeFiAggregator', function () {
+  describe('Deployment', function () {
+    it('Should set the right owner', async function () {
+      const { aggregator, owner } = await loadFixture(deployAggregatorFixture);
+
+      expect(await aggregator.owner()).to.equal(owner.address);
+    });
+
+    it('Should use the mainnet WMATIC address', async function () {
+      const { aggregator } = await loadFixture(deployAggregatorFixture);
+
+      expect(await aggregator.WMATIC_ADDRESS()).to.equal(WMATIC_ADDRESS);
+    });
+
+    it('Should list registered protocols and tokens', async function () {
+      const { aggregator, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+
+      const protocols = await aggregator.getAllProtocols();
+      expect(protocols.names).to.deep.equal([
+        'aave_lending',
+        'mock_liquid',
+        'mock_compound',
+      ]);
+      expect(protocols.apys).to.deep.equal([800n, 500n, 300n]);
+
+      const tokens = await aggregator.getAllSupportedTokens();
+      expect(tokens.addresses).to.deep.equal([tokenAddress]);
+      expect(tokens.decimals).to.deep.equal([6n]);
+    });
+  });
+
+  describe('Proxy deployment', function () {
+    async function deployUupsFixture() {
+      const [owner, alice] = await hre.ethers.getSigners();
+      const implementation = await hre.ethers.deployContract(
+        'PolygonDeFiAggregator'
+      );
+      const proxy = await hre.ethers.deployContract('ERC1967Proxy', [
+        await implementation.getAddress(),
+        implementation.interface.encodeFunctionData('initialize', [
+          alice.address,
+        ]),
+      ]);
+      const aggregator = await hre.ethers.getContractAt(
+        'PolygonDeFiAggregator',
+        await proxy.getAddress()
+      );
+      return { aggregator, implementation, owner, alice };
+    }
+
+    it('Should set up the proxy state through initialize', async function () {
+      const { aggregator, alice } = await loadFixture(deployUupsFixture);
+
+      expect(await aggregator.owner()).to.equal(alice.address);
+      expect(await aggregator.feeRecipient()).to.equal(alice.address);
+      expect(await aggregator.rebalanceThresholdBps()).to.equal(100);
+      await expect(
+        aggregator.initialize(alice.address)
+      ).to.be.revertedWithCustomError(aggregator, 'InvalidInitialization');
+    });
+
+    it('Should not let the implementation be initialized', async function () {
+      const { implementation, alice } = await loadFixture(deployUupsFixture);
+
+      await expect(
+        implementation.initialize(alice.address)
+      ).to.be.revertedWithCustomError(implementation, 'InvalidInitialization');
+    });
+
+    it('Should only let the owner upgrade', async function () {
+      const { aggregator, alice } = await loadFixture(deployUupsFixture);
+      const next = await hre.ethers.deployContract('PolygonDeFiAggregator');
+      const nextAddress = await next.getAddress();
+
+      await expect(
+        aggregator.upgradeToAndCall(nextAddress, '0x')
+      ).to.be.revertedWithCustomError(aggregator, 'OwnableUnauthorizedAccount');
+      await expect(
+        aggregator.connect(alice).upgradeToAndCall(nextAddress, '0x')
+      )
+        .to.emit(aggregator, 'Upgraded')
+        .withArgs(nextAddress);
+      // State stays with the proxy
+      expect(await aggregator.owner()).to.equal(alice.address);
+    });
+  });
+
+  describe('Administration', function () {
+    it('Should reject duplicate and zero-address tokens', async function () {
+      const { aggregator, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+
+      await expect(
+        aggregator.addSupportedToken(tokenAddress, 'TUSD', 6)
+      ).to.be.revertedWith('Token already supported');
+      await expect(
+        aggregator.addSupportedToken(hre.ethers.ZeroAddress, 'NONE', 18)
+      ).to.be.revertedWith('Invalid token address');
+    });
+
+    it('Should validate new protocols', async function () {
+      const { aggregator, alice, liquid, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+      const foreignAdapter = await hre.ethers.deployContract(
+        'LiquidStakingAdapter',
+        [alice.address, await liquid.getAddress()]
+      );
+
+      await expect(
+        aggregator.addProtocol('bad', await foreignAdapter.getAddress(), 100)
+      ).to.be.revertedWith('Adapter bound to another aggregator');
+      await expect(
+        aggregator.addProtocol('mock_liquid', tokenAddress, 100)
+      ).to.be.revertedWith('Protocol already exists');
+      await expect(
+        aggregator.addProtocol('bad', hre.ethers.ZeroAddress, 100)
+      ).to.be.revertedWith('Invalid contract address');
+    });
+
+    it('Should emit APYUpdated when the APY changes', async function () {
+      const { aggregator } = await loadFixture(deployAggregatorFixture);
+
+      await expect(aggregator.updateProtocolAPY('mock_liquid', 650))
+        .to.emit(aggregator, 'APYUpdated')
+        .withArgs('mock_liquid', 500, 650);
+      await expect(
+        aggregator.updateProtocolAPY('unknown', 650)
+      ).to.be.revertedWith('Protocol not found');
+    });
+
+    it('Should reject status changes for unknown tokens', async function () {
+      const { aggregator, alice } = await loadFixture(deployAggregatorFixture);
+
+      await expect(
+        aggregator.setTokenStatus(alice.address, false)
+      ).to.be.revertedWith('Token not found');
+    });
+
+    it('Should restrict admin functions to their roles', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+      const asAlice = aggregator.connect(alice);
+      const [protocolManager, apyOracle, pauser, emergency] = await Promise.all(
+        [
+          aggregator.PROTOCOL_MANAGER_ROLE(),
+          aggregator.APY_ORACLE_ROLE(),
+          aggregator.PAUSER_ROLE(),
+          aggregator.EMERGENCY_ROLE(),
+        ]
+      );
+
+      const calls = [
+        [
+          protocolManager,
+          () => asAlice.addSupportedToken(alice.address, 'X', 18),
+        ],
+        [protocolManager, () => asAlice.addProtocol('x', alice.address, 1)],
+        [protocolManager, () => asAlice.setTokenStatus(tokenAddress, false)],
+        [
+          protocolManager,
+          () => asAlice.setProtocolStatus('mock_liquid', false),
+        ],
+        [
+          protocolManager,
+          () => asAlice.setLockPolicy('mock_liquid', LockMode.Hard, 0),
+        ],
+        [protocolManager, () => asAlice.setRebalanceThreshold(1)],
+        [protocolManager, () => asAlice.setLockExempt(alice.address, true)],
+        [protocolManager, () => asAlice.setChallengeFactory(tokenAddress)],
+        [apyOracle, () => asAlice.updateProtocolAPY('mock_liquid', 1)],
+        [pauser, () => asAlice.pause()],
+        [pauser, () => asAlice.unpause()],
+        [emergency, () => asAlice.emergencyWithdraw(tokenAddress)],
+        [emergency, () => asAlice.emergencyExit('mock_liquid', tokenAddress)],
+      ] as const;
+      for (const [role, call] of calls) {
+        await expect(call())
+          .to.be.revertedWithCustomError(
+            aggregator,
+            'AccessControlUnauthorizedAccount'
+          )
+          .withArgs(alice.address, role);
+      }
+
+      const ownerCalls = [
+        () => asAlice.setFeeRecipient(alice.address),
+        () => asAlice.grantRole(pauser, alice.address),
+        () => asAlice.batchGrantRole(pauser, [alice.address]),
+        () => asAlice.revokeRole(pauser, alice.address),
+        () => asAlice.migrateStakeOut(alice.address, 0),
+      ];
+      for (const call of ownerCalls) {
+        await expect(call()).to.be.revertedWithCustomError(
+          aggregator,
+          'OwnableUnauthorizedAccount'
+        );
+      }
+    });
+
+    it('Should give the deployer every role', async function () {
+      const { aggregator, owner } = await loadFixture(deployAggregatorFixture);
+
+      for (const role of [
+        await aggregator.PROTOCOL_MANAGER_ROLE(),
+        await aggregator.APY_ORACLE_ROLE(),
+        await aggregator.PAUSER_ROLE(),
+        await aggregator.EMERGENCY_ROLE(),
+      ]) {
+        expect(await aggregator.hasRole(role, owner.address)).to.equal(true);
+      }
+    });
+
+    it('Should let the owner grant and revoke roles', async function () {
+      const { aggregator, owner, alice, bob } = await loadFixture(
+        deployAggregatorFixture
+      );
+      const pauser = await aggregator.PAUSER_ROLE();
+      const apyOracle = await aggregator.APY_ORACLE_ROLE();
+
+      await expect(aggregator.grantRole(pauser, alice.address))
+        .to.emit(aggregator, 'RoleGranted')
+        .withArgs(pauser, alice.address, owner.address);
+      // Granting again changes nothing
+      await expect(aggregator.grantRole(pauser, alice.address)).not.to.emit(
+        aggregator,
+        'RoleGranted'
+      );
+      await aggregator.batchGrantRole(apyOracle, [alice.address, bob.address]);
+      expect(await aggregator.hasRole(apyOracle, bob.address)).to.equal(true);
+
+      await aggregator.connect(alice).pause();
+      await aggregator.connect(alice).unpause();
+      await aggregator.connect(bob).updateProtocolAPY('mock_liquid', 650);
+
+      await expect(aggregator.revokeRole(pauser, alice.address))
+        .to.emit(aggregator, 'RoleRevoked')
+        .withArgs(pauser, alice.address, owner.address);
+      await expect(
+        aggregator.connect(alice).pause()
+      ).to.be.revertedWithCustomError(
+        aggregator,
+        'AccessControlUnauthorizedAccount'
+      );
+
+      await expect(aggregator.connect(bob).renounceRole(apyOracle))
+        .to.emit(aggregator, 'RoleRevoked')
+        .withArgs(apyOracle, bob.address, bob.address);
+      expect(await aggregator.hasRole(apyOracle, bob.address)).to.equal(false);
+    });
+
+    it('Should hold the owner to the roles it has', async function () {
+      const { aggregator, owner } = await loadFixture(deployAggregatorFixture);
+      const pauser = await aggregator.PAUSER_ROLE();
+
+      await aggregator.renounceRole(pauser);
+      await expect(aggregator.pause())
+        .to.be.revertedWithCustomError(
+          aggregator,
+          'AccessControlUnauthorizedAccount'
+        )
+        .withArgs(owner.address, pauser);
+    });
+
+    it('Should reject unknown roles and the zero address', async function () {
+      const { aggregator, alice } = await loadFixture(deployAggregatorFixture);
+
+      await expect(
+        aggregator.grantRole(hre.ethers.id('MINTER_ROLE'), alice.address)
+      ).to.be.revertedWith('Unknown role');
+      await expect(
+        aggregator.grantRole(
+          await aggregator.PAUSER_ROLE(),
+          hre.ethers.ZeroAddress
+        )
+      ).to.be.revertedWith('Invalid account');
+    });
+
+    it('Should sweep stray tokens to the owner even when another account calls', async function () {
+      const { aggregator, aggregatorAddress, token, owner, alice } =
+        await loadFixture(deployAggregatorFixture);
+      await aggregator.grantRole(
+        await aggregator.EMERGENCY_ROLE(),
+        alice.address
+      );
+      await token.transfer(aggregatorAddress, tusd('5'));
+
+      await expect(
+        aggregator.connect(alice).emergencyWithdraw(await token.getAddress())
+      ).to.changeTokenBalances(
+        token,
+        [aggregatorAddress, owner, alice],
+        [-tusd('5'), tusd('5'), 0]
+      );
+    });
+
+    it('Should sweep stray tokens to the owner in an emergency', async function () {
+      const { aggregator, aggregatorAddress, token, owner } = await loadFixture(
+        deployAggregatorFixture
+      );
+      await token.transfer(aggregatorAddress, tusd('5'));
+
+      await expect(
+        aggregator.emergencyWithdraw(await token.getAddress())
+      ).to.changeTokenBalances(
+        token,
+        [aggregatorAddress, owner],
+        [-tusd('5'), tusd('5')]
+      );
+    });
+
+    it('Should pay stakes out of an adapter drained in an emergency', async function () {
+      const { aggregator, token, owner, alice, bob, carol, tokenAddress } =
+        await loadFixture(deployAggregatorFixture);
+      await aggregator.grantRole(
+        await aggregator.EMERGENCY_ROLE(),
+        carol.address
+      );
+      const protocols = ['aave_lending', 'mock_liquid', 'mock_compound'];
+
+      for (const [stakeId, protocol] of protocols.entries()) {
+        // Hard locks would otherwise keep the stakes in until maturity
+        await aggregator.setLockPolicy(protocol, LockMode.Hard, 0);
+        for (const [user, amount] of [
+          [alice, tusd('100')],
+          [bob, tusd('50')],
+        ] as const) {
+          await aggregator
+            .connect(user)
+            .createTimeLockedStake(tokenAddress, amount, protocol, ONE_DAY);
+        }
+
+        await expect(
+          aggregator.connect(carol).emergencyExit(protocol, tokenAddress)
+        )
+          .to.emit(aggregator, 'EmergencyExit')
+          .withArgs(protocol, tokenAddress, tusd('150'));
+        expect((await aggregator.protocols(protocol)).isActive).to.equal(false);
+        expect(
+          (await aggregator.emergencyExits(protocol, tokenAddress)).assets
+        ).to.equal(tusd('150'));
+        expect(
+          (await aggregator.getStakeValue(alice.address, stakeId)).value
+        ).to.equal(tusd('100'));
+
+        // The recovered funds are not the owner's to sweep
+        await expect(
+          aggregator.emergencyWithdraw(tokenAddress)
+        ).to.changeTokenBalance(token, owner, 0);
+
+        // Nor can new deposits dilute them
+        await aggregator.setProtocolStatus(protocol, true);
+        await expect(
+          aggregator
+            .connect(carol)
+            .createTimeLockedStake(tokenAddress, tusd('10'), protocol, ONE_DAY)
+        ).to.be.revertedWith('Protocol was emergency exited');
+
+        await expect(
+          aggregator.connect(alice).withdrawTimeLockedStake(stakeId)
+        ).to.changeTokenBalance(token, alice, tusd('100'));
+        await expect(
+          aggregator.connect(bob).withdrawTimeLockedStake(stakeId)
+        ).to.changeTokenBalance(token, bob, tusd('50'));
+        const pool = await aggregator.emergencyExits(protocol, tokenAddress);
+        expect([pool.assets, pool.shares]).to.deep.equal([0n, 0n]);
+
+        // With every exited stake gone the protocol takes deposits again
+        await aggregator.setLockPolicy(protocol, LockMode.None, 0);
+        await aggregator
+          .connect(carol)
+          .createTimeLockedStake(tokenAddress, tusd('10'), protocol, ONE_DAY);
+        await expect(
+          aggregator.connect(carol).withdrawTimeLockedStake(stakeId)
+        ).to.changeTokenBalance(token, carol, tusd('10'));
+      }
+
+      // Nothing left to drain
+      await expect(aggregator.emergencyExit('mock_liquid', tokenAddress))
+        .to.emit(aggregator, 'EmergencyExit')
+        .withArgs('mock_liquid', tokenAddress, 0);
+      await expect(
+        aggregator.emergencyExit('missing', tokenAddress)
+      ).to.be.revertedWith('Protocol not found');
+    });
+  });
+
+  describe('Lock duration', function () {
+    it('Should reject locks shorter than one day', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+
+      await expect(
+        aggregator
+          .connect(alice)
+          .createTimeLockedStake(
+            tokenAddress,
+            tusd('1'),
+            'mock_liquid',
+            ONE_DAY - 1
+          )
+      ).to.be.revertedWith('Minimum lock duration is 1 day');
+    });
+
+    it('Should reject locks longer than 365 days', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+
+      await expect(
+        aggregator
+          .connect(alice)
+          .createTimeLockedStake(
+            tokenAddress,
+            tusd('1'),
+            'mock_liquid',
+            365 * ONE_DAY + 1
+          )
+      ).to.be.revertedWith('Maximum lock duration is 365 days');
+    });
+
+    it('Should accept both bounds and set the end time', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+      const asAlice = aggregator.connect(alice);
+
+      for (const duration of [ONE_DAY, 365 * ONE_DAY]) {
+        await expect(
+          asAlice.createTimeLockedStake(
+            tokenAddress,
+            tusd('1'),
+            'mock_liquid',
+            duration
+          )
+        ).to.emit(aggregator, 'TimeLockedStakeCreated');
+      }
+
+      const stakes = await aggregator.getUserTimeLockedStakes(alice.address);
+      expect(stakes[0].endTime - stakes[0].startTime).to.equal(ONE_DAY);
+      expect(stakes[1].endTime - stakes[1].startTime).to.equal(365 * ONE_DAY);
+    });
+
+    it('Should report maturity once the lock has passed', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+      await aggregator
+        .connect(alice)
+        .createTimeLockedStake(tokenAddress, tusd('1'), 'mock_liquid', ONE_DAY);
+
+      expect(
+        await aggregator.isTimeLockedStakeMatured(alice.address, 0)
+      ).to.equal(false);
+      await time.increase(ONE_DAY);
+      expect(
+        await aggregator.isTimeLockedStakeMatured(alice.address, 0)
+      ).to.equal(true);
+      expect(
+        await aggregator.isTimeLockedStakeMatured(alice.address, 1)
+      ).to.equal(false);
+    });
+  });
+
+  describe('Stake validation', function () {
+    it('Should reject inactive protocols and tokens', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+      const asAlice = aggregator.connect(alice);
+
+      await aggregator.setProtocolStatus('mock_liquid', false);
+      await expect(
+        asAlice.createTimeLockedStake(
+          tokenAddress,
+          tusd('1'),
+          'mock_liquid',
+          ONE_DAY
+        )
+      ).to.be.revertedWith('Protocol not supported');
+
+      await aggregator.setTokenStatus(tokenAddress, false);
+      await expect(
+        asAlice.createTimeLockedStake(
+          tokenAddress,
+          tusd('1'),
+          'mock_compound',
+          ONE_DAY
+        )
+      ).to.be.revertedWith('Token not supported');
+    });
+
+    it('Should reject zero amounts and stray MATIC', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+      const asAlice = aggregator.connect(alice);
+
+      await expect(
+        asAlice.createTimeLockedStake(tokenAddress, 0, 'mock_liquid', ONE_DAY)
+      ).to.be.revertedWith('Cannot stake 0');
+      await expect(
+        asAlice.createTimeLockedStake(
+          tokenAddress,
+          tusd('1'),
+          'mock_liquid',
+          ONE_DAY,
+          { value: 1 }
+        )
+      ).to.be.revertedWith("Don't send MATIC for ERC20 staking");
+    });
+
+    it('Should only route native MATIC to protocols supporting WMATIC', async function () {
+      const { aggregator, alice } = await loadFixture(deployAggregatorFixture);
+
+      await expect(
+        aggregator
+          .connect(alice)
+          .createTimeLockedStake(WMATIC_ADDRESS, 0, 'mock_liquid', ONE_DAY, {
+            value: parseEther('1'),
+          })
+      ).to.be.revertedWith('Token not supported by protocol');
+    });
+
+    it('Should reject tokens without a reserve on the pool', async function () {
+      const { aggregator, alice } = await loadFixture(deployAggregatorFixture);
+      const other = await hre.ethers.deployContract('TestToken', [
+        'Other',
+        'OTH',
+        18,
+        1_000,
+      ]);
+      const otherAddress = await other.getAddress();
+      await aggregator.addSupportedToken(otherAddress, 'OTH', 18);
+      await other.transfer(alice.address, parseEther('1'));
+      await other
+        .connect(alice)
+        .approve(await aggregator.getAddress(), parseEther('1'));
+
+      await expect(
+        aggregator
+          .connect(alice)
+          .createTimeLockedStake(
+            otherAddress,
+            parseEther('1'),
+            'aave_lending',
+            ONE_DAY
+          )
+      ).to.be.revertedWith('Token not supported by protocol');
+    });
+  });
+
+  describe('Pause', function () {
+    it('Should block new stakes but not withdrawals', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+      const asAlice = aggregator.connect(alice);
+      await asAlice.createTimeLockedStake(
+        tokenAddress,
+        tusd('10'),
+        'mock_liquid',
+        ONE_DAY
+      );
+
+      await aggregator.pause();
+      await expect(
+        asAlice.createTimeLockedStake(
+          tokenAddress,
+          tusd('10'),
+          'mock_liquid',
+          ONE_DAY
+        )
+      ).to.be.revertedWithCustomError(aggregator, 'EnforcedPause');
+      await expect(asAlice.withdrawTimeLockedStake(0)).to.emit(
+        aggregator,
+        'WithdrawTimeLockedStake'
+      );
+
+      await aggregator.unpause();
+      await expect(
+        asAlice.createTimeLockedStake(
+          tokenAddress,
+          tusd('10'),
+          'mock_liquid',
+          ONE_DAY
+        )
+      ).to.emit(aggregator, 'TimeLockedStakeCreated');
+    });
+  });
+
+  describe('Liquid staking', function () {
+    it('Should split accrued rewards by shares across users', async function () {
+      const {
+        aggregator,
+        token,
+        liquid,
+        liquidAdapter,
+        alice,
+        bob,
+        tokenAddress,
+      } = await loadFixture(deployAggregatorFixture);
+
+      await aggregator
+        .connect(alice)
+        .createTimeLockedStake(
+          tokenAddress,
+          tusd('100'),
+          'mock_liquid',
+          ONE_DAY
+        );
+      await aggregator
+        .connect(bob)
+        .createTimeLockedStake(
+          tokenAddress,
+          tusd('300'),
+          'mock_liquid',
+          ONE_DAY
+        );
+      expect(await liquid.balanceOf(liquidAdapter)).to.equal(tusd('400'));
+
+      await token.mint(await liquid.getAddress(), tusd('40'));
+      await time.increase(ONE_DAY);
+
+      await expect(aggregator.connect(alice).withdrawTimeLockedStake(0))
+        .to.emit(aggregator, 'WithdrawTimeLockedStake')
+        .withArgs(alice.address, 0, tusd('100'), tusd('10'), anyValue);
+      await expect(
+        aggregator.connect(bob).withdrawTimeLockedStake(0)
+      ).to.changeTokenBalance(token, bob, tusd('330'));
+
+      expect(
+        await aggregator.tokenProtocolTVL(tokenAddress, 'mock_liquid')
+      ).to.equal(0);
+      expect(
+        (await aggregator.protocols('mock_liquid')).totalDeposited
+      ).to.equal(0);
+    });
+  });
+
+  describe('Compound', function () {
+    it('Should mint later deposits at the current exchange rate', async function () {
+      const { aggregator, token, compound, alice, bob, tokenAddress } =
+        await loadFixture(deployAggregatorFixture);
+
+      await aggregator
+        .connect(alice)
+        .createTimeLockedStake(
+          tokenAddress,
+          tusd('100'),
+          'mock_compound',
+          ONE_DAY
+        );
+      // 50% interest before bob joins
+      await token.transfer(await compound.getAddress(), tusd('50'));
+      await aggregator
+        .connect(bob)
+        .createTimeLockedStake(
+          tokenAddress,
+          tusd('150'),
+          'mock_compound',
+          ONE_DAY
+        );
+
+      const [aliceStake] = await aggregator.getUserTimeLockedStakes(
+        alice.address
+      );
+      const [bobStake] = await aggregator.getUserTimeLockedStakes(bob.address);
+      expect(bobStake.shares).to.equal(aliceStake.shares);
+
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeTokenBalance(token, alice, tusd('150'));
+      await expect(aggregator.connect(bob).withdrawTimeLockedStake(0))
+        .to.emit(aggregator, 'WithdrawTimeLockedStake')
+        .withArgs(bob.address, 0, tusd('150'), 0, anyValue);
+    });
+
+    it('Should revert on cToken error codes and empty mints', async function () {
+      const { aggregator, token, compound, alice, bob, tokenAddress } =
+        await loadFixture(deployAggregatorFixture);
+      const stake = (user: typeof alice, amount: bigint) =>
+        aggregator
+          .connect(user)
+          .createTimeLockedStake(
+            tokenAddress,
+            amount,
+            'mock_compound',
+            ONE_DAY
+          );
+
+      await compound.setErrorCode(9);
+      await expect(stake(alice, tusd('100'))).to.be.revertedWith(
+        'Compound mint failed'
+      );
+      await compound.setErrorCode(0);
+      await stake(alice, tusd('100'));
+
+      // At 2.5 underlying per cToken, one unit mints nothing
+      await token.transfer(await compound.getAddress(), tusd('150'));
+      await expect(stake(bob, 1n)).to.be.revertedWith('Stake too small');
+
+      await compound.setErrorCode(9);
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.be.revertedWith('Compound redeem failed');
+      await compound.setErrorCode(0);
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeTokenBalance(token, alice, tusd('250'));
+    });
+  });
+
+  describe('Aave lending (native MATIC)', function () {
+    async function stakeNative(
+      fixture: Awaited<ReturnType<typeof deployAggregatorFixture>>,
+      user: (typeof fixture)['alice'],
+      amount: bigint
+    ) {
+      await fixture.aggregator
+        .connect(user)
+        .createTimeLockedStake(WMATIC_ADDRESS, 0, 'aave_lending', ONE_DAY, {
+          value: amount,
+        });
+    }
+
+    async function accrueInterest(
+      fixture: Awaited<ReturnType<typeof deployAggregatorFixture>>,
+      amount: bigint
+    ) {
+      const { wmatic, aavePool } = fixture;
+      await wmatic.deposit({ value: amount });
+      await wmatic.approve(await aavePool.getAddress(), amount);
+      await aavePool.accrueInterest(WMATIC_ADDRESS, amount);
+    }
+
+    it('Should wrap MATIC and supply it to the pool', async function () {
+      const fixture = await loadFixture(deployAggregatorFixture);
+      const { aggregator, aaveAdapter, aToken, alice } = fixture;
+
+      await stakeNative(fixture, alice, parseEther('10'));
+
+      expect(await aToken.balanceOf(await aaveAdapter.getAddress())).to.equal(
+        parseEther('10')
+      );
+      expect(await aaveAdapter.totalShares(WMATIC_ADDRESS)).to.equal(
+        parseEther('10')
+      );
+      const [stake] = await aggregator.getUserTimeLockedStakes(alice.address);
+      expect(stake.stakingToken).to.equal(WMATIC_ADDRESS);
+      expect(stake.shares).to.equal(parseEther('10'));
+    });
+
+    it('Should pay each user principal plus their share of interest', async function () {
+      const fixture = await loadFixture(deployAggregatorFixture);
+      const { aggregator, aaveAdapter, aToken, alice, bob } = fixture;
+      const adapterAddress = await aaveAdapter.getAddress();
+
+      await stakeNative(fixture, alice, parseEther('10'));
+      await stakeNative(fixture, bob, parseEther('30'));
+      await accrueInterest(fixture, parseEther('4'));
+      expect(await aToken.balanceOf(adapterAddress)).to.equal(parseEther('44'));
+
+      await expect(aggregator.connect(alice).withdrawTimeLockedStake(0))
+        .to.emit(aggregator, 'WithdrawTimeLockedStake')
+        .withArgs(
+          alice.address,
+          0,
+          parseEther('10'),
+          parseEther('1'),
+          anyValue
+        );
+      // Only alice's claim is withdrawn; bob's stays supplied
+      expect(await aToken.balanceOf(adapterAddress)).to.equal(parseEther('33'));
+
+      await expect(
+        aggregator.connect(bob).withdrawTimeLockedStake(0)
+      ).to.changeEtherBalance(bob, parseEther('33'));
+      expect(await aaveAdapter.totalShares(WMATIC_ADDRESS)).to.equal(0);
+    });
+
+    it('Should not dilute remaining stakers after a withdrawal', async function () {
+      const fixture = await loadFixture(deployAggregatorFixture);
+      const { aggregator, alice, bob, carol } = fixture;
+
+      for (const user of [alice, bob, carol]) {
+        await stakeNative(fixture, user, parseEther('1'));
+      }
+
+      await expect(
+        aggregator.connect(bob).withdrawTimeLockedStake(0)
+      ).to.changeEtherBalance(bob, parseEther('1'));
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeEtherBalance(alice, parseEther('1'));
+      await expect(
+        aggregator.connect(carol).withdrawTimeLockedStake(0)
+      ).to.changeEtherBalance(carol, parseEther('1'));
+    });
+
+    it('Should price later stakes after accrued interest', async function () {
+      const fixture = await loadFixture(deployAggregatorFixture);
+      const { aggregator, alice, bob } = fixture;
+
+      await stakeNative(fixture, alice, parseEther('10'));
+      await accrueInterest(fixture, parseEther('10'));
+      await stakeNative(fixture, bob, parseEther('10'));
+
+      const [bobStake] = await aggregator.getUserTimeLockedStakes(bob.address);
+      expect(bobStake.shares).to.equal(parseEther('5'));
+
+      await expect(
+        aggregator.connect(bob).withdrawTimeLockedStake(0)
+      ).to.changeEtherBalance(bob, parseEther('10'));
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeEtherBalance(alice, parseEther('20'));
+    });
+
+    it('Should only redeem the caller claim when liquidity is short', async function () {
+      const fixture = await loadFixture(deployAggregatorFixture);
+      const { aggregator, aavePool, alice, bob, owner } = fixture;
+
+      await stakeNative(fixture, alice, parseEther('10'));
+      await stakeNative(fixture, bob, parseEther('30'));
+      // 25 of the 40 supplied are lent out
+      await aavePool.borrow(WMATIC_ADDRESS, parseEther('25'), owner.address);
+
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeEtherBalance(alice, parseEther('10'));
+      await expect(aggregator.connect(bob).withdrawTimeLockedStake(0)).to.be
+        .reverted;
+    });
+  });
+
+  describe('Protocol adapters', function () {
+    it('Should register protocols by adapter with the adapter type', async function () {
+      const { aggregator, aggregatorAddress, compound, compoundAdapter } =
+        await loadFixture(deployAggregatorFixture);
+
+      const info = await aggregator.protocols('mock_compound');
+      expect(info.contractAddress).to.equal(await compoundAdapter.getAddress());
+      expect(info.protocolType).to.equal('compound');
+      expect(await compoundAdapter.aggregator()).to.equal(aggregatorAddress);
+      expect(await compoundAdapter.pool()).to.equal(
+        await compound.getAddress()
+      );
+
+      const second = await hre.ethers.deployContract('CompoundAdapter', [
+        aggregatorAddress,
+        await compound.getAddress(),
+      ]);
+      await expect(
+        aggregator.addProtocol('compound_2', await second.getAddress(), 250)
+      )
+        .to.emit(aggregator, 'ProtocolAdded')
+        .withArgs('compound_2', await second.getAddress(), 'compound');
+    });
+
+    it('Should support tokens by pool reserve or underlying', async function () {
+      const {
+        aaveAdapter,
+        liquidAdapter,
+        compoundAdapter,
+        alice,
+        tokenAddress,
+      } = await loadFixture(deployAggregatorFixture);
+
+      expect(await aaveAdapter.supportsToken(WMATIC_ADDRESS)).to.equal(true);
+      expect(await aaveAdapter.supportsToken(tokenAddress)).to.equal(true);
+      expect(await aaveAdapter.supportsToken(alice.address)).to.equal(false);
+      for (const adapter of [liquidAdapter, compoundAdapter]) {
+        expect(await adapter.supportsToken(tokenAddress)).to.equal(true);
+        expect(await adapter.supportsToken(WMATIC_ADDRESS)).to.equal(false);
+      }
+    });
+
+    it('Should only move funds for the aggregator', async function () {
+      const {
+        aaveAdapter,
+        liquidAdapter,
+        compoundAdapter,
+        alice,
+        tokenAddress,
+      } = await loadFixture(deployAggregatorFixture);
+
+      for (const adapter of [aaveAdapter, liquidAdapter, compoundAdapter]) {
+        await expect(
+          adapter.connect(alice).deposit(tokenAddress, tusd('1'))
+        ).to.be.revertedWith('Only aggregator');
+        await expect(
+          adapter.connect(alice).withdraw(tokenAddress, 1)
+        ).to.be.revertedWith('Only aggregator');
+      }
+    });
+
+    it('Should start a fresh Aave share ledger after an emergency exit', async function () {
+      const {
+        aggregator,
+        aaveAdapter,
+        aavePool,
+        token,
+        alice,
+        bob,
+        tokenAddress,
+      } = await loadFixture(deployAggregatorFixture);
+      const stake = (user: typeof alice) =>
+        aggregator
+          .connect(user)
+          .createTimeLockedStake(
+            tokenAddress,
+            tusd('100'),
+            'aave_lending',
+            ONE_DAY
+          );
+
+      await stake(alice);
+      await token.approve(await aavePool.getAddress(), tusd('10'));
+      await aavePool.accrueInterest(tokenAddress, tusd('10'));
+      await aggregator.emergencyExit('aave_lending', tokenAddress);
+      expect(await aaveAdapter.totalShares(tokenAddress)).to.equal(0);
+
+      // Interest earned before the exit stays with the stake
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeTokenBalance(token, alice, tusd('110'));
+
+      await aggregator.setProtocolStatus('aave_lending', true);
+      await stake(bob);
+      expect(
+        (await aggregator.getStakeValue(bob.address, 0)).value
+      ).to.be.closeTo(tusd('100'), 1);
+    });
+
+    it('Should keep separate share pools per asset', async function () {
+      const {
+        aggregator,
+        aaveAdapter,
+        aavePool,
+        token,
+        tokenAToken,
+        alice,
+        bob,
+        owner,
+      } = await loadFixture(deployAggregatorFixture);
+      const tokenAddress = await token.getAddress();
+
+      await aggregator
+        .connect(alice)
+        .createTimeLockedStake(
+          tokenAddress,
+          tusd('100'),
+          'aave_lending',
+          ONE_DAY
+        );
+      await aggregator
+        .connect(bob)
+        .createTimeLockedStake(WMATIC_ADDRESS, 0, 'aave_lending', ONE_DAY, {
+          value: parseEther('10'),
+        });
+      expect(
+        await tokenAToken.balanceOf(await aaveAdapter.getAddress())
+      ).to.equal(tusd('100'));
+
+      // Interest on the token reserve only
+      await token
+        .connect(owner)
+        .approve(await aavePool.getAddress(), tusd('10'));
+      await aavePool.accrueInterest(tokenAddress, tusd('10'));
+
+      await expect(
+        aggregator.connect(bob).withdrawTimeLockedStake(0)
+      ).to.changeEtherBalance(bob, parseEther('10'));
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeTokenBalance(token, alice, tusd('110'));
+
+      for (const asset of [tokenAddress, WMATIC_ADDRESS]) {
+        expect(await aaveAdapter.totalShares(asset)).to.equal(0);
+      }
+    });
+  });
+
+  describe('Withdrawals', function () {
+    it('Should reject unknown and already withdrawn stakes', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+      const asAlice = aggregator.connect(alice);
+
+      await expect(asAlice.withdrawTimeLockedStake(0)).to.be.revertedWith(
+        'Invalid stake ID'
+      );
+
+      await asAlice.createTimeLockedStake(
+        tokenAddress,
+        tusd('1'),
+        'mock_liquid',
+        ONE_DAY
+      );
+      await asAlice.withdrawTimeLockedStake(0);
+      await expect(asAlice.withdrawTimeLockedStake(0)).to.be.revertedWith(
+        'Stake not active'
+      );
+    });
+  });
+
+  describe('Lock policies', function () {
+    async function stakeUnderPolicy(mode: number, maxPenaltyBps = 0) {
+      const fixture = await loadFixture(deployAggregatorFixture);
+      const { aggregator, alice, carol, tokenAddress } = fixture;
+      await aggregator.setFeeRecipient(carol.address);
+      await aggregator.setLockPolicy('mock_liquid', mode, maxPenaltyBps);
+      await aggregator
+        .connect(alice)
+        .createTimeLockedStake(
+          tokenAddress,
+          tusd('100'),
+          'mock_liquid',
+          10 * ONE_DAY
+        );
+      const [stake] = await aggregator.getUserTimeLockedStakes(alice.address);
+      return { ...fixture, stake };
+    }
+
+    it('Should default to withdrawing anytime without penalty', async function () {
+      const { aggregator, token, alice } = await loadFixture(
+        deployAggregatorFixture
+      );
+      expect(await aggregator.feeRecipient()).to.equal(
+        (await hre.ethers.getSigners())[0].address
+      );
+      await aggregator
+        .connect(alice)
+        .createTimeLockedStake(
+          await token.getAddress(),
+          tusd('100'),
+          'mock_liquid',
+          10 * ONE_DAY
+        );
+
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeTokenBalance(token, alice, tusd('100'));
+    });
+
+    it('Should block hard-locked stakes until maturity', async function () {
+      const { aggregator, token, alice, stake } = await stakeUnderPolicy(
+        LockMode.Hard
+      );
+      const asAlice = aggregator.connect(alice);
+
+      await expect(asAlice.withdrawTimeLockedStake(0)).to.be.revertedWith(
+        'Stake is locked until maturity'
+      );
+      await expect(
+        aggregator.previewWithdraw(alice.address, 0)
+      ).to.be.revertedWith('Stake is locked until maturity');
+
+      await time.increaseTo(stake.endTime);
+      await expect(asAlice.withdrawTimeLockedStake(0)).to.changeTokenBalance(
+        token,
+        alice,
+        tusd('100')
+      );
+    });
+
+    it('Should charge a linear penalty that decays to zero at maturity', async function () {
+      const { aggregator, token, liquid, alice, carol, stake } =
+        await stakeUnderPolicy(LockMode.LinearPenalty, 1000);
+      await token.mint(await liquid.getAddress(), tusd('20'));
+
+      // Halfway through the lock: 120 * 10% * 1/2
+      await time.setNextBlockTimestamp(stake.startTime + 5n * BigInt(ONE_DAY));
+      const tx = aggregator.connect(alice).withdrawTimeLockedStake(0);
+      await expect(tx)
+        .to.emit(aggregator, 'EarlyWithdrawPenalty')
+        .withArgs(alice.address, 0, tusd('6'), carol.address)
+        .and.to.emit(aggregator, 'WithdrawTimeLockedStake')
+        .withArgs(alice.address, 0, tusd('100'), tusd('14'), anyValue);
+      await expect(tx).to.changeTokenBalances(
+        token,
+        [alice, carol],
+        [tusd('114'), tusd('6')]
+      );
+    });
+
+    it('Should not charge a linear penalty at maturity', async function () {
+      const { aggregator, token, alice, stake } = await stakeUnderPolicy(
+        LockMode.LinearPenalty,
+        5000
+      );
+
+      await time.increaseTo(stake.endTime);
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.not.emit(aggregator, 'EarlyWithdrawPenalty');
+      expect(await token.balanceOf(alice.address)).to.equal(tusd('10000'));
+    });
+
+    it('Should forfeit rewards but not principal on early exit', async function () {
+      const { aggregator, token, liquid, alice, carol } =
+        await stakeUnderPolicy(LockMode.ForfeitRewards);
+      await token.mint(await liquid.getAddress(), tusd('20'));
+
+      expect(await aggregator.previewWithdraw(alice.address, 0)).to.deep.equal([
+        tusd('100'),
+        tusd('20'),
+      ]);
+      const tx = aggregator.connect(alice).withdrawTimeLockedStake(0);
+      await expect(tx)
+        .to.emit(aggregator, 'WithdrawTimeLockedStake')
+        .withArgs(alice.address, 0, tusd('100'), 0, anyValue);
+      await expect(tx).to.changeTokenBalances(
+        token,
+        [alice, carol],
+        [tusd('100'), tusd('20')]
+      );
+    });
+
+    it('Should pay forfeited rewards once matured', async function () {
+      const { aggregator, token, liquid, alice, stake } =
+        await stakeUnderPolicy(LockMode.ForfeitRewards);
+      await token.mint(await liquid.getAddress(), tusd('20'));
+
+      await time.increaseTo(stake.endTime);
+      expect(await aggregator.previewWithdraw(alice.address, 0)).to.deep.equal([
+        tusd('120'),
+        0n,
+      ]);
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeTokenBalance(token, alice, tusd('120'));
+    });
+
+    it('Should keep the policy a stake was created under', async function () {
+      const { aggregator, token, alice, tokenAddress } = await stakeUnderPolicy(
+        LockMode.Hard
+      );
+      const asAlice = aggregator.connect(alice);
+
+      await aggregator.setLockPolicy('mock_liquid', LockMode.None, 0);
+      await asAlice.createTimeLockedStake(
+        tokenAddress,
+        tusd('50'),
+        'mock_liquid',
+        10 * ONE_DAY
+      );
+
+      await expect(asAlice.withdrawTimeLockedStake(0)).to.be.revertedWith(
+        'Stake is locked until maturity'
+      );
+      await expect(asAlice.withdrawTimeLockedStake(1)).to.changeTokenBalance(
+        token,
+        alice,
+        tusd('50')
+      );
+    });
+
+    it('Should create stakes of exempt stakers without a lock policy', async function () {
+      const { aggregator, token, alice, bob, tokenAddress } =
+        await stakeUnderPolicy(LockMode.Hard);
+
+      await expect(aggregator.setLockExempt(bob.address, true))
+        .to.emit(aggregator, 'LockExemptionUpdated')
+        .withArgs(bob.address, true);
+      await aggregator
+        .connect(bob)
+        .createTimeLockedStake(
+          tokenAddress,
+          tusd('100'),
+          'mock_liquid',
+          10 * ONE_DAY
+        );
+      const [stake] = await aggregator.getUserTimeLockedStakes(bob.address);
+      expect(stake.lockPolicy.mode).to.equal(LockMode.None);
+      await expect(
+        aggregator.connect(bob).withdrawTimeLockedStake(0)
+      ).to.changeTokenBalance(token, bob, tusd('100'));
+
+      // Only new stakes follow the exemption
+      await aggregator.setLockExempt(alice.address, true);
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.be.revertedWith('Stake is locked until maturity');
+    });
+
+    it('Should validate lock exemptions', async function () {
+      const { aggregator, alice } = await loadFixture(deployAggregatorFixture);
+
+      await expect(
+        aggregator.setLockExempt(hre.ethers.ZeroAddress, true)
+      ).to.be.revertedWith('Invalid account');
+      await expect(
+        aggregator.setChallengeFactory(alice.address)
+      ).to.be.revertedWith('Invalid challenge factory');
+      expect(await aggregator.isLockExempt(alice.address)).to.equal(false);
+    });
+
+    it('Should unwrap penalised MATIC stakes and keep the penalty wrapped', async function () {
+      const { aggregator, wmatic, alice, carol } = await loadFixture(
+        deployAggregatorFixture
+      );
+      await aggregator.setFeeRecipient(carol.address);
+      await aggregator.setLockPolicy(
+        'aave_lending',
+        LockMode.LinearPenalty,
+        5000
+      );
+      await aggregator
+        .connect(alice)
+        .createTimeLockedStake(WMATIC_ADDRESS, 0, 'aave_lending', ONE_DAY, {
+          value: parseEther('10'),
+        });
+      const [stake] = await aggregator.getUserTimeLockedStakes(alice.address);
+
+      // A quarter of the way in: 10 * 50% * 3/4
+      await time.setNextBlockTimestamp(stake.startTime + BigInt(ONE_DAY / 4));
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeEtherBalance(alice, parseEther('6.25'));
+      expect(await wmatic.balanceOf(carol.address)).to.equal(
+        parseEther('3.75')
+      );
+    });
+
+    it('Should validate policies', async function () {
+      const { aggregator } = await loadFixture(deployAggregatorFixture);
+
+      await expect(
+        aggregator.setLockPolicy('missing', LockMode.Hard, 0)
+      ).to.be.revertedWith('Protocol not found');
+      await expect(
+        aggregator.setLockPolicy('mock_liquid', LockMode.LinearPenalty, 0)
+      ).to.be.revertedWith('Invalid penalty');
+      await expect(
+        aggregator.setLockPolicy('mock_liquid', LockMode.LinearPenalty, 5001)
+      ).to.be.revertedWith('Invalid penalty');
+      await expect(
+        aggregator.setLockPolicy('mock_liquid', LockMode.Hard, 100)
+      ).to.be.revertedWith('Penalty only applies to linear mode');
+      await expect(
+        aggregator.setFeeRecipient(hre.ethers.ZeroAddress)
+      ).to.be.revertedWith('Invalid fee recipient');
+
+      await expect(
+        aggregator.setLockPolicy('mock_liquid', LockMode.LinearPenalty, 2500)
+      )
+        .to.emit(aggregator, 'LockPolicyUpdated')
+        .withArgs('mock_liquid', LockMode.LinearPenalty, 2500);
+    });
+  });
+
+  describe('Stake management', function () {
+    async function stakeWithYield() {
+      const fixture = await loadFixture(deployAggregatorFixture);
+      const { aggregator, token, liquid, alice, tokenAddress } = fixture;
+      await aggregator
+        .connect(alice)
+        .createTimeLockedStake(
+          tokenAddress,
+          tusd('100'),
+          'mock_liquid',
+          10 * ONE_DAY
+        );
+      // Share price 1.2
+      await token.mint(await liquid.getAddress(), tusd('20'));
+      const [stake] = await aggregator.getUserTimeLockedStakes(alice.address);
+      return { ...fixture, asAlice: aggregator.connect(alice), stake };
+    }
+
+    it('Should top up a stake at the current share price', async function () {
+      const { aggregator, asAlice, token, alice, tokenAddress } =
+        await stakeWithYield();
+
+      await expect(asAlice.increaseStake(0, tusd('60')))
+        .to.emit(aggregator, 'StakeIncreased')
+        .withArgs(alice.address, 0, tusd('60'), tusd('50'));
+
+      const [stake] = await aggregator.getUserTimeLockedStakes(alice.address);
+      expect(stake.amount).to.equal(tusd('160'));
+      expect(stake.shares).to.equal(tusd('150'));
+      expect(
+        await aggregator.tokenProtocolTVL(tokenAddress, 'mock_liquid')
+      ).to.equal(tusd('160'));
+
+      await expect(asAlice.withdrawTimeLockedStake(0))
+        .to.emit(aggregator, 'WithdrawTimeLockedStake')
+        .withArgs(alice.address, 0, tusd('160'), tusd('20'), anyValue);
+      expect(await token.balanceOf(alice.address)).to.equal(tusd('10020'));
+    });
+
+    it('Should only top up open stakes with a day of lock left', async function () {
+      const { aggregator, asAlice, stake } = await stakeWithYield();
+
+      await expect(asAlice.increaseStake(1, tusd('1'))).to.be.revertedWith(
+        'Invalid stake ID'
+      );
+      await aggregator.pause();
+      await expect(
+        asAlice.increaseStake(0, tusd('1'))
+      ).to.be.revertedWithCustomError(aggregator, 'EnforcedPause');
+      await aggregator.unpause();
+
+      // A top-up just before maturity could leave again at once
+      await time.setNextBlockTimestamp(stake.endTime - BigInt(ONE_DAY));
+      await asAlice.increaseStake(0, tusd('1'));
+      await expect(asAlice.increaseStake(0, tusd('1'))).to.be.revertedWith(
+        'Less than a day of lock remains'
+      );
+      await time.increaseTo(stake.endTime);
+      await expect(asAlice.increaseStake(0, tusd('1'))).to.be.revertedWith(
+        'Less than a day of lock remains'
+      );
+      await asAlice.withdrawTimeLockedStake(0);
+      await expect(asAlice.increaseStake(0, tusd('1'))).to.be.revertedWith(
+        'Stake not active'
+      );
+    });
+
+    it('Should top up native MATIC stakes', async function () {
+      const { aggregator, aaveAdapter, aToken, alice } = await loadFixture(
+        deployAggregatorFixture
+      );
+      const asAlice = aggregator.connect(alice);
+      await asAlice.createTimeLockedStake(
+        WMATIC_ADDRESS,
+        0,
+        'aave_lending',
+        2 * ONE_DAY,
+        { value: parseEther('1') }
+      );
+
+      await asAlice.increaseStake(0, 0, { value: parseEther('2') });
+
+      const [stake] = await aggregator.getUserTimeLockedStakes(alice.address);
+      expect(stake.amount).to.equal(parseEther('3'));
+      expect(await aToken.balanceOf(await aaveAdapter.getAddress())).to.equal(
+        parseEther('3')
+      );
+      await expect(asAlice.withdrawTimeLockedStake(0)).to.changeEtherBalance(
+        alice,
+        parseEther('3')
+      );
+    });
+
+    it('Should extend the lock up to 365 days out', async function () {
+      const { aggregator, asAlice, alice, stake } = await stakeWithYield();
+      const newEnd = stake.endTime + BigInt(ONE_DAY);
+
+      await expect(asAlice.extendLock(0, newEnd))
+        .to.emit(aggregator, 'LockExtended')
+        .withArgs(alice.address, 0, stake.endTime, newEnd);
+      expect(
+        (await aggregator.getUserTimeLockedStakes(alice.address))[0].endTime
+      ).to.equal(newEnd);
+
+      await expect(asAlice.extendLock(0, newEnd)).to.be.revertedWith(
+        'New end time must be later'
+      );
+      await expect(
+        asAlice.extendLock(0, BigInt(await time.latest()) + 366n * 86400n)
+      ).to.be.revertedWith('Maximum lock duration is 365 days');
+    });
+
+    it('Should keep hard-locked stakes locked until the extended end', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+      const asAlice = aggregator.connect(alice);
+      await aggregator.setLockPolicy('mock_liquid', LockMode.Hard, 0);
+      await asAlice.createTimeLockedStake(
+        tokenAddress,
+        tusd('100'),
+        'mock_liquid',
+        ONE_DAY
+      );
+      const [stake] = await aggregator.getUserTimeLockedStakes(alice.address);
+
+      await asAlice.extendLock(0, stake.endTime + BigInt(ONE_DAY));
+      await time.increaseTo(stake.endTime);
+      await expect(asAlice.withdrawTimeLockedStake(0)).to.be.revertedWith(
+        'Stake is locked until maturity'
+      );
+    });
+
+    it('Should withdraw part of a stake pro rata', async function () {
+      const { aggregator, asAlice, token, alice, tokenAddress } =
+        await stakeWithYield();
+
+      await expect(asAlice.partialWithdraw(0, tusd('40')))
+        .to.emit(aggregator, 'PartialWithdraw')
+        .withArgs(alice.address, 0, tusd('40'), tusd('40'), tusd('8'));
+      expect(await token.balanceOf(alice.address)).to.equal(tusd('9948'));
+
+      const [stake] = await aggregator.getUserTimeLockedStakes(alice.address);
+      expect(stake.isActive).to.equal(true);
+      expect(stake.amount).to.equal(tusd('60'));
+      expect(stake.shares).to.equal(tusd('60'));
+      expect(
+        await aggregator.tokenProtocolTVL(tokenAddress, 'mock_liquid')
+      ).to.equal(tusd('60'));
+
+      await expect(asAlice.withdrawTimeLockedStake(0))
+        .to.emit(aggregator, 'WithdrawTimeLockedStake')
+        .withArgs(alice.address, 0, tusd('60'), tusd('12'), anyValue);
+    });
+
+    it('Should reject empty and full partial withdrawals', async function () {
+      const { asAlice } = await stakeWithYield();
+
+      await expect(asAlice.partialWithdraw(0, 0)).to.be.revertedWith(
+        'Invalid share amount'
+      );
+      await expect(asAlice.partialWithdraw(0, tusd('100'))).to.be.revertedWith(
+        'Invalid share amount'
+      );
+    });
+
+    it('Should apply the lock policy to partial withdrawals', async function () {
+      const { aggregator, token, liquid, alice, carol, tokenAddress } =
+        await loadFixture(deployAggregatorFixture);
+      const asAlice = aggregator.connect(alice);
+      await aggregator.setFeeRecipient(carol.address);
+      await aggregator.setLockPolicy('mock_liquid', LockMode.ForfeitRewards, 0);
+      await asAlice.createTimeLockedStake(
+        tokenAddress,
+        tusd('100'),
+        'mock_liquid',
+        10 * ONE_DAY
+      );
+      await token.mint(await liquid.getAddress(), tusd('20'));
+
+      const tx = asAlice.partialWithdraw(0, tusd('50'));
+      await expect(tx)
+        .to.emit(aggregator, 'EarlyWithdrawPenalty')
+        .withArgs(alice.address, 0, tusd('10'), carol.address);
+      await expect(tx).to.changeTokenBalances(
+        token,
+        [alice, carol],
+        [tusd('50'), tusd('10')]
+      );
+    });
+
+    it('Should let keepers renew auto-compounding stakes at maturity', async function () {
+      const { aggregator, asAlice, alice, bob, tokenAddress, stake } =
+        await stakeWithYield();
+      const asKeeper = aggregator.connect(bob);
+
+      await expect(asKeeper.renewStake(alice.address, 0)).to.be.revertedWith(
+        'Auto-compound not enabled'
+      );
+      await expect(asAlice.setAutoCompound(0, true))
+        .to.emit(aggregator, 'AutoCompoundSet')
+        .withArgs(alice.address, 0, true);
+      await expect(asKeeper.renewStake(alice.address, 0)).to.be.revertedWith(
+        'Stake not matured'
+      );
+
+      await time.setNextBlockTimestamp(stake.endTime + 100n);
+      await expect(asKeeper.renewStake(alice.address, 0))
+        .to.emit(aggregator, 'StakeRenewed')
+        .withArgs(
+          alice.address,
+          0,
+          tusd('20'),
+          tusd('120'),
+          stake.endTime + 100n,
+          stake.endTime + 100n + 10n * BigInt(ONE_DAY)
+        );
+
+      const [renewed] = await aggregator.getUserTimeLockedStakes(alice.address);
+      expect(renewed.amount).to.equal(tusd('120'));
+      expect(renewed.shares).to.equal(stake.shares);
+      expect(
+        await aggregator.tokenProtocolTVL(tokenAddress, 'mock_liquid')
+      ).to.equal(tusd('120'));
+      expect(
+        (await aggregator.getStakeValue(alice.address, 0)).rewards
+      ).to.equal(0);
+    });
+
+    it('Should let only the staker change auto-compound', async function () {
+      const { asAlice, aggregator, alice, bob } = await stakeWithYield();
+
+      await expect(
+        aggregator.connect(bob).setAutoCompound(0, true)
+      ).to.be.revertedWith('Invalid stake ID');
+      await asAlice.setAutoCompound(0, true);
+      await asAlice.setAutoCompound(0, false);
+      expect(
+        (await aggregator.getUserTimeLockedStakes(alice.address))[0]
+          .autoCompound
+      ).to.equal(false);
+    });
+  });
+
+  describe('Yield routing', function () {
+    async function routedFixture() {
+      const fixture = await deployAggregatorFixture();
+      await fixture.aggregator.setTokenRoutes(fixture.tokenAddress, [
+        'mock_compound',
+        'mock_liquid',
+      ]);
+      return fixture;
+    }
+
+    it('Should stake "auto" in the highest-APY route', async function () {
+      const { aggregator, alice, tokenAddress } =
+        await loadFixture(routedFixture);
+
+      await expect(
+        aggregator
+          .connect(alice)
+          .createTimeLockedStake(tokenAddress, tusd('100'), 'auto', ONE_DAY)
+      )
+        .to.emit(aggregator, 'StakeRouted')
+        .withArgs(alice.address, 0, 'mock_liquid', 500);
+
+      const [stake] = await aggregator.getUserTimeLockedStakes(alice.address);
+      expect(stake.protocol).to.equal('mock_liquid');
+      expect(stake.autoRouted).to.equal(true);
+      expect(
+        await aggregator.tokenProtocolTVL(tokenAddress, 'mock_liquid')
+      ).to.equal(tusd('100'));
+    });
+
+    it('Should skip inactive routes and routes not supporting the token', async function () {
+      const { aggregator, tokenAddress } = await loadFixture(routedFixture);
+      await aggregator.setTokenRoutes(tokenAddress, [
+        'aave_lending',
+        'mock_liquid',
+        'mock_compound',
+      ]);
+      await aggregator.setProtocolStatus('aave_lending', false);
+      await aggregator.setProtocolStatus('mock_liquid', false);
+
+      expect(await aggregator.bestRoute(tokenAddress)).to.deep.equal([
+        'mock_compound',
+        300n,
+      ]);
+
+      // The liquid vault only takes TUSD
+      await aggregator.setProtocolStatus('aave_lending', true);
+      await aggregator.setProtocolStatus('mock_liquid', true);
+      await aggregator.updateProtocolAPY('mock_liquid', 900);
+      await aggregator.setTokenRoutes(WMATIC_ADDRESS, [
+        'mock_liquid',
+        'aave_lending',
+      ]);
+      expect(await aggregator.bestRoute(WMATIC_ADDRESS)).to.deep.equal([
+        'aave_lending',
+        800n,
+      ]);
+
+      await aggregator.setTokenRoutes(tokenAddress, []);
+      await expect(aggregator.bestRoute(tokenAddress)).to.be.revertedWith(
+        'No route for token'
+      );
+    });
+
+    it('Should validate route administration', async function () {
+      const { aggregator, alice, tokenAddress } =
+        await loadFixture(routedFixture);
+
+      await expect(
+        aggregator.setTokenRoutes(tokenAddress, ['unknown'])
+      ).to.be.revertedWith('Protocol not found');
+      await expect(
+        aggregator.connect(alice).setTokenRoutes(tokenAddress, [])
+      ).to.be.revertedWithCustomError(
+        aggregator,
+        'AccessControlUnauthorizedAccount'
+      );
+      await expect(
+        aggregator.addProtocol('auto', tokenAddress, 0)
+      ).to.be.revertedWith('Reserved protocol name');
+      await expect(aggregator.setRebalanceThreshold(10001)).to.be.revertedWith(
+        'Invalid threshold'
+      );
+      await expect(aggregator.setRebalanceThreshold(250))
+        .to.emit(aggregator, 'RebalanceThresholdUpdated')
+        .withArgs(100, 250);
+      expect(await aggregator.getTokenRoutes(tokenAddress)).to.deep.equal([
+        'mock_compound',
+        'mock_liquid',
+      ]);
+    });
+
+    it('Should move a stake and its yield once the APY gain passes the threshold', async function () {
+      const { aggregator, token, liquid, alice, bob, tokenAddress } =
+        await loadFixture(routedFixture);
+      await aggregator
+        .connect(alice)
+        .createTimeLockedStake(tokenAddress, tusd('1000'), 'auto', ONE_DAY);
+      await token.transfer(await liquid.getAddress(), tusd('10'));
+
+      await aggregator.updateProtocolAPY('mock_compound', 550);
+      await expect(
+        aggregator.connect(bob).rebalanceStake(alice.address, 0)
+      ).to.be.revertedWith('APY gain below threshold');
+
+      // Anyone can rebalance, so keepers move stakes on the user's behalf
+      await aggregator.updateProtocolAPY('mock_compound', 600);
+      await expect(aggregator.connect(bob).rebalanceStake(alice.address, 0))
+        .to.emit(aggregator, 'StakeRebalanced')
+        .withArgs(
+          alice.address,
+          0,
+          'mock_liquid',
+          'mock_compound',
+          tusd('1010'),
+          anyValue
+        );
+
+      const [stake] = await aggregator.getUserTimeLockedStakes(alice.address);
+      expect(stake.protocol).to.equal('mock_compound');
+      expect(stake.amount).to.equal(tusd('1000'));
+      expect(await liquid.balanceOf(await aggregator.getAddress())).to.equal(0);
+      expect(
+        await aggregator.tokenProtocolTVL(tokenAddress, 'mock_liquid')
+      ).to.equal(0);
+      expect(
+        await aggregator.tokenProtocolTVL(tokenAddress, 'mock_compound')
+      ).to.equal(tusd('1000'));
+      expect(
+        (await aggregator.protocols('mock_compound')).totalDeposited
+      ).to.equal(tusd('1000'));
+
+      await time.increase(ONE_DAY);
+      await expect(
+        aggregator.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeTokenBalance(token, alice, tusd('1010'));
+    });
+
+    it('Should only rebalance auto-routed stakes off their best route', async function () {
+      const { aggregator, alice, tokenAddress } =
+        await loadFixture(routedFixture);
+      const asAlice = aggregator.connect(alice);
+      await asAlice.createTimeLockedStake(
+        tokenAddress,
+        tusd('10'),
+        'mock_compound',
+        ONE_DAY
+      );
+      await asAlice.createTimeLockedStake(
+        tokenAddress,
+        tusd('10'),
+        'auto',
+        ONE_DAY
+      );
+
+      await expect(
+        aggregator.rebalanceStake(alice.address, 0)
+      ).to.be.revertedWith('Stake not auto-routed');
+      await expect(
+        aggregator.rebalanceStake(alice.address, 1)
+      ).to.be.revertedWith('Already on best route');
+
+      // A deactivated protocol counts as paying nothing
+      await aggregator.setProtocolStatus('mock_liquid', false);
+      await expect(aggregator.rebalanceStake(alice.address, 1))
+        .to.emit(aggregator, 'StakeRebalanced')
+        .withArgs(
+          alice.address,
+          1,
+          'mock_liquid',
+          'mock_compound',
+          tusd('10'),
+          anyValue
+        );
+    });
+  });
+
+  describe('Migration', function () {
+    async function migrationFixture() {
+      const fixture = await deployAggregatorFixture();
+      const { token, tokenAddress, liquid, alice } = fixture;
+      const next = await hre.ethers.deployContract('PolygonDeFiAggregator');
+      const nextAddress = await next.getAddress();
+      await next.addSupportedToken(tokenAddress, 'TUSD', 6);
+      const adapter = await hre.ethers.deployContract('LiquidStakingAdapter', [
+        nextAddress,
+        await liquid.getAddress(),
+      ]);
+      await next.addProtocol('mock_liquid', await adapter.getAddress(), 500);
+      await token.approve(nextAddress, hre.ethers.MaxUint256);
+
+      await fixture.aggregator.setLockPolicy('mock_liquid', LockMode.Hard, 0);
+      await fixture.aggregator
+        .connect(alice)
+        .createTimeLockedStake(
+          tokenAddress,
+          tusd('100'),
+          'mock_liquid',
+          30 * ONE_DAY
+        );
+      const [stake] = await fixture.aggregator.getUserTimeLockedStakes(
+        alice.address
+      );
+      return { ...fixture, next, nextAddress, stake };
+    }
+
+    it('Should close a stake and hand its proceeds to the owner', async function () {
+      const { aggregator, token, tokenAddress, liquid, owner, alice } =
+        await loadFixture(migrationFixture);
+      // Yield accrued, and the stake is hard-locked: still no penalty
+      await token.transfer(await liquid.getAddress(), tusd('10'));
+
+      await expect(
+        aggregator.connect(alice).migrateStakeOut(alice.address, 0)
+      ).to.be.revertedWithCustomError(aggregator, 'OwnableUnauthorizedAccount');
+      const tx = aggregator.migrateStakeOut(alice.address, 0);
+      await expect(tx)
+        .to.emit(aggregator, 'StakeMigratedOut')
+        .withArgs(alice.address, 0, tusd('110'), anyValue);
+      await expect(tx).to.changeTokenBalance(token, owner, tusd('110'));
+
+      const [stake] = await aggregator.getUserTimeLockedStakes(alice.address);
+      expect(stake.isActive).to.equal(false);
+      expect(
+        await aggregator.tokenProtocolTVL(tokenAddress, 'mock_liquid')
+      ).to.equal(0);
+      await expect(
+        aggregator.migrateStakeOut(alice.address, 0)
+      ).to.be.revertedWith('Stake not active');
+    });
+
+    it('Should recreate a stake on its original terms', async function () {
+      const { aggregator, next, token, tokenAddress, alice, stake } =
+        await loadFixture(migrationFixture);
+      await aggregator.migrateStakeOut(alice.address, 0);
+      const aggregatorAddress = await aggregator.getAddress();
+
+      await expect(
+        next.importStake({
+          user: alice.address,
+          token: tokenAddress,
+          deposit: tusd('110'),
+          principal: tusd('100'),
+          protocol: 'mock_liquid',
+          startTime: stake.startTime,
+          endTime: stake.endTime,
+          lockPolicy: { mode: LockMode.Hard, maxPenaltyBps: 0 },
+          autoCompound: false,
+          autoRouted: true,
+          source: aggregatorAddress,
+          sourceStakeId: 0,
+        })
+      )
+        .to.emit(next, 'StakeImported')
+        .withArgs(alice.address, 0, aggregatorAddress, 0, tusd('110'))
+        .and.to.emit(next, 'TimeLockedStakeCreated')
+        .withArgs(
+          alice.address,
+          0,
+          tokenAddress,
+          'mock_liquid',
+          tusd('100'),
+          stake.startTime,
+          stake.endTime
+        );
+
+      const [imported] = await next.getUserTimeLockedStakes(alice.address);
+      expect(imported.amount).to.equal(tusd('100'));
+      expect(imported.lockPolicy.mode).to.equal(LockMode.Hard);
+      expect(imported.autoRouted).to.equal(true);
+      expect((await next.getStakeValue(alice.address, 0)).rewards).to.equal(
+        tusd('10')
+      );
+      await expect(
+        next.connect(alice).withdrawTimeLockedStake(0)
+      ).to.be.revertedWith('Stake is locked until maturity');
+      await time.increaseTo(stake.endTime);
+      await expect(
+        next.connect(alice).withdrawTimeLockedStake(0)
+      ).to.changeTokenBalance(token, alice, tusd('110'));
+    });
+
+    it('Should validate imports', async function () {
+      const { next, tokenAddress, alice, stake } =
+        await loadFixture(migrationFixture);
+      const valid = {
+        user: alice.address,
+        token: tokenAddress,
+        deposit: tusd('100'),
+        principal: tusd('100'),
+        protocol: 'mock_liquid',
+        startTime: stake.startTime,
+        endTime: stake.endTime,
+        lockPolicy: { mode: LockMode.None, maxPenaltyBps: 0 },
+        autoCompound: false,
+        autoRouted: false,
+        source: alice.address,
+        sourceStakeId: 0,
+      };
+      const now = BigInt(await time.latest());
+
+      const cases: [Partial<typeof valid>, string][] = [
+        [{ protocol: 'mock_compound' }, 'Protocol not supported'],
+        [{ token: alice.address }, 'Token not supported'],
+        [{ principal: tusd('101') }, 'Invalid principal'],
+        [{ principal: 0n }, 'Invalid principal'],
+        [{ startTime: now + 60n }, 'Invalid stake times'],
+        [{ endTime: stake.startTime }, 'Invalid stake times'],
+        [
+          { lockPolicy: { mode: LockMode.LinearPenalty, maxPenaltyBps: 5001 } },
+          'Invalid penalty',
+        ],
+      ];
+      for (const [change, reason] of cases) {
+        await expect(
+          next.importStake({ ...valid, ...change })
+        ).to.be.revertedWith(reason);
+      }
+      await expect(
+        next.connect(alice).importStake(valid)
+      ).to.be.revertedWithCustomError(next, 'OwnableUnauthorizedAccount');
+    });
+  });
+
+  describe('Positions', function () {
+    it('Should value stakes at the protocol share price', async function () {
+      const fixture = await loadFixture(deployAggregatorFixture);
+      const { aggregator, aavePool, wmatic, token, liquid, compound, alice } =
+        fixture;
+      const tokenAddress = await token.getAddress();
+      const asAlice = aggregator.connect(alice);
+
+      await asAlice.createTimeLockedStake(
+        tokenAddress,
+        tusd('100'),
+        'mock_liquid',
+        ONE_DAY
+      );
+      await asAlice.createTimeLockedStake(
+        tokenAddress,
+        tusd('200'),
+        'mock_compound',
+        ONE_DAY
+      );
+      await asAlice.createTimeLockedStake(
+        WMATIC_ADDRESS,
+        0,
+        'aave_lending',
+        ONE_DAY,
+        { value: parseEther('10') }
+      );
+
+      // 10% on liquid, 5% on compound, 20% on Aave
+      await token.mint(await liquid.getAddress(), tusd('10'));
+      await token.transfer(await compound.getAddress(), tusd('10'));
+      await wmatic.deposit({ value: parseEther('2') });
+      await wmatic.approve(await aavePool.getAddress(), parseEther('2'));
+      await aavePool.accrueInterest(WMATIC_ADDRESS, parseEther('2'));
+
+      expect(await aggregator.getStakeValue(alice.address, 0)).to.deep.equal([
+        tusd('110'),
+        tusd('10'),
+      ]);
+      expect(await aggregator.getStakeValue(alice.address, 1)).to.deep.equal([
+        tusd('210'),
+        tusd('10'),
+      ]);
+      expect(await aggregator.getStakeValue(alice.address, 2)).to.deep.equal([
+        parseEther('12'),
+        parseEther('2'),
+      ]);
+
+      const position = await aggregator.getUserTokenProtocolPosition(
+        alice.address,
+        tokenAddress,
+        'mock_compound'
+      );
+      expect(position.balance).to.equal(tusd('200'));
+      expect(position.estimatedRewards).to.equal(tusd('10'));
+
+      // Mixed decimals, but the totals are plain sums of the stakes
+      const total = await aggregator.getUserTotalPosition(alice.address);
+      expect(total.estimatedValue).to.equal(
+        tusd('110') + tusd('210') + parseEther('12')
+      );
+      expect(total.totalRewards).to.equal(
+        tusd('10') + tusd('10') + parseEther('2')
+      );
+    });
+
+    it('Should not credit rewards for elapsed time alone', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+      await aggregator
+        .connect(alice)
+        .createTimeLockedStake(
+          tokenAddress,
+          tusd('1000'),
+          'mock_liquid',
+          ONE_DAY
+        );
+
+      await time.increase(30 * ONE_DAY);
+
+      const position = await aggregator.getUserTokenProtocolPosition(
+        alice.address,
+        tokenAddress,
+        'mock_liquid'
+      );
+      expect(position.estimatedRewards).to.equal(0);
+      expect(await aggregator.getStakeValue(alice.address, 0)).to.deep.equal([
+        tusd('1000'),
+        0n,
+      ]);
+    });
+
+    it('Should report zero for withdrawn stakes', async function () {
+      const { aggregator, alice, tokenAddress } = await loadFixture(
+        deployAggregatorFixture
+      );
+      const asAlice = aggregator.connect(alice);
+      await asAlice.createTimeLockedStake(
+        tokenAddress,
+        tusd('10'),
+        'mock_liquid',
+        ONE_DAY
+      );
+      await asAlice.withdrawTimeLockedStake(0);
+
+      expect(await aggregator.getStakeValue(alice.address, 0)).to.deep.equal([
+        0n,
+        0n,
+      ]);
+      await expect(
+        aggregator.getStakeValue(alice.address, 1)
+      ).to.be.revertedWith('Invalid stake ID');
+      expect(
+        (await aggregator.getUserTotalPosition(alice.address))[1]
+      ).to.equal(0);
+    });
+  });
+});
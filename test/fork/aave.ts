@@ -0,0 +1,98 @@
+import { time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import { parseEther } from 'ethers';
+import hre from 'hardhat';
+import { IERC20__factory } from '../../typechain-types';
+import { ONE_DAY } from '../helpers/aggregator';
+import {
+  addAaveProtocol,
+  describeFork,
+  fundFromWhale,
+  POLYGON,
+} from '../helpers/fork';
+
+describeFork('Fork: Aave v3 on Polygon', function () {
+  async function deployForkedAggregator() {
+    const [owner, alice, bob, carol] = await hre.ethers.getSigners();
+    const aggregator = await hre.ethers.deployContract('PolygonDeFiAggregator');
+    const adapter = await addAaveProtocol(aggregator);
+    await aggregator.addSupportedToken(POLYGON.wmatic, 'WMATIC', 18);
+    const wmatic = IERC20__factory.connect(POLYGON.wmatic, owner);
+    return { aggregator, adapter, wmatic, owner, alice, bob, carol };
+  }
+
+  it('Should stake native MATIC and withdraw it with interest', async function () {
+    const { aggregator, alice } = await deployForkedAggregator();
+    const amount = parseEther('100');
+
+    await aggregator
+      .connect(alice)
+      .createTimeLockedStake(POLYGON.wmatic, 0, 'aave_lending', ONE_DAY, {
+        value: amount,
+      });
+    await time.increase(30 * ONE_DAY);
+
+    const [value] = await aggregator.getStakeValue(alice, 0);
+    expect(value).to.be.greaterThanOrEqual(amount);
+
+    const before = await hre.ethers.provider.getBalance(alice);
+    const tx = await aggregator.connect(alice).withdrawTimeLockedStake(0);
+    const receipt = await tx.wait();
+    const gas = receipt!.gasUsed * receipt!.gasPrice;
+    const received = (await hre.ethers.provider.getBalance(alice)) - before;
+
+    expect(received + gas).to.be.greaterThanOrEqual(amount);
+    expect(
+      (await aggregator.getUserTimeLockedStakes(alice))[0].isActive
+    ).to.equal(false);
+  });
+
+  it('Should pay every user back when withdrawals run in a different order', async function () {
+    const { aggregator, adapter, wmatic, alice, bob, carol } =
+      await deployForkedAggregator();
+    const aggregatorAddress = await aggregator.getAddress();
+    const amounts = new Map([
+      [alice, parseEther('50')],
+      [bob, parseEther('120')],
+      [carol, parseEther('10')],
+    ]);
+
+    // Alice and carol stake native MATIC, bob stakes WMATIC from a whale
+    for (const user of [alice, carol]) {
+      await aggregator
+        .connect(user)
+        .createTimeLockedStake(POLYGON.wmatic, 0, 'aave_lending', ONE_DAY, {
+          value: amounts.get(user),
+        });
+    }
+    await fundFromWhale(POLYGON.wmatic, bob.address, amounts.get(bob)!);
+    await wmatic.connect(bob).approve(aggregatorAddress, amounts.get(bob)!);
+    await aggregator
+      .connect(bob)
+      .createTimeLockedStake(
+        POLYGON.wmatic,
+        amounts.get(bob)!,
+        'aave_lending',
+        ONE_DAY
+      );
+
+    await time.increase(7 * ONE_DAY);
+
+    // WMATIC stakes are always paid out as native MATIC
+    for (const user of [bob, alice, carol]) {
+      const before = await hre.ethers.provider.getBalance(user);
+      const tx = await aggregator.connect(user).withdrawTimeLockedStake(0);
+      const receipt = await tx.wait();
+      const gas = receipt!.gasUsed * receipt!.gasPrice;
+      const received =
+        (await hre.ethers.provider.getBalance(user)) - before + gas;
+
+      // Principal back, up to Aave's rounding, plus a week of interest
+      const amount = amounts.get(user)!;
+      expect(received).to.be.greaterThanOrEqual(amount - 2n);
+      expect(received).to.be.lessThan((amount * 101n) / 100n);
+    }
+
+    expect(await adapter.totalShares(POLYGON.wmatic)).to.equal(0);
+  });
+});
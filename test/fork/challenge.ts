@@ -0,0 +1,70 @@
+import { time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import { parseEther, ZeroAddress } from 'ethers';
+import hre from 'hardhat';
+import { ONE_DAY } from '../helpers/aggregator';
+import {
+  addAaveProtocol,
+  describeFork,
+  polygonDeployment,
+} from '../helpers/fork';
+
+const CHALLENGE_CLOSED = 4n;
+
+describeFork('Fork: ChallengeDetailV2 staking', function () {
+  it('Should stake the pot on Aave and pay it out when the challenge closes', async function () {
+    const [owner, alice, bob, carol] = await hre.ethers.getSigners();
+    const aggregator = await hre.ethers.deployContract('PolygonDeFiAggregator');
+    await addAaveProtocol(aggregator);
+
+    // Alice sponsors bob; carol receives the pot if bob fails. The deployed
+    // ExerciseSupplementNFT provides the fee settings and token list.
+    const amount = parseEther('10');
+    const start = (await time.latest()) + 60;
+    const end = start + 10 * ONE_DAY;
+    const challenge = await hre.ethers.deployContract('ChallengeDetailV2', [
+      [alice.address, bob.address, owner.address],
+      ZeroAddress,
+      [polygonDeployment('ExerciseSupplementNFT')],
+      [10, start, end, 5000, 7],
+      [bob.address, carol.address],
+      1,
+      [false, false, false],
+      [0, 0, 0],
+      false,
+      [98, 98],
+      amount,
+      await aggregator.getAddress(),
+      'aave_lending',
+      ZeroAddress,
+    ]);
+    const challengeAddress = await challenge.getAddress();
+
+    await alice.sendTransaction({ to: challengeAddress, value: amount });
+    await challenge.connect(alice).initializeStaking(amount);
+
+    expect(await challenge.isStakingActive()).to.equal(true);
+    expect(await hre.ethers.provider.getBalance(challengeAddress)).to.equal(0);
+    const [staked] = await challenge.getStakingBalance();
+    expect(staked).to.be.greaterThanOrEqual(amount - 2n);
+
+    await time.increaseTo(end + 2 * ONE_DAY + 1);
+    const carolBefore = await hre.ethers.provider.getBalance(carol);
+    const feeBefore = await hre.ethers.provider.getBalance(owner);
+    await challenge.connect(alice).closeChallenge([], [], [], []);
+
+    const toCarol = (await hre.ethers.provider.getBalance(carol)) - carolBefore;
+    const fee = (await hre.ethers.provider.getBalance(owner)) - feeBefore;
+    const left = await hre.ethers.provider.getBalance(challengeAddress);
+    // Everything withdrawn from Aave, principal and interest, is split
+    const pot = toCarol + fee + left;
+
+    expect(await challenge.getState()).to.equal(CHALLENGE_CLOSED);
+    expect(await challenge.isStakingActive()).to.equal(false);
+    expect(
+      (await aggregator.getUserTimeLockedStakes(challengeAddress))[0].isActive
+    ).to.equal(false);
+    expect(pot).to.be.greaterThanOrEqual(amount - 2n);
+    expect(toCarol).to.equal((pot * 98n) / 100n);
+  });
+});
@@ -0,0 +1,40 @@
+import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { WMATIC_ADDRESS } from '../../sdk';
+import { deployAggregatorFixture, ONE_DAY } from '../helpers/aggregator';
+
+const STAKERS = 8;
+
+/**
+ * Fixed Aave workload for gas comparisons, run alone with
+ * `REPORT_GAS=true GAS_REPORT_FILE=<file> npx hardhat test test/gas/aave.ts`
+ */
+describe('Gas: Aave lending', function () {
+  it('Should stake, accrue and withdraw for several users', async function () {
+    const { aggregator, aaveAdapter, wmatic, aavePool } = await loadFixture(
+      deployAggregatorFixture
+    );
+    const stakers = (await hre.ethers.getSigners()).slice(1, 1 + STAKERS);
+    const amount = hre.ethers.parseEther('10');
+
+    for (const staker of stakers) {
+      await aggregator
+        .connect(staker)
+        .createTimeLockedStake(WMATIC_ADDRESS, 0, 'aave_lending', ONE_DAY, {
+          value: amount,
+        });
+    }
+
+    const interest = hre.ethers.parseEther('1');
+    await wmatic.deposit({ value: interest });
+    await wmatic.approve(await aavePool.getAddress(), interest);
+    await aavePool.accrueInterest(WMATIC_ADDRESS, interest);
+
+    for (const staker of stakers) {
+      await aggregator.connect(staker).withdrawTimeLockedStake(0);
+    }
+
+    expect(await aaveAdapter.totalShares(WMATIC_ADDRESS)).to.equal(0);
+  });
+});
@@ -0,0 +1,120 @@
+import { setCode } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import hre from 'hardhat';
+import { WMATIC_ADDRESS } from '../../sdk';
+import type { MockWMATIC } from '../../typechain-types';
+
+export const ONE_DAY = 24 * 60 * 60;
+
+/**
+ * Copy a mock's runtime code to a fixed address. Only works for mocks that
+ * keep no constructor-initialised state.
+ */
+async function deployAt<T>(name: string, address: string): Promise<T> {
+  const factory = await hre.ethers.getContractFactory(name);
+  const template = await factory.deploy();
+  await setCode(
+    address,
+    await hre.ethers.provider.getCode(await template.getAddress())
+  );
+  return (await hre.ethers.getContractAt(name, address)) as unknown as T;
+}
+
+/**
+ * Aggregator wired to offline mocks through their adapters: WMATIC at its
+ * mainnet address, a mock Aave pool registered as "aave_lending" with reserves
+ * for WMATIC and the test token, and liquid and compound mocks over a
+ * 6-decimal test token.
+ */
+export async function deployAggregatorFixture() {
+  const [owner, alice, bob, carol] = await hre.ethers.getSigners();
+
+  const wmatic = await deployAt<MockWMATIC>('MockWMATIC', WMATIC_ADDRESS);
+
+  const aavePool = await hre.ethers.deployContract('MockAavePool');
+  const aavePoolAddress = await aavePool.getAddress();
+  const aToken = await hre.ethers.deployContract('MockAToken', [
+    aavePoolAddress,
+    WMATIC_ADDRESS,
+  ]);
+  await aavePool.initReserve(WMATIC_ADDRESS, await aToken.getAddress());
+
+  const token = await hre.ethers.deployContract('TestToken', [
+    'Test USD',
+    'TUSD',
+    6,
+    1_000_000,
+  ]);
+  const tokenAddress = await token.getAddress();
+  for (const user of [alice, bob, carol]) {
+    await token.transfer(user.address, 10_000n * 10n ** 6n);
+  }
+
+  const tokenAToken = await hre.ethers.deployContract('MockAToken', [
+    aavePoolAddress,
+    tokenAddress,
+  ]);
+  await aavePool.initReserve(tokenAddress, await tokenAToken.getAddress());
+
+  const liquid = await hre.ethers.deployContract('MockLiquidStaking', [
+    tokenAddress,
+  ]);
+  const compound = await hre.ethers.deployContract('MockCompoundPool', [
+    tokenAddress,
+  ]);
+
+  const aggregator = await hre.ethers.deployContract('PolygonDeFiAggregator');
+  const aggregatorAddress = await aggregator.getAddress();
+  await aggregator.addSupportedToken(tokenAddress, 'TUSD', 6);
+
+  const aaveAdapter = await hre.ethers.deployContract('AaveV3Adapter', [
+    aggregatorAddress,
+    aavePoolAddress,
+  ]);
+  const liquidAdapter = await hre.ethers.deployContract(
+    'LiquidStakingAdapter',
+    [aggregatorAddress, await liquid.getAddress()]
+  );
+  const compoundAdapter = await hre.ethers.deployContract('CompoundAdapter', [
+    aggregatorAddress,
+    await compound.getAddress(),
+  ]);
+  await aggregator.addProtocol(
+    'aave_lending',
+    await aaveAdapter.getAddress(),
+    800
+  );
+  await aggregator.addProtocol(
+    'mock_liquid',
+    await liquidAdapter.getAddress(),
+    500
+  );
+  await aggregator.addProtocol(
+    'mock_compound',
+    await compoundAdapter.getAddress(),
+    300
+  );
+
+  for (const user of [alice, bob, carol]) {
+    await token.connect(user).approve(aggregatorAddress, hre.ethers.MaxUint256);
+  }
+
+  return {
+    aggregator,
+    aggregatorAddress,
+    wmatic,
+    aToken,
+    aavePool,
+    tokenAToken,
+    token,
+    tokenAddress,
+    liquid,
+    compound,
+    aaveAdapter,
+    liquidAdapter,
+    compoundAdapter,
+    owner,
+    alice,
+    bob,
+    carol,
+  };
+}
@@ -0,0 +1,148 @@
+import {
+  setCode,
+  setStorageAt,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import {
+  getAddress,
+  parseEther,
+  ZeroAddress,
+  ZeroHash,
+  zeroPadValue,
+} from 'ethers';
+import hre from 'hardhat';
+import {
+  connectChallengeFactory,
+  deployChallengeFactory,
+  readStorageLayout,
+} from '../../sdk';
+import type { ExerciseSupplementNFT } from '../../typechain-types';
+import { deployAggregatorFixture, ONE_DAY } from './aggregator';
+
+const NFT_SOURCE = 'contracts/ExerciseSupplementNFT.sol:ExerciseSupplementNFT';
+
+/** Where the local ExerciseSupplementNFT lives */
+export const NFT_ADDRESS = getAddress(
+  '0x000000000000000000000000000000000000e5e1'
+);
+
+export const CHALLENGE_GOAL = 5000;
+
+/**
+ * ExerciseSupplementNFT is over the contract size limit, so its runtime code
+ * is installed with hardhat_setCode and initialised directly instead of
+ * through a proxy. It has no setter for securityAddress, which is written
+ * into its storage slot.
+ */
+async function deployExerciseSupplementNFT(
+  feeSettingAddress: string,
+  securityAddress: string
+): Promise<ExerciseSupplementNFT> {
+  const [owner] = await hre.ethers.getSigners();
+  const artifact = await hre.artifacts.readArtifact('ExerciseSupplementNFT');
+  await setCode(NFT_ADDRESS, artifact.deployedBytecode);
+  const nft = await hre.ethers.getContractAt(
+    'ExerciseSupplementNFT',
+    NFT_ADDRESS
+  );
+
+  // setCode keeps storage, so a fixture run on top of another one finds the
+  // NFT initialised already
+  const layout = await readStorageLayout(hre.artifacts, NFT_SOURCE);
+  const slotOf = (label: string) =>
+    layout.storage.find(v => v.label === label)!.slot;
+  await setStorageAt(NFT_ADDRESS, slotOf('_initialized'), ZeroHash);
+  await nft.initialize(
+    'https://example.com/',
+    owner.address,
+    feeSettingAddress,
+    owner.address
+  );
+
+  await setStorageAt(
+    NFT_ADDRESS,
+    slotOf('securityAddress'),
+    zeroPadValue(securityAddress, 32)
+  );
+  return nft;
+}
+
+/** Aggregator fixture plus a local ExerciseSupplementNFT signed for by `security` */
+async function deployChallengeEnvironment() {
+  const fixture = await deployAggregatorFixture();
+  const security = hre.ethers.Wallet.createRandom(hre.ethers.provider);
+
+  const fee = await hre.ethers.deployContract('MockChallengeFee', [2, 2]);
+  const nft = await deployExerciseSupplementNFT(
+    await fee.getAddress(),
+    security.address
+  );
+  return { ...fixture, nft, security };
+}
+
+/**
+ * A native-MATIC ChallengeDetailV2 over a local ExerciseSupplementNFT whose
+ * securityAddress is `security`: bob walks (goal 5000 steps on 7 of 10
+ * days), alice sponsors. The challenge has started.
+ */
+export async function deployChallengeFixture() {
+  const { aggregator, nft, security, owner, alice, bob, carol } =
+    await deployChallengeEnvironment();
+
+  const start = (await time.latest()) + 60;
+  const end = start + 10 * ONE_DAY;
+  const challenge = await hre.ethers.deployContract('ChallengeDetailV2', [
+    [alice.address, bob.address, owner.address],
+    ZeroAddress,
+    [NFT_ADDRESS],
+    [10, start, end, CHALLENGE_GOAL, 7],
+    [bob.address, carol.address],
+    1,
+    [false, false, false],
+    [0, 0, 0],
+    false,
+    [98, 98],
+    parseEther('10'),
+    await aggregator.getAddress(),
+    'aave_lending',
+    ZeroAddress,
+  ]);
+  const challengeAddress = await challenge.getAddress();
+  await nft.batchGrantRole(await nft.ALLOWED_CONTRACTS_CHALLENGE(), [
+    challengeAddress,
+  ]);
+  await time.increaseTo(start);
+
+  return {
+    aggregator,
+    nft,
+    challenge,
+    challengeAddress,
+    security,
+    start,
+    owner,
+    alice,
+    bob,
+    carol,
+  };
+}
+
+/**
+ * A ChallengeFactory over the aggregator and a local ExerciseSupplementNFT,
+ * allowed to register challenges and exempt from lock policies, connected as
+ * alice (the sponsor)
+ */
+export async function deployChallengeFactoryFixture() {
+  const environment = await deployChallengeEnvironment();
+  const { aggregator, nft, owner, alice } = environment;
+
+  const deployment = await deployChallengeFactory(owner, {
+    aggregator: await aggregator.getAddress(),
+    nft: NFT_ADDRESS,
+  });
+  await nft.grantRole(await nft.UPDATER_ACTIVITIES_ROLE(), deployment.address);
+  await aggregator.setChallengeFactory(deployment.address);
+  const factory = connectChallengeFactory(deployment.address, alice);
+
+  return { ...environment, factory, deployment };
+}
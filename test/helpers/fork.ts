@@ -0,0 +1,358 @@
+import {
+  impersonateAccount,
+  reset,
+  setBalance,
+  setCode,
+  setNonce,
+  setStorageAt,
+  stopImpersonatingAccount,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import * as fs from 'fs';
+import hre from 'hardhat';
+import { getDeployment, WMATIC_ADDRESS } from '../../sdk';
+import {
+  IAavePool__factory,
+  IERC20__factory,
+  PolygonDeFiAggregator,
+} from '../../typechain-types';
+
+/**
+ * Opt-in Polygon fork mode for the tests under test/fork. Suites are skipped
+ * unless one of these is set:
+ *
+ * - FORK_STATE: a JSON state dump recorded from a fork. Loaded into the local
+ *   network, so the suites run with no network at all.
+ * - FORK_RPC_URL: fork Polygon at FORK_BLOCK. Hardhat caches every response
+ *   for a pinned block under cache/hardhat-network-fork, so reruns are served
+ *   locally. Add FORK_RECORD=<file> to write a state dump for FORK_STATE.
+ */
+
+/**
+ * Block the RPC fork is pinned to, after the Polygon deployments in the
+ * registry; state dumps record their own
+ */
+export const DEFAULT_FORK_BLOCK = 76_000_000;
+
+export const POLYGON = {
+  chainId: 137,
+  aavePool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+  wmatic: WMATIC_ADDRESS,
+};
+
+/** Register Polygon's Aave v3 pool as "aave_lending" through a new adapter */
+export async function addAaveProtocol(aggregator: PolygonDeFiAggregator) {
+  const adapter = await hre.ethers.deployContract('AaveV3Adapter', [
+    await aggregator.getAddress(),
+    POLYGON.aavePool,
+  ]);
+  await aggregator.addProtocol('aave_lending', await adapter.getAddress(), 800);
+  return adapter;
+}
+
+/** Address of the project's latest deployment of `contractName` on Polygon */
+export function polygonDeployment(contractName: string): string {
+  return getDeployment(POLYGON.chainId, contractName).address;
+}
+
+// ===== STATE DUMPS =====
+
+/**
+ * Transaction senders are stored by nonce only, so contracts deployed by the
+ * tests get the addresses they had on the fork; the local network funds them
+ */
+interface AccountState {
+  nonce: number;
+  balance?: string;
+  code?: string;
+  storage?: { [slot: string]: string };
+}
+
+export interface StateDump {
+  version: 1;
+  chainId: number;
+  blockNumber: number;
+  timestamp: number;
+  accounts: { [address: string]: AccountState };
+}
+
+interface StructLog {
+  op: string;
+  depth: number;
+  stack?: string[];
+}
+
+const CALLS = ['CALL', 'STATICCALL', 'DELEGATECALL', 'CALLCODE'];
+const ADDRESS_READS = ['BALANCE', 'EXTCODESIZE', 'EXTCODEHASH', 'EXTCODECOPY'];
+const TRACE_OPTIONS = { disableMemory: true, disableStorage: true };
+
+const word = (value: string) =>
+  `0x${value.replace(/^0x/, '').padStart(64, '0')}`;
+const address = (value: string) =>
+  hre.ethers.getAddress(`0x${word(value).slice(-40)}`);
+
+/**
+ * Collects the accounts and storage slots that forked transactions read, so
+ * their values at the fork block can be written to a state dump
+ */
+class StateRecorder {
+  private readonly slots = new Map<string, Set<string>>();
+  private readonly traced = new Set<string>();
+  private unwatch?: () => void;
+
+  constructor(private readonly forkBlock: number) {}
+
+  private touch(account: string, slot?: string) {
+    const slots = this.slots.get(account) ?? new Set<string>();
+    if (slot !== undefined) {
+      slots.add(slot);
+    }
+    this.slots.set(account, slots);
+  }
+
+  /** Trace every transaction mined since the fork that was not seen yet */
+  async collect() {
+    const provider = hre.ethers.provider;
+    const head = await provider.getBlockNumber();
+    for (let number = this.forkBlock + 1; number <= head; number++) {
+      const block = await provider.getBlock(number);
+      for (const hash of block?.transactions ?? []) {
+        if (!this.traced.has(hash)) {
+          this.traced.add(hash);
+          await this.trace(hash);
+        }
+      }
+    }
+  }
+
+  private async trace(hash: string) {
+    const tx = await hre.ethers.provider.getTransaction(hash);
+    if (tx) {
+      this.touch(tx.from);
+    }
+    const { structLogs } = await hre.network.provider.send(
+      'debug_traceTransaction',
+      [hash, TRACE_OPTIONS]
+    );
+    this.record(tx?.to ?? null, structLogs);
+  }
+
+  /** Also trace the view calls made through the provider while recording */
+  watchCalls() {
+    const provider = hre.network.provider;
+    const original = provider.send;
+    const send = original.bind(provider);
+    this.unwatch = () => {
+      provider.send = original;
+    };
+    provider.send = async (method: string, params?: unknown[]) => {
+      const result = await send(method, params);
+      if (method === 'eth_call' && params) {
+        const [call, block] = params as [{ to?: string }, string?];
+        const { structLogs } = await send('debug_traceCall', [
+          call,
+          block ?? 'latest',
+          TRACE_OPTIONS,
+        ]);
+        this.record(
+          call.to ? hre.ethers.getAddress(call.to) : null,
+          structLogs
+        );
+      }
+      return result;
+    };
+  }
+
+  unwatchCalls() {
+    this.unwatch?.();
+    this.unwatch = undefined;
+  }
+
+  private record(to: string | null, structLogs: StructLog[]) {
+    if (to) {
+      this.touch(to);
+    }
+    // Storage context per call depth; null inside contracts being created
+    const frames: (string | null)[] = [to];
+    structLogs.forEach((step, i) => {
+      const stack = step.stack ?? [];
+      const top = (n: number) => stack[stack.length - 1 - n];
+      const current = frames[frames.length - 1];
+      const entered = structLogs[i + 1]?.depth === step.depth + 1;
+
+      if (CALLS.includes(step.op)) {
+        const target = address(top(1));
+        this.touch(target);
+        if (entered) {
+          const delegated =
+            step.op === 'DELEGATECALL' || step.op === 'CALLCODE';
+          frames.push(delegated ? current : target);
+        }
+      } else if (step.op === 'CREATE' || step.op === 'CREATE2') {
+        if (entered) {
+          frames.push(null);
+        }
+      } else if (ADDRESS_READS.includes(step.op)) {
+        this.touch(address(top(0)));
+      } else if ((step.op === 'SLOAD' || step.op === 'SSTORE') && current) {
+        this.touch(current, word(top(0)));
+      }
+
+      const next = structLogs[i + 1];
+      if (next && next.depth < step.depth) {
+        frames.length -= step.depth - next.depth;
+      }
+    });
+  }
+
+  /** Write the fork-block values of everything touched so far */
+  async write(file: string) {
+    const provider = hre.ethers.provider;
+    const block = await provider.getBlock(this.forkBlock);
+    const dump: StateDump = {
+      version: 1,
+      chainId: POLYGON.chainId,
+      blockNumber: this.forkBlock,
+      timestamp: block!.timestamp,
+      accounts: {},
+    };
+
+    for (const [account, slots] of this.slots) {
+      // Precompiles are provided by the local network
+      if (BigInt(account) < 0x100n) {
+        continue;
+      }
+      const nonce = await provider.getTransactionCount(account, this.forkBlock);
+      const code = await provider.getCode(account, this.forkBlock);
+      if (code === '0x') {
+        if (nonce > 0) {
+          dump.accounts[account] = { nonce };
+        }
+        continue;
+      }
+      const storage: { [slot: string]: string } = {};
+      for (const slot of [...slots].sort()) {
+        const value = await provider.getStorage(account, slot, this.forkBlock);
+        if (BigInt(value) !== 0n) {
+          storage[slot] = value;
+        }
+      }
+      dump.accounts[account] = {
+        nonce,
+        balance: String(await provider.getBalance(account, this.forkBlock)),
+        code,
+        storage,
+      };
+    }
+    fs.writeFileSync(file, `${JSON.stringify(dump, null, 2)}\n`);
+  }
+}
+
+async function loadStateDump(file: string) {
+  const dump = JSON.parse(fs.readFileSync(file, 'utf8')) as StateDump;
+  if (dump.version !== 1) {
+    throw new Error(
+      `Unsupported state dump version ${dump.version} in ${file}`
+    );
+  }
+  for (const [account, state] of Object.entries(dump.accounts)) {
+    await setNonce(account, state.nonce);
+    if (state.code === undefined) {
+      continue;
+    }
+    await setCode(account, state.code);
+    await setBalance(account, BigInt(state.balance ?? 0));
+    for (const [slot, value] of Object.entries(state.storage ?? {})) {
+      await setStorageAt(account, slot, value);
+    }
+  }
+}
+
+// ===== SUITES =====
+
+export type ForkMode = 'state' | 'rpc';
+
+export function forkMode(): ForkMode | undefined {
+  if (process.env.FORK_STATE) {
+    return 'state';
+  }
+  return process.env.FORK_RPC_URL ? 'rpc' : undefined;
+}
+
+let recorder: StateRecorder | undefined;
+
+/**
+ * `describe` that runs on Polygon state when fork mode is enabled, and is
+ * skipped otherwise. The local network is restored afterwards.
+ */
+export function describeFork(title: string, body: () => void) {
+  describe(title, function () {
+    before(async function () {
+      const mode = forkMode();
+      if (!mode) {
+        this.skip();
+      }
+      // Forked calls are slower than the local network
+      this.timeout(300_000);
+
+      if (mode === 'state') {
+        await reset();
+        await loadStateDump(process.env.FORK_STATE!);
+        return;
+      }
+      const block = Number(process.env.FORK_BLOCK || DEFAULT_FORK_BLOCK);
+      await reset(process.env.FORK_RPC_URL, block);
+      if (process.env.FORK_RECORD) {
+        recorder ??= new StateRecorder(block);
+        recorder.watchCalls();
+      }
+    });
+
+    if (process.env.FORK_RECORD) {
+      afterEach(async function () {
+        this.timeout(300_000);
+        await recorder?.collect();
+      });
+    }
+
+    after(async function () {
+      this.timeout(300_000);
+      if (recorder && process.env.FORK_RECORD) {
+        recorder.unwatchCalls();
+        await recorder.write(process.env.FORK_RECORD);
+      }
+      if (forkMode()) {
+        await reset();
+      }
+    });
+
+    body();
+  });
+}
+
+// ===== FUNDING =====
+
+/**
+ * Fund `to` with `amount` of `token` from an impersonated holder. Defaults to
+ * the token's Aave aToken, which holds the reserve's liquidity.
+ */
+export async function fundFromWhale(
+  token: string,
+  to: string,
+  amount: bigint,
+  whale?: string
+) {
+  const holder =
+    whale ??
+    (
+      await IAavePool__factory.connect(
+        POLYGON.aavePool,
+        hre.ethers.provider
+      ).getReserveData(token)
+    ).aTokenAddress;
+
+  await impersonateAccount(holder);
+  await setBalance(holder, hre.ethers.parseEther('10'));
+  const signer = await hre.ethers.getSigner(holder);
+  await IERC20__factory.connect(token, signer).transfer(to, amount);
+  await stopImpersonatingAccount(holder);
+}
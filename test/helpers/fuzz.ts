@@ -0,0 +1,155 @@
+/**
+ * Seeded random source (mulberry32), so a failing run can be replayed from
+ * its seed
+ */
+export class Random {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Uniform in [0, 1) */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Integer in [min, max] */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /** Integer in [min, max], for amounts beyond the safe integer range */
+  bigint(min: bigint, max: bigint): bigint {
+    const range = max - min + 1n;
+    let value = 0n;
+    for (let i = 0; i < 4; i++) {
+      value = (value << 32n) | BigInt(Math.floor(this.next() * 4294967296));
+    }
+    return min + (value % range);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error('Cannot pick from an empty list');
+    }
+    return items[this.int(0, items.length - 1)];
+  }
+
+  /** Pick by relative weight */
+  weighted<T extends { weight: number }>(items: readonly T[]): T {
+    const total = items.reduce((sum, item) => sum + item.weight, 0);
+    let roll = this.next() * total;
+    for (const item of items) {
+      roll -= item.weight;
+      if (roll < 0) {
+        return item;
+      }
+    }
+    return items[items.length - 1];
+  }
+}
+
+export interface FuzzAction<S> {
+  name: string;
+  weight: number;
+  /**
+   * Perform one random step and describe it for the failure log, or return
+   * undefined when the step does not apply to the current state
+   */
+  run(state: S, random: Random): Promise<string | undefined>;
+}
+
+export interface FuzzConfig {
+  /** Seed of the first run; run i uses seed + i */
+  seed: number;
+  runs: number;
+  steps: number;
+}
+
+/**
+ * Run counts from FUZZ_SEED, FUZZ_RUNS and FUZZ_STEPS, falling back to the
+ * given defaults (kept small enough for the regular test run)
+ */
+export function fuzzConfig(defaults: FuzzConfig): FuzzConfig {
+  const read = (name: string, fallback: number) => {
+    const value = process.env[name];
+    if (!value) {
+      return fallback;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`${name} must be a non-negative integer, got ${value}`);
+    }
+    return parsed;
+  };
+  return {
+    seed: read('FUZZ_SEED', defaults.seed),
+    runs: read('FUZZ_RUNS', defaults.runs),
+    steps: read('FUZZ_STEPS', defaults.steps),
+  };
+}
+
+/** Steps of the failure log shown in the error message */
+const LOG_TAIL = 25;
+
+/**
+ * Stateful fuzzing: each run starts from `setup`, then applies random
+ * actions and checks every invariant after each step. Failures report the
+ * seed and the steps that led to them.
+ */
+export async function runFuzz<S>(params: {
+  config: FuzzConfig;
+  setup: () => Promise<S>;
+  actions: FuzzAction<S>[];
+  invariants: ((state: S) => Promise<void>)[];
+}) {
+  const { config, setup, actions, invariants } = params;
+
+  for (let run = 0; run < config.runs; run++) {
+    const random = new Random(config.seed + run);
+    const state = await setup();
+    const log: string[] = [];
+
+    for (let step = 0; step < config.steps; step++) {
+      const action = random.weighted(actions);
+      try {
+        const description = await action.run(state, random);
+        log.push(`${step}: ${description ?? `${action.name} (skipped)`}`);
+        for (const invariant of invariants) {
+          await invariant(state);
+        }
+      } catch (error) {
+        if (log.length === step) {
+          log.push(`${step}: ${action.name} (failed)`);
+        }
+        const shown = log.slice(-LOG_TAIL);
+        // A plain Error, as mocha trims assertion messages down to their
+        // first line when it prints a diff
+        const failure = new Error(
+          `${error instanceof Error ? error.message : String(error)}\n\n` +
+            `Seed ${random.seed}, step ${step} ` +
+            `(replay with FUZZ_SEED=${random.seed} FUZZ_RUNS=1 FUZZ_STEPS=${step + 1}):\n` +
+            (shown.length < log.length ? '  ...\n' : '') +
+            shown.map(line => `  ${line}`).join('\n')
+        );
+        const frames =
+          error instanceof Error
+            ? (error.stack?.indexOf('\n    at ') ?? -1)
+            : -1;
+        if (frames >= 0) {
+          failure.stack = `${failure.message}${(error as Error).stack!.slice(frames)}`;
+        }
+        throw failure;
+      }
+    }
+  }
+}
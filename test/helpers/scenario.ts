@@ -0,0 +1,409 @@
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { ContractTransactionReceipt } from 'ethers';
+import hre from 'hardhat';
+import {
+  CHALLENGE_STATES,
+  ChallengeStateName,
+  confirm,
+  createChallenge,
+  decodeRevert,
+  LockPolicy,
+  NftTransfer,
+  revertDataOf,
+  sendDailyReport,
+  setLockPolicy,
+  signStepReport,
+} from '../../sdk';
+import type { ChallengeDetailV2 } from '../../typechain-types';
+import { ONE_DAY } from './aggregator';
+import { CHALLENGE_GOAL, deployChallengeFactoryFixture } from './challenge';
+
+/**
+ * A small language for ChallengeDetailV2 lifecycles, run against a challenge
+ * created through the factory with a local ExerciseSupplementNFT signer, a
+ * MockGacha and the aggregator's mocks:
+ *
+ *   day 1: 5000 steps, day 2: missed, day 3: 3000 steps,
+ *   day 3: resend 6000 steps, days 4-6: 5000, 7000, 5200 steps, close
+ *
+ * Clauses are separated by newlines, semicolons or commas.
+ *
+ *   day N: S steps             report day N's reading
+ *   day N: resend S steps      report day N again, later that day
+ *   days N-M: S1, S2, … steps  report days N to M in one call, on day M
+ *   day N: missed              report nothing for day N
+ *   [day N:] give up           the challenger gives up (on day N)
+ *   close                      the sponsor closes it, 2 days after the end
+ *
+ * Any clause but `missed` can end in `reverts "reason"` (or just `reverts`).
+ * Day 1 starts at the challenge's start, a UTC midnight, so each challenge
+ * day is one signing day; reports are sent from 8am and an hour apart.
+ */
+
+export type ScenarioStep =
+  | { action: 'report'; days: number[]; steps: number[]; resend: boolean }
+  | { action: 'missed'; day: number }
+  | { action: 'giveUp'; day?: number }
+  | { action: 'close' };
+
+export type ScenarioClause = ScenarioStep & {
+  text: string;
+  /** Expected revert reason; '' for any */
+  reverts?: string;
+};
+
+export interface ScenarioOptions {
+  /** Length of the challenge in days (default 10) */
+  days?: number;
+  /** Default 7 */
+  daysRequired?: number;
+  goal?: number;
+  allowGiveUp?: boolean;
+  awardSponsorOnGiveUp?: boolean;
+  /** ERC721 tokens the sponsor puts into the challenge (default 0) */
+  nfts?: number;
+  /** Set on aave_lending, where the deposit is staked, before creation */
+  lockPolicy?: LockPolicy;
+}
+
+/** Stakeholders, by their part in the scenario */
+export type ScenarioRole = 'sponsor' | 'challenger' | 'receiver' | 'fee';
+
+export interface ScenarioResult {
+  challenge: ChallengeDetailV2;
+  state: ChallengeStateName;
+  currentStatus: number;
+  /** Recorded results, by challenge day */
+  history: { day: number; steps: number }[];
+  /** Native balance the challenge settled with; 0 while it runs */
+  pot: bigint;
+  /** Native MATIC each role gained during the scenario, gas excluded */
+  payouts: Record<ScenarioRole, bigint>;
+  /** Owner of each deposited NFT, as a role, 'challenge' or an address */
+  nftOwners: string[];
+  gachaCalls: number;
+}
+
+const REPORT_HOUR = 8 * 60 * 60;
+const RESEND_GAP = 60 * 60;
+
+const CLAUSE_SEPARATOR = /[\n;]|,(?=\s*(?:days?|give|close)\b)/i;
+const REVERTS = /^(.*?)\s+reverts(?:\s+"([^"]*)")?$/i;
+const DAY = /^day\s+(\d+)\s*:\s*(.+)$/i;
+const DAYS = /^days\s+(\d+)\s*-\s*(\d+)\s*:\s*([\d,\s]+?)\s+steps$/i;
+const STEPS = /^(resend\s+)?(\d+)\s+steps$/i;
+
+/** Parse a scenario; throws listing every clause it cannot read */
+export function parseScenario(script: string): ScenarioClause[] {
+  const clauses: ScenarioClause[] = [];
+  const errors: string[] = [];
+
+  for (const raw of script.split(CLAUSE_SEPARATOR)) {
+    const text = raw.trim().replace(/\s+/g, ' ');
+    if (text === '') {
+      continue;
+    }
+    let body = text;
+    let reverts: string | undefined;
+    const revert = REVERTS.exec(text);
+    if (revert) {
+      body = revert[1];
+      reverts = revert[2] ?? '';
+    }
+
+    const step = parseStep(body);
+    if (step === undefined) {
+      errors.push(`"${text}" is not a clause`);
+    } else if (typeof step === 'string') {
+      errors.push(`"${text}": ${step}`);
+    } else if (step.action === 'missed' && reverts !== undefined) {
+      errors.push(`"${text}": a missed day sends nothing to revert`);
+    } else {
+      clauses.push(
+        reverts === undefined ? { ...step, text } : { ...step, text, reverts }
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid scenario:\n  ${errors.join('\n  ')}`);
+  }
+  return clauses;
+}
+
+/** One clause without its revert suffix, or why it is wrong */
+function parseStep(body: string): ScenarioStep | string | undefined {
+  if (/^give up$/i.test(body)) {
+    return { action: 'giveUp' };
+  }
+  if (/^close$/i.test(body)) {
+    return { action: 'close' };
+  }
+
+  const range = DAYS.exec(body);
+  if (range) {
+    const [first, last] = [Number(range[1]), Number(range[2])];
+    const steps = range[3]
+      .split(',')
+      .map(value => value.trim())
+      .filter(value => value !== '')
+      .map(Number);
+    if (first < 1 || last <= first) {
+      return 'days must be an increasing range from day 1 on';
+    }
+    if (steps.length !== last - first + 1) {
+      return `${last - first + 1} days need as many step counts, got ${steps.length}`;
+    }
+    const days = steps.map((_, i) => first + i);
+    return { action: 'report', days, steps, resend: false };
+  }
+
+  const single = DAY.exec(body);
+  if (!single) {
+    return undefined;
+  }
+  const day = Number(single[1]);
+  if (day < 1) {
+    return 'days count from 1';
+  }
+  const rest = single[2];
+  if (/^missed$/i.test(rest)) {
+    return { action: 'missed', day };
+  }
+  if (/^give up$/i.test(rest)) {
+    return { action: 'giveUp', day };
+  }
+  const steps = STEPS.exec(rest);
+  if (!steps) {
+    return undefined;
+  }
+  return {
+    action: 'report',
+    days: [day],
+    steps: [Number(steps[2])],
+    resend: steps[1] !== undefined,
+  };
+}
+
+/**
+ * Create a native-MATIC challenge (10 MATIC from alice for bob, 98% to bob
+ * on success or carol on failure, 2% fee to owner) and play `script` on it.
+ * Throws at the first clause that does not go as written.
+ */
+export async function runScenario(
+  script: string,
+  options: ScenarioOptions = {}
+): Promise<ScenarioResult> {
+  const clauses = parseScenario(script);
+  const { aggregator, factory, security, owner, alice, bob, carol } =
+    await loadFixture(deployChallengeFactoryFixture);
+  const days = options.days ?? 10;
+  if (options.lockPolicy) {
+    await setLockPolicy(aggregator, 'aave_lending', options.lockPolicy);
+  }
+
+  // Start on a UTC midnight so that signing days and challenge days coincide
+  const start = Math.ceil(((await time.latest()) + 60) / ONE_DAY) * ONE_DAY;
+  const end = start + days * ONE_DAY;
+  const { challenge: address } = await createChallenge(factory, {
+    challenger: bob.address,
+    feeAddress: owner.address,
+    start,
+    days,
+    goal: options.goal ?? CHALLENGE_GOAL,
+    daysRequired: options.daysRequired ?? 7,
+    amount: '10',
+    onSuccess: [{ receiver: bob.address, percent: 98 }],
+    onFailure: [{ receiver: carol.address, percent: 98 }],
+    allowGiveUp: options.allowGiveUp,
+    awardSponsorOnGiveUp: options.awardSponsorOnGiveUp,
+  });
+  const challenge = await hre.ethers.getContractAt(
+    'ChallengeDetailV2',
+    address,
+    bob
+  );
+
+  const gacha = await hre.ethers.deployContract('MockGacha');
+  const erc721 = await hre.ethers.deployContract('MockERC721');
+  const tokenIds: bigint[] = [];
+  for (let i = 0; i < (options.nfts ?? 0); i++) {
+    const tokenId = await erc721.nextTokenId();
+    await erc721.mint(alice.address);
+    await erc721.connect(alice).transferFrom(alice.address, address, tokenId);
+    tokenIds.push(tokenId);
+  }
+  const nfts: NftTransfer[] =
+    tokenIds.length > 0
+      ? [
+          {
+            address: await erc721.getAddress(),
+            tokenIds,
+            senders: tokenIds.map(() => alice.address),
+            erc721: true,
+          },
+        ]
+      : [];
+  const nftArgs = [
+    nfts.map(nft => nft.address),
+    nfts.map(nft => nft.tokenIds.map(BigInt)),
+    nfts.map(nft => nft.senders),
+    nfts.map(nft => nft.erc721),
+  ] as const;
+
+  const roles: Record<ScenarioRole, string> = {
+    sponsor: alice.address,
+    challenger: bob.address,
+    receiver: carol.address,
+    fee: owner.address,
+  };
+  const before = {} as Record<ScenarioRole, bigint>;
+  const gasSpent = {} as Record<ScenarioRole, bigint>;
+  for (const role of Object.keys(roles) as ScenarioRole[]) {
+    before[role] = await hre.ethers.provider.getBalance(roles[role]);
+    gasSpent[role] = 0n;
+  }
+
+  const roleOf = (account: string) =>
+    account === address
+      ? 'challenge'
+      : ((Object.keys(roles) as ScenarioRole[]).find(
+          role => roles[role] === account
+        ) ?? account);
+
+  const dayStart = (day: number) => start + (day - 1) * ONE_DAY;
+  const reported = new Set<number>();
+
+  // Move the clock to `day`'s reporting time, an hour after the last report
+  const reportTime = async (day: number, text: string) => {
+    const at = Math.max(
+      dayStart(day) + REPORT_HOUR,
+      (await time.latest()) + RESEND_GAP
+    );
+    if (at >= dayStart(day + 1)) {
+      throw new Error(`"${text}" comes after day ${day} is over`);
+    }
+    await time.increaseTo(at);
+    return at;
+  };
+
+  // Charge the gas of every transaction mined since `fromBlock` to its
+  // sender; Hardhat mines transactions that revert too
+  const chargeGas = async (fromBlock: number) => {
+    const latest = await hre.ethers.provider.getBlockNumber();
+    for (let number = fromBlock + 1; number <= latest; number++) {
+      const block = await hre.ethers.provider.getBlock(number);
+      for (const hash of block!.transactions) {
+        const receipt = await hre.ethers.provider.getTransactionReceipt(hash);
+        const role = roleOf(receipt!.from);
+        if (role in gasSpent) {
+          gasSpent[role as ScenarioRole] +=
+            receipt!.gasUsed * receipt!.gasPrice;
+        }
+      }
+    }
+  };
+
+  // Run a clause's transaction and check it reverts only as written
+  const send = async (
+    clause: ScenarioClause,
+    transaction: () => Promise<ContractTransactionReceipt>
+  ) => {
+    const fromBlock = await hre.ethers.provider.getBlockNumber();
+    let reason: string | undefined;
+    try {
+      await transaction();
+    } catch (error) {
+      const data = revertDataOf(error);
+      if (data === undefined) {
+        throw error;
+      }
+      const decoded = decodeRevert(data);
+      reason =
+        decoded.name === 'Error' ? String(decoded.args.reason) : decoded.name;
+    }
+    await chargeGas(fromBlock);
+
+    if (clause.reverts === undefined && reason !== undefined) {
+      throw new Error(`"${clause.text}" reverted "${reason}"`);
+    }
+    if (clause.reverts !== undefined && reason === undefined) {
+      throw new Error(`"${clause.text}" did not revert`);
+    }
+    if (clause.reverts && reason !== clause.reverts) {
+      throw new Error(
+        `"${clause.text}" reverted "${reason}", not "${clause.reverts}"`
+      );
+    }
+    return reason === undefined;
+  };
+
+  for (const clause of clauses) {
+    switch (clause.action) {
+      case 'missed':
+        await reportTime(clause.day, clause.text);
+        break;
+      case 'report': {
+        const last = clause.days[clause.days.length - 1];
+        if (clause.resend && !reported.has(last)) {
+          throw new Error(`"${clause.text}": nothing to resend on day ${last}`);
+        }
+        const sentAt = await reportTime(last, clause.text);
+        const report = await signStepReport(security, {
+          challenge: address,
+          readings: clause.days.map((day, i) => ({
+            day: day === last ? sentAt : dayStart(day) + REPORT_HOUR,
+            steps: clause.steps[i],
+          })),
+          gachas: [await gacha.getAddress()],
+          nfts,
+        });
+        if (await send(clause, () => sendDailyReport(challenge, report))) {
+          clause.days.forEach(day => reported.add(day));
+        }
+        break;
+      }
+      case 'giveUp':
+        if (clause.day !== undefined) {
+          await reportTime(clause.day, clause.text);
+        }
+        await send(clause, () => confirm(challenge.giveUp(...nftArgs)));
+        break;
+      case 'close':
+        await time.increaseTo(
+          Math.max(end + 2 * ONE_DAY + 1, (await time.latest()) + 1)
+        );
+        await send(clause, () =>
+          confirm(challenge.connect(alice).closeChallenge(...nftArgs))
+        );
+        break;
+    }
+  }
+
+  const payouts = {} as Record<ScenarioRole, bigint>;
+  for (const role of Object.keys(roles) as ScenarioRole[]) {
+    payouts[role] =
+      (await hre.ethers.provider.getBalance(roles[role])) -
+      before[role] +
+      gasSpent[role];
+  }
+  const [dates, steps] = await challenge.getChallengeHistory();
+  return {
+    challenge,
+    state: CHALLENGE_STATES[Number(await challenge.getState())],
+    currentStatus: Number(await challenge.currentStatus()),
+    history: dates.map((date, i) => ({
+      day: Math.floor((Number(date) - start) / ONE_DAY) + 1,
+      steps: Number(steps[i]),
+    })),
+    pot: await challenge.totalBalanceBaseToken(),
+    payouts,
+    nftOwners: await Promise.all(
+      tokenIds.map(async id => roleOf(await erc721.ownerOf(id)))
+    ),
+    gachaCalls: Number(await gacha.callCount()),
+  };
+}
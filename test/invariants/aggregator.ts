@@ -0,0 +1,741 @@
+import type { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import {
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  formatEther,
+  formatUnits,
+  parseEther,
+  parseUnits,
+} from 'ethers';
+import hre from 'hardhat';
+import { WMATIC_ADDRESS } from '../../sdk';
+import { deployAggregatorFixture, ONE_DAY } from '../helpers/aggregator';
+import { FuzzAction, fuzzConfig, Random, runFuzz } from '../helpers/fuzz';
+
+type World = Awaited<ReturnType<typeof fuzzFixture>>;
+
+interface Market {
+  protocol: string;
+  /** Staked as native MATIC (wrapped to WMATIC), otherwise the test token */
+  native: boolean;
+}
+
+const MARKETS: Market[] = [
+  { protocol: 'aave_lending', native: true },
+  { protocol: 'mock_liquid', native: false },
+  { protocol: 'mock_compound', native: false },
+];
+// Where "auto" TUSD stakes can go, in the order set on-chain
+const TUSD_ROUTES = ['mock_liquid', 'mock_compound'];
+const LOCK_DURATIONS = [1, 7, 30, 90].map(days => days * ONE_DAY);
+const TIME_STEPS = [60 * 60, ONE_DAY, 7 * ONE_DAY, 30 * ONE_DAY];
+
+// PolygonDeFiAggregator.LockMode
+const LOCK_MODES = ['None', 'Hard', 'LinearPenalty', 'ForfeitRewards'];
+const HARD = 1n;
+const LINEAR_PENALTY = 2n;
+const FORFEIT_REWARDS = 3n;
+
+type Stake = Awaited<
+  ReturnType<World['aggregator']['getUserTimeLockedStakes']>
+>[number];
+
+async function fuzzFixture() {
+  const fixture = await deployAggregatorFixture();
+  // Penalties go to an account that sends no transactions
+  const treasury = (await hre.ethers.getSigners())[5];
+  await fixture.aggregator.setFeeRecipient(treasury.address);
+  await fixture.aggregator.setTokenRoutes(fixture.tokenAddress, TUSD_ROUTES);
+  const { alice, bob, carol } = fixture;
+  return {
+    ...fixture,
+    treasury,
+    users: [
+      { name: 'alice', signer: alice },
+      { name: 'bob', signer: bob },
+      { name: 'carol', signer: carol },
+    ],
+  };
+}
+
+const marketOf = (protocol: string) =>
+  MARKETS.find(market => market.protocol === protocol)!;
+
+const tokenOf = (world: World, market: Market) =>
+  market.native ? WMATIC_ADDRESS : world.tokenAddress;
+
+const formatAmount = (market: Market, amount: bigint) =>
+  market.native
+    ? `${formatEther(amount)} MATIC`
+    : `${formatUnits(amount, 6)} TUSD`;
+
+/**
+ * Fix the next block's timestamp so time-dependent outcomes (maturity, lock
+ * penalties) can be predicted
+ */
+async function nextTimestamp(): Promise<bigint> {
+  const next = (await time.latest()) + 1;
+  await time.setNextBlockTimestamp(next);
+  return BigInt(next);
+}
+
+type ExpectedRevert = string | { customError: string } | undefined;
+
+const describeRevert = (revert: ExpectedRevert) =>
+  revert === undefined
+    ? ''
+    : ` -> reverts ${typeof revert === 'string' ? revert : revert.customError}`;
+
+/**
+ * Send a transaction that must either succeed or revert with `revert`
+ */
+async function settle(
+  world: World,
+  send: () => Promise<ContractTransactionResponse>,
+  revert: ExpectedRevert
+): Promise<ContractTransactionReceipt | undefined> {
+  if (revert === undefined) {
+    return (await (await send()).wait())!;
+  }
+  if (typeof revert === 'string') {
+    await expect(send()).to.be.revertedWith(revert);
+  } else {
+    await expect(send()).to.be.revertedWithCustomError(
+      world.aggregator,
+      revert.customError
+    );
+  }
+  return undefined;
+}
+
+async function randomAmount(
+  world: World,
+  user: HardhatEthersSigner,
+  market: Market,
+  random: Random
+): Promise<bigint> {
+  if (market.native) {
+    return random.bigint(parseEther('0.01'), parseEther('50'));
+  }
+  const amount = random.bigint(parseUnits('1', 6), parseUnits('500', 6));
+  const balance = await world.token.balanceOf(user);
+  return amount <= balance ? amount : balance;
+}
+
+/** Active TUSD route with the highest APY, the first listed winning ties */
+async function bestTusdRoute(world: World) {
+  let best: { protocol: string; apy: bigint } | undefined;
+  for (const protocol of TUSD_ROUTES) {
+    const info = await world.aggregator.protocols(protocol);
+    if (info.isActive && (!best || info.currentAPY > best.apy)) {
+      best = { protocol, apy: info.currentAPY };
+    }
+  }
+  return best;
+}
+
+async function pickActiveStake(world: World, random: Random) {
+  const user = random.pick(world.users);
+  const stakes = await world.aggregator.getUserTimeLockedStakes(user.signer);
+  const active = stakes
+    .map((stake, id) => ({ stake, id }))
+    .filter(({ stake }) => stake.isActive);
+  return active.length === 0 ? undefined : { user, ...random.pick(active) };
+}
+
+/** Underlying the aggregator would redeem for `shares` of a market */
+async function sharesToAssets(
+  world: World,
+  protocol: string,
+  shares: bigint
+): Promise<bigint> {
+  const { aaveAdapter } = world;
+  if (protocol === 'aave_lending') {
+    const total = await aaveAdapter.totalShares(WMATIC_ADDRESS);
+    return total === 0n
+      ? 0n
+      : ((await world.aToken.balanceOf(aaveAdapter)) * shares) / total;
+  }
+  if (protocol === 'mock_liquid') {
+    return world.liquid.convertToAssets(shares);
+  }
+  return (shares * (await world.compound.exchangeRateStored())) / 10n ** 18n;
+}
+
+/** Shares the aggregator's adapter holds in a market's protocol */
+async function protocolShares(world: World, protocol: string) {
+  if (protocol === 'aave_lending') {
+    return world.aaveAdapter.totalShares(WMATIC_ADDRESS);
+  }
+  return protocol === 'mock_liquid'
+    ? world.liquid.balanceOf(world.liquidAdapter)
+    : world.compound.balanceOf(world.compoundAdapter);
+}
+
+/** PolygonDeFiAggregator._earlyExitPenalty */
+function expectedPenalty(
+  stake: Stake,
+  principal: bigint,
+  withdrawn: bigint,
+  now: bigint
+): bigint {
+  if (now >= stake.endTime) {
+    return 0n;
+  }
+  const { mode, maxPenaltyBps } = stake.lockPolicy;
+  if (mode === LINEAR_PENALTY) {
+    return (
+      (withdrawn * maxPenaltyBps * (stake.endTime - now)) /
+      ((stake.endTime - stake.startTime) * 10000n)
+    );
+  }
+  if (mode === FORFEIT_REWARDS) {
+    return withdrawn > principal ? withdrawn - principal : 0n;
+  }
+  return 0n;
+}
+
+/**
+ * Redeem `shares` of a stake and check the user and fee recipient together
+ * get exactly the shares' pro-rata value, split by the lock policy
+ */
+async function redeemAndCheck(
+  world: World,
+  pick: NonNullable<Awaited<ReturnType<typeof pickActiveStake>>>,
+  shares: bigint,
+  send: () => Promise<ContractTransactionResponse>
+): Promise<string> {
+  const { user, stake, id } = pick;
+  const market = marketOf(stake.protocol);
+  const now = await nextTimestamp();
+  const full = shares === stake.shares;
+  const action = full
+    ? `${user.name} withdraws stake ${id}`
+    : `${user.name} withdraws ${shares}/${stake.shares} shares of stake ${id}`;
+
+  if (now < stake.endTime && stake.lockPolicy.mode === HARD) {
+    const revert = 'Stake is locked until maturity';
+    await settle(world, send, revert);
+    return `${action}${describeRevert(revert)}`;
+  }
+
+  const value = await sharesToAssets(world, stake.protocol, shares);
+  const principal = full
+    ? stake.amount
+    : (stake.amount * shares) / stake.shares;
+  const token = market.native ? world.wmatic : world.token;
+  const balance = () =>
+    market.native
+      ? hre.ethers.provider.getBalance(user.signer)
+      : world.token.balanceOf(user.signer);
+  const userBefore = await balance();
+  const feesBefore = await token.balanceOf(world.treasury);
+
+  const receipt = await settle(world, send, undefined);
+  const gas = market.native ? receipt!.gasUsed * receipt!.gasPrice : 0n;
+  const received = (await balance()) - userBefore + gas;
+  const penalty = (await token.balanceOf(world.treasury)) - feesBefore;
+
+  expect(received + penalty).to.equal(value, 'payout is not pro rata');
+  expect(penalty).to.equal(
+    expectedPenalty(stake, principal, value, now),
+    'penalty does not follow the lock policy'
+  );
+  return `${action} for ${formatAmount(market, received)} (penalty ${penalty})`;
+}
+
+const actions: FuzzAction<World>[] = [
+  {
+    name: 'stake',
+    weight: 6,
+    async run(world, random) {
+      const { aggregator } = world;
+      const user = random.pick(world.users);
+      const market = random.pick(MARKETS);
+      const amount = await randomAmount(world, user.signer, market, random);
+      if (amount === 0n) {
+        return undefined;
+      }
+      const duration = random.pick(LOCK_DURATIONS);
+      const token = tokenOf(world, market);
+
+      const revert: ExpectedRevert = (await aggregator.paused())
+        ? { customError: 'EnforcedPause' }
+        : !(await aggregator.protocols(market.protocol)).isActive
+          ? 'Protocol not supported'
+          : !market.native &&
+              !(await aggregator.supportedTokens(token)).isActive
+            ? 'Token not supported'
+            : undefined;
+      await settle(
+        world,
+        () =>
+          aggregator
+            .connect(user.signer)
+            .createTimeLockedStake(
+              token,
+              market.native ? 0 : amount,
+              market.protocol,
+              duration,
+              { value: market.native ? amount : 0 }
+            ),
+        revert
+      );
+      return `${user.name} stakes ${formatAmount(market, amount)} in ${market.protocol} for ${duration / ONE_DAY}d${describeRevert(revert)}`;
+    },
+  },
+  {
+    name: 'auto stake',
+    weight: 3,
+    async run(world, random) {
+      const { aggregator } = world;
+      const user = random.pick(world.users);
+      const market = marketOf('mock_liquid');
+      const amount = await randomAmount(world, user.signer, market, random);
+      if (amount === 0n) {
+        return undefined;
+      }
+      const duration = random.pick(LOCK_DURATIONS);
+      const best = await bestTusdRoute(world);
+
+      const revert: ExpectedRevert = (await aggregator.paused())
+        ? { customError: 'EnforcedPause' }
+        : !best
+          ? 'No route for token'
+          : !(await aggregator.supportedTokens(world.tokenAddress)).isActive
+            ? 'Token not supported'
+            : undefined;
+      await settle(
+        world,
+        () =>
+          aggregator
+            .connect(user.signer)
+            .createTimeLockedStake(
+              world.tokenAddress,
+              amount,
+              'auto',
+              duration
+            ),
+        revert
+      );
+      return `${user.name} stakes ${formatAmount(market, amount)} auto-routed (${best?.protocol}) for ${duration / ONE_DAY}d${describeRevert(revert)}`;
+    },
+  },
+  {
+    name: 'increase',
+    weight: 2,
+    async run(world, random) {
+      const { aggregator } = world;
+      const pick = await pickActiveStake(world, random);
+      if (!pick) {
+        return undefined;
+      }
+      const { user, stake, id } = pick;
+      const market = marketOf(stake.protocol);
+      const amount = await randomAmount(world, user.signer, market, random);
+      if (amount === 0n) {
+        return undefined;
+      }
+
+      const now = await nextTimestamp();
+      const revert: ExpectedRevert = (await aggregator.paused())
+        ? { customError: 'EnforcedPause' }
+        : now + BigInt(ONE_DAY) > stake.endTime
+          ? 'Less than a day of lock remains'
+          : !(await aggregator.protocols(stake.protocol)).isActive
+            ? 'Protocol not supported'
+            : !market.native &&
+                !(await aggregator.supportedTokens(stake.stakingToken)).isActive
+              ? 'Token not supported'
+              : undefined;
+      await settle(
+        world,
+        () =>
+          aggregator
+            .connect(user.signer)
+            .increaseStake(id, market.native ? 0 : amount, {
+              value: market.native ? amount : 0,
+            }),
+        revert
+      );
+      return `${user.name} adds ${formatAmount(market, amount)} to stake ${id}${describeRevert(revert)}`;
+    },
+  },
+  {
+    name: 'withdraw',
+    weight: 3,
+    async run(world, random) {
+      const pick = await pickActiveStake(world, random);
+      if (!pick) {
+        return undefined;
+      }
+      return redeemAndCheck(world, pick, pick.stake.shares, () =>
+        world.aggregator
+          .connect(pick.user.signer)
+          .withdrawTimeLockedStake(pick.id)
+      );
+    },
+  },
+  {
+    name: 'partial withdraw',
+    weight: 2,
+    async run(world, random) {
+      const pick = await pickActiveStake(world, random);
+      if (!pick || pick.stake.shares < 2n) {
+        return undefined;
+      }
+      const shares = random.bigint(1n, pick.stake.shares - 1n);
+      return redeemAndCheck(world, pick, shares, () =>
+        world.aggregator
+          .connect(pick.user.signer)
+          .partialWithdraw(pick.id, shares)
+      );
+    },
+  },
+  {
+    name: 'accrue',
+    weight: 2,
+    async run(world, random) {
+      const market = random.pick(MARKETS);
+      if ((await protocolShares(world, market.protocol)) === 0n) {
+        return undefined;
+      }
+      if (market.native) {
+        const amount = random.bigint(parseEther('0.001'), parseEther('5'));
+        await world.wmatic.deposit({ value: amount });
+        await world.wmatic.approve(await world.aavePool.getAddress(), amount);
+        await world.aavePool.accrueInterest(WMATIC_ADDRESS, amount);
+        return `${market.protocol} accrues ${formatAmount(market, amount)}`;
+      }
+      // Liquid and compound mocks price shares from the underlying they hold
+      const amount = random.bigint(1n, parseUnits('50', 6));
+      const pool =
+        market.protocol === 'mock_liquid' ? world.liquid : world.compound;
+      await world.token.transfer(await pool.getAddress(), amount);
+      return `${market.protocol} accrues ${formatAmount(market, amount)}`;
+    },
+  },
+  {
+    name: 'time',
+    weight: 2,
+    async run(_world, random) {
+      const step = random.pick(TIME_STEPS);
+      await time.increaseTo((await time.latest()) + step);
+      return `time +${step}s`;
+    },
+  },
+  {
+    name: 'extend lock',
+    weight: 1,
+    async run(world, random) {
+      const pick = await pickActiveStake(world, random);
+      if (!pick) {
+        return undefined;
+      }
+      const { user, stake, id } = pick;
+      const now = await nextTimestamp();
+      const from = stake.endTime > now ? stake.endTime : now;
+      const endTime = from + BigInt(random.int(1, 30 * ONE_DAY));
+      if (endTime > now + 365n * BigInt(ONE_DAY)) {
+        return undefined;
+      }
+      await settle(
+        world,
+        () => world.aggregator.connect(user.signer).extendLock(id, endTime),
+        undefined
+      );
+      return `${user.name} extends stake ${id} to ${endTime}`;
+    },
+  },
+  {
+    name: 'auto-compound',
+    weight: 1,
+    async run(world, random) {
+      const pick = await pickActiveStake(world, random);
+      if (!pick) {
+        return undefined;
+      }
+      const enabled = random.chance(0.7);
+      await world.aggregator
+        .connect(pick.user.signer)
+        .setAutoCompound(pick.id, enabled);
+      return `${pick.user.name} sets auto-compound of stake ${pick.id} to ${enabled}`;
+    },
+  },
+  {
+    name: 'renew',
+    weight: 2,
+    async run(world, random) {
+      const { aggregator } = world;
+      const pick = await pickActiveStake(world, random);
+      if (!pick) {
+        return undefined;
+      }
+      const { user, stake, id } = pick;
+      const now = await nextTimestamp();
+      const revert: ExpectedRevert = (await aggregator.paused())
+        ? { customError: 'EnforcedPause' }
+        : !stake.autoCompound
+          ? 'Auto-compound not enabled'
+          : now < stake.endTime
+            ? 'Stake not matured'
+            : !(await aggregator.protocols(stake.protocol)).isActive
+              ? 'Protocol not supported'
+              : undefined;
+      // Keepers renew on the user's behalf
+      await settle(world, () => aggregator.renewStake(user.signer, id), revert);
+      return `keeper renews ${user.name}'s stake ${id}${describeRevert(revert)}`;
+    },
+  },
+  {
+    name: 'rebalance',
+    weight: 2,
+    async run(world, random) {
+      const { aggregator } = world;
+      const pick = await pickActiveStake(world, random);
+      if (!pick) {
+        return undefined;
+      }
+      const { user, stake, id } = pick;
+      const best = await bestTusdRoute(world);
+      const current = await aggregator.protocols(stake.protocol);
+      const currentApy = current.isActive ? current.currentAPY : 0n;
+      const threshold = await aggregator.rebalanceThresholdBps();
+
+      const revert: ExpectedRevert = (await aggregator.paused())
+        ? { customError: 'EnforcedPause' }
+        : !stake.autoRouted
+          ? 'Stake not auto-routed'
+          : !best
+            ? 'No route for token'
+            : best.protocol === stake.protocol
+              ? 'Already on best route'
+              : best.apy < currentApy + threshold
+                ? 'APY gain below threshold'
+                : undefined;
+      await settle(
+        world,
+        () => aggregator.rebalanceStake(user.signer, id),
+        revert
+      );
+      return `keeper rebalances ${user.name}'s stake ${id} from ${stake.protocol}${revert ? '' : ` to ${best!.protocol}`}${describeRevert(revert)}`;
+    },
+  },
+  {
+    name: 'pause',
+    weight: 1,
+    async run(world) {
+      const paused = await world.aggregator.paused();
+      await (paused ? world.aggregator.unpause() : world.aggregator.pause());
+      return paused ? 'unpause' : 'pause';
+    },
+  },
+  {
+    name: 'protocol status',
+    weight: 1,
+    async run(world, random) {
+      const { protocol } = random.pick(MARKETS);
+      const active = !(await world.aggregator.protocols(protocol)).isActive;
+      await world.aggregator.setProtocolStatus(protocol, active);
+      return `${protocol} ${active ? 'enabled' : 'disabled'}`;
+    },
+  },
+  {
+    name: 'token status',
+    weight: 1,
+    async run(world) {
+      const active = !(
+        await world.aggregator.supportedTokens(world.tokenAddress)
+      ).isActive;
+      await world.aggregator.setTokenStatus(world.tokenAddress, active);
+      return `TUSD ${active ? 'enabled' : 'disabled'}`;
+    },
+  },
+  {
+    name: 'APY',
+    weight: 1,
+    async run(world, random) {
+      const { protocol } = random.pick(MARKETS);
+      const apy = random.int(0, 2000);
+      const revert: ExpectedRevert = (
+        await world.aggregator.protocols(protocol)
+      ).isActive
+        ? undefined
+        : 'Protocol not found';
+      await settle(
+        world,
+        () => world.aggregator.updateProtocolAPY(protocol, apy),
+        revert
+      );
+      return `${protocol} APY ${apy}${describeRevert(revert)}`;
+    },
+  },
+  {
+    name: 'lock policy',
+    weight: 1,
+    async run(world, random) {
+      const { protocol } = random.pick(MARKETS);
+      const mode = random.int(0, 3);
+      const bps = BigInt(mode) === LINEAR_PENALTY ? random.int(1, 5000) : 0;
+      await world.aggregator.setLockPolicy(protocol, mode, bps);
+      return `${protocol} lock policy ${LOCK_MODES[mode]} (${bps} bps)`;
+    },
+  },
+];
+
+/**
+ * Every user's ledger matches their active stakes, and protocol totals match
+ * the sum over users
+ */
+async function ledgersMatchStakes(world: World) {
+  const { aggregator } = world;
+  const tvl = new Map(MARKETS.map(market => [market.protocol, 0n]));
+
+  for (const { name, signer } of world.users) {
+    const stakes = (await aggregator.getUserTimeLockedStakes(signer)).filter(
+      stake => stake.isActive
+    );
+    let deposited = 0n;
+    for (const market of MARKETS) {
+      const open = stakes.filter(stake => stake.protocol === market.protocol);
+      const amount = open.reduce((sum, stake) => sum + stake.amount, 0n);
+      const shares = open.reduce((sum, stake) => sum + stake.shares, 0n);
+      const [balance, ledgerShares] =
+        await aggregator.getUserTokenProtocolPosition(
+          signer,
+          tokenOf(world, market),
+          market.protocol
+        );
+      expect(balance).to.equal(
+        amount,
+        `${name}'s ${market.protocol} balance differs from their stakes`
+      );
+      expect(ledgerShares).to.equal(
+        shares,
+        `${name}'s ${market.protocol} shares differ from their stakes`
+      );
+      deposited += amount;
+      tvl.set(market.protocol, tvl.get(market.protocol)! + amount);
+    }
+    const [totalDeposited] = await aggregator.userPositions(signer);
+    expect(totalDeposited).to.equal(
+      deposited,
+      `${name}'s totalDeposited differs from their stakes`
+    );
+  }
+
+  for (const market of MARKETS) {
+    const expected = tvl.get(market.protocol)!;
+    expect(
+      await aggregator.tokenProtocolTVL(tokenOf(world, market), market.protocol)
+    ).to.equal(expected, `${market.protocol} TVL differs from active stakes`);
+    expect(
+      (await aggregator.protocols(market.protocol)).totalDeposited
+    ).to.equal(
+      expected,
+      `${market.protocol} totalDeposited differs from active stakes`
+    );
+  }
+}
+
+/**
+ * Stake shares add up to the shares the aggregator holds, and stake values
+ * to no more than the underlying behind them
+ */
+async function sharesBackStakes(world: World) {
+  const { aggregator } = world;
+  const shares = new Map(MARKETS.map(market => [market.protocol, 0n]));
+  const values = new Map(MARKETS.map(market => [market.protocol, 0n]));
+
+  for (const { signer } of world.users) {
+    const stakes = await aggregator.getUserTimeLockedStakes(signer);
+    for (const [id, stake] of stakes.entries()) {
+      if (!stake.isActive) {
+        continue;
+      }
+      const [value] = await aggregator.getStakeValue(signer, id);
+      shares.set(stake.protocol, shares.get(stake.protocol)! + stake.shares);
+      values.set(stake.protocol, values.get(stake.protocol)! + value);
+    }
+  }
+
+  for (const { protocol } of MARKETS) {
+    const held = await protocolShares(world, protocol);
+    expect(held).to.equal(
+      shares.get(protocol),
+      `${protocol} shares held differ from the sum of stake shares`
+    );
+    const assets = await sharesToAssets(world, protocol, held);
+    expect(values.get(protocol)).to.be.lessThanOrEqual(
+      assets,
+      `${protocol} stakes are worth more than the aggregator holds`
+    );
+  }
+
+  // The last Aave withdrawal takes the whole aToken balance
+  if (shares.get('aave_lending') === 0n) {
+    expect(await world.aToken.balanceOf(world.aaveAdapter)).to.equal(
+      0n,
+      'aToken dust left after the last Aave stake closed'
+    );
+  }
+}
+
+/**
+ * Deposits are forwarded to protocols and payouts sent out in full, by the
+ * aggregator and its adapters
+ */
+async function noIdleFunds(world: World) {
+  const { aggregatorAddress } = world;
+  expect(await hre.ethers.provider.getBalance(aggregatorAddress)).to.equal(
+    0n,
+    'aggregator holds MATIC'
+  );
+  expect(await world.wmatic.balanceOf(aggregatorAddress)).to.equal(
+    0n,
+    'aggregator holds WMATIC'
+  );
+  expect(await world.token.balanceOf(aggregatorAddress)).to.equal(
+    0n,
+    'aggregator holds TUSD'
+  );
+  for (const adapter of [
+    world.aaveAdapter,
+    world.liquidAdapter,
+    world.compoundAdapter,
+  ]) {
+    const name = await adapter.protocolType();
+    expect(await world.wmatic.balanceOf(adapter)).to.equal(
+      0n,
+      `${name} adapter holds WMATIC`
+    );
+    expect(await world.token.balanceOf(adapter)).to.equal(
+      0n,
+      `${name} adapter holds TUSD`
+    );
+  }
+}
+
+/**
+ * Random stake, withdrawal and admin sequences with accounting invariants
+ * checked after every step. Longer campaigns:
+ * `FUZZ_RUNS=50 FUZZ_STEPS=200 npm run test:fuzz`
+ */
+describe('Invariants: aggregator accounting', function () {
+  it('Should keep ledgers, shares and payouts consistent', async function () {
+    const config = fuzzConfig({ seed: 1, runs: 3, steps: 40 });
+    this.timeout(Math.max(60_000, config.runs * config.steps * 2_000));
+
+    await runFuzz({
+      config,
+      setup: () => loadFixture(fuzzFixture),
+      actions,
+      invariants: [ledgersMatchStakes, sharesBackStakes, noIdleFunds],
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  addProtocol,
+  addSupportedToken,
+  connectAggregator,
+  createTimeLockedStake,
+  deployAdapter,
+  estimateStakeYield,
+  extendLock,
+  getStakeValue,
+  getUserTimeLockedStakes,
+  getUserTokenProtocolPosition,
+  increaseStake,
+  partialWithdraw,
+  pause,
+  previewWithdraw,
+  renewStake,
+  setAutoCompound,
+  setLockPolicy,
+  setProtocolStatus,
+  unpause,
+  updateProtocolAPY,
+  withdrawTimeLockedStake,
+} from '../../sdk';
+
+const ONE_DAY = 24 * 60 * 60;
+
+describe('sdk/aggregator', function () {
+  async function deployFixture() {
+    const [owner, user] = await hre.ethers.getSigners();
+
+    const Aggregator = await hre.ethers.getContractFactory(
+      'PolygonDeFiAggregator'
+    );
+    const deployed = await Aggregator.deploy();
+    const address = await deployed.getAddress();
+
+    // 6 decimals so amount scaling is actually exercised
+    const TestToken = await hre.ethers.getContractFactory('TestToken');
+    const token = await TestToken.deploy('Test USD', 'TUSD', 6, 1_000_000);
+    const tokenAddress = await token.getAddress();
+    await token.transfer(user.address, 10_000n * 10n ** 6n);
+
+    const Liquid = await hre.ethers.getContractFactory('MockLiquidStaking');
+    const liquid = await Liquid.deploy(tokenAddress);
+
+    const admin = connectAggregator(address, owner);
+    await addSupportedToken(admin, tokenAddress, 'TUSD', 6);
+    const adapter = await deployAdapter(
+      admin,
+      'liquid',
+      await liquid.getAddress()
+    );
+    await addProtocol(admin, {
+      name: 'mock_liquid',
+      adapter: adapter.address,
+      apy: 500,
+    });
+
+    return {
+      admin,
+      client: connectAggregator(address, user),
+      token,
+      tokenAddress,
+      liquid,
+      owner,
+      user,
+    };
+  }
+
+  describe('createTimeLockedStake', function () {
+    it('Should approve, stake and return the new stake id', async function () {
+      const { client, tokenAddress, user } = await loadFixture(deployFixture);
+
+      const result = await createTimeLockedStake(client, {
+        token: tokenAddress,
+        amount: '1.5',
+        protocol: 'mock_liquid',
+        lockDuration: 7 * ONE_DAY,
+      });
+
+      expect(result.stakeId).to.equal(0);
+      expect(result.amount).to.equal(1_500_000n);
+      expect(result.endTime - result.startTime).to.equal(7 * ONE_DAY);
+
+      const stakes = await getUserTimeLockedStakes(client, user.address);
+      expect(stakes).to.have.length(1);
+      expect(stakes[0].formattedAmount).to.equal('1.5');
+      expect(stakes[0].decimals).to.equal(6);
+      expect(stakes[0].isActive).to.equal(true);
+      expect(stakes[0].isMatured).to.equal(false);
+    });
+
+    it('Should accept raw base units as bigint', async function () {
+      const { client, tokenAddress } = await loadFixture(deployFixture);
+
+      const result = await createTimeLockedStake(client, {
+        token: tokenAddress,
+        amount: 42n,
+        protocol: 'mock_liquid',
+        lockDuration: ONE_DAY,
+      });
+
+      expect(result.amount).to.equal(42n);
+    });
+
+    it('Should surface contract reverts', async function () {
+      const { client, tokenAddress } = await loadFixture(deployFixture);
+
+      await expect(
+        createTimeLockedStake(client, {
+          token: tokenAddress,
+          amount: '1',
+          protocol: 'mock_liquid',
+          lockDuration: 60,
+        })
+      ).to.be.revertedWith('Minimum lock duration is 1 day');
+    });
+  });
+
+  describe('withdrawTimeLockedStake', function () {
+    it('Should return principal and rewards from the event', async function () {
+      const { client, token, tokenAddress, liquid, user } =
+        await loadFixture(deployFixture);
+
+      const { stakeId } = await createTimeLockedStake(client, {
+        token: tokenAddress,
+        amount: '100',
+        protocol: 'mock_liquid',
+        lockDuration: ONE_DAY,
+      });
+
+      // Simulate 1 TUSD of yield accruing in the protocol
+      await token.mint(await liquid.getAddress(), 1_000_000n);
+      await time.increase(ONE_DAY);
+
+      const before = await token.balanceOf(user.address);
+      const result = await withdrawTimeLockedStake(client, stakeId);
+
+      expect(result.amount).to.equal(100_000_000n);
+      expect(result.rewards).to.equal(1_000_000n);
+      expect((await token.balanceOf(user.address)) - before).to.equal(
+        101_000_000n
+      );
+
+      const stakes = await getUserTimeLockedStakes(client, user.address);
+      expect(stakes[0].isActive).to.equal(false);
+    });
+
+    it('Should report the early-exit penalty', async function () {
+      const { admin, client, tokenAddress, user } =
+        await loadFixture(deployFixture);
+      await setLockPolicy(admin, 'mock_liquid', {
+        mode: 'linear',
+        maxPenaltyBps: 1000,
+      });
+
+      const { stakeId } = await createTimeLockedStake(client, {
+        token: tokenAddress,
+        amount: '100',
+        protocol: 'mock_liquid',
+        lockDuration: ONE_DAY,
+      });
+      const [stake] = await getUserTimeLockedStakes(client, user.address);
+      expect(stake.lockPolicy).to.deep.equal({
+        mode: 'linear',
+        maxPenaltyBps: 1000,
+      });
+
+      // Halfway through the lock: 100 * 10% * 1/2
+      await time.increaseTo(stake.startTime + ONE_DAY / 2);
+      expect(
+        await previewWithdraw(client, user.address, stakeId)
+      ).to.deep.equal({ amount: 95_000_000n, penalty: 5_000_000n });
+    });
+  });
+
+  describe('stake management', function () {
+    it('Should top up, partially withdraw and renew a stake', async function () {
+      const { admin, client, token, tokenAddress, liquid, user } =
+        await loadFixture(deployFixture);
+
+      const { stakeId, endTime } = await createTimeLockedStake(client, {
+        token: tokenAddress,
+        amount: '100',
+        protocol: 'mock_liquid',
+        lockDuration: 2 * ONE_DAY,
+      });
+
+      // Scaled by the stake token's decimals and approved automatically
+      const increased = await increaseStake(client, { stakeId, amount: '50' });
+      expect(increased.amount).to.equal(50_000_000n);
+      expect(increased.shares).to.equal(50_000_000n);
+
+      const partial = await partialWithdraw(client, stakeId, 30_000_000n);
+      expect(partial).to.include({
+        stakeId,
+        shares: 30_000_000n,
+        amount: 30_000_000n,
+        rewards: 0n,
+        penalty: 0n,
+      });
+
+      await extendLock(client, stakeId, endTime + ONE_DAY);
+      await setAutoCompound(client, stakeId, true);
+      let [stake] = await getUserTimeLockedStakes(client, user.address);
+      expect(stake.amount).to.equal(120_000_000n);
+      expect(stake.endTime).to.equal(endTime + ONE_DAY);
+      expect(stake.autoCompound).to.equal(true);
+
+      // 12 TUSD of yield on the remaining 120 shares, renewed by a keeper
+      await token.mint(await liquid.getAddress(), 12_000_000n);
+      await time.increaseTo(stake.endTime);
+      const renewed = await renewStake(admin, user.address, stakeId);
+      expect(renewed.compounded).to.equal(12_000_000n);
+      expect(renewed.endTime - renewed.startTime).to.equal(3 * ONE_DAY);
+
+      [stake] = await getUserTimeLockedStakes(client, user.address);
+      expect(stake.amount).to.equal(132_000_000n);
+      expect(stake.isMatured).to.equal(false);
+    });
+  });
+
+  describe('getUserTokenProtocolPosition', function () {
+    it('Should format balances with token decimals', async function () {
+      const { client, tokenAddress, user } = await loadFixture(deployFixture);
+
+      await createTimeLockedStake(client, {
+        token: tokenAddress,
+        amount: '250',
+        protocol: 'mock_liquid',
+        lockDuration: ONE_DAY,
+      });
+
+      const position = await getUserTokenProtocolPosition(
+        client,
+        user.address,
+        tokenAddress,
+        'mock_liquid'
+      );
+      expect(position.balance).to.equal(250_000_000n);
+      expect(position.formattedBalance).to.equal('250.0');
+      expect(position.shares).to.equal(250_000_000n);
+    });
+  });
+
+  describe('getStakeValue', function () {
+    it('Should compare realized yield with the APY estimate', async function () {
+      const { client, liquid, token, tokenAddress, user } =
+        await loadFixture(deployFixture);
+
+      await createTimeLockedStake(client, {
+        token: tokenAddress,
+        amount: '1000',
+        protocol: 'mock_liquid',
+        lockDuration: ONE_DAY,
+      });
+      await time.increase(365 * ONE_DAY);
+      await token.mint(await liquid.getAddress(), 30_000_000n);
+
+      const [stake] = await getUserTimeLockedStakes(client, user.address);
+      const value = await getStakeValue(client, user.address, stake);
+      expect(value.formattedValue).to.equal('1030.0');
+      expect(value.formattedRewards).to.equal('30.0');
+
+      // 5% APY over exactly one year
+      expect(
+        estimateStakeYield(stake, 500n, stake.startTime + 365 * ONE_DAY)
+      ).to.equal(50_000_000n);
+      expect(estimateStakeYield(stake, 500n, stake.startTime - 1)).to.equal(0n);
+    });
+  });
+
+  describe('admin', function () {
+    it('Should update APY and protocol status', async function () {
+      const { admin } = await loadFixture(deployFixture);
+
+      await updateProtocolAPY(admin, 'mock_liquid', 750);
+      expect((await admin.protocols('mock_liquid')).currentAPY).to.equal(750n);
+
+      await setProtocolStatus(admin, 'mock_liquid', false);
+      expect((await admin.protocols('mock_liquid')).isActive).to.equal(false);
+    });
+
+    it('Should pause and unpause staking', async function () {
+      const { admin, client, tokenAddress } = await loadFixture(deployFixture);
+
+      await pause(admin);
+      await expect(
+        createTimeLockedStake(client, {
+          token: tokenAddress,
+          amount: '1',
+          protocol: 'mock_liquid',
+          lockDuration: ONE_DAY,
+        })
+      ).to.be.revertedWithCustomError(admin, 'EnforcedPause');
+
+      await unpause(admin);
+      const result = await createTimeLockedStake(client, {
+        token: tokenAddress,
+        amount: '1',
+        protocol: 'mock_liquid',
+        lockDuration: ONE_DAY,
+      });
+      expect(result.stakeId).to.equal(0);
+    });
+
+    it('Should reject admin calls from accounts without the role', async function () {
+      const { client } = await loadFixture(deployFixture);
+
+      await expect(
+        updateProtocolAPY(client, 'mock_liquid', 1)
+      ).to.be.revertedWithCustomError(
+        client,
+        'AccessControlUnauthorizedAccount'
+      );
+    });
+  });
+});
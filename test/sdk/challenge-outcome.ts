@@ -0,0 +1,226 @@
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  createChallenge,
+  dayRange,
+  decodeRevert,
+  predictDailyResult,
+  previewDailyResult,
+  readChallengeProgress,
+  revertDataOf,
+  sendDailyReport,
+  signStepReport,
+  StepReading,
+} from '../../sdk';
+import { ONE_DAY } from '../helpers/aggregator';
+import {
+  CHALLENGE_GOAL,
+  deployChallengeFactoryFixture,
+} from '../helpers/challenge';
+import { FuzzAction, fuzzConfig, runFuzz } from '../helpers/fuzz';
+
+const GOAL = BigInt(CHALLENGE_GOAL);
+
+/** A 6-day challenge needing 4 days at the goal, started at a UTC midnight */
+async function outcomeFixture() {
+  const fixture = await deployChallengeFactoryFixture();
+  const { factory, owner, bob, carol } = fixture;
+  const start = Math.ceil(((await time.latest()) + 60) / ONE_DAY) * ONE_DAY;
+  const { challenge: address } = await createChallenge(factory, {
+    challenger: bob.address,
+    feeAddress: owner.address,
+    start,
+    days: 6,
+    goal: CHALLENGE_GOAL,
+    daysRequired: 4,
+    amount: '10',
+    onSuccess: [{ receiver: bob.address, percent: 98 }],
+    onFailure: [{ receiver: carol.address, percent: 98 }],
+  });
+  const challenge = await hre.ethers.getContractAt(
+    'ChallengeDetailV2',
+    address,
+    bob
+  );
+  await time.increaseTo(start);
+  return { ...fixture, challenge, start };
+}
+
+type World = Awaited<ReturnType<typeof outcomeFixture>>;
+
+/** Send readings from the challenger; the revert reason if it fails */
+async function send(
+  world: World,
+  readings: StepReading[],
+  timeRange?: [number, number]
+): Promise<string | undefined> {
+  const report = await signStepReport(world.security, {
+    challenge: await world.challenge.getAddress(),
+    readings,
+    timeRange,
+  });
+  try {
+    await sendDailyReport(world.challenge, report);
+  } catch (error) {
+    const data = revertDataOf(error);
+    if (data === undefined) {
+      throw error;
+    }
+    const decoded = decodeRevert(data);
+    return decoded.name === 'Error'
+      ? String(decoded.args.reason)
+      : decoded.name;
+  }
+  return undefined;
+}
+
+const STEP_COUNTS = [0, CHALLENGE_GOAL - 1, CHALLENGE_GOAL, 7000];
+
+const actions: FuzzAction<World>[] = [
+  {
+    name: 'report',
+    weight: 6,
+    async run(world, random) {
+      const now = await time.latest();
+      const progress = await readChallengeProgress(world.challenge);
+
+      // Up to two earlier readings, some repeating recorded timestamps
+      const earlier = new Set<number>();
+      for (let i = random.int(0, 2); i > 0; i--) {
+        const recorded = progress.historyDate
+          .map(Number)
+          .filter(date => date < now);
+        earlier.add(
+          recorded.length > 0 && random.chance(0.4)
+            ? random.pick(recorded)
+            : now - random.int(1, 3 * 24) * 60 * 60
+        );
+      }
+      const readings = [...earlier, now]
+        .sort((a, b) => a - b)
+        .map(day => ({
+          day,
+          steps: random.chance(0.8)
+            ? random.pick(STEP_COUNTS)
+            : random.int(0, 2 * CHALLENGE_GOAL),
+        }));
+
+      let timeRange = dayRange(now);
+      const roll = random.next();
+      if (roll < 0.15 && progress.historyDate.length > 0) {
+        const date = Number(random.pick(progress.historyDate));
+        timeRange = [date - 60 * 60, date + 60 * 60];
+      } else if (roll < 0.3) {
+        timeRange = [1, 1];
+      }
+
+      const predicted = predictDailyResult(progress, {
+        day: readings.map(reading => BigInt(reading.day)),
+        stepIndex: readings.map(reading => BigInt(reading.steps)),
+        timeRange: [BigInt(timeRange[0]), BigInt(timeRange[1])],
+      });
+      const reverted = await send(world, readings, timeRange);
+      const after = await readChallengeProgress(world.challenge);
+
+      const { revert, ...outcome } = predicted;
+      expect(reverted).to.equal(revert);
+      expect({
+        state: after.state,
+        currentStatus: after.currentStatus,
+        sequence: after.sequence,
+        historyDate: after.historyDate,
+        historyData: after.historyData,
+      }).to.deep.equal(outcome);
+
+      const sent = readings
+        .map(reading => `${reading.day}:${reading.steps}`)
+        .join(' ');
+      return `report ${sent} in [${timeRange}] → ${revert ?? predicted.state}`;
+    },
+  },
+  {
+    name: 'wait',
+    weight: 3,
+    async run(_world, random) {
+      const seconds = random.pick([2 * 60 * 60, 8 * 60 * 60, ONE_DAY]);
+      await time.increase(seconds);
+      return `wait ${seconds}s`;
+    },
+  },
+];
+
+describe('sdk/challenge-outcome', function () {
+  it('Should read the progress of a challenge', async function () {
+    const world = await loadFixture(outcomeFixture);
+    const { challenge, start } = world;
+    await time.increaseTo(start + ONE_DAY + 60);
+    expect(
+      await send(world, [
+        { day: start + 60, steps: CHALLENGE_GOAL },
+        { day: start + ONE_DAY + 60, steps: 1000 },
+      ])
+    ).to.equal(undefined);
+    const progress = await readChallengeProgress(challenge);
+    expect(progress).to.deep.include({
+      state: 'PROCESSING',
+      isFinished: false,
+      dayRequired: 4n,
+      duration: 6n,
+      goal: GOAL,
+      currentStatus: 1n,
+      sequence: 2n,
+    });
+    expect(progress.historyData).to.deep.equal([GOAL, 1000n]);
+  });
+
+  it('Should tell whether the next day settles the challenge', async function () {
+    const world = await loadFixture(outcomeFixture);
+    const { challenge, start } = world;
+    const address = await challenge.getAddress();
+    const reading = (day: number, steps: number) => ({
+      challenge: address,
+      readings: [{ day: start + (day - 1) * ONE_DAY + 60, steps }],
+    });
+
+    for (const day of [1, 2, 3]) {
+      await time.increaseTo(start + (day - 1) * ONE_DAY + 60);
+      await send(world, reading(day, CHALLENGE_GOAL).readings);
+    }
+    await time.increaseTo(start + 3 * ONE_DAY + 60);
+
+    // A short day can still be resent, so nothing settles
+    expect(await previewDailyResult(challenge, reading(4, 4000))).to.include({
+      state: 'PROCESSING',
+      currentStatus: 3n,
+      sequence: 4n,
+    });
+    expect(
+      await previewDailyResult(challenge, reading(4, CHALLENGE_GOAL))
+    ).to.include({ state: 'SUCCESS', currentStatus: 4n });
+
+    // Day 3 reached the goal and cannot be sent again
+    expect(
+      (await previewDailyResult(challenge, reading(3, 9000))).revert
+    ).to.equal('Invalid step: exceeds goal or not greater');
+
+    await send(world, reading(4, CHALLENGE_GOAL).readings);
+    expect((await readChallengeProgress(challenge)).state).to.equal('SUCCESS');
+    expect(
+      (await previewDailyResult(challenge, reading(5, CHALLENGE_GOAL))).revert
+    ).to.equal('Challenge was finished');
+  });
+
+  it('Should predict the contract on random daily results', async function () {
+    this.timeout(300_000);
+    await runFuzz({
+      config: fuzzConfig({ seed: 2025, runs: 10, steps: 12 }),
+      setup: () => loadFixture(outcomeFixture),
+      actions,
+      invariants: [],
+    });
+  });
+});
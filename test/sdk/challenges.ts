@@ -0,0 +1,217 @@
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import { parseEther } from 'ethers';
+import hre from 'hardhat';
+import {
+  buildChallengeCall,
+  ChallengeSpec,
+  createChallenge,
+  sendDailyReport,
+  signStepReport,
+  simulateChallenge,
+} from '../../sdk';
+import { ONE_DAY } from '../helpers/aggregator';
+import {
+  CHALLENGE_GOAL,
+  deployChallengeFactoryFixture,
+  NFT_ADDRESS,
+} from '../helpers/challenge';
+
+describe('sdk/challenges', function () {
+  async function specFor(
+    fixture: Awaited<ReturnType<typeof deployChallengeFactoryFixture>>,
+    overrides: Partial<ChallengeSpec> = {}
+  ): Promise<ChallengeSpec> {
+    const { owner, bob, carol } = fixture;
+    return {
+      challenger: bob.address,
+      feeAddress: owner.address,
+      start: (await time.latest()) + 60,
+      days: 10,
+      goal: CHALLENGE_GOAL,
+      daysRequired: 7,
+      amount: '10',
+      onSuccess: [{ receiver: bob.address, percent: 98 }],
+      onFailure: [{ receiver: carol.address, percent: 98 }],
+      ...overrides,
+    };
+  }
+
+  it('Should create, register and stake a native challenge in one call', async function () {
+    const fixture = await loadFixture(deployChallengeFactoryFixture);
+    const { factory, deployment, nft, security, bob } = fixture;
+    const spec = await specFor(fixture, { gasFee: parseEther('0.5') });
+
+    const simulation = await simulateChallenge(factory, spec);
+    const bobBefore = await hre.ethers.provider.getBalance(bob.address);
+    const result = await createChallenge(factory, spec);
+    expect(result.challenge).to.equal(simulation.challenge);
+    expect(result.value).to.equal(parseEther('10'));
+    expect(result.stakeAmount).to.equal(parseEther('9.5'));
+
+    // A minimal clone of the implementation
+    const code = await hre.ethers.provider.getCode(result.challenge);
+    expect(code.length).to.equal(2 + 45 * 2);
+    expect(code.toLowerCase()).to.contain(
+      deployment.implementation.slice(2).toLowerCase()
+    );
+    expect(await factory.isChallenge(result.challenge)).to.equal(true);
+    expect(await factory.getChallenges()).to.deep.equal([result.challenge]);
+    expect(
+      await nft.hasRole(
+        await nft.ALLOWED_CONTRACTS_CHALLENGE(),
+        result.challenge
+      )
+    ).to.equal(true);
+
+    const challenge = await hre.ethers.getContractAt(
+      'ChallengeDetailV2',
+      result.challenge
+    );
+    expect(await challenge.factory()).to.equal(await factory.getAddress());
+    expect(await challenge.erc721Address(0)).to.equal(NFT_ADDRESS);
+    expect(await challenge.isStakingActive()).to.equal(true);
+    expect(await challenge.totalStakedAmount()).to.equal(parseEther('9.5'));
+    expect(await challenge.totalReward()).to.equal(parseEther('9.5'));
+    expect(await hre.ethers.provider.getBalance(bob.address)).to.equal(
+      bobBefore + parseEther('0.5')
+    );
+
+    // The challenge can report results to the NFT straight away
+    await time.increaseTo(spec.start);
+    const report = await signStepReport(security, {
+      challenge: result.challenge,
+      readings: [{ day: spec.start + 60, steps: CHALLENGE_GOAL }],
+    });
+    await expect(sendDailyReport(challenge.connect(bob), report))
+      .to.emit(challenge, 'SendDailyResult')
+      .withArgs(1);
+  });
+
+  it('Should approve and stake an ERC20 deposit', async function () {
+    const fixture = await loadFixture(deployChallengeFactoryFixture);
+    const { factory, token, tokenAddress, aggregator, alice } = fixture;
+    const spec = await specFor(fixture, {
+      token: tokenAddress,
+      amount: '250',
+      protocol: 'mock_liquid',
+    });
+
+    const before = await token.balanceOf(alice.address);
+    const result = await createChallenge(factory, spec);
+    expect(result.value).to.equal(0n);
+    expect(await token.balanceOf(alice.address)).to.equal(
+      before - 250_000_000n
+    );
+
+    const challenge = await hre.ethers.getContractAt(
+      'ChallengeDetailV2',
+      result.challenge
+    );
+    expect(await challenge.stakingToken()).to.equal(tokenAddress);
+    const stakes = await aggregator.getUserTimeLockedStakes(result.challenge);
+    expect(stakes.length).to.equal(1);
+    expect(stakes[0].amount).to.equal(250_000_000n);
+    expect(stakes[0].protocol).to.equal('mock_liquid');
+  });
+
+  it('Should reject invalid specs before sending anything', async function () {
+    const fixture = await loadFixture(deployChallengeFactoryFixture);
+    const { factory, bob } = fixture;
+
+    let error: Error | undefined;
+    try {
+      await buildChallengeCall(
+        factory,
+        await specFor(fixture, {
+          challenger: 'bob',
+          daysRequired: 11,
+          onSuccess: [
+            { receiver: bob.address, percent: 60 },
+            { receiver: bob.address, percent: 50 },
+          ],
+        })
+      );
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.equal(
+      [
+        'Invalid challenge:',
+        'challenger must be an address',
+        'daysRequired must be at most days',
+        'onSuccess percents add up to 110, more than 100',
+      ].join('\n  ')
+    );
+
+    // Caught by the factory, reported from the simulation
+    const ended = await specFor(fixture, {
+      start: (await time.latest()) - 20 * ONE_DAY,
+    });
+    error = undefined;
+    try {
+      await createChallenge(factory, ended);
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.equal(
+      'createChallenge would revert "Invalid time range"'
+    );
+    expect(await factory.challengeCount()).to.equal(0n);
+  });
+
+  it('Should only let the sponsor create and fund a challenge', async function () {
+    const fixture = await loadFixture(deployChallengeFactoryFixture);
+    const { factory, deployment, bob } = fixture;
+    const { params, value } = await buildChallengeCall(
+      factory,
+      await specFor(fixture)
+    );
+
+    await expect(
+      factory.connect(bob).createChallenge(params, { value })
+    ).to.be.revertedWith('Sponsor must create the challenge');
+    await expect(
+      factory.createChallenge(params, { value: value - 1n })
+    ).to.be.revertedWith('Invalid native amount');
+
+    // Neither the implementation nor a created clone can be set up again
+    const implementation = await hre.ethers.getContractAt(
+      'ChallengeDetailV2',
+      deployment.implementation
+    );
+    const args = [
+      params.stakeHolders,
+      params.createByToken,
+      params.erc721Address,
+      params.primaryRequired,
+      params.awardReceivers,
+      params.index,
+      params.allowGiveUp,
+      params.gasData,
+      params.allAwardToSponsorWhenGiveUp,
+      params.awardReceiversPercent,
+      params.totalAmount,
+      await factory.polygonDeFiAggregator(),
+      params.stakingProtocol,
+      params.stakingToken,
+    ] as const;
+    await expect(implementation.initialize(...args)).to.be.revertedWith(
+      'Already initialized'
+    );
+    const { challenge } = await createChallenge(
+      factory,
+      await specFor(fixture)
+    );
+    const clone = await hre.ethers.getContractAt(
+      'ChallengeDetailV2',
+      challenge
+    );
+    await expect(clone.initialize(...args)).to.be.revertedWith(
+      'Already initialized'
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import hre from 'hardhat';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_REGISTRY_PATH,
+  findDeployment,
+  getDeployment,
+  getDeploymentHistory,
+  loadRegistry,
+  recordDeployment,
+  resolveDeployment,
+  updateDeployment,
+  validateRegistry,
+} from '../../sdk';
+
+const DEPLOYER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const POLYGON_AGGREGATOR = '0xc342b5a62EF54Fc8256dF8C4E0394060EDE98ad9';
+const AMOY_AGGREGATOR = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+function aggregatorRecord(chainId: number, network: string, address: string) {
+  return {
+    chainId,
+    network,
+    contractName: 'PolygonDeFiAggregator',
+    address,
+    deployer: DEPLOYER,
+    constructorArgs: [],
+    deployedAt: new Date().toISOString(),
+    verified: false,
+  };
+}
+
+describe('sdk/deployment', function () {
+  let registryPath: string;
+
+  beforeEach(function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-'));
+    registryPath = path.join(dir, 'registry.json');
+  });
+
+  afterEach(function () {
+    fs.rmSync(path.dirname(registryPath), { recursive: true, force: true });
+  });
+
+  it('Should validate the committed registry', function () {
+    expect(() => loadRegistry(DEFAULT_REGISTRY_PATH)).not.to.throw();
+  });
+
+  it('Should report every schema problem at once', function () {
+    expect(() =>
+      validateRegistry({
+        version: 1,
+        chains: {
+          polygon: {
+            network: 'polygon',
+            contracts: {
+              PolygonDeFiAggregator: [
+                {
+                  address: 'not-an-address',
+                  deployer: DEPLOYER,
+                  constructorArgs: {},
+                  deployedAt: 'yesterday',
+                  verified: 'yes',
+                },
+              ],
+            },
+          },
+        },
+      })
+    ).to.throw(
+      /chain ids must be numeric[\s\S]*address must be an address[\s\S]*constructorArgs must be an array[\s\S]*deployedAt must be an ISO date[\s\S]*verified must be a boolean/
+    );
+  });
+
+  it('Should keep history and return the latest deployment', function () {
+    recordDeployment(
+      aggregatorRecord(137, 'polygon', AMOY_AGGREGATOR),
+      registryPath
+    );
+    recordDeployment(
+      aggregatorRecord(137, 'polygon', POLYGON_AGGREGATOR),
+      registryPath
+    );
+
+    const history = getDeploymentHistory(
+      137,
+      'PolygonDeFiAggregator',
+      registryPath
+    );
+    expect(history.map(d => d.address)).to.deep.equal([
+      AMOY_AGGREGATOR,
+      POLYGON_AGGREGATOR,
+    ]);
+    expect(
+      getDeployment(137, 'PolygonDeFiAggregator', registryPath).address
+    ).to.equal(POLYGON_AGGREGATOR);
+  });
+
+  it('Should never resolve another chain', function () {
+    recordDeployment(
+      aggregatorRecord(137, 'polygon', POLYGON_AGGREGATOR),
+      registryPath
+    );
+
+    expect(
+      findDeployment(80002, 'PolygonDeFiAggregator', registryPath)
+    ).to.equal(undefined);
+    expect(() =>
+      getDeployment(80002, 'PolygonDeFiAggregator', registryPath)
+    ).to.throw(
+      'No PolygonDeFiAggregator deployment recorded for chainId 80002'
+    );
+  });
+
+  it('Should resolve by the provider chain id', async function () {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    recordDeployment(
+      aggregatorRecord(137, 'polygon', POLYGON_AGGREGATOR),
+      registryPath
+    );
+    recordDeployment(
+      aggregatorRecord(Number(chainId), 'localhost', AMOY_AGGREGATOR),
+      registryPath
+    );
+
+    const deployment = await resolveDeployment(
+      hre.ethers.provider,
+      'PolygonDeFiAggregator',
+      registryPath
+    );
+    expect(deployment.address).to.equal(AMOY_AGGREGATOR);
+    expect(deployment.network).to.equal('localhost');
+  });
+
+  it('Should update the verified flag of a recorded deployment', function () {
+    recordDeployment(
+      aggregatorRecord(137, 'polygon', POLYGON_AGGREGATOR),
+      registryPath
+    );
+
+    updateDeployment(
+      137,
+      'PolygonDeFiAggregator',
+      POLYGON_AGGREGATOR.toLowerCase(),
+      { verified: true },
+      registryPath
+    );
+    expect(
+      getDeployment(137, 'PolygonDeFiAggregator', registryPath).verified
+    ).to.equal(true);
+  });
+});
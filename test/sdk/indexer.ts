@@ -0,0 +1,183 @@
+import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import * as fs from 'fs';
+import hre from 'hardhat';
+import * as os from 'os';
+import * as path from 'path';
+import { EventStore, followEvents, syncEvents } from '../../sdk';
+import { deployAggregatorFixture, ONE_DAY } from '../helpers/aggregator';
+
+const tusd = (amount: string) => hre.ethers.parseUnits(amount, 6);
+
+describe('sdk/indexer', function () {
+  let tmpDir: string;
+
+  beforeEach(function () {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aggregator-events-'));
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function stake(
+    fixture: Awaited<ReturnType<typeof deployAggregatorFixture>>,
+    user: (typeof fixture)['alice'],
+    amount: string
+  ) {
+    await fixture.aggregator
+      .connect(user)
+      .createTimeLockedStake(
+        fixture.tokenAddress,
+        tusd(amount),
+        'mock_liquid',
+        ONE_DAY
+      );
+  }
+
+  it('Should backfill and decode aggregator events in batches', async function () {
+    const fixture = await loadFixture(deployAggregatorFixture);
+    const { aggregator, alice, tokenAddress } = fixture;
+    await stake(fixture, alice, '100');
+    await aggregator.updateProtocolAPY('mock_liquid', 650);
+    await aggregator.connect(alice).withdrawTimeLockedStake(0);
+
+    const store = await EventStore.open();
+    const result = await syncEvents(aggregator, store, { batchSize: 3 });
+
+    expect(result.fromBlock).to.equal(0);
+    expect(result.toBlock).to.equal(await hre.ethers.provider.getBlockNumber());
+    expect(store.getEvents().map(e => e.name)).to.deep.equal([
+      // The deployer's admin roles
+      'RoleGranted',
+      'RoleGranted',
+      'RoleGranted',
+      'RoleGranted',
+      'TokenAdded',
+      'ProtocolAdded',
+      'ProtocolAdded',
+      'ProtocolAdded',
+      'TimeLockedStakeCreated',
+      'APYUpdated',
+      'WithdrawTimeLockedStake',
+    ]);
+
+    const [created] = store.getEvents({ name: 'TimeLockedStakeCreated' });
+    expect(created).to.include({
+      user: alice.address,
+      stakeId: 0,
+      token: tokenAddress,
+      protocol: 'mock_liquid',
+      amount: tusd('100'),
+    });
+    expect(created.args.endTime).to.equal(String(created.timestamp + ONE_DAY));
+
+    const [apy] = store.getEvents({ name: 'APYUpdated' });
+    expect(apy.protocol).to.equal('mock_liquid');
+    expect(apy.args).to.deep.equal({
+      protocolName: 'mock_liquid',
+      oldAPY: '500',
+      newAPY: '650',
+    });
+
+    expect(
+      store.getEvents({ user: alice.address.toLowerCase() }).map(e => e.name)
+    ).to.deep.equal(['TimeLockedStakeCreated', 'WithdrawTimeLockedStake']);
+    expect(
+      store.query(
+        "SELECT COUNT(*) AS n FROM events WHERE name = 'ProtocolAdded'"
+      )
+    ).to.deep.equal([{ n: 3 }]);
+  });
+
+  it('Should resume from the saved checkpoint', async function () {
+    const fixture = await loadFixture(deployAggregatorFixture);
+    const { aggregator, alice, bob } = fixture;
+    const file = path.join(tmpDir, 'events.sqlite');
+    await stake(fixture, alice, '100');
+
+    let store = await EventStore.open(file);
+    const first = await syncEvents(aggregator, store);
+    store.close();
+
+    await stake(fixture, bob, '50');
+    store = await EventStore.open(file);
+    expect(store.checkpoint).to.equal(first.toBlock);
+
+    const second = await syncEvents(aggregator, store);
+    expect(second.fromBlock).to.equal(first.toBlock + 1);
+    expect(second.events).to.equal(1);
+    expect(
+      store.getEvents({ name: 'TimeLockedStakeCreated' }).map(e => e.user)
+    ).to.deep.equal([alice.address, bob.address]);
+    expect((await syncEvents(aggregator, store)).events).to.equal(0);
+  });
+
+  it('Should roll back events from reorged blocks', async function () {
+    const fixture = await loadFixture(deployAggregatorFixture);
+    const { aggregator, alice, bob } = fixture;
+    const store = await EventStore.open();
+    await syncEvents(aggregator, store);
+    const forkPoint = store.checkpoint!;
+
+    const snapshot = await hre.network.provider.send('evm_snapshot');
+    await stake(fixture, alice, '100');
+    await stake(fixture, alice, '200');
+    await syncEvents(aggregator, store);
+    expect(store.getEvents({ name: 'TimeLockedStakeCreated' })).to.have.length(
+      2
+    );
+
+    // Replace the two blocks with a different one
+    await hre.network.provider.send('evm_revert', [snapshot]);
+    await stake(fixture, bob, '50');
+
+    const result = await syncEvents(aggregator, store);
+    expect(result.reorgedTo).to.equal(forkPoint);
+    expect(
+      store.getEvents({ name: 'TimeLockedStakeCreated' }).map(e => e.user)
+    ).to.deep.equal([bob.address]);
+    expect(store.checkpoint).to.equal(
+      await hre.ethers.provider.getBlockNumber()
+    );
+  });
+
+  it('Should refuse a database built for another aggregator', async function () {
+    const { aggregator } = await loadFixture(deployAggregatorFixture);
+    const store = await EventStore.open();
+    await syncEvents(aggregator, store);
+
+    const other = await hre.ethers.deployContract('PolygonDeFiAggregator');
+    let error: Error | undefined;
+    try {
+      await syncEvents(other, store);
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.match(/^Event database belongs to aggregator/);
+  });
+
+  it('Should keep following new blocks until aborted', async function () {
+    const fixture = await loadFixture(deployAggregatorFixture);
+    const { aggregator, alice } = fixture;
+    const store = await EventStore.open();
+    const controller = new AbortController();
+
+    let syncs = 0;
+    await followEvents(aggregator, store, {
+      pollInterval: 10,
+      signal: controller.signal,
+      onSync: () => {
+        syncs++;
+        if (syncs === 1) {
+          void stake(fixture, alice, '100');
+        } else if (store.getEvents({ name: 'TimeLockedStakeCreated' }).length) {
+          controller.abort();
+        }
+      },
+    });
+
+    expect(syncs).to.be.greaterThan(1);
+    expect(store.getEvents({ user: alice.address })).to.have.length(1);
+  });
+});
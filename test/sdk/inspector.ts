@@ -0,0 +1,149 @@
+import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import { ContractTransactionResponse, parseEther } from 'ethers';
+import hre from 'hardhat';
+import { inspectTransaction, WMATIC_ADDRESS } from '../../sdk';
+import { formatInspection } from '../../tasks/inspect';
+import { deployAggregatorFixture, ONE_DAY } from '../helpers/aggregator';
+
+describe('sdk/inspector', function () {
+  /**
+   * Hardhat mines reverted transactions but rejects the send; return the
+   * hash of the mined transaction
+   */
+  async function sendReverting(
+    send: () => Promise<ContractTransactionResponse>
+  ): Promise<string> {
+    try {
+      await send();
+    } catch {
+      // Expected; the transaction is still mined
+    }
+    const block = await hre.ethers.provider.getBlock('latest');
+    return block!.transactions[0];
+  }
+
+  it('Should decode a native MATIC stake with its events and balance changes', async function () {
+    const { aggregator, aggregatorAddress, aaveAdapter, aToken, alice } =
+      await loadFixture(deployAggregatorFixture);
+    const amount = parseEther('2');
+    const tx = await aggregator
+      .connect(alice)
+      .createTimeLockedStake(WMATIC_ADDRESS, 0, 'aave_lending', ONE_DAY, {
+        value: amount,
+      });
+
+    const inspection = await inspectTransaction(hre.ethers.provider, tx.hash, {
+      labels: { [aggregatorAddress]: 'PolygonDeFiAggregator' },
+    });
+
+    expect(inspection.status).to.equal('success');
+    expect(inspection.labels[WMATIC_ADDRESS]).to.equal('WMATIC');
+    expect(inspection.call).to.deep.include({
+      contract: 'PolygonDeFiAggregator',
+      name: 'createTimeLockedStake',
+    });
+    expect(inspection.call?.args).to.deep.equal({
+      _token: WMATIC_ADDRESS,
+      _amount: 0n,
+      _protocol: 'aave_lending',
+      _lockDuration: BigInt(ONE_DAY),
+    });
+
+    const names = inspection.logs.map(log => log.name);
+    expect(names).to.include.members([
+      'Deposit',
+      'Transfer',
+      'TimeLockedStakeCreated',
+    ]);
+    expect(inspection.logs.every(log => log.name !== undefined)).to.equal(true);
+
+    const delta = (holder: string, token: string) =>
+      inspection.balanceChanges.find(
+        change => change.holder === holder && change.token === token
+      )?.delta;
+    const native = hre.ethers.ZeroAddress;
+    expect(delta(alice.address, native)).to.equal(-amount);
+    expect(delta(WMATIC_ADDRESS, native)).to.equal(amount);
+    const aTokenAddress = await aToken.getAddress();
+    // Aave keeps the supplied liquidity in the aToken
+    expect(delta(aTokenAddress, WMATIC_ADDRESS)).to.equal(amount);
+    // The WMATIC Deposit is already covered by the mint Transfer, and the
+    // aggregator passes it on to the adapter that supplies it
+    expect(delta(aggregatorAddress, WMATIC_ADDRESS)).to.equal(undefined);
+    expect(delta(await aaveAdapter.getAddress(), aTokenAddress)).to.equal(
+      amount
+    );
+
+    const report = formatInspection(inspection);
+    expect(report).to.include(
+      'PolygonDeFiAggregator.createTimeLockedStake(address,uint256,string,uint256)'
+    );
+    expect(report).to.include(`${alice.address}`);
+    expect(report).to.include('-2.0 MATIC');
+  });
+
+  it('Should decode require strings and custom errors of reverted transactions', async function () {
+    const { aggregator, alice } = await loadFixture(deployAggregatorFixture);
+
+    const stringRevert = await sendReverting(() =>
+      aggregator
+        .connect(alice)
+        .withdrawTimeLockedStake(99, { gasLimit: 500_000 })
+    );
+    const failed = await inspectTransaction(hre.ethers.provider, stringRevert);
+    expect(failed.status).to.equal('reverted');
+    expect(failed.revert).to.deep.include({
+      name: 'Error',
+      args: { reason: 'Invalid stake ID' },
+    });
+    expect(failed.balanceChanges).to.deep.equal([]);
+
+    const customRevert = await sendReverting(() =>
+      aggregator.connect(alice).setFeeRecipient(alice.address, {
+        gasLimit: 500_000,
+      })
+    );
+    const unauthorized = await inspectTransaction(
+      hre.ethers.provider,
+      customRevert
+    );
+    expect(unauthorized.revert).to.deep.include({
+      contract: 'PolygonDeFiAggregator',
+      name: 'OwnableUnauthorizedAccount',
+      args: { account: alice.address },
+    });
+    expect(formatInspection(unauthorized)).to.include(
+      'PolygonDeFiAggregator.OwnableUnauthorizedAccount'
+    );
+  });
+
+  it('Should report ERC721 mints as token id balance changes', async function () {
+    const [, alice] = await hre.ethers.getSigners();
+    const nft = await hre.ethers.deployContract('YOBOWEB3WALK', [
+      'https://example.com/',
+    ]);
+    const tx = await nft.safeMint(alice.address);
+
+    const inspection = await inspectTransaction(hre.ethers.provider, tx.hash);
+
+    expect(inspection.call?.name).to.equal('safeMint');
+    const [transfer] = inspection.logs.filter(log => log.name === 'Transfer');
+    expect(transfer.args).to.deep.equal({
+      from: hre.ethers.ZeroAddress,
+      to: alice.address,
+      tokenId: 0n,
+    });
+    expect(inspection.logs.map(log => log.name)).to.include('SoulBoundMint');
+    expect(inspection.balanceChanges).to.deep.equal([
+      {
+        holder: alice.address,
+        standard: 'erc721',
+        token: await nft.getAddress(),
+        tokenId: 0n,
+        symbol: 'YOB3WK',
+        delta: 1n,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,465 @@
+import {
+  loadFixture,
+  setCode,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  addProtocol,
+  applyMigration,
+  connectAggregator,
+  createTimeLockedStake,
+  deployAdapter,
+  EventStore,
+  isLegacyAggregator,
+  planMigration,
+  reconcileMigration,
+  recoverLegacyStakes,
+  setAutoCompound,
+  snapshotStakes,
+  syncEvents,
+  WMATIC_ADDRESS,
+} from '../../sdk';
+import type { PolygonDeFiAggregator } from '../../typechain-types';
+import { deployAggregatorFixture, ONE_DAY } from '../helpers/aggregator';
+
+const tusd = (amount: string) => hre.ethers.parseUnits(amount, 6);
+const ether = (amount: string) => hre.ethers.parseEther(amount);
+
+/** The Aave aToken the legacy aggregator has hardcoded for WMATIC */
+const A_POL_WM = '0x6d80113e533a2C0fe82EaBD35f1875DcEA89Ea97';
+
+/** A new deployment over the fixture's pools, with no compound protocol */
+async function deployTarget(
+  fixture: Awaited<ReturnType<typeof deployAggregatorFixture>>
+) {
+  const { aavePool, liquid, tokenAddress } = fixture;
+  const next = await hre.ethers.deployContract('PolygonDeFiAggregator');
+  await next.addSupportedToken(tokenAddress, 'TUSD', 6);
+  for (const [name, type, pool] of [
+    ['aave_lending', 'lending', await aavePool.getAddress()],
+    ['mock_liquid', 'liquid', await liquid.getAddress()],
+  ] as const) {
+    const adapter = await deployAdapter(next, type, pool);
+    await addProtocol(next, { name, adapter: adapter.address, apy: 500 });
+  }
+  return next;
+}
+
+describe('sdk/migration', function () {
+  /**
+   * Stakes on the fixture aggregator, and a new deployment over the same
+   * pools that has no compound protocol
+   */
+  async function migrationFixture() {
+    const fixture = await deployAggregatorFixture();
+    const { aggregator, tokenAddress, alice, bob, carol } = fixture;
+
+    const asAlice = connectAggregator(await aggregator.getAddress(), alice);
+    await createTimeLockedStake(asAlice, {
+      token: tokenAddress,
+      amount: '100',
+      protocol: 'mock_liquid',
+      lockDuration: 30 * ONE_DAY,
+    });
+    await setAutoCompound(asAlice, 0, true);
+    await createTimeLockedStake(asAlice, {
+      token: tokenAddress,
+      amount: '50',
+      protocol: 'mock_liquid',
+      lockDuration: ONE_DAY,
+    });
+    await asAlice.withdrawTimeLockedStake(1);
+    await createTimeLockedStake(
+      connectAggregator(await aggregator.getAddress(), bob),
+      {
+        token: WMATIC_ADDRESS,
+        amount: '2',
+        protocol: 'aave_lending',
+        lockDuration: 7 * ONE_DAY,
+        native: true,
+      }
+    );
+    await createTimeLockedStake(
+      connectAggregator(await aggregator.getAddress(), carol),
+      {
+        token: tokenAddress,
+        amount: '25',
+        protocol: 'mock_compound',
+        lockDuration: 7 * ONE_DAY,
+      }
+    );
+
+    return { ...fixture, next: await deployTarget(fixture) };
+  }
+
+  async function indexed(aggregator: PolygonDeFiAggregator) {
+    const store = await EventStore.open();
+    await syncEvents(aggregator, store);
+    return store;
+  }
+
+  it('Should snapshot open stakes and skip what the target cannot take', async function () {
+    const { aggregator, next, alice, bob, carol } =
+      await loadFixture(migrationFixture);
+
+    const snapshot = await snapshotStakes(
+      aggregator,
+      await indexed(aggregator)
+    );
+    expect(
+      snapshot.stakes.map(({ user, stakeId }) => [user, stakeId])
+    ).to.deep.equal([
+      [alice.address, 0],
+      [bob.address, 0],
+      [carol.address, 0],
+    ]);
+    expect(snapshot.stakes[0]).to.include({
+      principal: tusd('100'),
+      value: tusd('100'),
+      autoCompound: true,
+    });
+
+    const plan = await planMigration(next, snapshot, await indexed(next));
+    expect(plan.stakes.map(s => s.user)).to.deep.equal([
+      alice.address,
+      bob.address,
+    ]);
+    expect(plan.skipped).to.have.length(1);
+    expect(plan.skipped[0].reason).to.equal(
+      'protocol mock_compound is not active on the target'
+    );
+  });
+
+  it('Should move stakes on their original terms and reconcile amounts', async function () {
+    const { aggregator, next, token, liquid, alice, bob } =
+      await loadFixture(migrationFixture);
+    // Yield on the liquid pool moves with the stake
+    await token.transfer(await liquid.getAddress(), tusd('10'));
+
+    const snapshot = await snapshotStakes(
+      aggregator,
+      await indexed(aggregator)
+    );
+    const plan = await planMigration(next, snapshot, await indexed(next));
+    const migrated = await applyMigration(aggregator, next, plan);
+
+    expect(migrated.map(m => m.newStakeId)).to.deep.equal([0, 0]);
+    const [stake] = await next.getUserTimeLockedStakes(alice.address);
+    expect(stake.startTime).to.equal(snapshot.stakes[0].startTime);
+    expect(stake.endTime).to.equal(snapshot.stakes[0].endTime);
+    expect(stake.autoCompound).to.equal(true);
+    expect(
+      (await aggregator.getUserTimeLockedStakes(bob.address))[0].isActive
+    ).to.equal(false);
+
+    const rows = await reconcileMigration(next, migrated);
+    expect(rows).to.deep.equal([
+      {
+        user: alice.address,
+        token: await token.getAddress(),
+        stakes: 1,
+        principalBefore: tusd('100'),
+        valueBefore: tusd('110'),
+        principalAfter: tusd('100'),
+        valueAfter: tusd('110'),
+      },
+      {
+        user: bob.address,
+        token: WMATIC_ADDRESS,
+        stakes: 1,
+        principalBefore: hre.ethers.parseEther('2'),
+        valueBefore: hre.ethers.parseEther('2'),
+        principalAfter: hre.ethers.parseEther('2'),
+        valueAfter: hre.ethers.parseEther('2'),
+      },
+    ]);
+
+    // Nothing left to do on a second run
+    const again = await planMigration(
+      next,
+      await snapshotStakes(aggregator, await indexed(aggregator)),
+      await indexed(next)
+    );
+    expect(again.stakes).to.deep.equal([]);
+  });
+
+  it('Should import stakes an earlier run migrated out', async function () {
+    const { aggregator, next, alice } = await loadFixture(migrationFixture);
+    // A run that stopped between the two calls
+    await aggregator.migrateStakeOut(alice.address, 0);
+
+    const snapshot = await snapshotStakes(
+      aggregator,
+      await indexed(aggregator)
+    );
+    expect(snapshot.stakes[0]).to.include({
+      user: alice.address,
+      withdrawn: tusd('100'),
+    });
+    const plan = await planMigration(next, snapshot, await indexed(next));
+    const [migrated] = await applyMigration(aggregator, next, plan);
+
+    expect(migrated.outReceipt).to.equal(undefined);
+    expect(migrated.withdrawn).to.equal(tusd('100'));
+    expect(
+      (await next.getUserTimeLockedStakes(alice.address))[0].amount
+    ).to.equal(tusd('100'));
+  });
+
+  it('Should require the signer to own both aggregators', async function () {
+    const { aggregator, next, alice } = await loadFixture(migrationFixture);
+    await next.transferOwnership(alice.address);
+
+    const snapshot = await snapshotStakes(
+      aggregator,
+      await indexed(aggregator)
+    );
+    const plan = await planMigration(next, snapshot, await indexed(next));
+    let error: Error | undefined;
+    try {
+      await applyMigration(aggregator, next, plan);
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.match(/does not own aggregator/);
+  });
+
+  describe('Legacy sources', function () {
+    /**
+     * A legacy aggregator on its own Aave pool, with aPolWM at its mainnet
+     * address. Alice and bob stake WMATIC there and carol the test token in
+     * the liquid pool. Interest accrues and alice withdraws a second stake,
+     * after which the legacy share total overcounts.
+     */
+    async function legacyFixture() {
+      const fixture = await deployAggregatorFixture();
+      const { wmatic, liquid, token, owner, alice, bob, carol } = fixture;
+
+      const legacyPool = await hre.ethers.deployContract('MockAavePool');
+      const template = await hre.ethers.deployContract('MockAToken', [
+        await legacyPool.getAddress(),
+        WMATIC_ADDRESS,
+      ]);
+      await setCode(
+        A_POL_WM,
+        await hre.ethers.provider.getCode(await template.getAddress())
+      );
+      await legacyPool.initReserve(WMATIC_ADDRESS, A_POL_WM);
+      const aPolWM = await hre.ethers.getContractAt('MockAToken', A_POL_WM);
+
+      const legacy = await hre.ethers.deployContract('MockLegacyAggregator');
+      const legacyAddress = await legacy.getAddress();
+      await legacy.addProtocol(
+        'aave_lending',
+        await legacyPool.getAddress(),
+        'lending',
+        500
+      );
+      await legacy.addProtocol(
+        'mock_liquid',
+        await liquid.getAddress(),
+        'liquid',
+        500
+      );
+
+      const stake = (user: typeof alice, value: string, lockDuration: number) =>
+        legacy
+          .connect(user)
+          .createTimeLockedStake(
+            WMATIC_ADDRESS,
+            0,
+            'aave_lending',
+            lockDuration,
+            { value: ether(value) }
+          );
+      await stake(alice, '10', 30 * ONE_DAY);
+      await stake(alice, '5', ONE_DAY);
+      await stake(bob, '30', 7 * ONE_DAY);
+      await token.connect(carol).approve(legacyAddress, tusd('20'));
+      await legacy
+        .connect(carol)
+        .createTimeLockedStake(
+          await token.getAddress(),
+          tusd('20'),
+          'mock_liquid',
+          7 * ONE_DAY
+        );
+
+      await wmatic.deposit({ value: ether('4') });
+      await wmatic.approve(await legacyPool.getAddress(), ether('4'));
+      await legacyPool.accrueInterest(WMATIC_ADDRESS, ether('4'));
+      await legacy.connect(alice).withdrawTimeLockedStake(1);
+
+      return {
+        ...fixture,
+        legacy,
+        legacySource: connectAggregator(legacyAddress, owner),
+        aPolWM,
+        next: await deployTarget(fixture),
+      };
+    }
+
+    it('Should snapshot a legacy source through its own ABI', async function () {
+      const { legacy, legacySource, aPolWM, next, alice, bob, carol } =
+        await loadFixture(legacyFixture);
+      expect(await isLegacyAggregator(legacySource)).to.equal(true);
+      expect(await isLegacyAggregator(next)).to.equal(false);
+
+      const snapshot = await snapshotStakes(
+        legacySource,
+        await indexed(legacySource)
+      );
+      expect(snapshot.legacy).to.equal(true);
+      expect(
+        snapshot.stakes.map(({ user, stakeId }) => [user, stakeId])
+      ).to.deep.equal([
+        [alice.address, 0],
+        [bob.address, 0],
+        [carol.address, 0],
+      ]);
+      // The position is shared by the open stakes' shares, not the
+      // overcounted total the legacy aggregator divides by
+      const balance = await aPolWM.balanceOf(await legacy.getAddress());
+      expect(
+        await legacy.tokenProtocolTotalShares(WMATIC_ADDRESS, 'aave_lending')
+      ).to.be.greaterThan(ether('40'));
+      expect(snapshot.stakes[0]).to.deep.include({
+        principal: ether('10'),
+        shares: ether('10'),
+        value: (balance * 10n) / 40n,
+        lockPolicy: { mode: 'none', maxPenaltyBps: 0 },
+        aToken: A_POL_WM,
+      });
+      expect(snapshot.stakes[1].value).to.equal((balance * 30n) / 40n);
+
+      const plan = await planMigration(next, snapshot, await indexed(next));
+      expect(plan.legacy).to.equal(true);
+      expect(plan.stakes.map(s => s.user)).to.deep.equal([
+        alice.address,
+        bob.address,
+      ]);
+      expect(plan.skipped.map(({ reason }) => reason)).to.deep.equal([
+        'legacy mock_liquid positions cannot be recovered; the user has to withdraw',
+      ]);
+
+      let error: Error | undefined;
+      try {
+        await applyMigration(legacySource, next, plan);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal(
+        'Recover the stakes of a legacy source with recoverLegacyStakes first'
+      );
+
+      error = undefined;
+      try {
+        await planMigration(
+          legacySource,
+          await snapshotStakes(next, await indexed(next)),
+          await indexed(legacySource)
+        );
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.match(/predates importStake/);
+    });
+
+    it('Should recover the Aave position of a legacy source and import its stakes', async function () {
+      const { legacy, legacySource, aPolWM, wmatic, next, owner, bob } =
+        await loadFixture(legacyFixture);
+      const balance = await aPolWM.balanceOf(await legacy.getAddress());
+
+      const snapshot = await snapshotStakes(
+        legacySource,
+        await indexed(legacySource)
+      );
+      const plan = await planMigration(next, snapshot, await indexed(next));
+      const ownerBefore = await wmatic.balanceOf(owner.address);
+      const recovery = await recoverLegacyStakes(legacySource, snapshot, plan);
+
+      expect(recovery.recovered).to.equal(balance);
+      expect(await legacy.paused()).to.equal(true);
+      expect(await wmatic.balanceOf(owner.address)).to.equal(
+        ownerBefore + balance
+      );
+      expect(recovery.plan.stakes.map(s => s.withdrawn)).to.deep.equal(
+        plan.stakes.map(s => s.value)
+      );
+      // Withdrawing from the source fails once its aTokens are gone
+      await expect(
+        legacy.connect(bob).withdrawTimeLockedStake(0)
+      ).to.be.revertedWith('Invalid amount');
+
+      const migrated = await applyMigration(legacySource, next, recovery.plan);
+      const rows = await reconcileMigration(next, migrated);
+      expect(
+        rows.map(row => [row.principalAfter, row.valueAfter])
+      ).to.deep.equal(plan.stakes.map(s => [s.principal, s.value]));
+      const [stake] = await next.getUserTimeLockedStakes(bob.address);
+      expect(stake.endTime).to.equal(plan.stakes[1].endTime);
+      expect(stake.lockPolicy.mode).to.equal(0n);
+      // All of it went to the stakes, bar rounding
+      expect(await wmatic.balanceOf(owner.address)).to.be.closeTo(
+        ownerBefore,
+        1
+      );
+    });
+
+    it('Should resume a legacy migration from its sweep', async function () {
+      const { legacySource, next, alice, bob } =
+        await loadFixture(legacyFixture);
+      const snapshot = await snapshotStakes(
+        legacySource,
+        await indexed(legacySource)
+      );
+      const plan = await planMigration(next, snapshot, await indexed(next));
+      const recovery = await recoverLegacyStakes(legacySource, snapshot, plan);
+      // A run that stopped after importing alice's stake
+      await applyMigration(legacySource, next, {
+        ...recovery.plan,
+        stakes: recovery.plan.stakes.slice(0, 1),
+      });
+
+      const again = await snapshotStakes(
+        legacySource,
+        await indexed(legacySource)
+      );
+      const rest = await planMigration(next, again, await indexed(next));
+      expect(rest.stakes.map(s => s.user)).to.deep.equal([bob.address]);
+
+      const attempt = async (snapshot: typeof again, sweepHash?: string) => {
+        try {
+          await recoverLegacyStakes(legacySource, snapshot, rest, sweepHash);
+        } catch (e) {
+          return (e as Error).message;
+        }
+      };
+      expect(await attempt(again)).to.match(/swept no/);
+      expect(
+        await attempt(
+          {
+            ...again,
+            stakes: again.stakes.filter(s => s.user !== alice.address),
+          },
+          recovery.sweepHash
+        )
+      ).to.match(/missing from the snapshot/);
+
+      const resumed = await recoverLegacyStakes(
+        legacySource,
+        again,
+        rest,
+        recovery.sweepHash
+      );
+      expect(resumed.plan.stakes[0].withdrawn).to.equal(
+        recovery.plan.stakes[1].withdrawn
+      );
+      await applyMigration(legacySource, next, resumed.plan);
+      expect(
+        (await next.getUserTimeLockedStakes(bob.address))[0].amount
+      ).to.equal(ether('30'));
+    });
+  });
+});
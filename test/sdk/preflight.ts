@@ -0,0 +1,148 @@
+import {
+  loadFixture,
+  setBalance,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import { parseEther } from 'ethers';
+import hre from 'hardhat';
+import { preflightWithdraw, WMATIC_ADDRESS } from '../../sdk';
+import { deployAggregatorFixture, ONE_DAY } from '../helpers/aggregator';
+
+describe('sdk/preflight', function () {
+  async function nativeStakeFixture() {
+    const fixture = await deployAggregatorFixture();
+    const { aggregator, alice, bob } = fixture;
+    for (const [user, amount] of [
+      [alice, '10'],
+      [bob, '30'],
+    ] as const) {
+      await aggregator
+        .connect(user)
+        .createTimeLockedStake(WMATIC_ADDRESS, 0, 'aave_lending', ONE_DAY, {
+          value: parseEther(amount),
+        });
+    }
+    return fixture;
+  }
+
+  const statuses = (preflight: Awaited<ReturnType<typeof preflightWithdraw>>) =>
+    Object.fromEntries(preflight.checks.map(c => [c.name, c.status]));
+
+  it('Should predict the payout and gas of a withdrawable stake', async function () {
+    const { aggregator, alice } = await loadFixture(nativeStakeFixture);
+    await time.increase(ONE_DAY);
+
+    const preflight = await preflightWithdraw(aggregator.connect(alice), 0);
+
+    expect(preflight.ok).to.equal(true);
+    expect(preflight.diagnoses).to.deep.equal([]);
+    expect(statuses(preflight)).to.deep.equal({
+      stake: 'pass',
+      lock: 'pass',
+      'share ledger': 'pass',
+      'pool liquidity': 'pass',
+      'WMATIC unwrap': 'pass',
+      simulation: 'pass',
+      gas: 'pass',
+    });
+    expect(preflight.payout).to.deep.equal({
+      amount: parseEther('10'),
+      penalty: 0n,
+      native: true,
+    });
+    expect(preflight.gas?.limit).to.be.greaterThan(0n);
+
+    // Nothing was sent
+    expect(
+      (await aggregator.getUserTimeLockedStakes(alice))[0].isActive
+    ).to.equal(true);
+  });
+
+  it('Should diagnose missing and closed stakes', async function () {
+    const { aggregator, alice, bob } = await loadFixture(nativeStakeFixture);
+
+    const missing = await preflightWithdraw(aggregator, 5, {
+      user: alice.address,
+    });
+    expect(missing.ok).to.equal(false);
+    expect(missing.diagnoses.map(d => d.issue)).to.deep.equal([
+      'STAKE_NOT_FOUND',
+    ]);
+
+    await aggregator.connect(bob).withdrawTimeLockedStake(0);
+    const closed = await preflightWithdraw(aggregator, 0, {
+      user: bob.address,
+    });
+    expect(closed.diagnoses.map(d => d.issue)).to.deep.equal(['STAKE_CLOSED']);
+  });
+
+  it('Should diagnose hard locks before maturity', async function () {
+    const { aggregator, alice, tokenAddress } = await loadFixture(
+      deployAggregatorFixture
+    );
+    await aggregator.setLockPolicy('mock_liquid', 1, 0);
+    await aggregator
+      .connect(alice)
+      .createTimeLockedStake(
+        tokenAddress,
+        hre.ethers.parseUnits('100', 6),
+        'mock_liquid',
+        ONE_DAY
+      );
+
+    const preflight = await preflightWithdraw(aggregator, 0, {
+      user: alice.address,
+    });
+
+    expect(statuses(preflight)).to.deep.include({
+      lock: 'fail',
+      'share ledger': 'skip',
+      simulation: 'fail',
+    });
+    expect(preflight.payout).to.equal(undefined);
+    expect(preflight.diagnoses).to.have.length(1);
+    expect(preflight.diagnoses[0]).to.deep.include({ issue: 'HARD_LOCKED' });
+    expect(preflight.diagnoses[0].revert?.args).to.deep.equal({
+      reason: 'Stake is locked until maturity',
+    });
+  });
+
+  it('Should diagnose short Aave liquidity', async function () {
+    const { aggregator, aavePool, bob, owner } =
+      await loadFixture(nativeStakeFixture);
+    // 25 of the 40 supplied are lent out, so bob's 30 cannot be redeemed
+    await aavePool.borrow(WMATIC_ADDRESS, parseEther('25'), owner.address);
+
+    const preflight = await preflightWithdraw(aggregator, 0, {
+      user: bob.address,
+    });
+
+    expect(statuses(preflight)).to.deep.include({
+      'share ledger': 'pass',
+      'pool liquidity': 'fail',
+      simulation: 'fail',
+    });
+    expect(preflight.diagnoses.map(d => d.issue)).to.deep.equal([
+      'POOL_LIQUIDITY_SHORT',
+    ]);
+    expect(preflight.diagnoses[0].revert).to.not.equal(undefined);
+  });
+
+  it('Should diagnose WMATIC that cannot be unwrapped', async function () {
+    const { aggregator, alice } = await loadFixture(nativeStakeFixture);
+    await setBalance(WMATIC_ADDRESS, parseEther('1'));
+
+    const preflight = await preflightWithdraw(aggregator, 0, {
+      user: alice.address,
+    });
+
+    expect(statuses(preflight)).to.deep.include({
+      'WMATIC unwrap': 'fail',
+      simulation: 'fail',
+    });
+    expect(preflight.diagnoses.map(d => d.issue)).to.deep.equal([
+      'WMATIC_UNWRAP_SHORT',
+    ]);
+  });
+});
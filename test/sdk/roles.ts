@@ -0,0 +1,74 @@
+import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import {
+  connectAggregator,
+  EventStore,
+  grantRole,
+  listRoleMembers,
+  parseRole,
+  renounceRole,
+  revokeRole,
+  roleId,
+  syncEvents,
+} from '../../sdk';
+import { deployAggregatorFixture } from '../helpers/aggregator';
+
+describe('sdk/roles', function () {
+  it('Should parse role names and ids', async function () {
+    const { aggregator } = await loadFixture(deployAggregatorFixture);
+
+    expect(parseRole('pauser')).to.equal('PAUSER');
+    expect(parseRole('protocol-manager')).to.equal('PROTOCOL_MANAGER');
+    expect(parseRole('APY_ORACLE_ROLE')).to.equal('APY_ORACLE');
+    expect(roleId('EMERGENCY')).to.equal(await aggregator.EMERGENCY_ROLE());
+    expect(parseRole(await aggregator.EMERGENCY_ROLE())).to.equal('EMERGENCY');
+    expect(() => parseRole('minter')).to.throw(
+      'Unknown role "minter". Expected one of: PROTOCOL_MANAGER, APY_ORACLE, PAUSER, EMERGENCY'
+    );
+  });
+
+  it('Should list role members from granted and revoked events', async function () {
+    const { aggregator, owner, alice, bob } = await loadFixture(
+      deployAggregatorFixture
+    );
+    await grantRole(aggregator, 'PAUSER', [alice.address, bob.address]);
+    await grantRole(aggregator, 'APY_ORACLE', [bob.address]);
+    await revokeRole(aggregator, 'PAUSER', alice.address);
+    await renounceRole(
+      connectAggregator(await aggregator.getAddress(), bob),
+      'APY_ORACLE'
+    );
+    expect(await aggregator.hasRole(roleId('PAUSER'), bob.address)).to.equal(
+      true
+    );
+
+    const store = await EventStore.open();
+    await syncEvents(aggregator, store);
+    const roles = listRoleMembers(store);
+
+    expect(
+      roles.map(({ role, members }) => [role, members.map(m => m.account)])
+    ).to.deep.equal([
+      ['PROTOCOL_MANAGER', [owner.address]],
+      ['APY_ORACLE', [owner.address]],
+      ['PAUSER', [owner.address, bob.address]],
+      ['EMERGENCY', [owner.address]],
+    ]);
+    expect(roles[2].members[1]).to.include({
+      grantedBy: owner.address,
+      blockNumber: store.getEvents({ name: 'RoleGranted' })[5].blockNumber,
+    });
+  });
+
+  it('Should require accounts to grant the role to', async function () {
+    const { aggregator } = await loadFixture(deployAggregatorFixture);
+
+    let error: Error | undefined;
+    try {
+      await grantRole(aggregator, 'PAUSER', []);
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.equal('No accounts to grant the role to');
+  });
+});
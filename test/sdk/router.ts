@@ -0,0 +1,178 @@
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  applyApyUpdates,
+  applyRebalance,
+  autoRoutedUsers,
+  connectAggregator,
+  createTimeLockedStake,
+  EventStore,
+  getUserTimeLockedStakes,
+  measureProtocolApy,
+  planApyUpdates,
+  planRebalance,
+  syncEvents,
+  WMATIC_ADDRESS,
+} from '../../sdk';
+import { deployAggregatorFixture, ONE_DAY } from '../helpers/aggregator';
+
+const tusd = (amount: string) => hre.ethers.parseUnits(amount, 6);
+const RAY = 10n ** 27n;
+
+describe('sdk/router', function () {
+  async function routedFixture() {
+    const fixture = await deployAggregatorFixture();
+    await fixture.aggregator.setTokenRoutes(fixture.tokenAddress, [
+      'mock_compound',
+      'mock_liquid',
+    ]);
+    return fixture;
+  }
+
+  it('Should measure APYs from each protocol', async function () {
+    const { aggregator, aavePool, compound, token, liquid, alice } =
+      await loadFixture(routedFixture);
+    const asAlice = connectAggregator(await aggregator.getAddress(), alice);
+
+    // 5% APR compounded per second, read from the WMATIC reserve that holds
+    // the protocol's TVL
+    await aavePool.setLiquidityRate(WMATIC_ADDRESS, (5n * RAY) / 100n);
+    await asAlice.createTimeLockedStake(
+      WMATIC_ADDRESS,
+      0,
+      'aave_lending',
+      ONE_DAY,
+      {
+        value: 1n,
+      }
+    );
+    expect((await measureProtocolApy(aggregator, 'aave_lending')).apy).to.equal(
+      513
+    );
+
+    // 3e-9 per block over a year of 2 second blocks
+    await compound.setSupplyRatePerBlock(3_000_000_000n);
+    expect(
+      (await measureProtocolApy(aggregator, 'mock_compound')).apy
+    ).to.equal(484);
+
+    // 0.1% exchange-rate growth in a week
+    await createTimeLockedStake(asAlice, {
+      token: await token.getAddress(),
+      amount: '1000',
+      protocol: 'mock_liquid',
+      lockDuration: ONE_DAY,
+    });
+    await time.increase(7 * ONE_DAY);
+    await token.transfer(await liquid.getAddress(), tusd('1'));
+    const reading = await measureProtocolApy(aggregator, 'mock_liquid', {
+      lookback: 7 * ONE_DAY,
+    });
+    expect(reading.apy).to.be.closeTo(
+      Math.round(1.001 ** (365 / 7) * 1e4 - 1e4),
+      2
+    );
+  });
+
+  it('Should plan and push APYs that moved past the minimum change', async function () {
+    const { aggregator, aavePool, compound, tokenAddress } =
+      await loadFixture(routedFixture);
+    // With no TVL on Aave, the first supported token's reserve is read
+    await aavePool.setLiquidityRate(tokenAddress, (5n * RAY) / 100n);
+    await compound.setSupplyRatePerBlock(3_000_000_000n);
+    // Give the liquid pool a week of history to measure
+    await time.increase(7 * ONE_DAY);
+
+    const plan = await planApyUpdates(aggregator, { minChangeBps: 300 });
+
+    // Aave and compound moved by 287 and 184 bps; the idle liquid pool
+    // measures 0%, 500 bps off
+    expect(plan.warnings).to.deep.equal([]);
+    expect(plan.readings.map(r => r.apy)).to.deep.equal([513, 0, 484]);
+    expect(
+      plan.updates.map(({ protocol, from, to }) => ({ protocol, from, to }))
+    ).to.deep.equal([{ protocol: 'mock_liquid', from: 500, to: 0 }]);
+
+    const applied = await applyApyUpdates(aggregator, plan);
+    expect(applied).to.have.length(1);
+    expect((await aggregator.protocols('mock_liquid')).currentAPY).to.equal(0);
+    expect(
+      (await planApyUpdates(aggregator, { minChangeBps: 300 })).updates
+    ).to.deep.equal([]);
+  });
+
+  it('Should rebalance only the auto-routed stakes off their best route', async function () {
+    const { aggregator, alice, bob, carol, tokenAddress } =
+      await loadFixture(routedFixture);
+    for (const [user, protocol] of [
+      [alice, 'auto'],
+      [bob, 'auto'],
+      [carol, 'mock_liquid'],
+    ] as const) {
+      await createTimeLockedStake(
+        connectAggregator(await aggregator.getAddress(), user),
+        { token: tokenAddress, amount: '100', protocol, lockDuration: ONE_DAY }
+      );
+    }
+    const users = [alice.address, bob.address, carol.address];
+
+    expect(await planRebalance(aggregator, users)).to.deep.equal([]);
+
+    await aggregator.updateProtocolAPY('mock_compound', 650);
+    const candidates = await planRebalance(aggregator, users);
+    expect(candidates.map(c => [c.user, c.stakeId])).to.deep.equal([
+      [alice.address, 0],
+      [bob.address, 0],
+    ]);
+    expect(candidates[0]).to.include({
+      fromProtocol: 'mock_liquid',
+      toProtocol: 'mock_compound',
+      fromApy: 500,
+      toApy: 650,
+    });
+
+    const results = await applyRebalance(aggregator, candidates);
+    expect(results.map(r => r.toProtocol)).to.deep.equal([
+      'mock_compound',
+      'mock_compound',
+    ]);
+    expect(
+      (await getUserTimeLockedStakes(aggregator, bob.address))[0]
+    ).to.include({ protocol: 'mock_compound', autoRouted: true });
+    expect(await planRebalance(aggregator, users)).to.deep.equal([]);
+  });
+
+  it('Should find users with auto-routed stakes in the event database', async function () {
+    const { aggregator, alice, bob, tokenAddress } =
+      await loadFixture(routedFixture);
+    const asAlice = aggregator.connect(alice);
+    await asAlice.createTimeLockedStake(
+      tokenAddress,
+      tusd('10'),
+      'auto',
+      ONE_DAY
+    );
+    await asAlice.createTimeLockedStake(
+      tokenAddress,
+      tusd('10'),
+      'auto',
+      ONE_DAY
+    );
+    await aggregator
+      .connect(bob)
+      .createTimeLockedStake(tokenAddress, tusd('10'), 'mock_liquid', ONE_DAY);
+
+    const store = await EventStore.open();
+    await syncEvents(aggregator, store);
+
+    expect(autoRoutedUsers(store)).to.deep.equal([alice.address]);
+    expect(store.getEvents({ name: 'StakeRouted' })[1]).to.include({
+      stakeId: 1,
+      protocol: 'mock_liquid',
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import { AddressInfo } from 'net';
+import {
+  createStepService,
+  dayRange,
+  recoverStepSigner,
+  requestDailyResult,
+  requestStepReport,
+  sendDailyReport,
+  sendDailyResult,
+  signDailyResult,
+  signStepReport,
+  STEP_SIGNATURE_TTL,
+  verifyStepReport,
+} from '../../sdk';
+import { ONE_DAY } from '../helpers/aggregator';
+import {
+  CHALLENGE_GOAL,
+  deployChallengeFixture,
+  NFT_ADDRESS,
+} from '../helpers/challenge';
+
+describe('sdk/steps', function () {
+  it('Should derive the time range from the latest reading', function () {
+    // A JST day, as in the results sent by the app
+    expect(dayRange(1744677326, 540)).to.deep.equal([1744642800, 1744729199]);
+    expect(dayRange(ONE_DAY, 0)).to.deep.equal([ONE_DAY, 2 * ONE_DAY - 1]);
+  });
+
+  it('Should sign step data that the challenge accepts', async function () {
+    const { challenge, challengeAddress, security, start, bob } =
+      await loadFixture(deployChallengeFixture);
+
+    const signed = await signDailyResult(security, {
+      challenge: challengeAddress,
+      readings: [{ day: start + 60, steps: CHALLENGE_GOAL + 1000 }],
+    });
+    expect(recoverStepSigner(signed)).to.equal(security.address);
+    expect(signed.chainId).to.equal(1337n);
+    expect(signed.expiresAt).to.equal(
+      (await time.latest()) + STEP_SIGNATURE_TTL
+    );
+    expect(signed.args.timeRange).to.deep.equal(
+      dayRange(start + 60).map(BigInt)
+    );
+
+    const receipt = await sendDailyResult(challenge.connect(bob), signed);
+    await expect(receipt.hash)
+      .to.emit(challenge, 'SendDailyResult')
+      .withArgs(1);
+    expect(await challenge.getState()).to.equal(0);
+
+    // Each signature is accepted once
+    await expect(
+      sendDailyResult(challenge.connect(bob), signed)
+    ).to.be.revertedWith('Hash was used');
+  });
+
+  it('Should be rejected once expired or signed by another key', async function () {
+    const { challenge, challengeAddress, security, start, bob, carol } =
+      await loadFixture(deployChallengeFixture);
+    const request = {
+      challenge: challengeAddress,
+      readings: [
+        { day: start + 60, steps: 3000 },
+        { day: start + ONE_DAY, steps: 7000 },
+      ],
+    };
+
+    const forged = await signDailyResult(carol, request);
+    await expect(
+      sendDailyResult(challenge.connect(bob), forged)
+    ).to.be.revertedWith('Invalid signature');
+
+    const late = await signDailyResult(security, request, { ttl: 60 });
+    await time.increase(61);
+    await expect(
+      sendDailyResult(challenge.connect(bob), late)
+    ).to.be.revertedWith('Signature is inaccessible');
+  });
+
+  it('Should reject invalid readings', async function () {
+    const { challengeAddress, security } = await loadFixture(
+      deployChallengeFixture
+    );
+
+    let error: Error | undefined;
+    try {
+      await signDailyResult(
+        security,
+        {
+          challenge: challengeAddress,
+          readings: [
+            { day: 200, steps: 10 },
+            { day: 100, steps: -1 },
+          ],
+        },
+        { ttl: STEP_SIGNATURE_TTL + 1 }
+      );
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.equal(
+      [
+        'Invalid step data:',
+        'readings[1].day must be after readings[0].day',
+        'readings[1].steps must be a non-negative integer',
+        'ttl must be between 1 and 600 seconds',
+      ].join('\n  ')
+    );
+  });
+
+  describe('EIP-712 step reports', function () {
+    it('Should sign a StepReport that the challenge accepts once', async function () {
+      const { challenge, challengeAddress, nft, security, start, bob } =
+        await loadFixture(deployChallengeFixture);
+
+      const signed = await signStepReport(security, {
+        challenge: challengeAddress,
+        readings: [{ day: start + 60, steps: CHALLENGE_GOAL + 1000 }],
+      });
+      expect(signed.nft).to.equal(NFT_ADDRESS);
+      expect(signed.args.nonce).to.equal(0n);
+      expect(signed.args.expiry).to.equal(
+        BigInt((await time.latest()) + STEP_SIGNATURE_TTL)
+      );
+      expect(verifyStepReport(signed)).to.equal(security.address);
+
+      await expect(sendDailyReport(challenge.connect(bob), signed))
+        .to.emit(challenge, 'SendDailyResult')
+        .withArgs(1);
+      expect(await nft.stepReportNonces(challengeAddress)).to.equal(1n);
+
+      // The nonce moved on, so the same report is refused
+      await expect(
+        sendDailyReport(challenge.connect(bob), signed)
+      ).to.be.revertedWith('Invalid nonce');
+
+      const next = await signStepReport(security, {
+        challenge: challengeAddress,
+        readings: [{ day: start + ONE_DAY, steps: CHALLENGE_GOAL }],
+      });
+      expect(next.args.nonce).to.equal(1n);
+      await expect(sendDailyReport(challenge.connect(bob), next))
+        .to.emit(challenge, 'SendDailyResult')
+        .withArgs(2);
+    });
+
+    it('Should reject tampered, forged and expired reports', async function () {
+      const { challenge, challengeAddress, security, start, bob, carol } =
+        await loadFixture(deployChallengeFixture);
+      const request = {
+        challenge: challengeAddress,
+        readings: [{ day: start + 60, steps: 3000 }],
+      };
+
+      const signed = await signStepReport(security, request);
+      const tampered = {
+        ...signed,
+        args: { ...signed.args, stepIndex: [BigInt(CHALLENGE_GOAL)] },
+      };
+      expect(verifyStepReport(tampered)).to.not.equal(security.address);
+      await expect(
+        sendDailyReport(challenge.connect(bob), tampered)
+      ).to.be.revertedWith('Invalid signature');
+
+      const forged = await signStepReport(carol, request);
+      await expect(
+        sendDailyReport(challenge.connect(bob), forged)
+      ).to.be.revertedWith('Invalid signature');
+
+      // A report for another verifying contract does not check out either
+      const elsewhere = await signStepReport(security, request, {
+        nft: carol.address,
+        nonce: 0n,
+      });
+      await expect(
+        sendDailyReport(challenge.connect(bob), elsewhere)
+      ).to.be.revertedWith('Invalid signature');
+
+      const late = await signStepReport(security, request, { ttl: 60 });
+      await time.increase(61);
+      await expect(
+        sendDailyReport(challenge.connect(bob), late)
+      ).to.be.revertedWith('Signature is inaccessible');
+    });
+
+    it('Should refuse legacy signatures once the challenge sends a StepReport', async function () {
+      const { challenge, challengeAddress, security, start, bob } =
+        await loadFixture(deployChallengeFixture);
+      const reading = (steps: number) => ({
+        challenge: challengeAddress,
+        readings: [{ day: start + 60, steps }],
+      });
+
+      const sent = await signDailyResult(security, reading(3000));
+      await sendDailyResult(challenge.connect(bob), sent);
+      const unsent = await signDailyResult(security, reading(4000));
+
+      await expect(
+        sendDailyReport(
+          challenge.connect(bob),
+          await signStepReport(security, reading(4500))
+        )
+      ).to.emit(challenge, 'SendDailyResult');
+
+      // Neither a replayed nor an unused legacy signature gets past the nonce
+      await expect(
+        sendDailyResult(challenge.connect(bob), sent)
+      ).to.be.revertedWith('Step reports are in use');
+      await expect(
+        sendDailyResult(challenge.connect(bob), unsent)
+      ).to.be.revertedWith('Step reports are in use');
+    });
+  });
+
+  describe('Signing service', function () {
+    /** Serve from `security` on a free port; the caller closes the server */
+    async function startService(
+      security: Awaited<ReturnType<typeof deployChallengeFixture>>['security']
+    ) {
+      const server = createStepService(security, { utcOffsetMinutes: 540 });
+      await new Promise<void>(resolve =>
+        server.listen(0, '127.0.0.1', resolve)
+      );
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      return { server, url };
+    }
+
+    let close: (() => void) | undefined;
+    afterEach(function () {
+      close?.();
+      close = undefined;
+    });
+
+    it('Should return sendDailyResult arguments the challenge accepts', async function () {
+      const { challenge, challengeAddress, security, start, bob } =
+        await loadFixture(deployChallengeFixture);
+      const { server, url } = await startService(security);
+      close = () => server.close();
+
+      const health = await (await fetch(`${url}/health`)).json();
+      expect(health).to.deep.equal({
+        signer: security.address,
+        chainId: '1337',
+      });
+
+      const signed = await requestDailyResult(url, {
+        challenge: challengeAddress,
+        readings: [{ day: start + 60, steps: CHALLENGE_GOAL }],
+      });
+      expect(signed.signer).to.equal(security.address);
+      expect(signed.args.timeRange).to.deep.equal(
+        dayRange(start + 60, 540).map(BigInt)
+      );
+      await expect(sendDailyResult(challenge.connect(bob), signed))
+        .to.emit(challenge, 'SendDailyResult')
+        .withArgs(1);
+    });
+
+    it('Should sign StepReports on /report', async function () {
+      const { challenge, challengeAddress, security, start, bob } =
+        await loadFixture(deployChallengeFixture);
+      const { server, url } = await startService(security);
+      close = () => server.close();
+
+      const signed = await requestStepReport(url, {
+        challenge: challengeAddress,
+        readings: [{ day: start + 60, steps: CHALLENGE_GOAL }],
+      });
+      expect(verifyStepReport(signed)).to.equal(security.address);
+      await expect(sendDailyReport(challenge.connect(bob), signed))
+        .to.emit(challenge, 'SendDailyResult')
+        .withArgs(1);
+    });
+
+    it('Should answer invalid requests with a 400', async function () {
+      const { security } = await loadFixture(deployChallengeFixture);
+      const { server, url } = await startService(security);
+      close = () => server.close();
+
+      let error: Error | undefined;
+      try {
+        await requestDailyResult(url, {
+          challenge: 'not-an-address',
+          readings: [],
+        });
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal(
+        [
+          'Step service returned 400: Invalid step data',
+          'challenge must be an address',
+          'readings must be a non-empty array',
+        ].join('\n  ')
+      );
+
+      const response = await fetch(`${url}/sign`, {
+        method: 'POST',
+        body: '{',
+      });
+      expect(response.status).to.equal(400);
+      expect(await response.json()).to.deep.equal({
+        error: 'Request body must be JSON',
+      });
+      expect((await fetch(`${url}/sign`)).status).to.equal(405);
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  applySync,
+  connectAggregator,
+  DeploymentConfig,
+  describeSyncAction,
+  getAdapterInfo,
+  planSync,
+  WMATIC_ADDRESS,
+} from '../../sdk';
+
+describe('sdk/sync', function () {
+  async function deployFixture() {
+    const [owner] = await hre.ethers.getSigners();
+
+    const Aggregator = await hre.ethers.getContractFactory(
+      'PolygonDeFiAggregator'
+    );
+    const deployed = await Aggregator.deploy();
+    const aggregator = connectAggregator(await deployed.getAddress(), owner);
+
+    const TestToken = await hre.ethers.getContractFactory('TestToken');
+    const token = await TestToken.deploy('Test USD', 'TUSD', 6, 1_000_000);
+    const tokenAddress = await token.getAddress();
+
+    const Liquid = await hre.ethers.getContractFactory('MockLiquidStaking');
+    const liquid = await Liquid.deploy(tokenAddress);
+
+    const liquidAddress = await liquid.getAddress();
+    // Tests mutate the config, so hand out a fresh copy each time
+    const makeConfig = (): DeploymentConfig => ({
+      wmaticAddress: WMATIC_ADDRESS,
+      supportedTokens: [
+        { address: tokenAddress, symbol: 'TUSD', decimals: 6 },
+        { address: WMATIC_ADDRESS, symbol: 'POL', decimals: 18 },
+      ],
+      protocols: [
+        {
+          name: 'mock_liquid',
+          contractAddress: liquidAddress,
+          protocolType: 'liquid',
+          initialAPY: 500,
+        },
+      ],
+    });
+
+    return { aggregator, makeConfig, tokenAddress, liquidAddress };
+  }
+
+  it('Should plan every missing token and protocol', async function () {
+    const { aggregator, makeConfig } = await loadFixture(deployFixture);
+    const config = makeConfig();
+
+    const plan = await planSync(aggregator, config);
+
+    expect(plan.actions.map(a => a.type)).to.deep.equal([
+      'addSupportedToken',
+      'addSupportedToken',
+      'addProtocol',
+    ]);
+    expect(describeSyncAction(plan.actions[2])).to.match(
+      /^\+ addProtocol mock_liquid \(liquid at 0x[0-9a-fA-F]{40} via new LiquidStakingAdapter, APY 500\)$/
+    );
+  });
+
+  it('Should be idempotent once applied', async function () {
+    const { aggregator, makeConfig } = await loadFixture(deployFixture);
+    const config = makeConfig();
+
+    const applied = await applySync(
+      aggregator,
+      await planSync(aggregator, config)
+    );
+
+    const plan = await planSync(aggregator, config);
+    expect(plan.actions).to.deep.equal([]);
+    const protocol = await aggregator.protocols('mock_liquid');
+    expect(protocol.currentAPY).to.equal(500n);
+    expect(protocol.contractAddress).to.equal(applied[2].adapter!.address);
+  });
+
+  it('Should update APYs and statuses in place', async function () {
+    const { aggregator, makeConfig, tokenAddress } =
+      await loadFixture(deployFixture);
+    const config = makeConfig();
+    await applySync(aggregator, await planSync(aggregator, config));
+
+    config.supportedTokens[0].isActive = false;
+    config.protocols[0].apy = 900;
+    const plan = await planSync(aggregator, config);
+
+    expect(plan.actions).to.deep.equal([
+      {
+        type: 'setTokenStatus',
+        token: tokenAddress,
+        symbol: 'TUSD',
+        isActive: false,
+      },
+      {
+        type: 'updateProtocolAPY',
+        protocol: 'mock_liquid',
+        from: 500,
+        to: 900,
+      },
+    ]);
+
+    await applySync(aggregator, plan);
+    expect((await aggregator.supportedTokens(tokenAddress)).isActive).to.equal(
+      false
+    );
+    expect((await aggregator.protocols('mock_liquid')).currentAPY).to.equal(
+      900n
+    );
+  });
+
+  it('Should re-enable an inactive protocol before updating its APY', async function () {
+    const { aggregator, makeConfig } = await loadFixture(deployFixture);
+    const config = makeConfig();
+    await applySync(aggregator, await planSync(aggregator, config));
+    await aggregator.setProtocolStatus('mock_liquid', false);
+
+    config.protocols[0].apy = 700;
+    const plan = await planSync(aggregator, config);
+
+    expect(plan.actions.map(describeSyncAction)).to.deep.equal([
+      '~ setProtocolStatus mock_liquid: inactive → active',
+      '~ updateProtocolAPY mock_liquid: 500 → 700',
+    ]);
+    await applySync(aggregator, plan);
+    expect((await planSync(aggregator, config)).actions).to.deep.equal([]);
+    expect((await aggregator.getAllProtocols()).names).to.deep.equal([
+      'mock_liquid',
+    ]);
+  });
+
+  it('Should warn about unmanaged and unenforced fields', async function () {
+    const { aggregator, makeConfig } = await loadFixture(deployFixture);
+    const config = makeConfig();
+    await applySync(aggregator, await planSync(aggregator, config));
+
+    const trimmed: DeploymentConfig = {
+      ...config,
+      supportedTokens: [
+        { ...config.supportedTokens[1], maxStakeAmount: '10000' },
+      ],
+      protocols: [],
+    };
+    const plan = await planSync(aggregator, trimmed);
+
+    expect(plan.actions).to.deep.equal([]);
+    expect(plan.warnings).to.deep.equal([
+      'token POL: maxStakeAmount is not enforced on-chain and is ignored',
+      'token TUSD is active but not in config',
+      'protocol mock_liquid is active but not in config',
+    ]);
+
+    const pruned = await planSync(aggregator, trimmed, { prune: true });
+    expect(pruned.actions.map(a => a.type)).to.deep.equal([
+      'setTokenStatus',
+      'setProtocolStatus',
+    ]);
+  });
+
+  it('Should deploy lending adapters and warn about missing reserves', async function () {
+    const { aggregator, makeConfig, tokenAddress } =
+      await loadFixture(deployFixture);
+    const pool = await hre.ethers.deployContract('MockAavePool');
+    const poolAddress = await pool.getAddress();
+    const aToken = await hre.ethers.deployContract('MockAToken', [
+      poolAddress,
+      tokenAddress,
+    ]);
+    await pool.initReserve(tokenAddress, await aToken.getAddress());
+
+    const config = makeConfig();
+    config.protocols.push({
+      name: 'aave_lending',
+      contractAddress: poolAddress,
+      protocolType: 'lending',
+      initialAPY: 800,
+      assets: [tokenAddress, WMATIC_ADDRESS],
+    });
+    const plan = await planSync(aggregator, config);
+
+    expect(plan.actions.slice(-1).map(describeSyncAction)).to.deep.equal([
+      `+ addProtocol aave_lending (lending at ${poolAddress} via new AaveV3Adapter, APY 800)`,
+    ]);
+    expect(plan.warnings).to.deep.equal([
+      'protocol aave_lending: no reserve for POL, staking it will revert',
+    ]);
+
+    const applied = await applySync(aggregator, plan);
+    const adapter = applied.slice(-1)[0].adapter!;
+    expect(adapter).to.include({
+      contractName: 'AaveV3Adapter',
+      address: (await aggregator.protocols('aave_lending')).contractAddress,
+    });
+    expect(
+      await getAdapterInfo(adapter.address, hre.ethers.provider)
+    ).to.deep.include({
+      pool: poolAddress,
+      protocolType: 'lending',
+      aggregator: await aggregator.getAddress(),
+    });
+    expect((await planSync(aggregator, config)).actions).to.deep.equal([]);
+  });
+
+  it('Should register configured adapters and flag a changed pool', async function () {
+    const { aggregator, makeConfig, liquidAddress } =
+      await loadFixture(deployFixture);
+    const adapter = await hre.ethers.deployContract('LiquidStakingAdapter', [
+      await aggregator.getAddress(),
+      liquidAddress,
+    ]);
+    const adapterAddress = await adapter.getAddress();
+
+    const config = makeConfig();
+    config.protocols[0].adapter = adapterAddress;
+    const plan = await planSync(aggregator, config);
+    expect(describeSyncAction(plan.actions[2])).to.equal(
+      `+ addProtocol mock_liquid (liquid at ${liquidAddress} via ${adapterAddress}, APY 500)`
+    );
+    const applied = await applySync(aggregator, plan);
+    expect(applied[2].adapter).to.equal(undefined);
+    expect(
+      (await aggregator.protocols('mock_liquid')).contractAddress
+    ).to.equal(adapterAddress);
+
+    config.protocols[0].contractAddress = WMATIC_ADDRESS;
+    expect((await planSync(aggregator, config)).warnings).to.deep.equal([
+      `protocol mock_liquid: on-chain liquid adapter ${adapterAddress} for ${liquidAddress} differs from config and cannot be changed`,
+    ]);
+  });
+});
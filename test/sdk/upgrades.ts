@@ -0,0 +1,359 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import hre from 'hardhat';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AGGREGATOR_CONTRACT,
+  buildUpgradeCall,
+  compareStorageLayouts,
+  connectAggregator,
+  deployAggregatorImplementation,
+  deployAggregatorProxy,
+  executeUpgrade,
+  getDeployment,
+  getImplementationAddress,
+  planUpgrade,
+  ProxyKind,
+  readStorageLayout,
+  recordDeployment,
+  recordImplementation,
+  StorageLayout,
+  validateRegistry,
+} from '../../sdk';
+
+function copy(layout: StorageLayout): StorageLayout {
+  return JSON.parse(JSON.stringify(layout));
+}
+
+describe('sdk/upgrades', function () {
+  describe('Storage layout checks', function () {
+    let layout: StorageLayout;
+
+    before(async function () {
+      layout = await readStorageLayout(hre.artifacts);
+    });
+
+    it('Should read the aggregator layout without AST ids', function () {
+      expect(layout.storage.slice(0, 3).map(v => v.label)).to.deep.equal([
+        '_owner',
+        '_status',
+        '_paused',
+      ]);
+      expect(
+        layout.storage.find(v => v.label === 'supportedTokens')!.type
+      ).to.equal('t_mapping(t_address,t_struct(SupportedToken)_storage)');
+      expect(compareStorageLayouts(layout, copy(layout))).to.deep.equal([]);
+    });
+
+    it('Should allow appending variables', function () {
+      const next = copy(layout);
+      const last = next.storage[next.storage.length - 1];
+      next.storage.push({
+        label: 'newSetting',
+        slot: last.slot + 1,
+        offset: 0,
+        type: 't_uint256',
+      });
+
+      expect(compareStorageLayouts(layout, next)).to.deep.equal([]);
+    });
+
+    it('Should reject inserted, removed, renamed and retyped variables', function () {
+      const inserted = copy(layout);
+      inserted.storage.splice(3, 0, {
+        label: 'inserted',
+        slot: 3,
+        offset: 0,
+        type: 't_uint256',
+      });
+      inserted.storage.slice(4).forEach(v => v.slot++);
+      const problems = compareStorageLayouts(layout, inserted);
+      expect(problems[0]).to.equal(
+        'supportedTokens: moved from slot 3 (offset 0) to slot 4 (offset 0)'
+      );
+      expect(problems[problems.length - 1]).to.equal(
+        'inserted: added in slot 3, before the end of the previous layout; new variables can only be appended'
+      );
+
+      const removed = copy(layout);
+      removed.storage.pop();
+      expect(compareStorageLayouts(layout, removed)).to.deep.equal([
+        'emergencyExits: removed from slot 17',
+      ]);
+
+      const renamed = copy(layout);
+      renamed.storage.find(v => v.label === 'feeRecipient')!.label = 'treasury';
+      expect(compareStorageLayouts(layout, renamed)).to.deep.equal([
+        'feeRecipient: renamed to treasury in slot 11',
+      ]);
+
+      const retyped = copy(layout);
+      retyped.storage.find(v => v.label === 'feeRecipient')!.type = 't_uint256';
+      expect(compareStorageLayouts(layout, retyped)).to.deep.equal([
+        'feeRecipient: type changed from address to uint256',
+      ]);
+    });
+
+    it('Should allow struct members to be appended only as mapping values', function () {
+      // SupportedToken is a mapping value; TimeLockedStake sits in arrays
+      const next = copy(layout);
+      for (const id of [
+        't_struct(SupportedToken)_storage',
+        't_struct(TimeLockedStake)_storage',
+      ]) {
+        const struct = next.types[id];
+        const last = struct.members![struct.members!.length - 1];
+        struct.members!.push({
+          label: 'added',
+          slot: last.slot + 1,
+          offset: 0,
+          type: 't_uint256',
+        });
+        struct.numberOfBytes += 32;
+      }
+
+      expect(compareStorageLayouts(layout, next)).to.deep.equal([
+        'userPositions[].timeLockedStakes[]: struct PolygonDeFiAggregator.TimeLockedStake changed size; its members can only be appended where it is a mapping value',
+      ]);
+    });
+  });
+
+  describe('Proxy upgrades', function () {
+    let registryPath: string;
+
+    beforeEach(function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-'));
+      registryPath = path.join(dir, 'registry.json');
+    });
+
+    afterEach(function () {
+      fs.rmSync(path.dirname(registryPath), { recursive: true, force: true });
+    });
+
+    /** Deploy a proxied aggregator and record it like the deploy task does */
+    async function deployRecorded(kind: ProxyKind, owner?: string) {
+      const [deployer] = await hre.ethers.getSigners();
+      const storageLayout = await readStorageLayout(hre.artifacts);
+      const proxy = await deployAggregatorProxy(deployer, {
+        kind,
+        storageLayout,
+        owner,
+      });
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      recordDeployment(
+        {
+          chainId,
+          network: 'localhost',
+          contractName: AGGREGATOR_CONTRACT,
+          address: proxy.address,
+          deployer: deployer.address,
+          txHash: proxy.txHash,
+          blockNumber: proxy.blockNumber,
+          constructorArgs: proxy.constructorArgs,
+          deployedAt: new Date().toISOString(),
+          verified: false,
+          proxy: { kind, ...(proxy.admin && { admin: proxy.admin }) },
+          implementations: [proxy.implementation],
+        },
+        registryPath
+      );
+      const deployment = () =>
+        getDeployment(chainId, AGGREGATOR_CONTRACT, registryPath);
+      return { proxy, storageLayout, deployer, chainId, deployment };
+    }
+
+    for (const kind of ['uups', 'transparent'] as const) {
+      it(`Should upgrade a ${kind} proxy after checking the recorded layout`, async function () {
+        const { proxy, storageLayout, deployer, chainId, deployment } =
+          await deployRecorded(kind);
+        const aggregator = connectAggregator(proxy.address, deployer);
+        await aggregator.setFeeRecipient(proxy.implementation.address);
+
+        const plan = await planUpgrade(
+          hre.ethers.provider,
+          deployment(),
+          storageLayout
+        );
+        expect(plan).to.include({
+          kind,
+          current: proxy.implementation.address,
+        });
+        expect(plan.problems).to.deep.equal([]);
+
+        const next = await deployAggregatorImplementation(
+          deployer,
+          storageLayout,
+          kind
+        );
+        recordImplementation(
+          chainId,
+          AGGREGATOR_CONTRACT,
+          proxy.address,
+          next,
+          registryPath
+        );
+        const call = await buildUpgradeCall(
+          hre.ethers.provider,
+          plan,
+          next.address
+        );
+        expect(call).to.include({
+          to: kind === 'uups' ? proxy.address : proxy.admin,
+          from: deployer.address,
+        });
+        await executeUpgrade(deployer, call);
+
+        expect(
+          await getImplementationAddress(hre.ethers.provider, proxy.address)
+        ).to.equal(next.address);
+        expect(await aggregator.feeRecipient()).to.equal(
+          proxy.implementation.address
+        );
+        // The next upgrade is checked against the new implementation
+        expect(
+          (await planUpgrade(hre.ethers.provider, deployment(), storageLayout))
+            .current
+        ).to.equal(next.address);
+      });
+    }
+
+    it('Should name the owner who has to send the upgrade', async function () {
+      const [, alice] = await hre.ethers.getSigners();
+      const { proxy, storageLayout, deployment } = await deployRecorded(
+        'transparent',
+        alice.address
+      );
+      const plan = await planUpgrade(
+        hre.ethers.provider,
+        deployment(),
+        storageLayout
+      );
+
+      const call = await buildUpgradeCall(
+        hre.ethers.provider,
+        plan,
+        proxy.implementation.address
+      );
+      expect(call).to.include({ to: proxy.admin, from: alice.address });
+    });
+
+    it('Should only upgrade a transparent proxy through its ProxyAdmin', async function () {
+      const { proxy, storageLayout, deployer } =
+        await deployRecorded('transparent');
+      const next = await deployAggregatorImplementation(
+        deployer,
+        storageLayout,
+        'transparent'
+      );
+
+      // The owner's calls reach the implementation, which refuses UUPS upgrades
+      await expect(
+        connectAggregator(proxy.address, deployer).upgradeToAndCall(
+          next.address,
+          '0x'
+        )
+      ).to.be.revertedWith('Upgrades go through the ProxyAdmin');
+      expect(
+        await getImplementationAddress(hre.ethers.provider, proxy.address)
+      ).to.equal(proxy.implementation.address);
+
+      const admin = await hre.ethers.getContractAt('ProxyAdmin', proxy.admin!);
+      await admin.upgradeAndCall(proxy.address, next.address, '0x');
+      expect(
+        await getImplementationAddress(hre.ethers.provider, proxy.address)
+      ).to.equal(next.address);
+    });
+
+    it('Should refuse implementations missing from the registry', async function () {
+      const { proxy, storageLayout, deployer, deployment } =
+        await deployRecorded('uups');
+      const unrecorded = await deployAggregatorImplementation(
+        deployer,
+        storageLayout
+      );
+      await connectAggregator(proxy.address, deployer).upgradeToAndCall(
+        unrecorded.address,
+        '0x'
+      );
+
+      let error: Error | undefined;
+      try {
+        await planUpgrade(hre.ethers.provider, deployment(), storageLayout);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal(
+        `Implementation ${unrecorded.address} behind ${proxy.address} is not recorded in the deployment registry, so its storage layout is unknown`
+      );
+    });
+
+    it('Should refuse deployments that are not proxies', async function () {
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const [deployer] = await hre.ethers.getSigners();
+      const storageLayout = await readStorageLayout(hre.artifacts);
+      const direct = await deployAggregatorImplementation(
+        deployer,
+        storageLayout
+      );
+      const deployment = recordDeployment(
+        {
+          chainId,
+          network: 'localhost',
+          contractName: AGGREGATOR_CONTRACT,
+          address: direct.address,
+          deployer: deployer.address,
+          constructorArgs: [],
+          deployedAt: direct.deployedAt,
+          verified: false,
+        },
+        registryPath
+      );
+
+      let error: Error | undefined;
+      try {
+        await planUpgrade(hre.ethers.provider, deployment, storageLayout);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.match(/is not deployed behind a proxy$/);
+      expect(() =>
+        recordImplementation(
+          chainId,
+          AGGREGATOR_CONTRACT,
+          direct.address,
+          direct,
+          registryPath
+        )
+      ).to.throw('is not recorded as a proxy');
+    });
+
+    it('Should validate recorded proxies', function () {
+      expect(() =>
+        validateRegistry({
+          version: 1,
+          chains: {
+            '137': {
+              network: 'polygon',
+              contracts: {
+                PolygonDeFiAggregator: [
+                  {
+                    address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+                    deployer: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+                    constructorArgs: [],
+                    deployedAt: new Date().toISOString(),
+                    verified: false,
+                    proxy: { kind: 'beacon' },
+                    implementations: [{ address: '0x1' }],
+                  },
+                ],
+              },
+            },
+          },
+        })
+      ).to.throw(
+        /proxy.kind must be "uups" or "transparent"[\s\S]*implementations\[0\].address must be an address[\s\S]*implementations\[0\].deployedAt must be an ISO date[\s\S]*implementations\[0\].storageLayout must have storage and types/
+      );
+    });
+  });
+});